@@ -9,6 +9,9 @@ import HomeScreen from './src/screens/HomeScreen';
 import VirtualTryOnScreen from './src/screens/VirtualTryOnScreen';
 import GalleryScreen from './src/screens/GalleryScreen';
 import DesignCaptureScreen from './src/screens/DesignCaptureScreen';
+import ServerSettingsScreen from './src/screens/ServerSettingsScreen';
+import BatchQueueScreen from './src/screens/BatchQueueScreen';
+import { BatchQueue } from './src/utils/batchQueue';
 
 // Try to import splash screen, fallback if not available
 let SplashScreen: any;
@@ -35,6 +38,9 @@ const App = () => {
         // Skip font loading for now to avoid crashes
         setFontsLoaded(true);
 
+        // Pick up batch jobs left over from the last session
+        BatchQueue.restore().catch(error => console.warn('Error restoring batch queue:', error));
+
         // Simulate any other async operations
         await new Promise(resolve => setTimeout(resolve, 500));
       } catch (e) {
@@ -77,6 +83,8 @@ const App = () => {
           <Stack.Screen name="VirtualTryOn" component={VirtualTryOnScreen} />
           <Stack.Screen name="Gallery" component={GalleryScreen} />
           <Stack.Screen name="DesignCapture" component={DesignCaptureScreen} />
+          <Stack.Screen name="ServerSettings" component={ServerSettingsScreen} />
+          <Stack.Screen name="BatchQueue" component={BatchQueueScreen} />
         </Stack.Navigator>
       </NavigationContainer>
       <StatusBar style="light" />
@@ -15,6 +15,10 @@ Requirements:
 Usage:
     python scripts/start_cpu_server.py --model 1b
     python scripts/start_cpu_server.py --model 8b --port 8001
+
+The server listens on all interfaces so a phone on the same Wi-Fi can reach it.
+Enter the printed LAN address in the app's Server Settings (or tap "Discover").
+Use --host localhost to keep it private to this machine.
 """
 
 import argparse
@@ -22,14 +26,16 @@ import base64
 import io
 import json
 import logging
+import socket
 import time
-from typing import Optional
+from threading import Thread
+from typing import Iterator, Optional, Tuple
 
 try:
     import torch
-    from transformers import AutoModelForCausalLM, AutoProcessor
+    from transformers import AutoModelForCausalLM, AutoProcessor, TextIteratorStreamer
     from PIL import Image
-    from flask import Flask, request, jsonify
+    from flask import Flask, Response, request, jsonify, stream_with_context
     HAS_DEPENDENCIES = True
 except ImportError as e:
     print(f"❌ Missing dependencies: {e}")
@@ -81,24 +87,27 @@ class StarVectorCPUServer:
             logger.error(f"❌ Failed to load model: {e}")
             return False
     
+    def prepare_batch(self, image_base64: str) -> dict:
+        """Decode a base64 image into the model's input batch."""
+        image_data = base64.b64decode(image_base64)
+        image = Image.open(io.BytesIO(image_data))
+        
+        # Process image
+        inputs = self.processor(image, return_tensors="pt")
+        pixel_values = inputs['pixel_values']
+        
+        if pixel_values.shape[0] != 1:
+            pixel_values = pixel_values.squeeze(0)
+        
+        return {"image": pixel_values}
+    
     def generate_svg(self, image_base64: str, max_tokens: int = 2048, temperature: float = 0.1) -> Optional[str]:
         """Generate SVG from base64 image."""
         try:
             logger.info("🎨 Generating SVG from image...")
             start_time = time.time()
             
-            # Decode base64 image
-            image_data = base64.b64decode(image_base64)
-            image = Image.open(io.BytesIO(image_data))
-            
-            # Process image
-            inputs = self.processor(image, return_tensors="pt")
-            pixel_values = inputs['pixel_values']
-            
-            if pixel_values.shape[0] != 1:
-                pixel_values = pixel_values.squeeze(0)
-            
-            batch = {"image": pixel_values}
+            batch = self.prepare_batch(image_base64)
             
             # Generate SVG (CPU inference will be slow)
             logger.info("⏳ Generating SVG... (this may take 30-120 seconds on CPU)")
@@ -119,6 +128,55 @@ class StarVectorCPUServer:
         except Exception as e:
             logger.error(f"❌ SVG generation failed: {e}")
             return None
+    
+    def stream_svg(self, image_base64: str, max_tokens: int = 2048, temperature: float = 0.1) -> Iterator[Tuple[str, str]]:
+        """Generate SVG from base64 image, yielding ("token", text) as it is decoded and then ("done", svg_code)."""
+        logger.info("🎨 Streaming SVG from image...")
+        start_time = time.time()
+        
+        batch = self.prepare_batch(image_base64)
+        tokenizer = getattr(self.processor, "tokenizer", None) or getattr(
+            getattr(self.model.model, "svg_transformer", None), "tokenizer", None)
+        
+        if tokenizer is None:
+            # No tokenizer to decode partial output with; send the whole result at the end
+            logger.info("⚠️ Tokenizer not found, streaming the finished SVG only")
+            svg_code = self.generate_svg(image_base64, max_tokens, temperature)
+            if svg_code is None:
+                raise RuntimeError("SVG generation failed")
+            yield "done", svg_code
+            return
+        
+        streamer = TextIteratorStreamer(tokenizer, skip_prompt=True, skip_special_tokens=True)
+        result = {}
+        
+        def run():
+            try:
+                with torch.no_grad():
+                    result["svg_code"] = self.model.generate_im2svg(
+                        batch,
+                        max_length=max_tokens,
+                        temperature=temperature,
+                        do_sample=True,
+                        streamer=streamer,
+                    )[0]
+            except Exception as e:
+                result["error"] = str(e)
+                streamer.end()
+        
+        # generate() blocks, so run it on a worker thread and relay tokens as they are decoded
+        worker = Thread(target=run, daemon=True)
+        worker.start()
+        for text in streamer:
+            if text:
+                yield "token", text
+        worker.join()
+        
+        if "error" in result:
+            raise RuntimeError(result["error"])
+        
+        logger.info(f"✅ SVG streamed in {time.time() - start_time:.1f}s")
+        yield "done", result["svg_code"]
 
 # Flask app
 app = Flask(__name__)
@@ -166,6 +224,48 @@ def generate_svg():
         logger.error(f"❌ Request failed: {e}")
         return jsonify({"error": str(e)}), 500
 
+def sse(payload: dict, event: Optional[str] = None) -> str:
+    """Format one server-sent event."""
+    prefix = f"event: {event}\n" if event else ""
+    return f"{prefix}data: {json.dumps(payload)}\n\n"
+
+@app.route('/generate_stream', methods=['POST'])
+def generate_svg_stream():
+    """Generate SVG from image, sending tokens as server-sent events.
+
+    Each token arrives as `data: {"token": ...}`; the run ends with an `event: done`
+    carrying the full svg_code, or an `event: error`.
+    """
+    global server
+    
+    if not server or not server.model:
+        return jsonify({"error": "Model not loaded"}), 503
+    
+    data = request.json or {}
+    image_base64 = data.get('image')
+    max_tokens = data.get('max_tokens', 2048)
+    temperature = data.get('temperature', 0.1)
+    
+    if not image_base64:
+        return jsonify({"error": "No image provided"}), 400
+    
+    def events():
+        try:
+            for kind, text in server.stream_svg(image_base64, max_tokens, temperature):
+                if kind == "token":
+                    yield sse({"token": text})
+                else:
+                    yield sse({"svg_code": text, "model": server.model_name, "device": server.device}, event="done")
+        except Exception as e:
+            logger.error(f"❌ Streaming failed: {e}")
+            yield sse({"error": str(e)}, event="error")
+    
+    return Response(
+        stream_with_context(events()),
+        mimetype="text/event-stream",
+        headers={"Cache-Control": "no-cache", "X-Accel-Buffering": "no"},
+    )
+
 @app.route('/info', methods=['GET'])
 def model_info():
     """Get model information."""
@@ -173,12 +273,24 @@ def model_info():
     if server:
         return jsonify({
             "model": server.model_name,
+            "model_size": server.model_size,
             "device": server.device,
             "loaded": server.model is not None,
+            "streaming": True,
         }), 200
     else:
         return jsonify({"error": "Server not initialized"}), 503
 
+def lan_address() -> str:
+    """Best guess at this machine's LAN IP (the address phones should use)."""
+    try:
+        # No packets are sent; connecting a UDP socket just selects the outbound interface
+        with socket.socket(socket.AF_INET, socket.SOCK_DGRAM) as probe:
+            probe.connect(("10.255.255.255", 1))
+            return probe.getsockname()[0]
+    except OSError:
+        return "localhost"
+
 def main():
     """Main function."""
     global server
@@ -192,8 +304,8 @@ def main():
                        help='Model size (1b for faster, 8b for better quality)')
     parser.add_argument('--port', type=int, default=8000, 
                        help='Server port (default: 8000)')
-    parser.add_argument('--host', default='localhost', 
-                       help='Server host (default: localhost)')
+    parser.add_argument('--host', default='0.0.0.0', 
+                       help='Server host (default: 0.0.0.0, reachable from devices on the LAN)')
     
     args = parser.parse_args()
     
@@ -209,7 +321,7 @@ def main():
     
     print(f"\n🚀 Starting StarVector CPU server...")
     print(f"📊 Model: starvector-{args.model}-im2svg")
-    print(f"🌐 URL: http://{args.host}:{args.port}")
+    print(f"🌐 Listening on: {args.host}:{args.port}")
     print(f"⚠️  CPU inference is slow but works for testing")
     
     # Initialize server
@@ -220,11 +332,14 @@ def main():
         print("❌ Failed to load model. Exiting.")
         return
     
+    public_host = lan_address() if args.host == '0.0.0.0' else args.host
+
     print(f"\n✅ Server ready!")
-    print(f"🔗 Health check: http://{args.host}:{args.port}/health")
-    print(f"📋 Model info: http://{args.host}:{args.port}/info")
-    print(f"🎨 Generate SVG: POST to http://{args.host}:{args.port}/generate")
-    print(f"\n📱 Your tattoo app can now use local StarVector!")
+    print(f"🔗 Health check: http://{public_host}:{args.port}/health")
+    print(f"📋 Model info: http://{public_host}:{args.port}/info")
+    print(f"🎨 Generate SVG: POST to http://{public_host}:{args.port}/generate")
+    print(f"📡 Stream SVG: POST to http://{public_host}:{args.port}/generate_stream")
+    print(f"\n📱 In the app's Server Settings use host {public_host}, port {args.port}")
     
     # Start Flask server
     try:
@@ -0,0 +1,143 @@
+import React, { useRef, useState } from 'react';
+import { View, Text, StyleSheet, PanResponder } from 'react-native';
+import { AdjustmentSliderProps } from '../types';
+import { COLORS, FONT } from '../constants/theme';
+
+const THUMB_SIZE = 24;
+
+const AdjustmentSlider: React.FC<AdjustmentSliderProps> = ({
+  label,
+  value,
+  minimumValue,
+  maximumValue,
+  step = 1,
+  onValueChange,
+  onSlidingComplete,
+}) => {
+  const [trackWidth, setTrackWidth] = useState(0);
+
+  // Refs keep the pan responder (created once) reading the latest props
+  const trackWidthRef = useRef(0);
+  const valueRef = useRef(value);
+  const startValueRef = useRef(value);
+  const onValueChangeRef = useRef(onValueChange);
+  const onSlidingCompleteRef = useRef(onSlidingComplete);
+  valueRef.current = value;
+  onValueChangeRef.current = onValueChange;
+  onSlidingCompleteRef.current = onSlidingComplete;
+
+  const range = maximumValue - minimumValue;
+
+  const snap = (raw: number) => {
+    const stepped = Math.round((raw - minimumValue) / step) * step + minimumValue;
+    return Math.max(minimumValue, Math.min(maximumValue, stepped));
+  };
+
+  const update = (next: number) => {
+    if (next !== valueRef.current) {
+      valueRef.current = next;
+      onValueChangeRef.current(next);
+    }
+  };
+
+  const panResponder = useRef(PanResponder.create({
+    onStartShouldSetPanResponder: () => true,
+    onMoveShouldSetPanResponder: () => true,
+    onPanResponderTerminationRequest: () => false, // Don't let the parent ScrollView steal the drag
+    onPanResponderGrant: (event) => {
+      // Jump the thumb to wherever the track was touched
+      const width = trackWidthRef.current;
+      if (width > 0) {
+        const ratio = event.nativeEvent.locationX / width;
+        update(snap(minimumValue + ratio * range));
+      }
+      startValueRef.current = valueRef.current;
+    },
+    onPanResponderMove: (_, gestureState) => {
+      const width = trackWidthRef.current;
+      if (width <= 0) return;
+      update(snap(startValueRef.current + (gestureState.dx / width) * range));
+    },
+    onPanResponderRelease: () => {
+      onSlidingCompleteRef.current?.(valueRef.current);
+    },
+  })).current;
+
+  const ratio = range > 0 ? (value - minimumValue) / range : 0;
+  const thumbLeft = ratio * trackWidth - THUMB_SIZE / 2;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.labelRow}>
+        <Text style={styles.label}>{label}</Text>
+        <Text style={styles.value}>{minimumValue < 0 && value > 0 ? `+${value}` : value}</Text>
+      </View>
+      <View
+        style={styles.touchArea}
+        onLayout={(event) => {
+          trackWidthRef.current = event.nativeEvent.layout.width;
+          setTrackWidth(event.nativeEvent.layout.width);
+        }}
+        {...panResponder.panHandlers}
+      >
+        {/* Children ignore touches so locationX is always relative to the track */}
+        <View style={styles.track} pointerEvents="none" />
+        <View style={[styles.fill, { width: ratio * trackWidth }]} pointerEvents="none" />
+        <View style={[styles.thumb, { left: thumbLeft }]} pointerEvents="none" />
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    paddingVertical: 8,
+  },
+  labelRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 6,
+  },
+  label: {
+    fontSize: 16,
+    fontFamily: FONT.regular,
+    color: COLORS.darkGray,
+  },
+  value: {
+    fontSize: 14,
+    fontFamily: FONT.medium,
+    color: COLORS.primary,
+  },
+  touchArea: {
+    height: THUMB_SIZE + 8,
+    justifyContent: 'center',
+  },
+  track: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: COLORS.gray,
+  },
+  fill: {
+    position: 'absolute',
+    left: 0,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: COLORS.primary,
+  },
+  thumb: {
+    position: 'absolute',
+    width: THUMB_SIZE,
+    height: THUMB_SIZE,
+    borderRadius: THUMB_SIZE / 2,
+    backgroundColor: COLORS.primary,
+    borderWidth: 3,
+    borderColor: COLORS.white,
+    elevation: 3,
+    shadowColor: COLORS.black,
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.3,
+    shadowRadius: 2,
+  },
+});
+
+export default AdjustmentSlider;
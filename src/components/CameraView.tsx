@@ -1,6 +1,6 @@
 import React, { useState, useRef } from 'react';
 import { View, StyleSheet, Alert, TouchableOpacity, Text, Dimensions, Platform, Image } from 'react-native';
-import { SvgUri } from 'react-native-svg';
+import DesignRenderer from './DesignRenderer';
 import { CameraViewProps, TattooPosition } from '../types';
 import { COLORS, SIZES, FONT } from '../constants/theme';
 
@@ -352,19 +352,12 @@ const CameraWithTattoo: React.FC<CameraViewProps> = ({
               }
             ]}
           >
-            {design.isUserGenerated ? (
-              <Image
-                source={{ uri: design.uri }}
-                style={styles.tattooImage}
-              />
-            ) : (
-              <SvgUri
-                uri={design.uri}
-                width={100}
-                height={100}
-                style={styles.tattooSvg}
-              />
-            )}
+            <DesignRenderer
+              design={design}
+              width={100}
+              height={100}
+              style={styles.tattooSvg}
+            />
           </View>
         )}
       </View>
@@ -375,25 +368,12 @@ const CameraWithTattoo: React.FC<CameraViewProps> = ({
         style={styles.hiddenSvgContainer}
         collapsable={false}
       >
-        {design.isUserGenerated ? (
-          <Image
-            source={{ uri: design.uri }}
-            style={[
-              styles.hiddenImage,
-              {
-                width: 100 * tattooPosition.scale,
-                height: 100 * tattooPosition.scale,
-              }
-            ]}
-          />
-        ) : (
-          <SvgUri
-            uri={design.uri}
-            width={100 * tattooPosition.scale}
-            height={100 * tattooPosition.scale}
-            style={styles.hiddenSvg}
-          />
-        )}
+        <DesignRenderer
+          design={design}
+          width={100 * tattooPosition.scale}
+          height={100 * tattooPosition.scale}
+          style={styles.hiddenSvg}
+        />
       </View>
 
       {/* Composite view for final image with overlay - positioned offscreen */}
@@ -423,19 +403,12 @@ const CameraWithTattoo: React.FC<CameraViewProps> = ({
               }
             ]}
           >
-            {design.isUserGenerated ? (
-              <Image
-                source={{ uri: design.uri }}
-                style={styles.compositeTattooImage}
-              />
-            ) : (
-              <SvgUri
-                uri={design.uri}
-                width={100}
-                height={100}
-                style={styles.compositeTattooSvg}
-              />
-            )}
+            <DesignRenderer
+              design={design}
+              width={100}
+              height={100}
+              style={styles.compositeTattooSvg}
+            />
           </View>
         </View>
       )}
@@ -543,19 +516,6 @@ const styles = StyleSheet.create({
   tattooSvg: {
     opacity: 0.8,
   },
-  tattooImage: {
-    width: 100,
-    height: 100,
-    opacity: 0.8,
-  },
-  hiddenImage: {
-    opacity: 0,
-  },
-  compositeTattooImage: {
-    width: 100,
-    height: 100,
-    opacity: 0.8,
-  },
   overlayControls: {
     position: 'absolute',
     top: 0,
@@ -0,0 +1,123 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Image, View } from 'react-native';
+import { SvgXml } from 'react-native-svg';
+import { Design, DesignFormat, DesignRendererProps } from '../types';
+import { SvgSanitizer } from '../utils/svgSanitizer';
+
+// Sanitized markup of remote SVGs, keyed by URI (null when the file was rejected)
+const remoteSvgCache = new Map<string, string | null>();
+
+const loadRemoteSvg = async (uri: string): Promise<string | null> => {
+  if (remoteSvgCache.has(uri)) return remoteSvgCache.get(uri)!;
+
+  const response = await fetch(uri);
+  if (!response.ok) throw new Error(`Failed to load SVG (${response.status})`);
+
+  const result = SvgSanitizer.sanitize(await response.text());
+  if (!result.success) {
+    console.warn('Rejected SVG from', uri, result.errors[0]?.message);
+  }
+
+  const markup = result.svgCode ?? null;
+  remoteSvgCache.set(uri, markup);
+  return markup;
+};
+
+// Inline source may predate the sanitizer or come from a path that skipped it
+const sanitizeInlineSvg = (svgCode: string): string | null => {
+  const result = SvgSanitizer.sanitize(svgCode);
+  if (!result.success) {
+    console.warn('Rejected inline SVG, showing the PNG instead:', result.errors[0]?.message);
+  }
+  return result.svgCode ?? null;
+};
+
+/**
+ * Work out how a design is stored: inline SVG source and .svg URIs render as vectors,
+ * anything else (captured or processed photos) as a raster image
+ */
+export const getDesignFormat = (design: Design): DesignFormat => {
+  if (design.svgCode) return 'svg';
+  if (design.format) return design.format;
+  if (/\.svg(\?|$)/i.test(design.uri)) return 'svg';
+  return design.isUserGenerated ? 'png' : 'svg';
+};
+
+const DesignRenderer: React.FC<DesignRendererProps> = ({
+  design,
+  width,
+  height,
+  style,
+  onError,
+}) => {
+  const isRemoteSvg = !design.svgCode && getDesignFormat(design) === 'svg';
+  const inlineXml = useMemo(
+    () => (design.svgCode ? sanitizeInlineSvg(design.svgCode) : null),
+    [design.svgCode]
+  );
+  const [remoteXml, setRemoteXml] = useState<string | null>(null);
+
+  // Remote SVGs go through the sanitizer too, so render their text rather than the URI
+  useEffect(() => {
+    if (!isRemoteSvg) return;
+
+    let cancelled = false;
+    setRemoteXml(null);
+    loadRemoteSvg(design.uri)
+      .then(markup => {
+        if (cancelled) return;
+        if (markup) {
+          setRemoteXml(markup);
+        } else {
+          onError?.();
+        }
+      })
+      .catch(() => {
+        if (!cancelled) onError?.();
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [design.uri, isRemoteSvg]);
+
+  // Vectors stay resolution-independent all the way to the try-on composite
+  if (inlineXml) {
+    return (
+      <SvgXml
+        xml={inlineXml}
+        width={width}
+        height={height}
+        style={style}
+        onError={onError}
+      />
+    );
+  }
+
+  if (isRemoteSvg) {
+    if (!remoteXml) {
+      return <View style={[{ width, height }, style]} />;
+    }
+    return (
+      <SvgXml
+        xml={remoteXml}
+        width={width}
+        height={height}
+        style={style}
+        onError={onError}
+      />
+    );
+  }
+
+  // Raster designs, and SVG designs whose source was rejected, show the PNG
+  return (
+    <Image
+      source={{ uri: design.uri }}
+      style={[{ width, height }, style]}
+      resizeMode="contain"
+      onError={onError}
+    />
+  );
+};
+
+export default DesignRenderer;
@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { ProcessingTimelineProps } from '../types';
+import { COLORS, FONT } from '../constants/theme';
+import { ProcessingStep, ProcessingTrace, StepOutcome } from '../utils/processingTrace';
+
+const OUTCOME_COLORS: Record<StepOutcome, string> = {
+  success: '#43A047',
+  skipped: COLORS.gray,
+  failed: '#E53935',
+  flagged: '#FB8C00',
+  cancelled: COLORS.darkGray,
+};
+
+const formatMs = (ms: number) => (ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`);
+
+// Last path segment is enough to tell temp files apart
+const fileName = (uri: string) => uri.split('/').pop() || uri;
+
+const ProcessingTimeline: React.FC<ProcessingTimelineProps> = ({ steps }) => {
+  const [expanded, setExpanded] = useState<number | null>(null);
+
+  if (steps.length === 0) return null;
+
+  const runStart = Math.min(...steps.map(step => step.startedAt));
+  const runEnd = Math.max(...steps.map(step => step.endedAt));
+
+  const renderDetails = (step: ProcessingStep) => (
+    <View style={styles.details}>
+      {step.provider && <Text style={styles.detailText}>Provider: {step.provider}</Text>}
+      {step.inputUri && <Text style={styles.detailText}>Input: {fileName(step.inputUri)}</Text>}
+      {step.outputUri && <Text style={styles.detailText}>Output: {fileName(step.outputUri)}</Text>}
+      {step.parameters && Object.keys(step.parameters).length > 0 && (
+        <Text style={styles.detailText}>Parameters: {JSON.stringify(step.parameters)}</Text>
+      )}
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.summary}>
+        {steps.length} steps in {formatMs(runEnd - runStart)}
+      </Text>
+
+      {steps.map((step, index) => (
+        <TouchableOpacity
+          key={`${step.id}-${index}`}
+          style={styles.row}
+          onPress={() => setExpanded(expanded === index ? null : index)}
+        >
+          <View style={[styles.dot, { backgroundColor: OUTCOME_COLORS[step.outcome] }]} />
+          <View style={styles.body}>
+            <Text style={styles.label}>
+              {step.label}
+            </Text>
+            <Text style={styles.meta}>
+              +{formatMs(step.startedAt - runStart)} · {formatMs(ProcessingTrace.durationMs(step))} · {step.id} · {step.outcome}
+            </Text>
+            {step.error && (
+              <Text style={[styles.error, { color: OUTCOME_COLORS[step.outcome] }]}>{step.error}</Text>
+            )}
+            {expanded === index && renderDetails(step)}
+          </View>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 10,
+  },
+  summary: {
+    fontSize: 12,
+    fontFamily: FONT.medium,
+    color: COLORS.darkGray,
+    marginBottom: 6,
+  },
+  row: {
+    flexDirection: 'row',
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.white,
+  },
+  dot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginTop: 4,
+    marginRight: 8,
+  },
+  body: {
+    flex: 1,
+  },
+  label: {
+    fontSize: 13,
+    fontFamily: FONT.medium,
+    color: COLORS.black,
+  },
+  meta: {
+    fontSize: 11,
+    fontFamily: FONT.regular,
+    color: COLORS.gray,
+  },
+  error: {
+    fontSize: 12,
+    fontFamily: FONT.regular,
+  },
+  details: {
+    marginTop: 4,
+  },
+  detailText: {
+    fontSize: 11,
+    fontFamily: FONT.regular,
+    color: COLORS.darkGray,
+  },
+});
+
+export default ProcessingTimeline;
@@ -85,6 +85,169 @@ export const AI_PROCESSING_DEFAULTS = {
     starVectorModel: '1b' as '1b' | '8b',
     fallbackToLocal: true,      // Use local processing if StarVector fails
     useCPUMode: false,          // Enable for local CPU testing (see CPU_SETUP_GUIDE.md)
+    providerOrder: ['starvector-local', 'huggingface', 'local-tracer'] as string[], // Vectorizers tried in order
+    useCache: true,             // Reuse results for the same image and options
+    candidates: 1,              // Designs to generate and rank; 1 = first successful vectorizer only
+};
+
+// Edge detection defaults for the "Enhance Edges" option
+export const EDGE_DETECTION_DEFAULTS = {
+    algorithm: 'canny' as 'sobel' | 'canny',
+    lowThreshold: 20,           // Weak edges kept only when touching strong ones
+    highThreshold: 50,          // Strong edge cutoff (0-255 gradient scale)
+    blurSigma: 1.4,             // Smooths paper texture before detection
+    lineThickness: 2,           // Output outline width in pixels
+};
+
+// Line art defaults for the "Convert to Line Art" option
+export const LINE_ART_DEFAULTS = {
+    method: 'sauvola' as 'sauvola' | 'mean',
+    windowSize: 0,              // Local threshold window in pixels (0 = auto, ~1/16 of the shorter side)
+    sensitivity: 0.2,           // Sauvola k; for 'mean' the offset below the local mean is sensitivity * 50
+    blurSigma: 1,               // Smooths pencil grain before thresholding
+    minSpeckleArea: 12,         // Ink blobs and pinholes smaller than this (pixels) are removed
+    thinLines: false,           // Reduce strokes to single-pixel skeletons (Zhang-Suen)
+};
+
+// Local background removal defaults (used when no remove.bg / ClipDrop key is set)
+export const BACKGROUND_REMOVAL_DEFAULTS = {
+    tolerance: 48,              // Max RGB distance from the estimated paper color
+    stepTolerance: 14,          // Max color step between neighbours while flood-filling (follows lighting gradients)
+    removeEnclosed: true,       // Also clear paper showing through closed shapes (inside letters, rings)
+    minEnclosedArea: 30,        // Smallest enclosed paper region cleared, in pixels
+    feather: 1,                 // Gaussian sigma (pixels) used to soften the cut-out edge; 0 = hard edge
+};
+
+// Smart crop defaults: frame the inked content instead of a fixed margin
+export const SMART_CROP_DEFAULTS = {
+    padding: 0.06,              // Margin around the content, as a fraction of its larger side
+    aspect: 'content' as 'content' | 'square' | 'original',
+    saliencyWeighting: true,    // Favour high-contrast detail near the centre over stray marks at the edges
+    trimFraction: 0.01,         // Ink mass ignored at each side of the box (drops specks and shadows)
+    inkThreshold: 40,           // Min darkness vs. the paper (0-255) for a pixel to count as ink
+    analysisWidth: 512,         // Width of the downscaled copy used to find the box
+};
+
+// Flash sheet splitting: find each separate design on a photo of a whole sheet
+export const FLASH_SHEET_DEFAULTS = {
+    analysisWidth: 512,
+    sensitivity: 0.2,           // Sauvola k for the ink mask; higher drops faint pencil
+    mergeDistance: 0.03,        // Ink closer than this (fraction of the width) is one design
+    minAreaFraction: 0.004,     // Smaller boxes are specks, signatures or prices
+    maxSpan: 0.95,              // Boxes spanning more of either side are paper edges or shadows
+    padding: 0.05,              // Margin around each design, as a fraction of its larger side
+    maxRegions: 24,
+};
+
+// Paper detection for the perspective crop
+export const PAPER_DETECTION_DEFAULTS = {
+    analysisWidth: 256,
+    minAreaFraction: 0.15,      // Smaller bright regions are not the page
+    minEdgeSupport: 0.6,        // Share of the outline that must follow a real edge
+};
+
+// Perspective correction (flattening a page photographed at an angle)
+export const PERSPECTIVE_WARP_DEFAULTS = {
+    maxSourceWidth: 1600,       // Photo is decoded at most this wide; warping runs in JS
+    maxOutputSize: 1600,        // Longest side of the flattened image
+};
+
+// One-tap scan cleanup of a photographed sketch: even lighting, white paper
+export const SCAN_CLEANUP_DEFAULTS = {
+    maxWidth: 1600,
+    blockSize: 0.06,            // Lighting is sampled in blocks this size (fraction of the longer side)
+    paperPercentile: 0.9,       // Ink covers less than this share of most blocks
+    whitePoint: 0.9,            // Paper texture and faint smudges at or above this brightness turn white
+    blackPercentile: 0.05,      // The darkest 5% of the ink becomes pure black
+    grayscale: false,           // Keep coloured ink (e.g. red linework) by default
+};
+
+// SVG rendering defaults (previews and saved design PNGs)
+export const SVG_RENDER_DEFAULTS = {
+    size: 512,                  // Output width in pixels when none is requested
+    background: 'transparent',  // Keep real alpha so designs overlay cleanly on skin
+    samples: 4,                 // Anti-aliasing sub-rows per pixel row
+};
+
+// Tattoo SVG optimization defaults (line weight and detail limits at the printed size)
+export const SVG_OPTIMIZE_DEFAULTS = {
+    targetWidthMm: 80,          // Design width on skin
+    minLineWeightMm: 0.35,      // Roughly a 3RL needle line; thinner strokes are widened
+    minDetailMm: 0.5,           // Shapes smaller than this blur out as the ink spreads
+    duplicateToleranceMm: 0.2,  // Paths this close with the same paint are merged
+    inkColor: '#000000' as string | null, // Dark paints become black ink; null keeps colors
+};
+
+// Path simplification defaults (node reduction for generated and traced SVGs)
+export const PATH_SIMPLIFY_DEFAULTS = {
+    tolerance: 0.001,           // Max deviation as a fraction of the drawing size (~0.5px at 512px); 0 = off
+    cornerAngle: 50,            // Turns sharper than this (degrees) stay as corners
+    fitCurves: true,            // Replace runs of short segments with fitted cubic Béziers
+    precision: 2,               // Decimals kept in path data
+};
+
+// Local inference server (scripts/start_cpu_server.py); editable in Server Settings
+export const INFERENCE_SERVER_DEFAULTS = {
+    host: 'localhost',          // On a phone, use the dev machine's LAN IP (or run discovery)
+    port: 8000,
+    healthTimeoutMs: 2000,      // Health, info and discovery probes
+    generateTimeoutMs: 120000,  // CPU inference takes 30s-5min
+    discoveryHosts: [] as string[], // Extra "host" or "host:port" candidates to probe
+};
+
+// Result cache for repeat runs on the same image and options
+export const RESULT_CACHE_DEFAULTS = {
+    maxEntries: 40,
+    maxBytes: 50 * 1024 * 1024, // Least recently used results are evicted beyond either limit
+};
+
+// Fidelity check of generated SVGs against the input image
+export const FIDELITY_DEFAULTS = {
+    analysisWidth: 256,         // Comparison resolution
+    minScore: 0.4,              // Designs scoring lower are flagged as not matching the input
+    weights: { iou: 0.4, ssim: 0.3, chamfer: 0.3 },
+    chamferTolerance: 0.05,     // Mean edge distance (fraction of the diagonal) that scores 0
+};
+
+// Multi-candidate generation and ranking
+export const CANDIDATE_DEFAULTS = {
+    maxCandidates: 6,
+    temperatures: [0.1, 0.4, 0.7], // Sampling temperatures tried with model providers
+    tracerVariants: [
+        { label: 'Default', tracing: {} },
+        { label: 'Sharp corners', tracing: { alphaMax: 0.5 } },
+        { label: 'Clean', tracing: { turdSize: 10 } },
+        { label: 'Smooth', tracing: { alphaMax: 1.2 } },
+    ],
+    maxAnalysisWidth: 640,      // Scoring raster width; the minimum line weight is ~2px at this size
+    scoring: {
+        weights: { similarity: 0.6, simplicity: 0.2, lineWeight: 0.2 }, // similarity = fidelity score
+        targetNodes: 400,       // Node count that scores 0.5 for simplicity
+    },
+};
+
+// Batch processing queue
+export const BATCH_QUEUE_DEFAULTS = {
+    concurrency: 1,             // Jobs run at once; CPU inference is too heavy to run side by side
+    maxAttempts: 3,             // Restarts that may interrupt a job before it is marked failed
+};
+
+// Retry, backoff and circuit breaker settings for remote calls
+// (per-attempt timeout and retry count default to AI_PERFORMANCE.timeoutMs / retryAttempts)
+export const REQUEST_RETRY_DEFAULTS = {
+    baseDelayMs: 1000,          // First backoff; doubles each retry, with jitter
+    maxDelayMs: 15000,
+    maxRetryWaitMs: 60000,      // Longest Retry-After or "model loading" wait worth sitting through
+    failureThreshold: 3,        // Consecutive failed calls before a provider is skipped
+    cooldownMs: 5 * 60 * 1000,  // How long a failing provider is skipped
+};
+
+// Per-provider overrides of the request policy
+export const PROVIDER_REQUEST_POLICIES: { [provider: string]: { timeoutMs?: number; retryAttempts?: number } } = {
+    'starvector-local': { retryAttempts: 1 },  // Timeout comes from Server Settings
+    'huggingface': { timeoutMs: 120000 },
+    'remove-bg': { timeoutMs: 30000 },
+    'clipdrop': { timeoutMs: 30000 },
 };
 
 // Performance settings
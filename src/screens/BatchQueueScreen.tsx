@@ -0,0 +1,303 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Image, Alert } from 'react-native';
+import Header from '../components/Header';
+import CustomButton from '../components/CustomButton';
+import { NavigationProps } from '../types';
+import { COLORS, FONT, SIZES } from '../constants/theme';
+import { BatchJob, BatchJobStatus, BatchQueue } from '../utils/batchQueue';
+import { ProcessingSettings } from '../utils/processingSettings';
+
+// Try to import the media library for picking several photos at once
+let MediaLibrary: any;
+try {
+  MediaLibrary = require('expo-media-library');
+} catch (error) {
+  console.log('MediaLibrary not available, photos can only be added from the capture screen');
+}
+
+interface LibraryPhoto {
+  id: string;
+  uri: string;
+}
+
+const LIBRARY_PAGE_SIZE = 60;
+
+const STATUS_COLORS: Record<BatchJobStatus, string> = {
+  queued: COLORS.gray,
+  processing: COLORS.primary,
+  done: '#43A047',
+  failed: '#E53935',
+  cancelled: COLORS.darkGray,
+};
+
+const formatElapsed = (job: BatchJob) => {
+  if (!job.startedAt) return '';
+  const seconds = Math.round(((job.finishedAt ?? Date.now()) - job.startedAt) / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+const BatchQueueScreen: React.FC<NavigationProps> = ({ navigation }) => {
+  const [jobs, setJobs] = useState<BatchJob[]>([]);
+  const [library, setLibrary] = useState<LibraryPhoto[] | null>(null);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => BatchQueue.subscribe(setJobs), []);
+
+  const openLibrary = async () => {
+    if (!MediaLibrary) {
+      Alert.alert('Not Available', 'The photo library is not available on this device.');
+      return;
+    }
+
+    const { status } = await MediaLibrary.requestPermissionsAsync();
+    if (status !== 'granted') {
+      Alert.alert('Permission Needed', 'Allow photo library access to add photos to the batch.');
+      return;
+    }
+
+    const page = await MediaLibrary.getAssetsAsync({
+      first: LIBRARY_PAGE_SIZE,
+      mediaType: MediaLibrary.MediaType.photo,
+      sortBy: [[MediaLibrary.SortBy.creationTime, false]],
+    });
+    setLibrary(page.assets.map((asset: any) => ({ id: asset.id, uri: asset.uri })));
+    setSelected([]);
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => (prev.includes(id) ? prev.filter(item => item !== id) : [...prev, id]));
+  };
+
+  const addSelected = async () => {
+    if (!library || selected.length === 0) return;
+
+    setBusy(true);
+    try {
+      // ph:// and content:// URIs can't be read by the image pipeline; resolve the local files
+      const uris: string[] = [];
+      for (const id of selected) {
+        const info = await MediaLibrary.getAssetInfoAsync(id);
+        uris.push(info.localUri || info.uri);
+      }
+      // Same options as the capture screen, so library photos come out like captured ones
+      await BatchQueue.enqueue(uris, await ProcessingSettings.load());
+      setLibrary(null);
+      setSelected([]);
+    } catch (error) {
+      console.error('Failed to queue photos:', error);
+      Alert.alert('Error', 'Failed to add photos to the batch.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const confirmRemove = (job: BatchJob) => {
+    Alert.alert('Remove Job', `Remove "${job.name}" from the queue?`, [
+      { text: 'Keep', style: 'cancel' },
+      { text: 'Remove', style: 'destructive', onPress: () => BatchQueue.remove(job.id) },
+    ]);
+  };
+
+  const renderActions = (job: BatchJob) => (
+    <View style={styles.actions}>
+      {(job.status === 'queued' || job.status === 'processing') && (
+        <TouchableOpacity onPress={() => BatchQueue.cancel(job.id)}>
+          <Text style={styles.action}>Cancel</Text>
+        </TouchableOpacity>
+      )}
+      {(job.status === 'failed' || job.status === 'cancelled') && (
+        <TouchableOpacity onPress={() => BatchQueue.retry(job.id)}>
+          <Text style={styles.action}>Retry</Text>
+        </TouchableOpacity>
+      )}
+      {job.status === 'done' && (
+        <TouchableOpacity onPress={() => navigation.navigate('Gallery')}>
+          <Text style={styles.action}>View</Text>
+        </TouchableOpacity>
+      )}
+      <TouchableOpacity onPress={() => confirmRemove(job)}>
+        <Text style={styles.action}>Remove</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderJob = (job: BatchJob) => (
+    <View key={job.id} style={styles.job}>
+      <Image source={{ uri: job.imageUri }} style={styles.thumbnail} />
+      <View style={styles.jobBody}>
+        <View style={styles.jobHeader}>
+          <Text style={styles.jobName}>{job.name}</Text>
+          <Text style={[styles.jobStatus, { color: STATUS_COLORS[job.status] }]}>
+            {job.status}{job.startedAt ? ` · ${formatElapsed(job)}` : ''}
+          </Text>
+        </View>
+        {job.status === 'processing' && (
+          <View style={styles.progressTrack}>
+            <View style={[styles.progressFill, { width: `${Math.round(job.progress * 100)}%` }]} />
+          </View>
+        )}
+        {(job.error || job.stage) && (
+          <Text style={styles.jobStage} numberOfLines={2}>{job.error || job.stage}</Text>
+        )}
+        {renderActions(job)}
+      </View>
+    </View>
+  );
+
+  const pending = jobs.filter(job => job.status === 'queued' || job.status === 'processing').length;
+  const finished = jobs.length - pending;
+
+  return (
+    <View style={styles.container}>
+      <Header title="Batch Queue" showBack onBack={() => navigation.goBack()} />
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={styles.hint}>
+          Photos are processed one after another, even after the app restarts. Finished designs are saved to the gallery.
+        </Text>
+
+        {library ? (
+          <>
+            <Text style={styles.sectionTitle}>Select Photos ({selected.length})</Text>
+            <View style={styles.grid}>
+              {library.map(photo => (
+                <TouchableOpacity
+                  key={photo.id}
+                  style={[styles.gridItem, selected.includes(photo.id) && styles.gridItemSelected]}
+                  onPress={() => toggleSelected(photo.id)}
+                >
+                  <Image source={{ uri: photo.uri }} style={styles.gridImage} />
+                </TouchableOpacity>
+              ))}
+            </View>
+            <CustomButton
+              title={`Add ${selected.length} to Batch`}
+              onPress={addSelected}
+              loading={busy}
+              disabled={selected.length === 0}
+            />
+            <CustomButton title="Cancel" onPress={() => setLibrary(null)} disabled={busy} />
+          </>
+        ) : (
+          <CustomButton title="Add from Library" onPress={openLibrary} />
+        )}
+
+        <Text style={styles.sectionTitle}>
+          Jobs ({pending} pending, {finished} finished)
+        </Text>
+        {jobs.length === 0 && <Text style={styles.hint}>No photos queued yet.</Text>}
+        {jobs.map(renderJob)}
+
+        {finished > 0 && (
+          <CustomButton title="Clear Finished" onPress={() => BatchQueue.clearFinished()} />
+        )}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.white,
+  },
+  content: {
+    padding: SIZES.padding,
+    alignItems: 'center',
+  },
+  sectionTitle: {
+    alignSelf: 'stretch',
+    fontSize: SIZES.h3,
+    fontFamily: FONT.bold,
+    color: COLORS.black,
+    marginTop: SIZES.base * 2,
+    marginBottom: SIZES.base,
+  },
+  hint: {
+    alignSelf: 'stretch',
+    fontSize: SIZES.body4,
+    fontFamily: FONT.regular,
+    color: COLORS.darkGray,
+    marginBottom: SIZES.base * 2,
+  },
+  grid: {
+    alignSelf: 'stretch',
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: SIZES.base,
+  },
+  gridItem: {
+    width: '25%',
+    aspectRatio: 1,
+    padding: 2,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  gridItemSelected: {
+    borderColor: COLORS.primary,
+  },
+  gridImage: {
+    flex: 1,
+    backgroundColor: COLORS.lightGray,
+  },
+  job: {
+    alignSelf: 'stretch',
+    flexDirection: 'row',
+    paddingVertical: SIZES.base,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.lightGray,
+  },
+  thumbnail: {
+    width: 56,
+    height: 56,
+    borderRadius: 6,
+    marginRight: SIZES.base,
+    backgroundColor: COLORS.lightGray,
+  },
+  jobBody: {
+    flex: 1,
+  },
+  jobHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  jobName: {
+    fontSize: SIZES.body4,
+    fontFamily: FONT.medium,
+    color: COLORS.black,
+  },
+  jobStatus: {
+    fontSize: 12,
+    fontFamily: FONT.medium,
+  },
+  progressTrack: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: COLORS.lightGray,
+    marginTop: 6,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: 4,
+    backgroundColor: COLORS.primary,
+  },
+  jobStage: {
+    fontSize: 12,
+    fontFamily: FONT.regular,
+    color: COLORS.darkGray,
+    marginTop: 4,
+  },
+  actions: {
+    flexDirection: 'row',
+    marginTop: 4,
+  },
+  action: {
+    fontSize: 12,
+    fontFamily: FONT.medium,
+    color: COLORS.primary,
+    marginRight: SIZES.base * 2,
+  },
+});
+
+export default BatchQueueScreen;
@@ -12,13 +12,65 @@ import {
     PanResponder,
     Dimensions
 } from 'react-native';
+import Svg, { Polygon } from 'react-native-svg';
 import Header from '../components/Header';
 import CustomButton from '../components/CustomButton';
+import AdjustmentSlider from '../components/AdjustmentSlider';
+import DesignRenderer from '../components/DesignRenderer';
+import ProcessingTimeline from '../components/ProcessingTimeline';
 import { NavigationProps, Design, ImageProcessingOptions } from '../types';
 import { COLORS, FONT, SIZES } from '../constants/theme';
 import { DesignManager } from '../utils/designManager';
-import { AIImageProcessor, ProcessingOptions, ProcessingResult } from '../utils/aiImageProcessor';
-import { AI_CONFIG, AI_PROCESSING_DEFAULTS } from '../constants/aiConfig';
+import { AIImageProcessor, DesignCandidate, ProcessingOptions, ProcessingResult } from '../utils/aiImageProcessor';
+import { ImageAdjuster, DEFAULT_IMAGE_ADJUSTMENTS } from '../utils/imageAdjustments';
+import { ImageCodec } from '../utils/imageCodec';
+import { EdgeDetectionOptions } from '../utils/edgeDetector';
+import { LineArtOptions } from '../utils/lineArtConverter';
+import { BackgroundRemovalOptions } from '../utils/backgroundRemover';
+import { CropAspect, SmartCropOptions } from '../utils/smartCropper';
+import { PathSimplifyOptions } from '../utils/pathSimplifier';
+import { VectorizationRegistry } from '../utils/vectorizationProviders';
+import { ProcessingSettings } from '../utils/processingSettings';
+import { StarVectorProcessor, SvgStreamProgress } from '../utils/starVectorProcessor';
+import { TempFileTracker } from '../utils/cancellation';
+import { FidelityScorer, FidelityReport } from '../utils/fidelityScorer';
+import { ProcessingStep, ProcessingTrace } from '../utils/processingTrace';
+import { BatchQueue } from '../utils/batchQueue';
+import { FlashSheetSplitter, FlashSheetAnalysis } from '../utils/flashSheetSplitter';
+import { PaperDetector, PaperDetection } from '../utils/paperDetector';
+import { PerspectiveWarp, Point, Quad } from '../utils/perspectiveWarp';
+import { ScanCleaner } from '../utils/scanCleaner';
+import {
+    AI_CONFIG,
+    AI_PROCESSING_DEFAULTS,
+    BACKGROUND_REMOVAL_DEFAULTS,
+    CANDIDATE_DEFAULTS,
+    EDGE_DETECTION_DEFAULTS,
+    LINE_ART_DEFAULTS,
+    PATH_SIMPLIFY_DEFAULTS,
+    SMART_CROP_DEFAULTS,
+} from '../constants/aiConfig';
+
+const CROP_ASPECTS: { value: CropAspect; label: string }[] = [
+    { value: 'content', label: 'Tight' },
+    { value: 'square', label: 'Square' },
+    { value: 'original', label: 'Photo' },
+];
+
+type CropMode = 'free' | 'ratio' | 'perspective';
+
+const CROP_MODES: { mode: CropMode; ratio: number | null; label: string }[] = [
+    { mode: 'free', ratio: null, label: 'Free' },
+    { mode: 'ratio', ratio: 1, label: '1:1' },
+    { mode: 'ratio', ratio: 4 / 3, label: '4:3' },
+    { mode: 'ratio', ratio: 3 / 4, label: '3:4' },
+    { mode: 'perspective', ratio: null, label: '📐 Perspective' },
+];
+
+const QUAD_HANDLE_SIZE = 28;
+
+// Starting corners for the perspective crop when no page is found, in fractions of the photo
+const DEFAULT_QUAD: Quad = [{ x: 0.1, y: 0.1 }, { x: 0.9, y: 0.1 }, { x: 0.9, y: 0.9 }, { x: 0.1, y: 0.9 }];
 
 // Import camera and image processing modules
 let CameraView: any;
@@ -42,7 +94,13 @@ const DesignCaptureScreen: React.FC<NavigationProps> = ({ navigation, route }) =
     const [capturedImage, setCapturedImage] = useState<string | null>(null);
     const [croppedImage, setCroppedImage] = useState<string | null>(null);
     const [processedImage, setProcessedImage] = useState<string | null>(null);
+    const [processedSvg, setProcessedSvg] = useState<string | null>(null);
+    const [candidates, setCandidates] = useState<DesignCandidate[]>([]);
+    const [fidelity, setFidelity] = useState<FidelityReport | null>(null);
+    const [processingSteps, setProcessingSteps] = useState<ProcessingStep[]>([]);
+    const [showTimeline, setShowTimeline] = useState(false);
     const [isProcessing, setIsProcessing] = useState(false);
+    const [liveSvg, setLiveSvg] = useState<SvgStreamProgress | null>(null);
     const [isTakingPhoto, setIsTakingPhoto] = useState(false);
     const [isCropping, setIsCropping] = useState(false);
     const [showCropControls, setShowCropControls] = useState(false);
@@ -57,13 +115,38 @@ const DesignCaptureScreen: React.FC<NavigationProps> = ({ navigation, route }) =
     const imageLayoutRef = useRef({ width: 0, height: 0, x: 0, y: 0 });
     const [isResizing, setIsResizing] = useState(false);
 
-    // AI Processing options with defaults
+    // Crop shape: free, a fixed width / height ratio, or four free corners flattened by a perspective warp
+    const [cropMode, setCropMode] = useState<CropMode>('free');
+    const [cropRatio, setCropRatio] = useState<number | null>(null);
+    const [perspectiveQuad, setPerspectiveQuad] = useState<Quad | null>(null);
+    const [isDetectingPaper, setIsDetectingPaper] = useState(false);
+    const [pageDetection, setPageDetection] = useState<PaperDetection | null>(null);
+    const cropRatioRef = useRef<number | null>(null);
+    const perspectiveQuadRef = useRef<Quad | null>(null);
+    const cornerStartRef = useRef<Point>({ x: 0, y: 0 });
+    const imageSizeRef = useRef<{ width: number; height: number } | null>(null);
+    const containerLayoutRef = useRef<{ width: number; height: number } | null>(null);
+
+    // Flash sheet split: proposed designs and the ones the user kept
+    const [flashSheet, setFlashSheet] = useState<FlashSheetAnalysis | null>(null);
+    const [selectedRegions, setSelectedRegions] = useState<string[]>([]);
+    const [isSplitting, setIsSplitting] = useState(false);
+
+    // AI Processing options with defaults, replaced by the saved ones once loaded
     const [aiOptions, setAiOptions] = useState<ProcessingOptions>({
         ...AI_PROCESSING_DEFAULTS,
         useAI: true,
     });
+    const settingsLoadedRef = useRef(false);
+
+    // Reference photo adjustments with live preview
+    const [adjustments, setAdjustments] = useState<ImageProcessingOptions>({ ...DEFAULT_IMAGE_ADJUSTMENTS });
+    const [adjustedPreview, setAdjustedPreview] = useState<string | null>(null);
+    const previewRequestRef = useRef(0);
 
     const cameraRef = useRef<any>(null);
+    const processingRef = useRef<AbortController | null>(null);
+    const isMountedRef = useRef(true);
 
     // Check AI availability on component mount
     useEffect(() => {
@@ -71,6 +154,31 @@ const DesignCaptureScreen: React.FC<NavigationProps> = ({ navigation, route }) =
         initializeAI();
     }, []);
 
+    // Restore the saved processing options, including the vectorizer order
+    useEffect(() => {
+        let active = true;
+        ProcessingSettings.load().then(saved => {
+            settingsLoadedRef.current = true;
+            if (active) setAiOptions(prev => ({ ...prev, ...saved }));
+        });
+        return () => {
+            active = false;
+        };
+    }, []);
+
+    useEffect(() => {
+        if (settingsLoadedRef.current) ProcessingSettings.save(aiOptions);
+    }, [aiOptions]);
+
+    // Leaving the screen cancels any run in progress so nothing updates an unmounted screen
+    useEffect(() => {
+        isMountedRef.current = true;
+        return () => {
+            isMountedRef.current = false;
+            processingRef.current?.abort();
+        };
+    }, []);
+
     // Keep refs in sync with state
     useEffect(() => {
         cropAreaRef.current = { ...cropArea };
@@ -85,6 +193,64 @@ const DesignCaptureScreen: React.FC<NavigationProps> = ({ navigation, route }) =
         imageLayoutRef.current = { ...imageLayout };
     }, [imageLayout]);
 
+    // The photo's own size tells where it sits inside the letterboxed crop view
+    useEffect(() => {
+        imageSizeRef.current = null;
+        updatePerspectiveQuad(null);
+        setPageDetection(null);
+        if (!capturedImage) return;
+
+        let active = true;
+        Image.getSize(capturedImage, (width, height) => {
+            imageSizeRef.current = { width, height };
+            if (containerLayoutRef.current) {
+                initializeCropArea(containerLayoutRef.current);
+            }
+        }, (error) => console.log('⚠️ Could not read photo size:', error));
+
+        // Look for the page straight away, so the crop starts on it
+        PaperDetector.detect(capturedImage)
+            .then(detection => {
+                if (!active || !detection?.confident) return;
+                setPageDetection(detection);
+                updatePerspectiveQuad(detection.quad);
+                if (containerLayoutRef.current) {
+                    initializeCropArea(containerLayoutRef.current);
+                }
+            })
+            .catch(error => console.log('⚠️ Automatic page detection failed:', error));
+
+        return () => {
+            active = false;
+        };
+    }, [capturedImage]);
+
+    // Re-render the adjustment preview (debounced) whenever a slider or toggle changes
+    useEffect(() => {
+        const source = croppedImage || capturedImage;
+        if (!showProcessingOptions || !source) return;
+
+        if (ImageAdjuster.isNeutral(adjustments)) {
+            setAdjustedPreview(null);
+            return;
+        }
+
+        const requestId = ++previewRequestRef.current;
+        const timeoutId = setTimeout(async () => {
+            try {
+                const preview = await ImageAdjuster.renderPreview(source, adjustments);
+                // Ignore results that finished after a newer request
+                if (requestId === previewRequestRef.current) {
+                    setAdjustedPreview(preview);
+                }
+            } catch (error) {
+                console.log('Adjustment preview failed:', error);
+            }
+        }, 150);
+
+        return () => clearTimeout(timeoutId);
+    }, [adjustments, croppedImage, capturedImage, showProcessingOptions]);
+
     const checkAIAvailability = () => {
         const hasAnyAPIKey = Boolean(AI_CONFIG.codiaAI || AI_CONFIG.removeBG || AI_CONFIG.clipdrop || AI_CONFIG.huggingFace);
         setIsAIAvailable(hasAnyAPIKey);
@@ -148,14 +314,16 @@ const DesignCaptureScreen: React.FC<NavigationProps> = ({ navigation, route }) =
             const newY = dragStartCropRef.current.y + dy;
 
             // Use imageLayoutRef for reliable access during gestures
-            const currentImageLayout = imageLayoutRef.current.width > 0 ? imageLayoutRef.current : { width: 337, height: 300 };
+            const currentImageLayout = imageLayoutRef.current.width > 0 ? imageLayoutRef.current : { width: 337, height: 300, x: 0, y: 0 };
 
-            // Apply bounds checking
-            const maxX = currentImageLayout.width - dragStartCropRef.current.width;
-            const maxY = currentImageLayout.height - dragStartCropRef.current.height;
+            // Apply bounds checking (the photo may be letterboxed inside the view)
+            const minX = currentImageLayout.x ?? 0;
+            const minY = currentImageLayout.y ?? 0;
+            const maxX = minX + currentImageLayout.width - dragStartCropRef.current.width;
+            const maxY = minY + currentImageLayout.height - dragStartCropRef.current.height;
 
-            const constrainedX = Math.max(0, Math.min(maxX, newX));
-            const constrainedY = Math.max(0, Math.min(maxY, newY));
+            const constrainedX = Math.max(minX, Math.min(maxX, newX));
+            const constrainedY = Math.max(minY, Math.min(maxY, newY));
 
             console.log(`📍 Moving crop to (${Math.round(constrainedX)}, ${Math.round(constrainedY)}) | Layout: ${currentImageLayout.width}x${currentImageLayout.height}`);
 
@@ -193,29 +361,28 @@ const DesignCaptureScreen: React.FC<NavigationProps> = ({ navigation, route }) =
                 });
             },
             onPanResponderMove: (event, gestureState) => {
-                const currentImageLayout = imageLayoutRef.current.width > 0 ? imageLayoutRef.current : { width: 337, height: 300 };
+                const currentImageLayout = imageLayoutRef.current.width > 0 ? imageLayoutRef.current : { width: 337, height: 300, x: 0, y: 0 };
 
                 const { dx, dy } = gestureState;
                 const startCrop = dragStartCropRef.current;
 
                 // Calculate the desired new size based on gesture
-                let desiredWidth;
-                switch (corner) {
-                    case 'topLeft':
-                    case 'bottomLeft':
-                        desiredWidth = startCrop.width - dx;
-                        break;
-                    case 'topRight':
-                    case 'bottomRight':
-                        desiredWidth = startCrop.width + dx;
-                        break;
-                }
+                const desiredWidth = corner === 'topLeft' || corner === 'bottomLeft' ? startCrop.width - dx : startCrop.width + dx;
+                const desiredHeight = corner === 'topLeft' || corner === 'topRight' ? startCrop.height - dy : startCrop.height + dy;
 
-                // Apply size constraints
+                // Apply size constraints; a fixed ratio follows the horizontal drag
                 const minSize = 50;
-                const maxSize = Math.min(currentImageLayout.width, currentImageLayout.height); // Full picture size
-                const constrainedWidth = Math.max(minSize, Math.min(maxSize, desiredWidth));
-                const constrainedHeight = constrainedWidth; // Keep square
+                const ratio = cropRatioRef.current;
+                let constrainedWidth: number;
+                let constrainedHeight: number;
+                if (ratio) {
+                    const maxWidth = Math.min(currentImageLayout.width, currentImageLayout.height * ratio);
+                    constrainedWidth = Math.max(minSize, Math.min(maxWidth, desiredWidth));
+                    constrainedHeight = constrainedWidth / ratio;
+                } else {
+                    constrainedWidth = Math.max(minSize, Math.min(currentImageLayout.width, desiredWidth));
+                    constrainedHeight = Math.max(minSize, Math.min(currentImageLayout.height, desiredHeight));
+                }
 
                 // Calculate position based on which corner is being dragged
                 let newX = startCrop.x;
@@ -245,8 +412,10 @@ const DesignCaptureScreen: React.FC<NavigationProps> = ({ navigation, route }) =
                 }
 
                 // Ensure the entire crop area stays within image bounds
-                newX = Math.max(0, Math.min(currentImageLayout.width - constrainedWidth, newX));
-                newY = Math.max(0, Math.min(currentImageLayout.height - constrainedHeight, newY));
+                const minX = currentImageLayout.x ?? 0;
+                const minY = currentImageLayout.y ?? 0;
+                newX = Math.max(minX, Math.min(minX + currentImageLayout.width - constrainedWidth, newX));
+                newY = Math.max(minY, Math.min(minY + currentImageLayout.height - constrainedHeight, newY));
 
                 console.log(`🔍 Resizing ${corner}: ${Math.round(startCrop.width)}→${Math.round(constrainedWidth)} | Delta: ${Math.round(dx)} | Desired: ${Math.round(desiredWidth)} | Pos: (${Math.round(newX)}, ${Math.round(newY)})`);
 
@@ -276,6 +445,41 @@ const DesignCaptureScreen: React.FC<NavigationProps> = ({ navigation, route }) =
     const bottomLeftResize = useRef(createResizePanResponder('bottomLeft')).current;
     const bottomRightResize = useRef(createResizePanResponder('bottomRight')).current;
 
+    const updatePerspectiveQuad = (quad: Quad | null) => {
+        perspectiveQuadRef.current = quad;
+        setPerspectiveQuad(quad);
+    };
+
+    // Perspective corners are kept in fractions of the photo, so they survive layout changes
+    const createCornerPanResponder = (index: number) => {
+        return PanResponder.create({
+            onStartShouldSetPanResponder: () => true,
+            onMoveShouldSetPanResponder: () => true,
+            onPanResponderGrant: () => {
+                setIsResizing(true);
+                const quad = perspectiveQuadRef.current;
+                if (quad) cornerStartRef.current = { ...quad[index] };
+            },
+            onPanResponderMove: (event, gestureState) => {
+                const quad = perspectiveQuadRef.current;
+                const layout = imageLayoutRef.current;
+                if (!quad || layout.width <= 0 || layout.height <= 0) return;
+
+                const next = [...quad] as Quad;
+                next[index] = {
+                    x: Math.max(0, Math.min(1, cornerStartRef.current.x + gestureState.dx / layout.width)),
+                    y: Math.max(0, Math.min(1, cornerStartRef.current.y + gestureState.dy / layout.height)),
+                };
+                updatePerspectiveQuad(next);
+            },
+            onPanResponderRelease: () => {
+                setIsResizing(false);
+            },
+        });
+    };
+
+    const cornerResponders = useRef([0, 1, 2, 3].map(createCornerPanResponder)).current;
+
     // Initialize crop area when image is captured
     const initializeCropArea = (layout: { width: number; height: number }) => {
         // Ensure layout dimensions are valid
@@ -284,56 +488,89 @@ const DesignCaptureScreen: React.FC<NavigationProps> = ({ navigation, route }) =
             return;
         }
 
-        const minDimension = Math.min(layout.width, layout.height);
-        const cropSize = Math.floor(minDimension * 0.7); // Slightly smaller for better UX
-        const x = Math.floor((layout.width - cropSize) / 2);
-        const y = Math.floor((layout.height - cropSize) / 2);
-
-        const newCropArea = { x, y, width: cropSize, height: cropSize };
+        containerLayoutRef.current = layout;
+
+        // Where the photo is drawn: resizeMode 'contain' letterboxes it inside the view
+        const size = imageSizeRef.current;
+        const scale = size ? Math.min(layout.width / size.width, layout.height / size.height) : 1;
+        const frameWidth = size ? size.width * scale : layout.width;
+        const frameHeight = size ? size.height * scale : layout.height;
+        const newImageLayout = {
+            width: frameWidth,
+            height: frameHeight,
+            x: (layout.width - frameWidth) / 2,
+            y: (layout.height - frameHeight) / 2,
+        };
+
+        // Slightly smaller than the photo for better UX
+        const ratio = cropRatioRef.current;
+        const cropWidth = Math.floor(0.7 * (ratio ? Math.min(frameWidth, frameHeight * ratio) : frameWidth));
+        const cropHeight = Math.floor(ratio ? cropWidth / ratio : 0.7 * frameHeight);
+        const x = Math.floor(newImageLayout.x + (frameWidth - cropWidth) / 2);
+        const y = Math.floor(newImageLayout.y + (frameHeight - cropHeight) / 2);
+
+        let newCropArea = { x, y, width: cropWidth, height: cropHeight };
+
+        // A free crop starts on the page when one was found
+        const quad = perspectiveQuadRef.current;
+        if (quad && !ratio) {
+            const minX = Math.min(...quad.map(p => p.x));
+            const minY = Math.min(...quad.map(p => p.y));
+            newCropArea = {
+                x: Math.floor(newImageLayout.x + minX * frameWidth),
+                y: Math.floor(newImageLayout.y + minY * frameHeight),
+                width: Math.floor((Math.max(...quad.map(p => p.x)) - minX) * frameWidth),
+                height: Math.floor((Math.max(...quad.map(p => p.y)) - minY) * frameHeight),
+            };
+        }
 
-        console.log(`🔲 Initializing crop area: ${cropSize}x${cropSize} at (${x}, ${y}) in ${layout.width}x${layout.height} image`);
+        console.log(`🔲 Initializing crop area: ${newCropArea.width}x${newCropArea.height} at (${newCropArea.x}, ${newCropArea.y}) in ${Math.round(frameWidth)}x${Math.round(frameHeight)} image`);
 
         // Update both state and all refs
         setCropArea(newCropArea);
         cropAreaRef.current = newCropArea;
         dragStartCropRef.current = newCropArea;
 
-        const newImageLayout = { ...layout, x: 0, y: 0 };
         setImageLayout(newImageLayout);
         imageLayoutRef.current = newImageLayout;
     };
 
     const cropImage = async () => {
+        if (cropMode === 'perspective') {
+            await flattenPage();
+            return;
+        }
         if (!capturedImage || !ImageManipulator) return;
 
         setIsCropping(true);
         try {
             console.log('🔲 Cropping image with manual selection...');
 
-            // Get the captured image dimensions
-            const imageInfo = await ImageManipulator.manipulateAsync(
-                capturedImage,
-                [],
-                { format: ImageManipulator.SaveFormat.JPEG }
-            );
+            // Get the captured image dimensions without re-encoding the photo
+            const imageInfo = await ImageCodec.getSize(capturedImage);
 
             // Calculate scale factors between display and actual image
             const scaleX = imageInfo.width / imageLayout.width;
             const scaleY = imageInfo.height / imageLayout.height;
 
-            // Apply crop based on user selection
+            // Apply crop based on user selection, measured from the photo's top-left corner
+            const originX = Math.max(0, Math.round((cropArea.x - imageLayout.x) * scaleX));
+            const originY = Math.max(0, Math.round((cropArea.y - imageLayout.y) * scaleY));
             const cropConfig = {
-                originX: Math.round(cropArea.x * scaleX),
-                originY: Math.round(cropArea.y * scaleY),
-                width: Math.round(cropArea.width * scaleX),
-                height: Math.round(cropArea.height * scaleY),
+                originX,
+                originY,
+                width: Math.min(imageInfo.width - originX, Math.round(cropArea.width * scaleX)),
+                height: Math.min(imageInfo.height - originY, Math.round(cropArea.height * scaleY)),
             };
 
+            // Longer side 512px, optimal for AI processing, keeping the crop's shape
+            const resize = cropConfig.width >= cropConfig.height ? { width: 512 } : { height: 512 };
+
             const croppedResult = await ImageManipulator.manipulateAsync(
                 capturedImage,
                 [
                     { crop: cropConfig },
-                    { resize: { width: 512, height: 512 } }, // Optimal size for AI processing
+                    { resize },
                 ],
                 {
                     compress: 0.9,
@@ -345,7 +582,7 @@ const DesignCaptureScreen: React.FC<NavigationProps> = ({ navigation, route }) =
             setShowCropControls(false);
             setShowProcessingOptions(true);
 
-            console.log(`✅ Manual crop applied: ${cropConfig.width}x${cropConfig.height} → 512x512`);
+            console.log(`✅ Manual crop applied: ${cropConfig.width}x${cropConfig.height} → ${croppedResult.width}x${croppedResult.height}`);
 
         } catch (error: any) {
             console.error('❌ Cropping failed:', error);
@@ -355,6 +592,99 @@ const DesignCaptureScreen: React.FC<NavigationProps> = ({ navigation, route }) =
         }
     };
 
+    const flattenPage = async () => {
+        const quad = perspectiveQuadRef.current;
+        if (!capturedImage || !quad) return;
+
+        // Corners may have been dragged past each other
+        const corners = PerspectiveWarp.orderCorners(quad);
+        if (!PerspectiveWarp.isConvex(corners)) {
+            Alert.alert('Invalid Corners', 'Place the four corners on the corners of the page.');
+            return;
+        }
+
+        setIsCropping(true);
+        try {
+            console.log('📐 Flattening page with perspective crop...');
+            const flattened = await PerspectiveWarp.correct(capturedImage, corners);
+            setCroppedImage(flattened);
+            setShowCropControls(false);
+            setShowProcessingOptions(true);
+        } catch (error: any) {
+            console.error('❌ Perspective crop failed:', error);
+            Alert.alert('Cropping Error', 'Failed to flatten the page: ' + error.message);
+        } finally {
+            setIsCropping(false);
+        }
+    };
+
+    const detectPaper = async () => {
+        if (!capturedImage) return;
+
+        setIsDetectingPaper(true);
+        try {
+            const detection = await PaperDetector.detect(capturedImage);
+            updatePerspectiveQuad(detection ? detection.quad : DEFAULT_QUAD);
+            setPageDetection(detection?.confident ? detection : null);
+            if (!detection?.confident) {
+                Alert.alert('Page Not Found', 'Could not find the edges of the page. Drag the corners onto it.');
+            }
+        } catch (error: any) {
+            console.error('❌ Paper detection failed:', error);
+            updatePerspectiveQuad(DEFAULT_QUAD);
+        } finally {
+            setIsDetectingPaper(false);
+        }
+    };
+
+    // One tap: flatten the page if its corners are known, then even out lighting and whiten the paper
+    const scanPage = async () => {
+        if (!capturedImage) return;
+
+        let quad = perspectiveQuadRef.current ? PerspectiveWarp.orderCorners(perspectiveQuadRef.current) : null;
+        if (quad && !PerspectiveWarp.isConvex(quad)) quad = null;
+
+        setIsCropping(true);
+        try {
+            console.log('📄 Scanning page...');
+            const scanned = await ScanCleaner.scan(capturedImage, quad);
+            setCroppedImage(scanned);
+            setShowCropControls(false);
+            setShowProcessingOptions(true);
+        } catch (error: any) {
+            console.error('❌ Scan cleanup failed:', error);
+            Alert.alert('Scan Error', 'Failed to clean up the page: ' + error.message);
+        } finally {
+            setIsCropping(false);
+        }
+    };
+
+    const selectCropMode = (option: { mode: CropMode; ratio: number | null }) => {
+        setCropMode(option.mode);
+        setCropRatio(option.ratio);
+        cropRatioRef.current = option.ratio;
+
+        if (option.mode === 'perspective') {
+            if (!perspectiveQuadRef.current) detectPaper();
+            return;
+        }
+
+        // Reshape the box to the new ratio around its centre, keeping roughly its area
+        if (option.ratio) {
+            const layout = imageLayoutRef.current;
+            const crop = cropAreaRef.current;
+            const width = Math.min(layout.width, layout.height * option.ratio, Math.sqrt(crop.width * crop.height * option.ratio));
+            const height = width / option.ratio;
+            const x = Math.max(layout.x, Math.min(layout.x + layout.width - width, crop.x + (crop.width - width) / 2));
+            const y = Math.max(layout.y, Math.min(layout.y + layout.height - height, crop.y + (crop.height - height) / 2));
+            const reshaped = { x, y, width, height };
+
+            setCropArea(reshaped);
+            cropAreaRef.current = reshaped;
+            dragStartCropRef.current = reshaped;
+        }
+    };
+
     const skipCrop = () => {
         // Skip cropping and use original image
         setCroppedImage(capturedImage);
@@ -362,61 +692,197 @@ const DesignCaptureScreen: React.FC<NavigationProps> = ({ navigation, route }) =
         setShowProcessingOptions(true);
     };
 
+    const detectFlashSheet = async () => {
+        if (!capturedImage) return;
+
+        setIsSplitting(true);
+        try {
+            const analysis = await FlashSheetSplitter.detect(capturedImage);
+            if (analysis.regions.length === 0) {
+                Alert.alert('No Designs Found', 'Could not find separate designs on this photo. Crop it manually instead.');
+                return;
+            }
+            setFlashSheet(analysis);
+            setSelectedRegions(analysis.regions.map(region => region.id));
+        } catch (error: any) {
+            console.error('❌ Flash sheet detection failed:', error);
+            Alert.alert('Split Error', 'Failed to find designs: ' + error.message);
+        } finally {
+            setIsSplitting(false);
+        }
+    };
+
+    const toggleRegion = (id: string) => {
+        setSelectedRegions(prev => (prev.includes(id) ? prev.filter(item => item !== id) : [...prev, id]));
+    };
+
+    const processFlashSheet = async () => {
+        if (!capturedImage || !flashSheet) return;
+        const regions = flashSheet.regions.filter(region => selectedRegions.includes(region.id));
+        if (regions.length === 0) return;
+
+        setIsSplitting(true);
+        try {
+            // Each design becomes its own batch job, saved to the gallery when it finishes
+            const crops = await FlashSheetSplitter.extract(capturedImage, regions);
+            const jobs = await BatchQueue.enqueue(crops, aiOptions);
+            await TempFileTracker.remove(crops.filter((uri, index) => jobs[index].imageUri !== uri));
+            setFlashSheet(null);
+
+            Alert.alert(
+                'Designs Queued',
+                `${jobs.length} designs will be processed in the background and saved to your gallery.`,
+                [
+                    { text: 'View Queue', onPress: () => navigation.navigate('BatchQueue') },
+                    { text: 'Capture Another', onPress: retakePhoto },
+                ]
+            );
+        } catch (error: any) {
+            console.error('❌ Flash sheet extraction failed:', error);
+            Alert.alert('Split Error', 'Failed to extract designs: ' + error.message);
+        } finally {
+            setIsSplitting(false);
+        }
+    };
+
     const resetCropArea = () => {
         // Reset crop area to center if it gets stuck
-        if (imageLayout.width > 0 && imageLayout.height > 0) {
-            initializeCropArea({ width: imageLayout.width, height: imageLayout.height });
+        if (containerLayoutRef.current) {
+            initializeCropArea(containerLayoutRef.current);
             console.log('🔄 Crop area reset to center');
         }
     };
 
 
 
-    const processImageToTattooStyle = async () => {
-        const imageToProcess = croppedImage || capturedImage;
-        if (!imageToProcess) return;
+    const processImageToTattooStyle = async (skipCache: boolean = false) => {
+        const sourceImage = croppedImage || capturedImage;
+        if (!sourceImage) return;
+
+        const controller = new AbortController();
+        processingRef.current = controller;
+        let imageToProcess = sourceImage;
 
         setIsProcessing(true);
+        setLiveSvg(null);
         try {
             console.log('🚀 Starting AI-powered tattoo design processing...');
-            console.log(`📸 Processing ${croppedImage ? 'cropped' : 'original'} image: ${imageToProcess}`);
+            console.log(`📸 Processing ${croppedImage ? 'cropped' : 'original'} image: ${sourceImage}`);
+
+            // Bake the reference adjustments into the image before vectorizing
+            const adjustTrace = new ProcessingTrace();
+            if (!ImageAdjuster.isNeutral(adjustments)) {
+                const adjusting = adjustTrace.begin('adjust', { inputUri: sourceImage, parameters: { ...adjustments } });
+                imageToProcess = await ImageAdjuster.adjustImage(sourceImage, adjustments);
+                adjusting('Reference adjustments applied', { outputUri: imageToProcess });
+            }
 
-            const result: ProcessingResult = await AIImageProcessor.processImageToTattooDesign(
-                imageToProcess,
-                aiOptions
-            );
+            const result: ProcessingResult = controller.signal.aborted
+                ? { success: false, cancelled: true, originalImageUri: imageToProcess, processingSteps: [] }
+                : await AIImageProcessor.processImageToTattooDesign(
+                    imageToProcess,
+                    { ...aiOptions, onPartialSVG: setLiveSvg, signal: controller.signal, useCache: !skipCache }
+                );
+
+            if (result.cancelled) {
+                // The pipeline removed its own files; the adjusted copy is ours to delete
+                if (imageToProcess !== sourceImage) {
+                    await TempFileTracker.remove([imageToProcess]);
+                }
+                console.log('⏹️ Processing cancelled');
+                return;
+            }
+
+            result.processingSteps.unshift(...adjustTrace.steps);
+            setProcessingSteps(result.processingSteps);
 
             if (result.success && result.processedImageUri) {
                 setProcessedImage(result.processedImageUri);
+                setProcessedSvg(result.format === 'SVG' && result.svgCode ? result.svgCode : null);
+                setCandidates(result.candidates ?? []);
+                setFidelity(result.fidelity ?? null);
 
                 // Show detailed success message
-                const stepsText = result.processingSteps.join(' → ');
-                console.log(`✅ Processing complete: ${stepsText}`);
+                const stepLines = result.processingSteps.map(step => ProcessingTrace.format(step)).join('\n');
+                console.log(`✅ Processing complete:\n${stepLines}`);
 
                 const alertTitle = isAIAvailable && aiOptions.useAI
                     ? 'AI Processing Complete! 🤖'
                     : 'Processing Complete! ✨';
 
                 const alertMessage = isAIAvailable && aiOptions.useAI
-                    ? `Your image has been intelligently processed using AI:\n\n${result.processingSteps.map(step => `• ${step}`).join('\n')}\n\nThe design is now optimized for tattoo use!`
-                    : `Your image has been processed:\n\n${result.processingSteps.map(step => `• ${step}`).join('\n')}`;
-
-                Alert.alert(alertTitle, alertMessage, [{ text: 'Great!', style: 'default' }]);
+                    ? `Your image has been intelligently processed using AI:\n\n${stepLines}\n\nThe design is now optimized for tattoo use!`
+                    : `Your image has been processed:\n\n${stepLines}`;
+
+                // Cached results came from an earlier run; let the user ask for a fresh one
+                const alertButtons = result.fromCache
+                    ? [
+                        { text: 'Process Again', onPress: () => processImageToTattooStyle(true) },
+                        { text: 'Great!', style: 'default' as const },
+                    ]
+                    : [{ text: 'Great!', style: 'default' as const }];
+
+                Alert.alert(alertTitle, alertMessage, alertButtons);
             } else {
                 throw new Error(result.error || 'Processing failed');
             }
 
         } catch (error: any) {
+            if (controller.signal.aborted) return;
             console.error('Processing error:', error);
             Alert.alert(
                 'Processing Error',
                 `Failed to process image: ${error.message}\n\nPlease try again or check your settings.`
             );
         } finally {
-            setIsProcessing(false);
+            if (processingRef.current === controller) {
+                processingRef.current = null;
+            }
+            if (isMountedRef.current) {
+                setIsProcessing(false);
+                setLiveSvg(null);
+            }
         }
     };
 
+    const cancelProcessing = () => {
+        processingRef.current?.abort();
+    };
+
+    const addToBatch = async () => {
+        const sourceImage = croppedImage || capturedImage;
+        if (!sourceImage) return;
+
+        try {
+            // Adjustments are baked in now; the queue keeps its own copy of the result
+            const imageToQueue = ImageAdjuster.isNeutral(adjustments)
+                ? sourceImage
+                : await ImageAdjuster.adjustImage(sourceImage, adjustments);
+            const [job] = await BatchQueue.enqueue([imageToQueue], aiOptions);
+            if (imageToQueue !== sourceImage && job.imageUri !== imageToQueue) {
+                await TempFileTracker.remove([imageToQueue]);
+            }
+
+            Alert.alert(
+                'Added to Batch',
+                'The design will be processed in the background and saved to your gallery.',
+                [
+                    { text: 'View Queue', onPress: () => navigation.navigate('BatchQueue') },
+                    { text: 'Capture Another', onPress: retakePhoto },
+                ]
+            );
+        } catch (error) {
+            console.error('Failed to add to batch:', error);
+            Alert.alert('Error', 'Failed to add the image to the batch queue.');
+        }
+    };
+
+    const selectCandidate = (candidate: DesignCandidate) => {
+        setProcessedImage(candidate.previewUri);
+        setProcessedSvg(candidate.svgCode);
+        setFidelity(candidate.fidelity ?? null);
+    };
+
     const saveDesign = async () => {
         if (!processedImage) return;
 
@@ -427,7 +893,10 @@ const DesignCaptureScreen: React.FC<NavigationProps> = ({ navigation, route }) =
             const newDesign: Design = {
                 id: designId,
                 name: designName,
-                uri: processedImage,
+                // A cache hit hands out the cache's own file, which can be evicted later
+                uri: await DesignManager.keepImage(processedImage, designId),
+                format: processedSvg ? 'svg' : 'png',
+                svgCode: processedSvg || undefined,
                 category: 'Custom',
                 isUserGenerated: true,
                 originalImageUri: capturedImage!,
@@ -441,6 +910,8 @@ const DesignCaptureScreen: React.FC<NavigationProps> = ({ navigation, route }) =
                     id: newDesign.id,
                     name: newDesign.name,
                     uri: newDesign.uri,
+                    format: newDesign.format,
+                    svgCode: newDesign.svgCode,
                     category: newDesign.category,
                     isUserGenerated: newDesign.isUserGenerated,
                     originalImageUri: newDesign.originalImageUri,
@@ -456,17 +927,115 @@ const DesignCaptureScreen: React.FC<NavigationProps> = ({ navigation, route }) =
         setCapturedImage(null);
         setCroppedImage(null);
         setProcessedImage(null);
+        setProcessedSvg(null);
+        setCandidates([]);
+        setFidelity(null);
+        setProcessingSteps([]);
+        setShowTimeline(false);
         setShowCropControls(false);
         setShowProcessingOptions(false);
+        setAdjustments({ ...DEFAULT_IMAGE_ADJUSTMENTS });
+        setAdjustedPreview(null);
+        setFlashSheet(null);
+        updatePerspectiveQuad(null);
+        setPageDetection(null);
+    };
+
+    const updateAdjustment = (option: keyof ImageProcessingOptions, value: boolean | number) => {
+        setAdjustments(prev => ({
+            ...prev,
+            [option]: value
+        }));
     };
 
-    const updateAIOption = (option: keyof ProcessingOptions, value: boolean | string) => {
+    const updateAIOption = (option: keyof ProcessingOptions, value: boolean | string | number) => {
         setAiOptions(prev => ({
             ...prev,
             [option]: value
         }));
     };
 
+    const updateEdgeOption = (option: keyof EdgeDetectionOptions, value: number | string) => {
+        setAiOptions(prev => ({
+            ...prev,
+            edgeDetection: {
+                ...EDGE_DETECTION_DEFAULTS,
+                ...prev.edgeDetection,
+                [option]: value
+            }
+        }));
+    };
+
+    const updateLineArtOption = (option: keyof LineArtOptions, value: number | boolean) => {
+        setAiOptions(prev => ({
+            ...prev,
+            lineArt: {
+                ...LINE_ART_DEFAULTS,
+                ...prev.lineArt,
+                [option]: value
+            }
+        }));
+    };
+
+    const updateBackgroundOption = (option: keyof BackgroundRemovalOptions, value: number | boolean) => {
+        setAiOptions(prev => ({
+            ...prev,
+            backgroundRemoval: {
+                ...BACKGROUND_REMOVAL_DEFAULTS,
+                ...prev.backgroundRemoval,
+                [option]: value
+            }
+        }));
+    };
+
+    const updateCropOption = (option: keyof SmartCropOptions, value: number | string | boolean) => {
+        setAiOptions(prev => ({
+            ...prev,
+            smartCropOptions: {
+                ...SMART_CROP_DEFAULTS,
+                ...prev.smartCropOptions,
+                [option]: value
+            }
+        }));
+    };
+
+    const updateSimplifyOption = (option: keyof PathSimplifyOptions, value: number | boolean) => {
+        setAiOptions(prev => ({
+            ...prev,
+            pathSimplification: {
+                ...PATH_SIMPLIFY_DEFAULTS,
+                ...prev.pathSimplification,
+                [option]: value
+            }
+        }));
+    };
+
+    // Tapping a vectorizer moves it to the front; the rest keep their relative order
+    const preferProvider = (id: string) => {
+        setAiOptions(prev => {
+            const order = VectorizationRegistry.resolve(prev.providerOrder).map(provider => provider.id);
+            return {
+                ...prev,
+                providerOrder: [id, ...order.filter(other => other !== id)]
+            };
+        });
+    };
+
+    // Perspective corners in view coordinates; imageLayout is where the letterboxed photo sits
+    const quadPoints: Point[] | null = cropMode === 'perspective' && perspectiveQuad && imageLayout.width > 0
+        ? perspectiveQuad.map(p => ({
+            x: imageLayout.x + p.x * imageLayout.width,
+            y: imageLayout.y + p.y * imageLayout.height,
+        }))
+        : null;
+
+    const backgroundSettings = { ...BACKGROUND_REMOVAL_DEFAULTS, ...aiOptions.backgroundRemoval };
+    const cropSettings = { ...SMART_CROP_DEFAULTS, ...aiOptions.smartCropOptions };
+    const edgeSettings = { ...EDGE_DETECTION_DEFAULTS, ...aiOptions.edgeDetection };
+    const lineArtSettings = { ...LINE_ART_DEFAULTS, ...aiOptions.lineArt };
+    const simplifySettings = { ...PATH_SIMPLIFY_DEFAULTS, ...aiOptions.pathSimplification };
+    const providerOrder = VectorizationRegistry.resolve(aiOptions.providerOrder);
+
     // Camera not available fallback
     if (!CameraView) {
         return (
@@ -560,6 +1129,26 @@ const DesignCaptureScreen: React.FC<NavigationProps> = ({ navigation, route }) =
                                 📐 Image: {imageLayout.width}x{imageLayout.height} | Crop: ({Math.round(cropArea.x)}, {Math.round(cropArea.y)}) {Math.round(cropArea.width)}×{Math.round(cropArea.height)}
                             </Text>
 
+                            {!flashSheet && (
+                                <View style={styles.aspectRow}>
+                                    {CROP_MODES.map(option => {
+                                        const isActive = cropMode === option.mode && cropRatio === option.ratio;
+                                        return (
+                                            <TouchableOpacity
+                                                key={option.label}
+                                                style={[styles.aspectChip, isActive && styles.aspectChipActive]}
+                                                onPress={() => selectCropMode(option)}
+                                                disabled={isCropping || isDetectingPaper}
+                                            >
+                                                <Text style={[styles.aspectChipText, isActive && styles.aspectChipTextActive]}>
+                                                    {option.label}
+                                                </Text>
+                                            </TouchableOpacity>
+                                        );
+                                    })}
+                                </View>
+                            )}
+
                             <View style={styles.cropImageContainer}>
                                 <Image
                                     source={{ uri: capturedImage }}
@@ -570,115 +1159,221 @@ const DesignCaptureScreen: React.FC<NavigationProps> = ({ navigation, route }) =
                                     }}
                                 />
 
-                                {/* Crop Overlay */}
-                                <View style={styles.cropOverlay}>
-                                    {/* Dark overlay covering the non-cropped areas */}
-                                    <View style={[styles.overlaySection, {
-                                        top: 0,
-                                        left: 0,
-                                        right: 0,
-                                        height: cropArea.y
-                                    }]} />
-                                    <View style={[styles.overlaySection, {
-                                        top: cropArea.y + cropArea.height,
-                                        left: 0,
-                                        right: 0,
-                                        bottom: 0
-                                    }]} />
-                                    <View style={[styles.overlaySection, {
-                                        top: cropArea.y,
-                                        left: 0,
-                                        width: cropArea.x,
-                                        height: cropArea.height
-                                    }]} />
-                                    <View style={[styles.overlaySection, {
-                                        top: cropArea.y,
-                                        left: cropArea.x + cropArea.width,
-                                        right: 0,
-                                        height: cropArea.height
-                                    }]} />
-
-                                    {/* Crop area container */}
-                                    <View
-                                        style={[styles.cropArea, {
-                                            left: cropArea.x,
+                                {/* Proposed designs on a flash sheet; tap one to leave it out */}
+                                {flashSheet && imageLayout.width > 0 ? (
+                                    <View style={styles.cropOverlay}>
+                                        {flashSheet.regions.map((region, index) => {
+                                            const isSelected = selectedRegions.includes(region.id);
+                                            return (
+                                                <TouchableOpacity
+                                                    key={region.id}
+                                                    style={[styles.flashRegion, isSelected && styles.flashRegionSelected, {
+                                                        left: imageLayout.x + region.rect.originX * imageLayout.width,
+                                                        top: imageLayout.y + region.rect.originY * imageLayout.height,
+                                                        width: region.rect.width * imageLayout.width,
+                                                        height: region.rect.height * imageLayout.height,
+                                                    }]}
+                                                    onPress={() => toggleRegion(region.id)}
+                                                >
+                                                    <Text style={styles.flashRegionLabel}>
+                                                        {isSelected ? `✓ ${index + 1}` : index + 1}
+                                                    </Text>
+                                                </TouchableOpacity>
+                                            );
+                                        })}
+                                    </View>
+                                ) : quadPoints ? (
+                                    /* Perspective Overlay: drag each corner onto a corner of the page */
+                                    <View style={styles.cropOverlay}>
+                                        <Svg style={StyleSheet.absoluteFill} pointerEvents="none">
+                                            <Polygon
+                                                points={quadPoints.map(p => `${p.x},${p.y}`).join(' ')}
+                                                fill="rgba(255,255,255,0.1)"
+                                                stroke={COLORS.primary}
+                                                strokeWidth={2}
+                                            />
+                                        </Svg>
+                                        {quadPoints.map((point, index) => (
+                                            <View
+                                                key={index}
+                                                style={[styles.quadHandle, {
+                                                    left: point.x - QUAD_HANDLE_SIZE / 2,
+                                                    top: point.y - QUAD_HANDLE_SIZE / 2,
+                                                }]}
+                                                {...cornerResponders[index].panHandlers}
+                                            />
+                                        ))}
+                                    </View>
+                                ) : (
+                                    /* Crop Overlay */
+                                    <View style={styles.cropOverlay}>
+                                        {/* Dark overlay covering the non-cropped areas */}
+                                        <View style={[styles.overlaySection, {
+                                            top: 0,
+                                            left: 0,
+                                            right: 0,
+                                            height: cropArea.y
+                                        }]} />
+                                        <View style={[styles.overlaySection, {
+                                            top: cropArea.y + cropArea.height,
+                                            left: 0,
+                                            right: 0,
+                                            bottom: 0
+                                        }]} />
+                                        <View style={[styles.overlaySection, {
                                             top: cropArea.y,
-                                            width: cropArea.width,
-                                            height: cropArea.height,
-                                            backgroundColor: (isDragging || isResizing) ? 'rgba(255,255,255,0.1)' : 'transparent',
-                                        }]}
-                                    >
-                                        <View style={styles.cropBorder} />
-
-                                        {/* Main draggable area (center) - only responds if not resizing */}
-                                        {!isResizing && (
+                                            left: 0,
+                                            width: cropArea.x,
+                                            height: cropArea.height
+                                        }]} />
+                                        <View style={[styles.overlaySection, {
+                                            top: cropArea.y,
+                                            left: cropArea.x + cropArea.width,
+                                            right: 0,
+                                            height: cropArea.height
+                                        }]} />
+
+                                        {/* Crop area container */}
+                                        <View
+                                            style={[styles.cropArea, {
+                                                left: cropArea.x,
+                                                top: cropArea.y,
+                                                width: cropArea.width,
+                                                height: cropArea.height,
+                                                backgroundColor: (isDragging || isResizing) ? 'rgba(255,255,255,0.1)' : 'transparent',
+                                            }]}
+                                        >
+                                            <View style={styles.cropBorder} />
+
+                                            {/* Main draggable area (center) - only responds if not resizing */}
+                                            {!isResizing && (
+                                                <View
+                                                    style={styles.cropDragArea}
+                                                    {...panResponder.panHandlers}
+                                                >
+                                                    <Text style={styles.cropTouchText}>
+                                                        {isDragging ? '✋' : '🤚'}
+                                                    </Text>
+                                                </View>
+                                            )}
+
+                                            {/* Corner resize handles with individual pan responders */}
                                             <View
-                                                style={styles.cropDragArea}
-                                                {...panResponder.panHandlers}
-                                            >
-                                                <Text style={styles.cropTouchText}>
-                                                    {isDragging ? '✋' : '🤚'}
+                                                style={[styles.resizeHandle, styles.topLeftHandle]}
+                                                {...topLeftResize.panHandlers}
+                                            />
+                                            <View
+                                                style={[styles.resizeHandle, styles.topRightHandle]}
+                                                {...topRightResize.panHandlers}
+                                            />
+                                            <View
+                                                style={[styles.resizeHandle, styles.bottomLeftHandle]}
+                                                {...bottomLeftResize.panHandlers}
+                                            />
+                                            <View
+                                                style={[styles.resizeHandle, styles.bottomRightHandle]}
+                                                {...bottomRightResize.panHandlers}
+                                            />
+
+                                            {/* Size info */}
+                                            <View style={styles.sizeInfoContainer}>
+                                                <Text style={styles.sizeInfoText}>
+                                                    {Math.round(cropArea.width)}×{Math.round(cropArea.height)}
+                                                    {isResizing ? ' ↔️' : isDragging ? ' 🤚' : ''}
                                                 </Text>
                                             </View>
-                                        )}
+                                        </View>
+                                    </View>
+                                )}
+                            </View>
 
-                                        {/* Corner resize handles with individual pan responders */}
-                                        <View
-                                            style={[styles.resizeHandle, styles.topLeftHandle]}
-                                            {...topLeftResize.panHandlers}
+                            {flashSheet ? (
+                                <>
+                                    <View style={styles.cropButtonRow}>
+                                        <CustomButton
+                                            title={isSplitting ? "Extracting..." : `✅ Process ${selectedRegions.length} Designs`}
+                                            onPress={processFlashSheet}
+                                            disabled={isSplitting || selectedRegions.length === 0}
+                                            style={[styles.cropButton, styles.cropAutoButton]}
                                         />
-                                        <View
-                                            style={[styles.resizeHandle, styles.topRightHandle]}
-                                            {...topRightResize.panHandlers}
+                                        <CustomButton
+                                            title="✖️ Cancel Split"
+                                            onPress={() => setFlashSheet(null)}
+                                            disabled={isSplitting}
+                                            style={[styles.cropButton, styles.skipCropButton]}
                                         />
-                                        <View
-                                            style={[styles.resizeHandle, styles.bottomLeftHandle]}
-                                            {...bottomLeftResize.panHandlers}
-                                        />
-                                        <View
-                                            style={[styles.resizeHandle, styles.bottomRightHandle]}
-                                            {...bottomRightResize.panHandlers}
-                                        />
-
-                                        {/* Size info */}
-                                        <View style={styles.sizeInfoContainer}>
-                                            <Text style={styles.sizeInfoText}>
-                                                {Math.round(cropArea.width)}×{Math.round(cropArea.height)}
-                                                {isResizing ? ' ↔️' : isDragging ? ' 🤚' : ''}
-                                            </Text>
-                                        </View>
                                     </View>
+                                    <Text style={styles.cropInstructions}>
+                                        💡 Tap a box to leave that design out{'\n'}
+                                        📥 Each design is processed in the batch queue and saved to your gallery
+                                    </Text>
+                                </>
+                            ) : (
+                                <>
+                                <View style={styles.cropButtonRow}>
+                                    <CustomButton
+                                        title={isCropping ? "Applying..." : cropMode === 'perspective' ? "✅ Flatten Page" : "✅ Apply Crop"}
+                                        onPress={cropImage}
+                                        disabled={isCropping || isDetectingPaper}
+                                        style={[styles.cropButton, styles.cropAutoButton]}
+                                    />
+                                    <CustomButton
+                                        title="➡️ Skip Crop"
+                                        onPress={skipCrop}
+                                        disabled={isCropping}
+                                        style={[styles.cropButton, styles.skipCropButton]}
+                                    />
                                 </View>
-                            </View>
+                                {cropMode === 'perspective' ? (
+                                    <Text style={styles.cropInstructions}>
+                                        📐 Drag the four corners onto the corners of the page{'\n'}
+                                        ✨ The page is flattened as if scanned from straight above
+                                    </Text>
+                                ) : (
+                                    <Text style={styles.cropInstructions}>
+                                        💡 Drag the crop area to move it around{'\n'}
+                                        🔍 Drag the corner handles to resize it{'\n'}
+                                        🔄 Reset if needed
+                                    </Text>
+                                )}
 
-                            <View style={styles.cropButtonRow}>
                                 <CustomButton
-                                    title={isCropping ? "Applying..." : "✅ Apply Crop"}
-                                    onPress={cropImage}
-                                    disabled={isCropping}
-                                    style={[styles.cropButton, styles.cropAutoButton]}
+                                    title={isCropping ? "Scanning..." : "📄 Scan Page"}
+                                    onPress={scanPage}
+                                    disabled={isCropping || isDetectingPaper}
+                                    style={styles.scanButton}
                                 />
-                                <CustomButton
-                                    title="➡️ Skip Crop"
-                                    onPress={skipCrop}
-                                    disabled={isCropping}
-                                    style={[styles.cropButton, styles.skipCropButton]}
-                                />
-                            </View>
-                            <Text style={styles.cropInstructions}>
-                                💡 Drag the crop area to move it around{'\n'}
-                                🔍 Drag the corner handles to resize it{'\n'}
-                                🔄 Reset if needed
-                            </Text>
+                                <Text style={styles.cropInstructions}>
+                                    {pageDetection
+                                        ? `📄 Page found (${Math.round(pageDetection.area * 100)}% of the photo): Scan flattens it, whitens the paper and evens out the lighting`
+                                        : '📄 Scan whitens the paper and evens out the lighting; pick 📐 Perspective first to flatten a tilted page'}
+                                </Text>
 
-                            <View style={styles.cropSecondaryButtonRow}>
-                                <CustomButton
-                                    title="🔄 Reset Position"
-                                    onPress={resetCropArea}
-                                    disabled={isCropping}
-                                    style={styles.resetCropButton}
-                                />
-                            </View>
+                                <View style={styles.cropSecondaryButtonRow}>
+                                    {cropMode === 'perspective' ? (
+                                        <CustomButton
+                                            title={isDetectingPaper ? "Detecting..." : "📄 Detect Page"}
+                                            onPress={detectPaper}
+                                            disabled={isCropping || isDetectingPaper}
+                                            style={styles.resetCropButton}
+                                        />
+                                    ) : (
+                                        <CustomButton
+                                            title="🔄 Reset Position"
+                                            onPress={resetCropArea}
+                                            disabled={isCropping}
+                                            style={styles.resetCropButton}
+                                        />
+                                    )}
+                                    <CustomButton
+                                        title={isSplitting ? "Detecting..." : "🗂️ Split Flash Sheet"}
+                                        onPress={detectFlashSheet}
+                                        disabled={isCropping || isSplitting}
+                                        style={styles.flashSplitButton}
+                                    />
+                                </View>
+                                </>
+                            )}
 
                             {isCropping && (
                                 <View style={styles.processingIndicator}>
@@ -691,9 +1386,70 @@ const DesignCaptureScreen: React.FC<NavigationProps> = ({ navigation, route }) =
                         /* Show captured image after cropping */
                         <View style={styles.imagePreview}>
                             <Text style={styles.sectionTitle}>
-                                {croppedImage ? 'Cropped Image' : 'Captured Image'}
+                                {adjustedPreview ? 'Adjusted Preview' : croppedImage ? 'Cropped Image' : 'Captured Image'}
                             </Text>
-                            <Image source={{ uri: croppedImage || capturedImage }} style={styles.previewImage} />
+                            <Image source={{ uri: adjustedPreview || croppedImage || capturedImage }} style={styles.previewImage} />
+                        </View>
+                    )}
+
+                    {/* Reference Image Adjustments */}
+                    {showProcessingOptions && (
+                        <View style={styles.optionsContainer}>
+                            <Text style={styles.sectionTitle}>🎚️ Image Adjustments</Text>
+
+                            <AdjustmentSlider
+                                label="Contrast"
+                                value={adjustments.contrast ?? 0}
+                                minimumValue={-100}
+                                maximumValue={100}
+                                step={5}
+                                onValueChange={(value) => updateAdjustment('contrast', value)}
+                            />
+
+                            <AdjustmentSlider
+                                label="Brightness"
+                                value={adjustments.brightness ?? 0}
+                                minimumValue={-100}
+                                maximumValue={100}
+                                step={5}
+                                onValueChange={(value) => updateAdjustment('brightness', value)}
+                            />
+
+                            <View style={styles.optionRow}>
+                                <Text style={styles.optionLabel}>Black & White</Text>
+                                <Switch
+                                    value={adjustments.blackAndWhite}
+                                    onValueChange={(value) => updateAdjustment('blackAndWhite', value)}
+                                    trackColor={{ false: COLORS.gray, true: COLORS.primary }}
+                                />
+                            </View>
+
+                            <View style={styles.optionRow}>
+                                <Text style={styles.optionLabel}>Invert Colors</Text>
+                                <Switch
+                                    value={adjustments.invertColors}
+                                    onValueChange={(value) => updateAdjustment('invertColors', value)}
+                                    trackColor={{ false: COLORS.gray, true: COLORS.primary }}
+                                />
+                            </View>
+
+                            <View style={styles.optionRow}>
+                                <Text style={styles.optionLabel}>Edge Detection</Text>
+                                <Switch
+                                    value={adjustments.edgeDetection}
+                                    onValueChange={(value) => updateAdjustment('edgeDetection', value)}
+                                    trackColor={{ false: COLORS.gray, true: COLORS.primary }}
+                                />
+                            </View>
+
+                            {!ImageAdjuster.isNeutral(adjustments) && (
+                                <TouchableOpacity
+                                    style={styles.resetAdjustmentsButton}
+                                    onPress={() => setAdjustments({ ...DEFAULT_IMAGE_ADJUSTMENTS })}
+                                >
+                                    <Text style={styles.resetAdjustmentsText}>↺ Reset Adjustments</Text>
+                                </TouchableOpacity>
+                            )}
                         </View>
                     )}
 
@@ -726,6 +1482,28 @@ const DesignCaptureScreen: React.FC<NavigationProps> = ({ navigation, route }) =
                                 />
                             </View>
 
+                            {aiOptions.removeBackground && (
+                                <View style={styles.subOptions}>
+                                    <View style={styles.optionRow}>
+                                        <Text style={styles.optionLabel}>Clear Enclosed Paper</Text>
+                                        <Switch
+                                            value={backgroundSettings.removeEnclosed}
+                                            onValueChange={(value) => updateBackgroundOption('removeEnclosed', value)}
+                                            trackColor={{ false: COLORS.gray, true: COLORS.primary }}
+                                        />
+                                    </View>
+
+                                    <AdjustmentSlider
+                                        label="Background Tolerance"
+                                        value={backgroundSettings.tolerance}
+                                        minimumValue={10}
+                                        maximumValue={120}
+                                        step={2}
+                                        onValueChange={(value) => updateBackgroundOption('tolerance', value)}
+                                    />
+                                </View>
+                            )}
+
                             <View style={styles.optionRow}>
                                 <Text style={styles.optionLabel}>Convert to Line Art</Text>
                                 <Switch
@@ -735,6 +1513,36 @@ const DesignCaptureScreen: React.FC<NavigationProps> = ({ navigation, route }) =
                                 />
                             </View>
 
+                            {aiOptions.convertToLineArt && (
+                                <View style={styles.subOptions}>
+                                    <View style={styles.optionRow}>
+                                        <Text style={styles.optionLabel}>Thin Lines</Text>
+                                        <Switch
+                                            value={lineArtSettings.thinLines}
+                                            onValueChange={(value) => updateLineArtOption('thinLines', value)}
+                                            trackColor={{ false: COLORS.gray, true: COLORS.primary }}
+                                        />
+                                    </View>
+
+                                    <AdjustmentSlider
+                                        label="Background Rejection"
+                                        value={Math.round(lineArtSettings.sensitivity * 100)}
+                                        minimumValue={5}
+                                        maximumValue={50}
+                                        onValueChange={(value) => updateLineArtOption('sensitivity', value / 100)}
+                                    />
+
+                                    <AdjustmentSlider
+                                        label="Speckle Removal"
+                                        value={lineArtSettings.minSpeckleArea}
+                                        minimumValue={0}
+                                        maximumValue={100}
+                                        step={2}
+                                        onValueChange={(value) => updateLineArtOption('minSpeckleArea', value)}
+                                    />
+                                </View>
+                            )}
+
                             <View style={styles.optionRow}>
                                 <Text style={styles.optionLabel}>Enhance Edges</Text>
                                 <Switch
@@ -744,6 +1552,39 @@ const DesignCaptureScreen: React.FC<NavigationProps> = ({ navigation, route }) =
                                 />
                             </View>
 
+                            {aiOptions.enhanceEdges && (
+                                <View style={styles.subOptions}>
+                                    <View style={styles.optionRow}>
+                                        <Text style={styles.optionLabel}>Canny (hysteresis)</Text>
+                                        <Switch
+                                            value={edgeSettings.algorithm === 'canny'}
+                                            onValueChange={(value) => updateEdgeOption('algorithm', value ? 'canny' : 'sobel')}
+                                            trackColor={{ false: COLORS.gray, true: COLORS.primary }}
+                                        />
+                                    </View>
+
+                                    <AdjustmentSlider
+                                        label="Edge Threshold"
+                                        value={edgeSettings.highThreshold}
+                                        minimumValue={10}
+                                        maximumValue={150}
+                                        step={5}
+                                        onValueChange={(value) => {
+                                            updateEdgeOption('highThreshold', value);
+                                            updateEdgeOption('lowThreshold', Math.round(value * 0.4));
+                                        }}
+                                    />
+
+                                    <AdjustmentSlider
+                                        label="Line Thickness"
+                                        value={edgeSettings.lineThickness}
+                                        minimumValue={1}
+                                        maximumValue={6}
+                                        onValueChange={(value) => updateEdgeOption('lineThickness', value)}
+                                    />
+                                </View>
+                            )}
+
                             <View style={styles.optionRow}>
                                 <Text style={styles.optionLabel}>Smart Crop</Text>
                                 <Switch
@@ -753,6 +1594,41 @@ const DesignCaptureScreen: React.FC<NavigationProps> = ({ navigation, route }) =
                                 />
                             </View>
 
+                            {aiOptions.smartCrop && (
+                                <View style={styles.subOptions}>
+                                    <View style={styles.aspectRow}>
+                                        {CROP_ASPECTS.map(({ value, label }) => (
+                                            <TouchableOpacity
+                                                key={value}
+                                                style={[styles.aspectChip, cropSettings.aspect === value && styles.aspectChipActive]}
+                                                onPress={() => updateCropOption('aspect', value)}
+                                            >
+                                                <Text style={[styles.aspectChipText, cropSettings.aspect === value && styles.aspectChipTextActive]}>
+                                                    {label}
+                                                </Text>
+                                            </TouchableOpacity>
+                                        ))}
+                                    </View>
+
+                                    <AdjustmentSlider
+                                        label="Padding %"
+                                        value={Math.round(cropSettings.padding * 100)}
+                                        minimumValue={0}
+                                        maximumValue={25}
+                                        onValueChange={(value) => updateCropOption('padding', value / 100)}
+                                    />
+
+                                    <View style={styles.optionRow}>
+                                        <Text style={styles.optionLabel}>Focus on Detail</Text>
+                                        <Switch
+                                            value={cropSettings.saliencyWeighting}
+                                            onValueChange={(value) => updateCropOption('saliencyWeighting', value)}
+                                            trackColor={{ false: COLORS.gray, true: COLORS.primary }}
+                                        />
+                                    </View>
+                                </View>
+                            )}
+
                             {isAIAvailable && aiOptions.useAI && (
                                 <View style={styles.optionRow}>
                                     <Text style={styles.optionLabel}>Output as SVG</Text>
@@ -763,17 +1639,59 @@ const DesignCaptureScreen: React.FC<NavigationProps> = ({ navigation, route }) =
                                     />
                                 </View>
                             )}
+
+                            {/* The tracer and the CPU server need no API key, so these apply to every SVG run */}
+                            {aiOptions.outputFormat === 'SVG' && (
+                                <View style={styles.subOptions}>
+                                    <AdjustmentSlider
+                                        label="Path Simplification"
+                                        value={Math.round(simplifySettings.tolerance * 1000)}
+                                        minimumValue={0}
+                                        maximumValue={10}
+                                        onValueChange={(value) => updateSimplifyOption('tolerance', value / 1000)}
+                                    />
+                                    <AdjustmentSlider
+                                        label="Candidates"
+                                        value={aiOptions.candidates ?? 1}
+                                        minimumValue={1}
+                                        maximumValue={CANDIDATE_DEFAULTS.maxCandidates}
+                                        onValueChange={(value) => updateAIOption('candidates', value)}
+                                    />
+
+                                    <Text style={styles.optionLabel}>Vectorizer Order</Text>
+                                    {providerOrder.map((provider, index) => (
+                                        <TouchableOpacity
+                                            key={provider.id}
+                                            style={[styles.providerItem, index === 0 && styles.aspectChipActive]}
+                                            onPress={() => preferProvider(provider.id)}
+                                        >
+                                            <Text style={[styles.aspectChipText, index === 0 && styles.aspectChipTextActive]}>
+                                                {index + 1}. {provider.name}
+                                            </Text>
+                                        </TouchableOpacity>
+                                    ))}
+                                </View>
+                            )}
                         </View>
                     )}
 
                     {/* Process Button */}
                     <CustomButton
                         title={isProcessing ? "Processing..." : "🎨 Create Tattoo Design"}
-                        onPress={processImageToTattooStyle}
+                        onPress={() => processImageToTattooStyle()}
                         disabled={isProcessing}
                         style={styles.processButton}
                     />
 
+                    {/* Long CPU runs can go to the queue instead, so the next photo can be captured */}
+                    {!isProcessing && (
+                        <CustomButton
+                            title="📥 Add to Batch Queue"
+                            onPress={addToBatch}
+                            style={styles.processButton}
+                        />
+                    )}
+
                     {isProcessing && (
                         <View style={styles.processingIndicator}>
                             <ActivityIndicator size="large" color={COLORS.primary} />
@@ -782,6 +1700,33 @@ const DesignCaptureScreen: React.FC<NavigationProps> = ({ navigation, route }) =
                                     ? 'AI is analyzing and processing your image...'
                                     : 'Processing your image...'}
                             </Text>
+
+                            {/* Elements appear as the model streams them, so a bad result can be stopped early */}
+                            <CustomButton
+                                title="Cancel"
+                                onPress={cancelProcessing}
+                                style={styles.cancelProcessingButton}
+                            />
+
+                            {liveSvg && (
+                                <View style={styles.livePreviewContainer}>
+                                    <View style={styles.livePreview}>
+                                        <DesignRenderer
+                                            design={{ id: 'live-preview', name: 'Live Preview', uri: '', svgCode: liveSvg.svgCode, isUserGenerated: true }}
+                                            width="100%"
+                                            height="100%"
+                                        />
+                                    </View>
+                                    <Text style={styles.livePreviewText}>
+                                        Drawing... {liveSvg.elements} elements ({liveSvg.tokens} tokens)
+                                    </Text>
+                                    <CustomButton
+                                        title="Stop and Try Next Vectorizer"
+                                        onPress={() => StarVectorProcessor.stopStreaming()}
+                                        style={styles.stopStreamButton}
+                                    />
+                                </View>
+                            )}
                         </View>
                     )}
 
@@ -789,7 +1734,48 @@ const DesignCaptureScreen: React.FC<NavigationProps> = ({ navigation, route }) =
                     {processedImage && (
                         <View style={styles.imagePreview}>
                             <Text style={styles.sectionTitle}>Processed Design</Text>
-                            <Image source={{ uri: processedImage }} style={styles.previewImage} />
+                            <View style={styles.processedPreview}>
+                                <DesignRenderer
+                                    design={{ id: 'preview', name: 'Processed Design', uri: processedImage, svgCode: processedSvg || undefined, isUserGenerated: true }}
+                                    width="100%"
+                                    height="100%"
+                                />
+                            </View>
+                            {fidelity && (
+                                <Text style={styles.fidelityText}>
+                                    Matches input: {FidelityScorer.describe(fidelity)}
+                                </Text>
+                            )}
+
+                            {/* Ranked best first; tapping one makes it the design to save */}
+                            {candidates.length > 1 && (
+                                <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.candidateRow}>
+                                    {candidates.map((candidate, index) => {
+                                        const isSelected = candidate.svgCode === processedSvg;
+                                        return (
+                                            <TouchableOpacity
+                                                key={candidate.id}
+                                                style={[styles.candidateItem, isSelected && styles.candidateItemSelected]}
+                                                onPress={() => selectCandidate(candidate)}
+                                            >
+                                                <View style={styles.candidatePreview}>
+                                                    <DesignRenderer
+                                                        design={{ id: candidate.id, name: candidate.label, uri: candidate.previewUri, svgCode: candidate.svgCode, isUserGenerated: true }}
+                                                        width="100%"
+                                                        height="100%"
+                                                    />
+                                                </View>
+                                                <Text style={styles.candidateScore}>
+                                                    #{index + 1} · {Math.round(candidate.score.total * 100)}%
+                                                </Text>
+                                                <Text style={styles.candidateLabel} numberOfLines={2}>
+                                                    {candidate.label}
+                                                </Text>
+                                            </TouchableOpacity>
+                                        );
+                                    })}
+                                </ScrollView>
+                            )}
 
                             <View style={styles.buttonRow}>
                                 <CustomButton
@@ -805,6 +1791,18 @@ const DesignCaptureScreen: React.FC<NavigationProps> = ({ navigation, route }) =
                             </View>
                         </View>
                     )}
+
+                    {/* Debug timeline: what ran, how long it took and why each fallback triggered */}
+                    {processingSteps.length > 0 && !isProcessing && (
+                        <View style={styles.optionsContainer}>
+                            <TouchableOpacity onPress={() => setShowTimeline(!showTimeline)}>
+                                <Text style={styles.timelineToggle}>
+                                    {showTimeline ? '▾' : '▸'} Processing Timeline
+                                </Text>
+                            </TouchableOpacity>
+                            {showTimeline && <ProcessingTimeline steps={processingSteps} />}
+                        </View>
+                    )}
                 </ScrollView>
             )}
         </View>
@@ -885,6 +1883,13 @@ const styles = StyleSheet.create({
         resizeMode: 'contain',
         backgroundColor: COLORS.lightGray,
     },
+    processedPreview: {
+        width: '100%',
+        height: 300,
+        borderRadius: 10,
+        overflow: 'hidden',
+        backgroundColor: COLORS.lightGray,
+    },
     optionsContainer: {
         backgroundColor: COLORS.lightGray,
         borderRadius: 10,
@@ -897,6 +1902,12 @@ const styles = StyleSheet.create({
         alignItems: 'center',
         paddingVertical: 8,
     },
+    subOptions: {
+        paddingLeft: 12,
+        borderLeftWidth: 2,
+        borderLeftColor: COLORS.primary,
+        marginBottom: 8,
+    },
     optionLabel: {
         fontSize: 16,
         fontFamily: FONT.regular,
@@ -906,6 +1917,55 @@ const styles = StyleSheet.create({
     processButton: {
         marginBottom: 20,
     },
+    aspectRow: {
+        flexDirection: 'row',
+        marginVertical: 8,
+    },
+    aspectChip: {
+        flex: 1,
+        alignItems: 'center',
+        paddingVertical: 6,
+        marginRight: 8,
+        borderRadius: 16,
+        borderWidth: 1,
+        borderColor: COLORS.gray,
+    },
+    aspectChipActive: {
+        backgroundColor: COLORS.primary,
+        borderColor: COLORS.primary,
+    },
+    aspectChipText: {
+        fontSize: 14,
+        fontFamily: FONT.medium,
+        color: COLORS.darkGray,
+    },
+    aspectChipTextActive: {
+        color: COLORS.white,
+    },
+    providerItem: {
+        paddingVertical: 6,
+        paddingHorizontal: 12,
+        marginTop: 6,
+        borderRadius: 16,
+        borderWidth: 1,
+        borderColor: COLORS.gray,
+    },
+    timelineToggle: {
+        fontSize: 14,
+        fontFamily: FONT.medium,
+        color: COLORS.primary,
+    },
+    resetAdjustmentsButton: {
+        alignSelf: 'center',
+        marginTop: 8,
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+    },
+    resetAdjustmentsText: {
+        fontSize: 14,
+        fontFamily: FONT.medium,
+        color: COLORS.primary,
+    },
     processingIndicator: {
         alignItems: 'center',
         marginBottom: 20,
@@ -917,6 +1977,73 @@ const styles = StyleSheet.create({
         color: COLORS.primary,
         textAlign: 'center',
     },
+    livePreviewContainer: {
+        alignSelf: 'stretch',
+        alignItems: 'center',
+        marginTop: 15,
+    },
+    livePreview: {
+        width: 200,
+        height: 200,
+        borderWidth: 1,
+        borderColor: COLORS.lightGray,
+        borderRadius: 10,
+        backgroundColor: COLORS.white,
+        overflow: 'hidden',
+    },
+    livePreviewText: {
+        marginTop: 8,
+        fontSize: 12,
+        fontFamily: FONT.regular,
+        color: COLORS.darkGray,
+    },
+    cancelProcessingButton: {
+        marginTop: 10,
+        backgroundColor: COLORS.gray,
+    },
+    stopStreamButton: {
+        marginTop: 10,
+        backgroundColor: COLORS.gray,
+    },
+    fidelityText: {
+        marginTop: 8,
+        fontSize: 12,
+        fontFamily: FONT.regular,
+        color: COLORS.darkGray,
+        textAlign: 'center',
+    },
+    candidateRow: {
+        marginTop: 12,
+    },
+    candidateItem: {
+        width: 110,
+        marginRight: 10,
+        padding: 5,
+        borderWidth: 2,
+        borderColor: COLORS.lightGray,
+        borderRadius: 10,
+    },
+    candidateItemSelected: {
+        borderColor: COLORS.primary,
+    },
+    candidatePreview: {
+        width: '100%',
+        height: 96,
+        borderRadius: 6,
+        overflow: 'hidden',
+        backgroundColor: COLORS.white,
+    },
+    candidateScore: {
+        marginTop: 5,
+        fontSize: 13,
+        fontFamily: FONT.bold,
+        color: COLORS.black,
+    },
+    candidateLabel: {
+        fontSize: 11,
+        fontFamily: FONT.regular,
+        color: COLORS.darkGray,
+    },
     buttonRow: {
         flexDirection: 'row',
         justifyContent: 'space-between',
@@ -1011,6 +2138,46 @@ const styles = StyleSheet.create({
         backgroundColor: COLORS.darkGray,
         minWidth: 150,
     },
+    scanButton: {
+        backgroundColor: COLORS.primary,
+        alignSelf: 'center',
+        minWidth: 200,
+        marginBottom: 10,
+    },
+    flashSplitButton: {
+        backgroundColor: COLORS.primary,
+        minWidth: 150,
+        marginLeft: 10,
+    },
+    flashRegion: {
+        position: 'absolute',
+        borderWidth: 2,
+        borderColor: 'rgba(255, 255, 255, 0.7)',
+        borderStyle: 'dashed',
+        backgroundColor: 'rgba(0, 0, 0, 0.35)',
+    },
+    flashRegionSelected: {
+        borderColor: COLORS.primary,
+        borderStyle: 'solid',
+        backgroundColor: 'rgba(30, 136, 229, 0.15)',
+    },
+    flashRegionLabel: {
+        alignSelf: 'flex-start',
+        backgroundColor: COLORS.primary,
+        color: COLORS.white,
+        fontSize: 12,
+        fontFamily: FONT.bold,
+        paddingHorizontal: 4,
+    },
+    quadHandle: {
+        position: 'absolute',
+        width: QUAD_HANDLE_SIZE,
+        height: QUAD_HANDLE_SIZE,
+        borderRadius: QUAD_HANDLE_SIZE / 2,
+        backgroundColor: COLORS.primary,
+        borderWidth: 3,
+        borderColor: COLORS.white,
+    },
     manualControlsContainer: {
         backgroundColor: COLORS.lightGray,
         borderRadius: 8,
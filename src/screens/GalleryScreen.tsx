@@ -1,7 +1,7 @@
 import React, { useState, useMemo } from 'react';
 import { View, StyleSheet, FlatList, TextInput, TouchableOpacity, Text } from 'react-native';
-import { SvgUri } from 'react-native-svg';
 import Header from '../components/Header';
+import DesignRenderer from '../components/DesignRenderer';
 import { NavigationProps, Design } from '../types';
 import { DESIGNS } from '../constants/designs';
 import { COLORS, SIZES, FONT } from '../constants/theme';
@@ -37,7 +37,7 @@ const GalleryScreen: React.FC<NavigationProps> = ({ navigation }) => {
 
   const renderDesign = ({ item }: { item: Design }) => (
     <TouchableOpacity style={styles.designContainer}>
-      <SvgUri uri={item.uri} width="100%" height="80%" />
+      <DesignRenderer design={item} width="100%" height="80%" />
       <Text style={styles.designName}>{item.name}</Text>
     </TouchableOpacity>
   );
@@ -19,6 +19,10 @@ const HomeScreen: React.FC<NavigationProps> = ({ navigation }) => {
           title="Capture Your Design"
           onPress={() => navigation.navigate('DesignCapture')}
         />
+        <CustomButton
+          title="Batch Queue"
+          onPress={() => navigation.navigate('BatchQueue')}
+        />
         <CustomButton
           title="Virtual Try-On"
           onPress={() => navigation.navigate('VirtualTryOn')}
@@ -27,6 +31,10 @@ const HomeScreen: React.FC<NavigationProps> = ({ navigation }) => {
           title="Inspiration Gallery"
           onPress={() => navigation.navigate('Gallery')}
         />
+        <CustomButton
+          title="Server Settings"
+          onPress={() => navigation.navigate('ServerSettings')}
+        />
       </View>
     </ScrollView>
   );
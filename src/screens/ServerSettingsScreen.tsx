@@ -0,0 +1,225 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TextInput, Alert } from 'react-native';
+import Header from '../components/Header';
+import CustomButton from '../components/CustomButton';
+import { NavigationProps } from '../types';
+import { COLORS, FONT, SIZES } from '../constants/theme';
+import { InferenceServer, InferenceServerInfo } from '../utils/inferenceServer';
+
+interface SettingsForm {
+  host: string;
+  port: string;
+  healthTimeout: string;      // Seconds
+  generateTimeout: string;    // Seconds
+  discoveryHosts: string;     // Comma-separated
+}
+
+const describeInfo = (info: InferenceServerInfo) =>
+  `${info.model}${info.modelSize ? ` (${info.modelSize.toUpperCase()})` : ''} on ${info.device.toUpperCase()}` +
+  (info.loaded ? '' : ' — model still loading');
+
+const ServerSettingsScreen: React.FC<NavigationProps> = ({ navigation }) => {
+  const [form, setForm] = useState<SettingsForm | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [busy, setBusy] = useState<'test' | 'discover' | 'save' | null>(null);
+
+  useEffect(() => {
+    InferenceServer.load().then(config => setForm({
+      host: config.host,
+      port: String(config.port),
+      healthTimeout: String(config.healthTimeoutMs / 1000),
+      generateTimeout: String(config.generateTimeoutMs / 1000),
+      discoveryHosts: config.discoveryHosts.join(', '),
+    }));
+  }, []);
+
+  const updateField = (field: keyof SettingsForm, value: string) => {
+    setForm(prev => prev && { ...prev, [field]: value });
+  };
+
+  const saveForm = async () => {
+    if (!form) return null;
+
+    const port = parseInt(form.port, 10);
+    const healthTimeout = parseFloat(form.healthTimeout);
+    const generateTimeout = parseFloat(form.generateTimeout);
+    if (!form.host.trim() || !(port > 0 && port < 65536) || !(healthTimeout > 0) || !(generateTimeout > 0)) {
+      Alert.alert('Invalid Settings', 'Enter a host, a port between 1 and 65535, and positive timeouts.');
+      return null;
+    }
+
+    return InferenceServer.save({
+      host: form.host.trim(),
+      port,
+      healthTimeoutMs: Math.round(healthTimeout * 1000),
+      generateTimeoutMs: Math.round(generateTimeout * 1000),
+      discoveryHosts: form.discoveryHosts.split(',').map(host => host.trim()).filter(Boolean),
+    });
+  };
+
+  const handleSave = async () => {
+    setBusy('save');
+    try {
+      if (await saveForm()) setStatus('Settings saved');
+    } catch (error) {
+      Alert.alert('Error', 'Failed to save server settings.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleTest = async () => {
+    setBusy('test');
+    try {
+      const config = await saveForm();
+      if (!config) return;
+
+      setStatus(`Connecting to ${InferenceServer.baseUrl(config)}...`);
+      const info = await InferenceServer.getInfo(config);
+      setStatus(info
+        ? `✅ Connected: ${describeInfo(info)}`
+        : `❌ No server at ${InferenceServer.baseUrl(config)}`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleDiscover = async () => {
+    setBusy('discover');
+    try {
+      if (!(await saveForm())) return;
+
+      setStatus('Searching the local network...');
+      const result = await InferenceServer.discover();
+      if (!result) {
+        setStatus('❌ No server found. Start scripts/start_cpu_server.py and check both devices are on the same Wi-Fi.');
+        return;
+      }
+
+      setForm(prev => prev && { ...prev, host: result.host, port: String(result.port) });
+      setStatus(`✅ Found ${result.host}:${result.port}${result.info ? `: ${describeInfo(result.info)}` : ''}`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <Header title="Server Settings" showBack onBack={() => navigation.goBack()} />
+
+      {form && (
+        <ScrollView contentContainerStyle={styles.content}>
+          <Text style={styles.sectionTitle}>Local StarVector Server</Text>
+          <Text style={styles.hint}>
+            On a phone, use the LAN address printed by scripts/start_cpu_server.py, not localhost.
+          </Text>
+
+          <Text style={styles.label}>Host</Text>
+          <TextInput
+            style={styles.input}
+            value={form.host}
+            onChangeText={(value) => updateField('host', value)}
+            autoCapitalize="none"
+            autoCorrect={false}
+            placeholder="192.168.1.20"
+            placeholderTextColor={COLORS.gray}
+          />
+
+          <Text style={styles.label}>Port</Text>
+          <TextInput
+            style={styles.input}
+            value={form.port}
+            onChangeText={(value) => updateField('port', value)}
+            keyboardType="number-pad"
+          />
+
+          <Text style={styles.label}>Connection Timeout (seconds)</Text>
+          <TextInput
+            style={styles.input}
+            value={form.healthTimeout}
+            onChangeText={(value) => updateField('healthTimeout', value)}
+            keyboardType="decimal-pad"
+          />
+
+          <Text style={styles.label}>Generation Timeout (seconds)</Text>
+          <TextInput
+            style={styles.input}
+            value={form.generateTimeout}
+            onChangeText={(value) => updateField('generateTimeout', value)}
+            keyboardType="decimal-pad"
+          />
+
+          <Text style={styles.label}>Extra Hosts to Probe</Text>
+          <TextInput
+            style={styles.input}
+            value={form.discoveryHosts}
+            onChangeText={(value) => updateField('discoveryHosts', value)}
+            autoCapitalize="none"
+            autoCorrect={false}
+            placeholder="192.168.1.20, my-laptop.local:8001"
+            placeholderTextColor={COLORS.gray}
+          />
+
+          {status && <Text style={styles.status}>{status}</Text>}
+
+          <CustomButton title="Test Connection" onPress={handleTest} loading={busy === 'test'} disabled={!!busy} />
+          <CustomButton title="Discover Server" onPress={handleDiscover} loading={busy === 'discover'} disabled={!!busy} />
+          <CustomButton title="Save" onPress={handleSave} loading={busy === 'save'} disabled={!!busy} />
+        </ScrollView>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.white,
+  },
+  content: {
+    padding: SIZES.padding,
+    alignItems: 'center',
+  },
+  sectionTitle: {
+    alignSelf: 'stretch',
+    fontSize: SIZES.h3,
+    fontFamily: FONT.bold,
+    color: COLORS.black,
+    marginBottom: SIZES.base,
+  },
+  hint: {
+    alignSelf: 'stretch',
+    fontSize: SIZES.body4,
+    fontFamily: FONT.regular,
+    color: COLORS.darkGray,
+    marginBottom: SIZES.base * 2,
+  },
+  label: {
+    alignSelf: 'stretch',
+    fontSize: SIZES.body4,
+    fontFamily: FONT.medium,
+    color: COLORS.darkGray,
+    marginBottom: 4,
+  },
+  input: {
+    alignSelf: 'stretch',
+    borderWidth: 1,
+    borderColor: COLORS.gray,
+    borderRadius: SIZES.radius,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginBottom: SIZES.base * 2,
+    fontSize: SIZES.body4,
+    fontFamily: FONT.regular,
+    color: COLORS.black,
+  },
+  status: {
+    alignSelf: 'stretch',
+    fontSize: SIZES.body4,
+    fontFamily: FONT.medium,
+    color: COLORS.darkGray,
+    marginBottom: SIZES.base * 2,
+  },
+});
+
+export default ServerSettingsScreen;
@@ -1,7 +1,7 @@
 import React, { useState } from 'react';
-import { View, StyleSheet, TextInput, Alert, ActivityIndicator, Share, TouchableOpacity, Text, Dimensions, Image } from 'react-native';
-import { SvgUri } from 'react-native-svg';
+import { View, StyleSheet, TextInput, Alert, ActivityIndicator, Share, TouchableOpacity, Text, Dimensions } from 'react-native';
 import Header from '../components/Header';
+import DesignRenderer from '../components/DesignRenderer';
 import CustomButton from '../components/CustomButton';
 import CameraWithTattoo from '../components/CameraView';
 import { NavigationProps, Design, TattooPosition } from '../types';
@@ -112,23 +112,12 @@ const VirtualTryOnScreen: React.FC<NavigationProps> = ({ navigation, route }) =>
       />
       <View style={styles.contentContainer}>
         <View style={styles.designContainer}>
-          {design.isUserGenerated ? (
-            // Use Image component for user-generated PNG designs
-            <Image
-              source={{ uri: design.uri }}
-              style={styles.designImage}
-              resizeMode="contain"
-              onError={() => Alert.alert('Error', 'Failed to load custom design')}
-            />
-          ) : (
-            // Use SvgUri for predefined SVG designs
-            <SvgUri
-              uri={design.uri}
-              width="100%"
-              height="100%"
-              onError={() => Alert.alert('Error', 'Failed to load design')}
-            />
-          )}
+          <DesignRenderer
+            design={design}
+            width="100%"
+            height="100%"
+            onError={() => Alert.alert('Error', design.isUserGenerated ? 'Failed to load custom design' : 'Failed to load design')}
+          />
           {isGenerating && (
             <View style={styles.loadingOverlay}>
               <ActivityIndicator size="large" color={COLORS.primary} />
@@ -193,10 +182,6 @@ const styles = StyleSheet.create({
     overflow: 'hidden',
     position: 'relative',
   },
-  designImage: {
-    width: '100%',
-    height: '100%',
-  },
   loadingOverlay: {
     position: 'absolute',
     top: 0,
@@ -1,7 +1,13 @@
+import type { ProcessingStep } from '../utils/processingTrace';
+
+export type DesignFormat = 'svg' | 'png';
+
 export interface Design {
   id: string;
   name: string;
-  uri: string;
+  uri: string;          // Remote/local SVG, or a PNG for raster designs
+  format?: DesignFormat; // Inferred from svgCode / uri when missing
+  svgCode?: string;     // Inline SVG source for generated vector designs
   category?: string;
   isUserGenerated?: boolean;
   originalImageUri?: string;
@@ -39,6 +45,14 @@ export interface TattooPosition {
   rotation: number;
 }
 
+export interface DesignRendererProps {
+  design: Design;
+  width: number | `${number}%`;
+  height: number | `${number}%`;
+  style?: any;
+  onError?: () => void;
+}
+
 export interface CameraViewProps {
   design: Design;
   tattooPosition: TattooPosition;
@@ -52,9 +66,23 @@ export interface DesignCaptureProps {
 }
 
 export interface ImageProcessingOptions {
-  contrast?: number;
-  brightness?: number;
+  contrast?: number;    // -100 to 100, 0 = unchanged
+  brightness?: number;  // -100 to 100, 0 = unchanged
   blackAndWhite?: boolean;
   invertColors?: boolean;
   edgeDetection?: boolean;
 }
+
+export interface AdjustmentSliderProps {
+  label: string;
+  value: number;
+  minimumValue: number;
+  maximumValue: number;
+  step?: number;
+  onValueChange: (value: number) => void;
+  onSlidingComplete?: (value: number) => void;
+}
+
+export interface ProcessingTimelineProps {
+  steps: ProcessingStep[];
+}
@@ -0,0 +1,41 @@
+import { BackgroundRemover } from '../backgroundRemover';
+import { ImageCodec, PixelBuffer } from '../imageCodec';
+
+const SIZE = 40;
+
+// Cream paper with a black ring (outer radius 12, inner radius 8) in the middle
+function ringOnPaper(): PixelBuffer {
+    const buffer = ImageCodec.create(SIZE, SIZE, [240, 232, 215, 255]);
+    for (let y = 0; y < SIZE; y++) {
+        for (let x = 0; x < SIZE; x++) {
+            const r = Math.hypot(x - 20, y - 20);
+            if (r <= 12 && r >= 8) buffer.data.set([10, 10, 10, 255], (y * SIZE + x) * 4);
+        }
+    }
+    return buffer;
+}
+
+const alphaAt = (buffer: PixelBuffer, x: number, y: number) => buffer.data[(y * SIZE + x) * 4 + 3];
+
+describe('BackgroundRemover', () => {
+    it('estimates the paper color from the border', () => {
+        expect(BackgroundRemover.estimateBackgroundColor(ringOnPaper())).toEqual([240, 232, 215]);
+    });
+
+    it('makes the paper transparent and keeps the ink opaque', () => {
+        const { buffer, removedRatio } = BackgroundRemover.remove(ringOnPaper(), { feather: 0 });
+
+        expect(alphaAt(buffer, 2, 2)).toBe(0);
+        expect(alphaAt(buffer, 20, 10)).toBe(255);
+        expect(removedRatio).toBeGreaterThan(0.5);
+        expect(removedRatio).toBeLessThan(1);
+    });
+
+    it('clears paper enclosed by ink only when asked to', () => {
+        const kept = BackgroundRemover.remove(ringOnPaper(), { feather: 0, removeEnclosed: false });
+        const cleared = BackgroundRemover.remove(ringOnPaper(), { feather: 0, removeEnclosed: true, minEnclosedArea: 10 });
+
+        expect(alphaAt(kept.buffer, 20, 20)).toBe(255);
+        expect(alphaAt(cleared.buffer, 20, 20)).toBe(0);
+    });
+});
@@ -0,0 +1,179 @@
+import type { BatchJob } from '../batchQueue';
+
+// Survives jest.resetModules, like the device's storage survives an app restart
+const mockStorage = new Map<string, string>();
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+    __esModule: true,
+    default: {
+        getItem: async (key: string) => mockStorage.get(key) ?? null,
+        setItem: async (key: string, value: string) => { mockStorage.set(key, value); },
+    },
+}));
+jest.mock('expo-file-system', () => ({}));
+jest.mock('../aiImageProcessor', () => ({
+    AIImageProcessor: { setAPIKeys: jest.fn(), processImageToTattooDesign: jest.fn() },
+}));
+jest.mock('../designManager', () => ({
+    DesignManager: {
+        saveCustomDesign: jest.fn(async () => {}),
+        keepImage: jest.fn(async (uri: string, id: string) => `file:///documents/designs/${id}.${uri.split('.').pop()}`),
+    },
+}));
+
+const QUEUE_KEY = 'batch_processing_queue';
+
+// A fresh copy of the queue module and its mocked collaborators, as after an app restart
+function launch() {
+    jest.resetModules();
+    return {
+        BatchQueue: require('../batchQueue').BatchQueue as typeof import('../batchQueue').BatchQueue,
+        process: require('../aiImageProcessor').AIImageProcessor.processImageToTattooDesign as jest.Mock,
+        saveDesign: require('../designManager').DesignManager.saveCustomDesign as jest.Mock,
+    };
+}
+
+function storedJob(id: string, changes: Partial<BatchJob> = {}): BatchJob {
+    return {
+        id,
+        name: `Batch Design ${id}`,
+        imageUri: `file:///documents/batch_inputs/${id}.jpg`,
+        status: 'queued',
+        progress: 0,
+        attempts: 0,
+        createdAt: 1,
+        options: { useAI: true },
+        ...changes,
+    };
+}
+
+const stored = (): BatchJob[] => JSON.parse(mockStorage.get(QUEUE_KEY) ?? '[]');
+
+// Let queued runs and their saves settle
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const success = { success: true, processedImageUri: 'file:///cache/design.png', processingSteps: [] };
+
+describe('BatchQueue', () => {
+    beforeEach(() => {
+        mockStorage.clear();
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('processes queued photos and saves each result as a design', async () => {
+        const { BatchQueue, process, saveDesign } = launch();
+        process.mockResolvedValue(success);
+
+        const [job] = await BatchQueue.enqueue(['file:///cache/photo.jpg'], { useAI: true, outputFormat: 'SVG' });
+        await settle();
+
+        expect(process).toHaveBeenCalledWith('file:///cache/photo.jpg', expect.objectContaining({ outputFormat: 'SVG' }));
+        expect(saveDesign).toHaveBeenCalledWith(expect.objectContaining({ name: job.name, originalImageUri: 'file:///cache/photo.jpg' }));
+        // The design keeps its own copy rather than the pipeline's (possibly cached) file
+        expect(saveDesign.mock.calls[0][0].uri).toMatch(/^file:\/\/\/documents\/designs\/user_\d+\.png$/);
+        expect(stored()[0]).toMatchObject({ status: 'done', progress: 1, attempts: 1 });
+    });
+
+    it('queues jobs interrupted by a restart again and runs them', async () => {
+        mockStorage.set(QUEUE_KEY, JSON.stringify([storedJob('a', { status: 'processing', attempts: 1, progress: 0.4, stage: 'Background removed' })]));
+        const { BatchQueue, process } = launch();
+        process.mockResolvedValue(success);
+
+        await BatchQueue.restore();
+        await settle();
+
+        expect(process).toHaveBeenCalledTimes(1);
+        expect(stored()[0]).toMatchObject({ id: 'a', status: 'done', attempts: 2 });
+    });
+
+    it('fails a job that restarts have interrupted too often instead of running it again', async () => {
+        mockStorage.set(QUEUE_KEY, JSON.stringify([storedJob('a', { status: 'processing', attempts: 3 })]));
+        const { BatchQueue, process } = launch();
+
+        await BatchQueue.restore();
+        await settle();
+
+        expect(process).not.toHaveBeenCalled();
+        expect(stored()[0]).toMatchObject({ status: 'failed', error: 'Interrupted too many times' });
+    });
+
+    it('records a failed run and can retry it', async () => {
+        const { BatchQueue, process } = launch();
+        process.mockResolvedValueOnce({ success: false, error: 'No design found', processingSteps: [] });
+
+        const [job] = await BatchQueue.enqueue(['file:///cache/photo.jpg']);
+        await settle();
+        expect(stored()[0]).toMatchObject({ status: 'failed', error: 'No design found' });
+
+        process.mockResolvedValueOnce(success);
+        await BatchQueue.retry(job.id);
+        await settle();
+        expect(stored()[0]).toMatchObject({ status: 'done', attempts: 1 });
+        expect(stored()[0].error).toBeUndefined();
+    });
+
+    it('aborts a running job when it is cancelled', async () => {
+        const { BatchQueue, process, saveDesign } = launch();
+        let signal: AbortSignal | undefined;
+        process.mockImplementation((_uri: string, options: { signal: AbortSignal }) => {
+            signal = options.signal;
+            return new Promise(resolve => options.signal.addEventListener('abort', () => resolve({ success: false, cancelled: true })));
+        });
+
+        const [job] = await BatchQueue.enqueue(['file:///cache/photo.jpg']);
+        await settle();
+        await BatchQueue.cancel(job.id);
+        await settle();
+
+        expect(signal?.aborted).toBe(true);
+        expect(saveDesign).not.toHaveBeenCalled();
+        expect(stored()[0]).toMatchObject({ status: 'cancelled' });
+    });
+
+    it('can still cancel a job retried while its cancelled run was settling', async () => {
+        const { BatchQueue, process } = launch();
+        require('../../constants/aiConfig').BATCH_QUEUE_DEFAULTS.concurrency = 2;
+        const signals: AbortSignal[] = [];
+        let settleFirstRun = () => {};
+        process.mockImplementation((_uri: string, options: { signal: AbortSignal }) => {
+            signals.push(options.signal);
+            return new Promise(resolve => {
+                const cancelled = () => resolve({ success: false, cancelled: true });
+                if (signals.length === 1) settleFirstRun = cancelled;
+                else options.signal.addEventListener('abort', cancelled);
+            });
+        });
+
+        const [job] = await BatchQueue.enqueue(['file:///cache/photo.jpg']);
+        await settle();
+        await BatchQueue.cancel(job.id);
+        await BatchQueue.retry(job.id);
+        await settle();
+        expect(signals).toHaveLength(2);
+
+        // The first run finishing must not forget the second run's controller
+        settleFirstRun();
+        await settle();
+        await BatchQueue.cancel(job.id);
+
+        expect(signals[1].aborted).toBe(true);
+    });
+
+    it('runs one job at a time, oldest first', async () => {
+        const { BatchQueue, process } = launch();
+        const finish: Array<() => void> = [];
+        process.mockImplementation(() => new Promise(resolve => finish.push(() => resolve(success))));
+
+        await BatchQueue.enqueue(['file:///cache/first.jpg', 'file:///cache/second.jpg']);
+        await settle();
+        expect(process.mock.calls.map(call => call[0])).toEqual(['file:///cache/first.jpg']);
+
+        finish[0]();
+        await settle();
+        expect(process.mock.calls.map(call => call[0])).toEqual(['file:///cache/first.jpg', 'file:///cache/second.jpg']);
+    });
+});
@@ -0,0 +1,74 @@
+import * as FileSystem from 'expo-file-system';
+import { Cancellation, CancelledError, TempFileTracker } from '../cancellation';
+import { EventStream } from '../eventStream';
+
+jest.mock('expo-file-system', () => ({
+    cacheDirectory: 'file:///cache/',
+    documentDirectory: 'file:///documents/',
+    deleteAsync: jest.fn(async () => {}),
+}));
+
+describe('Cancellation', () => {
+    it('throws a CancelledError only once the signal aborts', () => {
+        const controller = new AbortController();
+        expect(() => Cancellation.throwIfAborted(controller.signal)).not.toThrow();
+        expect(() => Cancellation.throwIfAborted(undefined)).not.toThrow();
+
+        controller.abort();
+        expect(() => Cancellation.throwIfAborted(controller.signal)).toThrow(CancelledError);
+    });
+
+    it('treats aborted fetches and cancelled runs alike', () => {
+        const fetchAbort = new Error('Aborted');
+        fetchAbort.name = 'AbortError';
+
+        expect(Cancellation.isCancelled(new CancelledError())).toBe(true);
+        expect(Cancellation.isCancelled(fetchAbort)).toBe(true);
+        expect(Cancellation.isCancelled(new Error('Network request failed'))).toBe(false);
+    });
+
+    it('aborts an open event stream when the signal aborts', async () => {
+        const abort = jest.fn();
+        (global as any).XMLHttpRequest = class {
+            open() {}
+            setRequestHeader() {}
+            send() {}
+            abort() {
+                abort();
+                (this as any).onabort?.();
+            }
+        };
+
+        const controller = new AbortController();
+        const { response } = EventStream.open('http://server/generate', { signal: controller.signal, onEvent: () => {} });
+        controller.abort();
+
+        await expect(response).rejects.toMatchObject({ name: 'AbortError' });
+        expect(abort).toHaveBeenCalled();
+    });
+});
+
+describe('TempFileTracker', () => {
+    beforeEach(() => {
+        (FileSystem.deleteAsync as jest.Mock).mockClear();
+    });
+
+    it('deletes the files a run created but never its protected inputs', async () => {
+        const tracker = new TempFileTracker(['file:///cache/photo.jpg']);
+        tracker.track('file:///cache/photo.jpg');
+        tracker.track('file:///cache/step1.png');
+        tracker.track('file:///documents/step2.png');
+        tracker.track(null);
+
+        expect(tracker.size).toBe(2);
+        expect(await tracker.cleanup()).toBe(2);
+        expect((FileSystem.deleteAsync as jest.Mock).mock.calls.map(call => call[0]).sort())
+            .toEqual(['file:///cache/step1.png', 'file:///documents/step2.png']);
+        expect(tracker.size).toBe(0);
+    });
+
+    it('leaves files outside the app directories alone', async () => {
+        expect(await TempFileTracker.remove(['content://media/external/images/1', 'file:///sdcard/DCIM/a.jpg'])).toBe(0);
+        expect(FileSystem.deleteAsync).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,47 @@
+import { CandidateRanker, CandidateScore } from '../candidateRanker';
+import { FidelityReport } from '../fidelityScorer';
+
+// 100 units across 80 mm: the 0.35 mm minimum line weight is about 0.44 units
+const line = (strokeWidth: number) =>
+    `<svg viewBox="0 0 100 100"><path d="M10 50L90 50" stroke="#000" stroke-width="${strokeWidth}" fill="none"/></svg>`;
+
+const fidelity = (score: number) => ({ score } as FidelityReport);
+
+describe('CandidateRanker', () => {
+    it('scores hairlines lower on line weight than strokes that will hold', () => {
+        const hairline = CandidateRanker.score(line(0.25), undefined);
+        const solid = CandidateRanker.score(line(3), undefined);
+
+        expect(solid.lineWeight).toBeGreaterThan(0.9);
+        expect(hairline.lineWeight).toBeLessThan(0.1);
+        expect(solid.total).toBeGreaterThan(hairline.total);
+    });
+
+    it('prefers fewer path nodes', () => {
+        const zigzag = Array.from({ length: 40 }, (_, i) => `L${10 + i * 2} ${i % 2 ? 48 : 52}`).join('');
+        const lean = CandidateRanker.score(line(3), undefined);
+        const busy = CandidateRanker.score(`<svg viewBox="0 0 100 100"><path d="M10 50${zigzag}" stroke="#000" stroke-width="3" fill="none"/></svg>`, undefined);
+
+        expect(lean.nodes).toBe(2);
+        expect(busy.nodes).toBe(41);
+        expect(lean.simplicity).toBeGreaterThan(busy.simplicity);
+    });
+
+    it('weighs fidelity in only when there is a report', () => {
+        const unscored = CandidateRanker.score(line(3), undefined);
+        const faithful = CandidateRanker.score(line(3), fidelity(1));
+        const unfaithful = CandidateRanker.score(line(3), fidelity(0.1));
+
+        expect(unscored.similarity).toBe(0);
+        // 0.2 simplicity and 0.2 line weight, renormalized without the similarity weight
+        expect(unscored.total).toBeCloseTo((unscored.simplicity + unscored.lineWeight) / 2);
+        expect(faithful.total).toBeGreaterThan(unfaithful.total);
+    });
+
+    it('ranks the highest total first', () => {
+        const candidate = (label: string, total: number) => ({ label, score: { total } as CandidateScore });
+        const ranked = CandidateRanker.rank([candidate('a', 0.4), candidate('b', 0.9), candidate('c', 0.6)]);
+
+        expect(ranked.map(c => c.label)).toEqual(['b', 'c', 'a']);
+    });
+});
@@ -0,0 +1,34 @@
+import { ContentHash } from '../contentHash';
+
+describe('ContentHash', () => {
+    it('matches the published SHA-256 test vectors', () => {
+        expect(ContentHash.sha256Text('')).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+        expect(ContentHash.sha256Text('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+        expect(ContentHash.sha256Text('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq'))
+            .toBe('248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1');
+    });
+
+    it('hashes inputs that span several blocks', () => {
+        // 64 bytes of data push the length into a second padding block
+        expect(ContentHash.sha256Text('a'.repeat(64))).toBe('ffe054fe7ae0cb6dc65c3af9b61d5209f439851db43d0ba5997337df154668eb');
+        expect(ContentHash.sha256Text('a'.repeat(1000))).toBe('41edece42d63e8d9bf515a9ba6932e1c20cbc9f5a5d134645adb5db1b9737ea3');
+    });
+
+    it('hashes the UTF-8 bytes of text', () => {
+        expect(ContentHash.sha256Text('é')).toBe(ContentHash.sha256(Uint8Array.from([0xc3, 0xa9])));
+    });
+
+    it('stringifies objects the same whatever their key order', () => {
+        const a = { style: 'bold', tracing: { turdSize: 2, alphaMax: 1 }, colors: ['#000', '#fff'] };
+        const b = { colors: ['#000', '#fff'], tracing: { alphaMax: 1, turdSize: 2 }, style: 'bold' };
+
+        expect(ContentHash.stableStringify(a)).toBe(ContentHash.stableStringify(b));
+        expect(ContentHash.stableStringify(a)).toBe('{"colors":["#000","#fff"],"style":"bold","tracing":{"alphaMax":1,"turdSize":2}}');
+    });
+
+    it('skips undefined values and functions but keeps array positions', () => {
+        expect(ContentHash.stableStringify({ a: 1, b: undefined, onStep: () => {} })).toBe('{"a":1}');
+        expect(ContentHash.stableStringify([1, undefined, 2])).toBe('[1,null,2]');
+        expect(ContentHash.stableStringify({ order: ['x', 'y'] })).not.toBe(ContentHash.stableStringify({ order: ['y', 'x'] }));
+    });
+});
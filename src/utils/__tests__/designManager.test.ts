@@ -0,0 +1,76 @@
+import { DesignManager } from '../designManager';
+import { Design } from '../../types';
+
+// In-memory stand-ins for AsyncStorage and the app's directories
+const mockStorage = new Map<string, string>();
+const mockFiles = new Map<string, string>();
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+    __esModule: true,
+    default: {
+        getItem: async (key: string) => mockStorage.get(key) ?? null,
+        setItem: async (key: string, value: string) => { mockStorage.set(key, value); },
+        removeItem: async (key: string) => { mockStorage.delete(key); },
+    },
+}));
+jest.mock('expo-file-system', () => ({
+    documentDirectory: 'file:///documents/',
+    makeDirectoryAsync: async () => {},
+    copyAsync: async ({ from, to }: { from: string; to: string }) => {
+        if (!mockFiles.has(from)) throw new Error(`No file at ${from}`);
+        mockFiles.set(to, mockFiles.get(from)!);
+    },
+    deleteAsync: async (uri: string) => { mockFiles.delete(uri); },
+}));
+
+function design(id: string, uri: string): Design {
+    return { id, name: id, uri, category: 'Custom', isUserGenerated: true };
+}
+
+describe('DesignManager', () => {
+    beforeEach(() => {
+        mockStorage.clear();
+        mockFiles.clear();
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('copies a cached result image into the document directory', async () => {
+        mockFiles.set('file:///cache/results/abc.png', 'iVBORw0KGgo=');
+
+        const kept = await DesignManager.keepImage('file:///cache/results/abc.png', 'user_1');
+
+        expect(kept).toBe('file:///documents/designs/user_1.png');
+        expect(mockFiles.get(kept)).toBe('iVBORw0KGgo=');
+
+        // Evicting the cache entry leaves the design's copy alone
+        mockFiles.delete('file:///cache/results/abc.png');
+        expect(mockFiles.has(kept)).toBe(true);
+    });
+
+    it('leaves data URIs and images it already kept where they are', async () => {
+        expect(await DesignManager.keepImage('data:image/png;base64,iVBORw0KGgo=', 'user_1')).toBe('data:image/png;base64,iVBORw0KGgo=');
+        expect(await DesignManager.keepImage('file:///documents/designs/user_1.png', 'user_2')).toBe('file:///documents/designs/user_1.png');
+    });
+
+    it('falls back to the original uri when the copy fails', async () => {
+        expect(await DesignManager.keepImage('file:///cache/missing.png', 'user_1')).toBe('file:///cache/missing.png');
+    });
+
+    it('deletes the kept image with its design', async () => {
+        mockFiles.set('file:///cache/results/abc.png', 'iVBORw0KGgo=');
+        const kept = await DesignManager.keepImage('file:///cache/results/abc.png', 'user_1');
+        await DesignManager.saveCustomDesign(design('user_1', kept));
+        await DesignManager.saveCustomDesign(design('user_2', 'file:///cache/results/abc.png'));
+
+        await DesignManager.deleteCustomDesign('user_1');
+        await DesignManager.deleteCustomDesign('user_2');
+
+        expect(mockFiles.has(kept)).toBe(false);
+        expect(mockFiles.has('file:///cache/results/abc.png')).toBe(true);
+        expect(await DesignManager.getCustomDesigns()).toEqual([]);
+    });
+});
@@ -0,0 +1,65 @@
+import { EdgeDetector, EdgeMap } from '../edgeDetector';
+import { ImageCodec, PixelBuffer } from '../imageCodec';
+
+const SIZE = 40;
+
+// Black where inside(x, y), white elsewhere
+function stepImage(inside: (x: number, y: number) => boolean): PixelBuffer {
+    const buffer = ImageCodec.create(SIZE, SIZE, [255, 255, 255, 255]);
+    for (let y = 0; y < SIZE; y++) {
+        for (let x = 0; x < SIZE; x++) {
+            if (inside(x, y)) buffer.data.set([0, 0, 0, 255], (y * SIZE + x) * 4);
+        }
+    }
+    return buffer;
+}
+
+// Edge pixels per row, averaged over rows away from the borders
+function meanRowThickness({ edges, width }: EdgeMap): number {
+    let total = 0;
+    let rows = 0;
+    for (let y = 8; y < SIZE - 8; y++) {
+        let count = 0;
+        for (let x = 4; x < width - 4; x++) count += edges[y * width + x];
+        total += count;
+        rows++;
+    }
+    return total / rows;
+}
+
+const canny = { algorithm: 'canny' as const, lineThickness: 1 };
+
+describe('EdgeDetector', () => {
+    it('finds a vertical step edge with Sobel', () => {
+        const { edges } = EdgeDetector.detect(stepImage(x => x < 20), { algorithm: 'sobel', lineThickness: 1 });
+        const row = Array.from(edges.subarray(20 * SIZE, 21 * SIZE));
+
+        expect(row.slice(17, 23)).toContain(1);
+        expect(row.slice(0, 12)).not.toContain(1);
+        expect(row.slice(28)).not.toContain(1);
+    });
+
+    it('thins a vertical Canny edge to one or two pixels', () => {
+        const thickness = meanRowThickness(EdgeDetector.detect(stepImage(x => x < 20), canny));
+        expect(thickness).toBeGreaterThanOrEqual(1);
+        expect(thickness).toBeLessThanOrEqual(2);
+    });
+
+    it('thins a diagonal Canny edge as much as an axis-aligned one', () => {
+        const vertical = meanRowThickness(EdgeDetector.detect(stepImage(x => x < 20), canny));
+        const diagonal = meanRowThickness(EdgeDetector.detect(stepImage((x, y) => x < y), canny));
+        // A one-pixel staircase has up to two pixels per row
+        expect(diagonal).toBeLessThanOrEqual(Math.max(vertical, 2));
+    });
+
+    it('finds nothing on a flat image', () => {
+        const { edges } = EdgeDetector.detect(ImageCodec.create(SIZE, SIZE, [200, 200, 200, 255]), canny);
+        expect(edges.some(value => value === 1)).toBe(false);
+    });
+
+    it('thickens edges to the requested width', () => {
+        const thin = EdgeDetector.detect(stepImage(x => x < 20), canny);
+        const thick = EdgeDetector.detect(stepImage(x => x < 20), { ...canny, lineThickness: 4 });
+        expect(meanRowThickness(thick)).toBeGreaterThan(meanRowThickness(thin) + 1);
+    });
+});
@@ -0,0 +1,91 @@
+import { EventStream, StreamEvent } from '../eventStream';
+
+/**
+ * Stands in for XMLHttpRequest; the test feeds the body a chunk at a time
+ */
+class FakeXHR {
+    static last: FakeXHR;
+    status = 0;
+    responseText = '';
+    responseType = '';
+    timeout = 0;
+    sent: string | null = null;
+    onprogress?: () => void;
+    onload?: () => void;
+    onerror?: () => void;
+    ontimeout?: () => void;
+    onabort?: () => void;
+
+    constructor() {
+        FakeXHR.last = this;
+    }
+
+    open() {}
+    setRequestHeader() {}
+    send(body: string | null) {
+        this.sent = body;
+    }
+    abort() {
+        this.onabort?.();
+    }
+
+    receive(chunk: string, status: number = 200) {
+        this.status = status;
+        this.responseText += chunk;
+        this.onprogress?.();
+    }
+    finish(status: number = 200) {
+        this.status = status;
+        this.onload?.();
+    }
+}
+
+function open(): { events: StreamEvent[]; xhr: FakeXHR; response: Promise<{ status: number; body: string; events: number }> } {
+    const events: StreamEvent[] = [];
+    const { response } = EventStream.open('http://server/generate', { method: 'POST', onEvent: event => events.push(event) });
+    return { events, xhr: FakeXHR.last, response };
+}
+
+describe('EventStream', () => {
+    beforeAll(() => {
+        (global as any).XMLHttpRequest = FakeXHR;
+    });
+
+    it('reassembles server-sent events split across chunks', async () => {
+        const { events, xhr, response } = open();
+
+        xhr.receive('event: tok');
+        xhr.receive('en\ndata: <sv');
+        expect(events).toEqual([]);
+
+        xhr.receive('g>\r\n\r\ndata: one\ndata: two\n');
+        xhr.receive('\n: keep-alive\n\n');
+        xhr.finish();
+
+        expect(events).toEqual([
+            { event: 'token', data: '<svg>' },
+            { event: 'message', data: 'one\ntwo' },
+        ]);
+        expect((await response).events).toBe(2);
+    });
+
+    it('reads newline-delimited JSON without SSE framing', async () => {
+        const { events, xhr } = open();
+
+        xhr.receive('{"token":"<pa');
+        xhr.receive('th/>"}\n{"done":true}');
+        xhr.finish();
+
+        expect(events.map(event => JSON.parse(event.data))).toEqual([{ token: '<path/>' }, { done: true }]);
+    });
+
+    it('resolves error statuses with their body and no events', async () => {
+        const { events, xhr, response } = open();
+
+        xhr.receive('data: {"error":"model not loaded"}\n\n', 503);
+        xhr.finish(503);
+
+        expect(events).toEqual([]);
+        expect(await response).toEqual({ status: 503, body: 'data: {"error":"model not loaded"}\n\n', events: 0 });
+    });
+});
@@ -0,0 +1,40 @@
+import { FidelityScorer } from '../fidelityScorer';
+import { SvgRasterizer } from '../svgRasterizer';
+
+const svg = (body: string) => `<svg viewBox="0 0 100 100">${body}</svg>`;
+const ring = svg('<circle cx="50" cy="50" r="30" stroke="#000" stroke-width="8" fill="none"/>');
+
+// The "photo" is the ring drawn at the analysis size
+const reference = (svgCode: string) =>
+    FidelityScorer.prepareReference(SvgRasterizer.rasterize(svgCode, { width: 160, background: '#ffffff' }));
+
+describe('FidelityScorer', () => {
+    it('scores a design that reproduces the input as a match', () => {
+        const report = FidelityScorer.compare(ring, reference(ring));
+
+        expect(report.iou).toBeGreaterThan(0.95);
+        expect(report.chamfer).toBeLessThan(1);
+        expect(report.passed).toBe(true);
+    });
+
+    it('scores a slightly shifted design above an unrelated one', () => {
+        const input = reference(ring);
+        const shifted = FidelityScorer.compare(svg('<circle cx="53" cy="50" r="30" stroke="#000" stroke-width="8" fill="none"/>'), input);
+        const unrelated = FidelityScorer.compare(svg('<rect x="10" y="70" width="80" height="20"/>'), input);
+
+        expect(shifted.score).toBeGreaterThan(unrelated.score);
+        expect(shifted.chamfer).toBeLessThan(unrelated.chamfer);
+    });
+
+    it('flags a blank design as not matching', () => {
+        const report = FidelityScorer.compare(svg(''), reference(ring));
+
+        expect(report.iou).toBe(0);
+        expect(report.passed).toBe(false);
+    });
+
+    it('rejects a rendering at a different size from the reference', () => {
+        const rendered = SvgRasterizer.rasterize(ring, { width: 80 });
+        expect(() => FidelityScorer.compareRendered(rendered, reference(ring))).toThrow('does not match');
+    });
+});
@@ -0,0 +1,72 @@
+import { FlashSheetSplitter } from '../flashSheetSplitter';
+import { ImageCodec, PixelBuffer } from '../imageCodec';
+
+const WIDTH = 300;
+const HEIGHT = 200;
+
+// Cream paper, lit from the left
+function paper(): PixelBuffer {
+    const buffer = ImageCodec.create(WIDTH, HEIGHT);
+    for (let y = 0; y < HEIGHT; y++) {
+        for (let x = 0; x < WIDTH; x++) {
+            const shade = 245 - Math.round(x / WIDTH * 40);
+            buffer.data.set([shade, shade - 5, shade - 15, 255], (y * WIDTH + x) * 4);
+        }
+    }
+    return buffer;
+}
+
+function ink(buffer: PixelBuffer, inside: (x: number, y: number) => boolean) {
+    for (let y = 0; y < HEIGHT; y++) {
+        for (let x = 0; x < WIDTH; x++) {
+            if (inside(x, y)) buffer.data.set([30, 30, 30, 255], (y * WIDTH + x) * 4);
+        }
+    }
+}
+
+// A ring with a dot just outside it: one design drawn in two strokes
+function design(buffer: PixelBuffer, cx: number, cy: number) {
+    ink(buffer, (x, y) => {
+        const r = Math.hypot(x - cx, y - cy);
+        return r >= 18 && r <= 21;
+    });
+    ink(buffer, (x, y) => Math.hypot(x - cx, y - (cy - 25)) <= 2);
+}
+
+describe('FlashSheetSplitter', () => {
+    it('finds each design on a sheet in reading order', () => {
+        const sheet = paper();
+        const centers = [[50, 50], [150, 55], [250, 50], [50, 150], [150, 145], [250, 150]];
+        centers.forEach(([cx, cy]) => design(sheet, cx, cy));
+
+        const { regions } = FlashSheetSplitter.analyze(sheet);
+
+        expect(regions).toHaveLength(6);
+        regions.forEach((region, index) => {
+            const [cx, cy] = centers[index];
+            const { originX, originY, width, height } = region.rect;
+            // Each region surrounds its ring and dot, and nothing of its neighbours
+            expect(originX * WIDTH).toBeLessThan(cx - 21);
+            expect((originX + width) * WIDTH).toBeGreaterThan(cx + 21);
+            expect(originY * HEIGHT).toBeLessThan(cy - 27);
+            expect((originY + height) * HEIGHT).toBeGreaterThan(cy + 21);
+            expect(width * WIDTH).toBeLessThan(100);
+        });
+    });
+
+    it('ignores specks and lines that span the whole sheet', () => {
+        const sheet = paper();
+        design(sheet, 150, 100);
+        ink(sheet, (x, y) => Math.hypot(x - 40, y - 170) <= 1);   // Speck
+        ink(sheet, (x, y) => y >= 5 && y <= 7);                    // Fold or shadow across the page
+
+        const { regions } = FlashSheetSplitter.analyze(sheet);
+
+        expect(regions).toHaveLength(1);
+        expect(regions[0].rect.originX * WIDTH).toBeGreaterThan(100);
+    });
+
+    it('finds nothing on blank paper', () => {
+        expect(FlashSheetSplitter.analyze(paper()).regions).toEqual([]);
+    });
+});
@@ -0,0 +1,108 @@
+import { deflate } from 'pako';
+import { Image } from 'react-native';
+import { ImageCodec, base64ToBytes, bytesToBase64 } from '../imageCodec';
+
+const mockManipulateAsync = jest.fn();
+jest.mock('expo-image-manipulator', () => ({
+    manipulateAsync: (...args: unknown[]) => mockManipulateAsync(...args),
+    SaveFormat: { PNG: 'png' },
+}));
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+const u32 = (value: number) => [value >>> 24, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+
+function crc32(bytes: Uint8Array): number {
+    let crc = 0xffffffff;
+    for (const byte of bytes) {
+        crc ^= byte;
+        for (let k = 0; k < 8; k++) crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+function chunk(type: string, data: number[] | Uint8Array): number[] {
+    const body = [...type].map(c => c.charCodeAt(0)).concat(Array.from(data));
+    return [...u32(data.length), ...body, ...u32(crc32(Uint8Array.from(body)))];
+}
+
+/**
+ * Hand-build an unfiltered PNG so the decoder is tested against bytes it didn't write
+ */
+function buildPNG(width: number, height: number, bitDepth: number, colorType: number, rows: number[][], tRNS?: number[]): Uint8Array {
+    const raw = Uint8Array.from(rows.flatMap(row => [0, ...row]));
+    return Uint8Array.from([
+        ...PNG_SIGNATURE,
+        ...chunk('IHDR', [...u32(width), ...u32(height), bitDepth, colorType, 0, 0, 0]),
+        ...(tRNS ? chunk('tRNS', tRNS) : []),
+        ...chunk('IDAT', deflate(raw)),
+        ...chunk('IEND', []),
+    ]);
+}
+
+describe('ImageCodec', () => {
+    it('round-trips RGBA pixels through PNG', () => {
+        const buffer = ImageCodec.create(3, 2);
+        for (let i = 0; i < buffer.data.length; i++) buffer.data[i] = (i * 37) & 0xff;
+
+        const decoded = ImageCodec.decode(ImageCodec.encodePNG(buffer));
+
+        expect(decoded.width).toBe(3);
+        expect(decoded.height).toBe(2);
+        expect(Array.from(decoded.data)).toEqual(Array.from(buffer.data));
+    });
+
+    it('round-trips through base64', () => {
+        const buffer = ImageCodec.create(2, 2, [10, 20, 30, 255]);
+        const decoded = ImageCodec.decodeBase64(`data:image/png;base64,${ImageCodec.encodePNGBase64(buffer)}`);
+        expect(Array.from(decoded.data)).toEqual(Array.from(buffer.data));
+    });
+
+    it('encodes and decodes arbitrary bytes as base64', () => {
+        const bytes = Uint8Array.from([0, 1, 2, 250, 251, 252, 253]);
+        expect(Array.from(base64ToBytes(bytesToBase64(bytes)))).toEqual(Array.from(bytes));
+    });
+
+    it('applies the tRNS color key to RGB images', () => {
+        const png = buildPNG(2, 1, 8, 2, [[255, 255, 255, 10, 20, 30]], [0, 255, 0, 255, 0, 255]);
+        const { data } = ImageCodec.decode(png);
+        expect(Array.from(data)).toEqual([255, 255, 255, 0, 10, 20, 30, 255]);
+    });
+
+    it('compares 16-bit grayscale samples against the full 16-bit key', () => {
+        // Both samples share the high byte 0x12; only the exact 16-bit match is transparent
+        const png = buildPNG(2, 1, 16, 0, [[0x12, 0x34, 0x12, 0x35]], [0x12, 0x34]);
+        const { data } = ImageCodec.decode(png);
+        expect(Array.from(data)).toEqual([0x12, 0x12, 0x12, 0, 0x12, 0x12, 0x12, 255]);
+    });
+
+    describe('loadForProcessing', () => {
+        beforeEach(() => {
+            mockManipulateAsync.mockReset();
+            mockManipulateAsync.mockResolvedValue({ base64: ImageCodec.encodePNGBase64(ImageCodec.create(1, 1)) });
+        });
+
+        afterEach(() => {
+            jest.restoreAllMocks();
+        });
+
+        const photoOfWidth = (width: number) =>
+            jest.spyOn(Image, 'getSize').mockImplementation((_uri, success) => success(width, width / 2));
+
+        it('shrinks images wider than maxWidth', async () => {
+            photoOfWidth(4000);
+            await ImageCodec.loadForProcessing('file:///photo.jpg', 1024);
+            expect(mockManipulateAsync.mock.calls[0][1]).toEqual([{ resize: { width: 1024 } }]);
+        });
+
+        it('never upscales images narrower than maxWidth', async () => {
+            photoOfWidth(300);
+            await ImageCodec.loadForProcessing('file:///photo.jpg', 1024);
+            expect(mockManipulateAsync.mock.calls[0][1]).toEqual([]);
+        });
+    });
+
+    it('rejects unknown formats', () => {
+        expect(() => ImageCodec.decode(Uint8Array.from([1, 2, 3, 4]))).toThrow('Unsupported image format');
+    });
+});
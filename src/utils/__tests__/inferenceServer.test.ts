@@ -0,0 +1,73 @@
+import { InferenceServer } from '../inferenceServer';
+
+const mockStorage = new Map<string, string>();
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+    __esModule: true,
+    default: {
+        getItem: async (key: string) => mockStorage.get(key) ?? null,
+        setItem: async (key: string, value: string) => { mockStorage.set(key, value); },
+        removeItem: async (key: string) => { mockStorage.delete(key); },
+    },
+}));
+
+// Answer each URL with the given status; anything else is unreachable
+function serve(routes: Record<string, { status: number; body?: unknown }>) {
+    global.fetch = jest.fn(async (url: string) => {
+        const route = routes[url];
+        if (!route) throw new TypeError('Network request failed');
+        return {
+            ok: route.status >= 200 && route.status < 300,
+            status: route.status,
+            json: async () => route.body,
+        } as Response;
+    }) as unknown as typeof fetch;
+}
+
+describe('InferenceServer', () => {
+    beforeEach(async () => {
+        await InferenceServer.reset();
+    });
+
+    it('builds the base URL from a host with or without a scheme', () => {
+        expect(InferenceServer.baseUrl({ host: 'http://192.168.1.20/', port: 8000 })).toBe('http://192.168.1.20:8000');
+        expect(InferenceServer.baseUrl({ host: 'studio.local', port: 7860 })).toBe('http://studio.local:7860');
+    });
+
+    it('saves the endpoint for the next launch', async () => {
+        await InferenceServer.save({ host: '10.0.0.5', port: 9000 });
+        expect(JSON.parse(mockStorage.get('inference_server_settings')!)).toMatchObject({ host: '10.0.0.5', port: 9000 });
+    });
+
+    it('reads the model size from /info', async () => {
+        await InferenceServer.save({ host: 'gpu-box', port: 8000 });
+        serve({ 'http://gpu-box:8000/info': { status: 200, body: { model: 'starvector/starvector-8b-im2svg', device: 'cuda' } } });
+
+        expect(await InferenceServer.getInfo()).toEqual({
+            model: 'starvector/starvector-8b-im2svg',
+            modelSize: '8b',
+            device: 'cuda',
+            loaded: true,
+        });
+    });
+
+    it('discovers the first candidate that answers, including one still loading its model', async () => {
+        await InferenceServer.save({ host: 'offline-host', port: 8000, discoveryHosts: ['studio.local:7000', 'backup.local'] });
+        serve({
+            'http://studio.local:7000/health': { status: 503 },
+            'http://backup.local:8000/health': { status: 200 },
+        });
+
+        const result = await InferenceServer.discover();
+
+        expect(result?.host).toBe('studio.local');
+        expect(result?.port).toBe(7000);
+        expect(result?.probed.slice(0, 3)).toEqual(['offline-host:8000', 'studio.local:7000', 'backup.local:8000']);
+        expect(await InferenceServer.load()).toMatchObject({ host: 'studio.local', port: 7000 });
+    });
+
+    it('returns null when no candidate answers', async () => {
+        serve({});
+        expect(await InferenceServer.discover()).toBeNull();
+    });
+});
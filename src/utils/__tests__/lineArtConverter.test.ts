@@ -0,0 +1,81 @@
+import { LineArtConverter } from '../lineArtConverter';
+import { ImageCodec } from '../imageCodec';
+
+const W = 60;
+const H = 40;
+
+// Paper lit from the left (bright) to the right (dim), with a dark vertical stroke at x = 40..43
+function unevenlyLitStroke(): Float32Array {
+    const gray = new Float32Array(W * H);
+    for (let y = 0; y < H; y++) {
+        for (let x = 0; x < W; x++) {
+            const paper = 240 - x * 2;
+            gray[y * W + x] = x >= 40 && x < 44 ? paper - 90 : paper;
+        }
+    }
+    return gray;
+}
+
+describe('LineArtConverter', () => {
+    it('separates ink from a lighting gradient', () => {
+        const mask = LineArtConverter.adaptiveThreshold(unevenlyLitStroke(), W, H, 'sauvola', 15, 0.2);
+        const row = Array.from(mask.subarray(20 * W, 21 * W));
+
+        expect(row.slice(40, 44)).toEqual([1, 1, 1, 1]);
+        // Dim paper on the right is not mistaken for ink
+        expect(row.slice(0, 36)).not.toContain(1);
+        expect(row.slice(48)).not.toContain(1);
+    });
+
+    it('removes specks smaller than the minimum area and keeps larger blobs', () => {
+        const mask = new Uint8Array(W * H);
+        mask[5 * W + 5] = 1;
+        for (let y = 10; y < 20; y++) {
+            for (let x = 10; x < 20; x++) mask[y * W + x] = 1;
+        }
+
+        const { mask: cleaned, removed } = LineArtConverter.removeSmallComponents(mask, W, H, 1, 4);
+
+        expect(removed).toBe(1);
+        expect(cleaned[5 * W + 5]).toBe(0);
+        expect(cleaned[15 * W + 15]).toBe(1);
+    });
+
+    it('fills small pinholes inside ink', () => {
+        const mask = new Uint8Array(W * H);
+        for (let y = 10; y < 20; y++) {
+            for (let x = 10; x < 20; x++) mask[y * W + x] = 1;
+        }
+        mask[15 * W + 15] = 0;
+
+        const { mask: cleaned } = LineArtConverter.removeSmallComponents(mask, W, H, 0, 4);
+        expect(cleaned[15 * W + 15]).toBe(1);
+    });
+
+    it('thins a thick stroke to a one-pixel skeleton', () => {
+        const mask = new Uint8Array(W * H);
+        for (let y = 5; y < 35; y++) {
+            for (let x = 20; x < 27; x++) mask[y * W + x] = 1;
+        }
+
+        const skeleton = LineArtConverter.thin(mask, W, H);
+        for (let y = 10; y < 30; y++) {
+            let count = 0;
+            for (let x = 0; x < W; x++) count += skeleton[y * W + x];
+            expect(count).toBe(1);
+        }
+    });
+
+    it('renders ink as opaque black on transparent paper', () => {
+        const image = ImageCodec.create(W, H, [250, 250, 250, 255]);
+        for (let y = 10; y < 30; y++) {
+            for (let x = 28; x < 32; x++) image.data.set([20, 20, 20, 255], (y * W + x) * 4);
+        }
+
+        const { buffer, inkPixels } = LineArtConverter.convert(image, { minSpeckleArea: 0 });
+
+        expect(inkPixels).toBeGreaterThan(0);
+        expect(Array.from(buffer.data.subarray((20 * W + 30) * 4, (20 * W + 30) * 4 + 4))).toEqual([0, 0, 0, 255]);
+        expect(buffer.data[(20 * W + 5) * 4 + 3]).toBe(0);
+    });
+});
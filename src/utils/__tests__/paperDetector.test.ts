@@ -0,0 +1,49 @@
+import { PaperDetector } from '../paperDetector';
+import { ImageCodec, PixelBuffer } from '../imageCodec';
+import { Point, Quad } from '../perspectiveWarp';
+
+const WIDTH = 200;
+const HEIGHT = 150;
+
+// Clockwise from top-left, photographed at an angle
+const page: Quad = [{ x: 40, y: 20 }, { x: 170, y: 32 }, { x: 160, y: 132 }, { x: 28, y: 118 }];
+
+function inside(quad: Quad, x: number, y: number): boolean {
+    return quad.every((p, i) => {
+        const q = quad[(i + 1) % 4];
+        return (q.x - p.x) * (y - p.y) - (q.y - p.y) * (x - p.x) >= 0;
+    });
+}
+
+// White page with a sketch on it, on a dark wooden table
+function photo(quad: Quad): PixelBuffer {
+    const buffer = ImageCodec.create(WIDTH, HEIGHT);
+    for (let y = 0; y < HEIGHT; y++) {
+        for (let x = 0; x < WIDTH; x++) {
+            const color = !inside(quad, x + 0.5, y + 0.5) ? [90, 60, 40]
+                : Math.hypot(x - 100, y - 75) < 25 && Math.hypot(x - 100, y - 75) > 21 ? [20, 20, 20]
+                : [235, 232, 225];
+            buffer.data.set([...color, 255], (y * WIDTH + x) * 4);
+        }
+    }
+    return buffer;
+}
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+describe('PaperDetector', () => {
+    it('finds the corners of a page photographed at an angle', () => {
+        const detection = PaperDetector.analyze(photo(page));
+
+        expect(detection).not.toBeNull();
+        const corners = detection!.quad.map(p => ({ x: p.x * WIDTH, y: p.y * HEIGHT }));
+        corners.forEach((corner, i) => expect(distance(corner, page[i])).toBeLessThan(4));
+        expect(detection!.confident).toBe(true);
+        expect(detection!.area).toBeGreaterThan(0.4);
+    });
+
+    it('finds no page when the photo has no bright region big enough', () => {
+        const small: Quad = [{ x: 90, y: 65 }, { x: 110, y: 65 }, { x: 110, y: 85 }, { x: 90, y: 85 }];
+        expect(PaperDetector.analyze(photo(small))).toBeNull();
+    });
+});
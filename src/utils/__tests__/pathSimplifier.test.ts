@@ -0,0 +1,41 @@
+import { PathSimplifier } from '../pathSimplifier';
+
+// A circle of radius 40 drawn as 180 short line segments, like a traced contour
+function tracedCircle(): string {
+    const points = Array.from({ length: 180 }, (_, i) => {
+        const angle = (i / 180) * Math.PI * 2;
+        return `${(50 + 40 * Math.cos(angle)).toFixed(3)} ${(50 + 40 * Math.sin(angle)).toFixed(3)}`;
+    });
+    return `<svg viewBox="0 0 100 100"><path d="M${points.join('L')}Z"/></svg>`;
+}
+
+describe('PathSimplifier', () => {
+    it('reduces the node count of dense traced paths', () => {
+        const { svgCode, report } = PathSimplifier.simplify(tracedCircle(), { tolerance: 0.005 });
+
+        expect(report.pathsSimplified).toBe(1);
+        expect(report.nodesBefore).toBeGreaterThanOrEqual(180);
+        expect(report.nodesAfter).toBeLessThan(report.nodesBefore / 4);
+        expect(svgCode).toMatch(/<path d="M[^"]*C/);
+    });
+
+    it('keeps straight segments when curve fitting is off', () => {
+        const { svgCode, report } = PathSimplifier.simplify(tracedCircle(), { tolerance: 0.005, fitCurves: false });
+
+        expect(report.nodesAfter).toBeLessThan(report.nodesBefore);
+        expect(svgCode).not.toMatch(/<path d="[^"]*C/);
+    });
+
+    it('leaves the markup alone when disabled', () => {
+        const input = tracedCircle();
+        const { svgCode, report } = PathSimplifier.simplify(input, { tolerance: 0 });
+
+        expect(svgCode).toBe(input);
+        expect(report.nodesAfter).toBe(report.nodesBefore);
+    });
+
+    it('drops collinear points with RDP', () => {
+        const points = [{ x: 0, y: 0 }, { x: 1, y: 0.01 }, { x: 2, y: 0 }, { x: 2, y: 5 }];
+        expect(PathSimplifier.rdp(points, 0.1)).toEqual([0, 2, 3]);
+    });
+});
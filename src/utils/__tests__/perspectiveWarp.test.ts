@@ -0,0 +1,52 @@
+import { PerspectiveWarp, Quad } from '../perspectiveWarp';
+import { ImageCodec } from '../imageCodec';
+
+describe('PerspectiveWarp', () => {
+    const square: Quad = [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 100 }, { x: 0, y: 100 }];
+    const skewed: Quad = [{ x: 10, y: 20 }, { x: 90, y: 5 }, { x: 120, y: 110 }, { x: -5, y: 95 }];
+
+    it('maps every corner onto its target', () => {
+        const h = PerspectiveWarp.homography(square, skewed);
+        square.forEach((corner, i) => {
+            const mapped = PerspectiveWarp.apply(h, corner);
+            expect(mapped.x).toBeCloseTo(skewed[i].x, 6);
+            expect(mapped.y).toBeCloseTo(skewed[i].y, 6);
+        });
+    });
+
+    it('inverts when source and target are swapped', () => {
+        const forward = PerspectiveWarp.homography(square, skewed);
+        const backward = PerspectiveWarp.homography(skewed, square);
+        const point = { x: 37, y: 61 };
+        const roundTrip = PerspectiveWarp.apply(backward, PerspectiveWarp.apply(forward, point));
+
+        expect(roundTrip.x).toBeCloseTo(point.x, 6);
+        expect(roundTrip.y).toBeCloseTo(point.y, 6);
+    });
+
+    it('orders corners clockwise from top-left and checks convexity', () => {
+        const shuffled = [skewed[2], skewed[0], skewed[3], skewed[1]];
+        const ordered = PerspectiveWarp.orderCorners(shuffled);
+
+        expect(ordered).toEqual(skewed);
+        expect(PerspectiveWarp.isConvex(ordered)).toBe(true);
+        expect(PerspectiveWarp.isConvex([skewed[0], skewed[2], skewed[1], skewed[3]])).toBe(false);
+    });
+
+    it('warps the quad to fill the output rectangle', () => {
+        // Red inside a 4x4 region of an 8x8 image, white elsewhere
+        const source = ImageCodec.create(8, 8, [255, 255, 255, 255]);
+        for (let y = 2; y < 6; y++) {
+            for (let x = 2; x < 6; x++) {
+                source.data.set([255, 0, 0, 255], (y * 8 + x) * 4);
+            }
+        }
+
+        const quad: Quad = [{ x: 2, y: 2 }, { x: 6, y: 2 }, { x: 6, y: 6 }, { x: 2, y: 6 }];
+        const output = PerspectiveWarp.warp(source, quad, 4, 4);
+
+        for (let i = 0; i < output.data.length; i += 4) {
+            expect(Array.from(output.data.subarray(i, i + 4))).toEqual([255, 0, 0, 255]);
+        }
+    });
+});
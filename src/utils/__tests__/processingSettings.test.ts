@@ -0,0 +1,40 @@
+// Survives jest.resetModules, like the device's storage survives an app restart
+const mockStorage = new Map<string, string>();
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+    __esModule: true,
+    default: {
+        getItem: async (key: string) => mockStorage.get(key) ?? null,
+        setItem: async (key: string, value: string) => { mockStorage.set(key, value); },
+    },
+}));
+
+// The settings cache lives in module state, so each launch loads a fresh copy
+const launch = () => require('../processingSettings').ProcessingSettings as typeof import('../processingSettings').ProcessingSettings;
+
+describe('ProcessingSettings', () => {
+    beforeEach(() => {
+        jest.resetModules();
+        mockStorage.clear();
+    });
+
+    it('falls back to the defaults when nothing is saved', async () => {
+        const settings = await launch().load();
+        expect(settings.useAI).toBe(true);
+    });
+
+    it('persists the provider order across launches', async () => {
+        await launch().save({ providerOrder: ['local-tracer', 'huggingface'] });
+
+        jest.resetModules();
+        const settings = await launch().load();
+        expect(settings.providerOrder).toEqual(['local-tracer', 'huggingface']);
+    });
+
+    it('does not persist per-run callbacks and signals', async () => {
+        const controller = new AbortController();
+        await launch().save({ providerOrder: ['huggingface'], signal: controller.signal, onPartialSVG: () => {}, onStep: () => {}, useCache: false });
+
+        expect(JSON.parse(mockStorage.get('processing_settings')!)).toEqual({ providerOrder: ['huggingface'] });
+    });
+});
@@ -0,0 +1,61 @@
+import { ProcessingTrace } from '../processingTrace';
+
+describe('ProcessingTrace', () => {
+    let now = 1000;
+
+    beforeEach(() => {
+        jest.spyOn(Date, 'now').mockImplementation(() => now);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('records finished steps as successes unless told otherwise', () => {
+        const trace = new ProcessingTrace();
+        trace.record('background-removal', 'Background removed', { outputUri: 'file:///cache/bg.png' });
+        trace.record('vectorize', 'Local StarVector server failed', { outcome: 'failed', error: 'timed out' });
+
+        expect(trace.steps).toEqual([
+            { id: 'background-removal', label: 'Background removed', outcome: 'success', startedAt: 1000, endedAt: 1000, outputUri: 'file:///cache/bg.png' },
+            { id: 'vectorize', label: 'Local StarVector server failed', outcome: 'failed', startedAt: 1000, endedAt: 1000, error: 'timed out' },
+        ]);
+    });
+
+    it('times a step from begin() until it finishes', () => {
+        const trace = new ProcessingTrace();
+        const finish = trace.begin('vectorize', { provider: 'local-tracer', parameters: { turdSize: 2 } });
+        now = 1250;
+        const step = finish('Traced on device', { outputUri: 'file:///cache/out.svg' });
+
+        expect(step).toMatchObject({ id: 'vectorize', provider: 'local-tracer', parameters: { turdSize: 2 }, outputUri: 'file:///cache/out.svg' });
+        expect(ProcessingTrace.durationMs(step)).toBe(250);
+    });
+
+    it('reports each recorded step as it happens, but not earlier or appended ones', () => {
+        const heard: string[] = [];
+        const trace = new ProcessingTrace([new ProcessingTrace().record('crop', 'Cropped')], step => heard.push(step.id));
+        trace.append([new ProcessingTrace().record('trace', 'Traced')]);
+        trace.record('vectorize', 'Vectorized');
+        trace.begin('save-svg')('Saved');
+
+        expect(heard).toEqual(['vectorize', 'save-svg']);
+    });
+
+    it('appends nested steps after the ones already recorded, without changing the input', () => {
+        const earlier = [new ProcessingTrace().record('crop', 'Cropped')];
+        const trace = new ProcessingTrace(earlier);
+        trace.append([new ProcessingTrace().record('vectorize', 'Vectorized')]);
+
+        expect(trace.steps.map(step => step.id)).toEqual(['crop', 'vectorize']);
+        expect(earlier).toHaveLength(1);
+    });
+
+    it('formats a step as one line with its outcome and error', () => {
+        const trace = new ProcessingTrace();
+
+        expect(ProcessingTrace.format(trace.record('crop', 'Cropped to ink'))).toBe('✓ Cropped to ink');
+        expect(ProcessingTrace.format(trace.record('vectorize', 'HuggingFace failed', { outcome: 'failed', error: 'HTTP 503' })))
+            .toBe('✗ HuggingFace failed: HTTP 503');
+    });
+});
@@ -0,0 +1,134 @@
+import { RequestExecutor, CircuitOpenError } from '../requestExecutor';
+import { CancelledError } from '../cancellation';
+
+// No waiting between attempts, three failed calls open the circuit for a minute
+const policy = { timeoutMs: 0, retryAttempts: 2, baseDelayMs: 0, maxDelayMs: 0, failureThreshold: 3, cooldownMs: 60000 };
+
+// Resolves each attempt with the next status in the list
+const respond = (...statuses: number[]) => jest.fn(async (_signal: AbortSignal) => ({ status: statuses.shift()! }));
+
+describe('RequestExecutor', () => {
+    beforeEach(() => {
+        RequestExecutor.reset();
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('retries retryable statuses until one succeeds', async () => {
+        const attempt = respond(503, 502, 200);
+
+        expect(await RequestExecutor.execute('test', attempt, { policy })).toEqual({ status: 200 });
+        expect(attempt).toHaveBeenCalledTimes(3);
+    });
+
+    it('returns client errors without retrying', async () => {
+        const attempt = respond(401, 200);
+
+        expect(await RequestExecutor.execute('test', attempt, { policy })).toEqual({ status: 401 });
+        expect(attempt).toHaveBeenCalledTimes(1);
+    });
+
+    it('returns the last response once retries run out', async () => {
+        const attempt = respond(500, 500, 503, 200);
+
+        expect(await RequestExecutor.execute('test', attempt, { policy })).toEqual({ status: 503 });
+        expect(attempt).toHaveBeenCalledTimes(3);
+    });
+
+    it('rethrows the last error once retries run out', async () => {
+        const attempt = jest.fn(async () => { throw new Error('Network request failed'); });
+
+        await expect(RequestExecutor.execute('test', attempt, { policy })).rejects.toThrow('Network request failed');
+        expect(attempt).toHaveBeenCalledTimes(3);
+    });
+
+    it('gives up when the server asks for a longer wait than the policy allows', async () => {
+        const attempt = respond(503, 200);
+        const result = await RequestExecutor.execute('test', attempt, {
+            policy: { ...policy, maxRetryWaitMs: 1000 },
+            retryAfterMs: async () => 20000,
+        });
+
+        expect(result).toEqual({ status: 503 });
+        expect(attempt).toHaveBeenCalledTimes(1);
+    });
+
+    it('opens the circuit after repeated failed calls and closes it after the cooldown', async () => {
+        const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+        const failing = { ...policy, retryAttempts: 0 };
+
+        for (let call = 0; call < 2; call++) {
+            await RequestExecutor.execute('flaky', respond(500), { policy: failing });
+            expect(RequestExecutor.isAvailable('flaky')).toBe(true);
+        }
+        await RequestExecutor.execute('flaky', respond(500), { policy: failing });
+
+        expect(RequestExecutor.status('flaky')).toEqual({ failures: 3, openUntil: 61000 });
+        expect(RequestExecutor.isAvailable('flaky')).toBe(false);
+        const skipped = respond(200);
+        await expect(RequestExecutor.execute('flaky', skipped, { policy: failing })).rejects.toBeInstanceOf(CircuitOpenError);
+        expect(skipped).not.toHaveBeenCalled();
+        expect(RequestExecutor.isAvailable('other')).toBe(true);
+
+        // After the cooldown the provider is tried again, and a success closes the circuit
+        now.mockReturnValue(61001);
+        expect(RequestExecutor.isAvailable('flaky')).toBe(true);
+        await RequestExecutor.execute('flaky', respond(200), { policy: failing });
+        expect(RequestExecutor.status('flaky')).toEqual({ failures: 0, openUntil: null });
+    });
+
+    it('passes cancellation to the attempt and stops retrying', async () => {
+        const controller = new AbortController();
+        const attempt = jest.fn((signal: AbortSignal) => new Promise<{ status: number }>((_resolve, reject) => {
+            signal.addEventListener('abort', () => reject(new Error('Aborted')));
+            controller.abort();
+        }));
+
+        await expect(RequestExecutor.execute('test', attempt, { policy, signal: controller.signal })).rejects.toBeInstanceOf(CancelledError);
+        expect(attempt).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps the returned response cancellable while its body is read', async () => {
+        const controller = new AbortController();
+        let attemptSignal: AbortSignal | undefined;
+        const attempt = jest.fn(async (signal: AbortSignal) => {
+            attemptSignal = signal;
+            return { status: 200 };
+        });
+
+        await RequestExecutor.execute('test', attempt, { policy: { ...policy, timeoutMs: 1000 }, signal: controller.signal });
+        controller.abort();
+
+        expect(attemptSignal!.aborted).toBe(true);
+    });
+
+    it('stops the attempt timeout once the response arrives', async () => {
+        jest.useFakeTimers();
+        try {
+            let attemptSignal: AbortSignal | undefined;
+            await RequestExecutor.execute('test', async signal => {
+                attemptSignal = signal;
+                return { status: 200 };
+            }, { policy: { ...policy, timeoutMs: 1000 } });
+            jest.advanceTimersByTime(5000);
+
+            expect(attemptSignal!.aborted).toBe(false);
+        } finally {
+            jest.useRealTimers();
+        }
+    });
+
+    it('reads Retry-After seconds and the model loading estimate', () => {
+        expect(RequestExecutor.retryAfterMs(429, '7')).toBe(7000);
+        expect(RequestExecutor.retryAfterMs(503, null, '{"error":"Model is currently loading","estimated_time":20.5}')).toBe(20500);
+        expect(RequestExecutor.retryAfterMs(503, null, 'Service Unavailable')).toBeNull();
+    });
+
+    it('takes the timeout and retry count from AI_PERFORMANCE unless a provider overrides them', () => {
+        expect(RequestExecutor.policy('remove-bg')).toMatchObject({ timeoutMs: 30000, retryAttempts: 2 });
+        expect(RequestExecutor.policy('starvector-local', { timeoutMs: 5000 })).toMatchObject({ timeoutMs: 5000, retryAttempts: 1 });
+    });
+});
@@ -0,0 +1,96 @@
+import { ResultCache, CachedResult } from '../resultCache';
+
+// In-memory stand-in for the app's cache directory
+const mockFiles = new Map<string, string>();
+
+jest.mock('expo-file-system', () => ({
+    cacheDirectory: 'file:///cache/',
+    EncodingType: { Base64: 'base64' },
+    makeDirectoryAsync: async () => {},
+    readAsStringAsync: async (uri: string) => {
+        if (!mockFiles.has(uri)) throw new Error(`No file at ${uri}`);
+        return mockFiles.get(uri);
+    },
+    writeAsStringAsync: async (uri: string, contents: string) => { mockFiles.set(uri, contents); },
+    copyAsync: async ({ from, to }: { from: string; to: string }) => { mockFiles.set(to, mockFiles.get(from)!); },
+    deleteAsync: async (uri: string) => {
+        [...mockFiles.keys()].filter(path => path.startsWith(uri)).forEach(path => mockFiles.delete(path));
+    },
+    getInfoAsync: async (uri: string) => ({ exists: mockFiles.has(uri), size: mockFiles.get(uri)?.length }),
+}));
+
+// Two entries or 1000 bytes, whichever is hit first
+jest.mock('../../constants/aiConfig', () => ({
+    ...jest.requireActual('../../constants/aiConfig'),
+    RESULT_CACHE_DEFAULTS: { maxEntries: 2, maxBytes: 1000 },
+}));
+
+function result(previewUri: string, svgCode?: string): CachedResult {
+    mockFiles.set(previewUri, 'iVBORw0KGgo=');
+    return { format: svgCode ? 'SVG' : 'PNG', svgCode, previewUri, processingSteps: [] };
+}
+
+describe('ResultCache', () => {
+    let now = 0;
+
+    beforeEach(async () => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        jest.spyOn(Date, 'now').mockImplementation(() => ++now);
+        await ResultCache.clear();
+        mockFiles.clear();
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('keys on image content and options, not file location or option order', async () => {
+        mockFiles.set('file:///cache/photo.jpg', 'AAECAw==');
+        mockFiles.set('file:///documents/copy.jpg', 'AAECAw==');
+        mockFiles.set('file:///cache/other.jpg', 'BAUGBw==');
+
+        const key = await ResultCache.key('file:///cache/photo.jpg', 'vectorize', { model: 'a', temperature: 0.5 });
+
+        expect(await ResultCache.key('file:///documents/copy.jpg', 'vectorize', { temperature: 0.5, model: 'a' })).toBe(key);
+        expect(await ResultCache.key('file:///cache/photo.jpg', 'vectorize', { model: 'a', temperature: 0.5, useCache: false })).toBe(key);
+        expect(await ResultCache.key('file:///cache/photo.jpg', 'vectorize', { model: 'a', temperature: 0.7 })).not.toBe(key);
+        expect(await ResultCache.key('file:///cache/photo.jpg', 'preview', { model: 'a', temperature: 0.5 })).not.toBe(key);
+        expect(await ResultCache.key('file:///cache/other.jpg', 'vectorize', { model: 'a', temperature: 0.5 })).not.toBe(key);
+    });
+
+    it('returns stored results and misses unknown keys', async () => {
+        await ResultCache.put('a', result('file:///cache/run_a.png', '<svg/>'));
+
+        expect(await ResultCache.get('a')).toMatchObject({ format: 'SVG', svgCode: '<svg/>', processingSteps: [] });
+        expect(await ResultCache.get('missing')).toBeNull();
+    });
+
+    it('evicts the least recently used entry beyond the entry limit', async () => {
+        await ResultCache.put('a', result('file:///cache/run_a.png'));
+        await ResultCache.put('b', result('file:///cache/run_b.png'));
+        await ResultCache.get('a');
+        await ResultCache.put('c', result('file:///cache/run_c.png'));
+
+        expect(await ResultCache.get('b')).toBeNull();
+        expect(await ResultCache.get('a')).not.toBeNull();
+        expect(await ResultCache.get('c')).not.toBeNull();
+        expect(await ResultCache.stats()).toMatchObject({ entries: 2 });
+    });
+
+    it('evicts old entries beyond the size limit', async () => {
+        await ResultCache.put('a', result('file:///cache/run_a.png', 'x'.repeat(600)));
+        await ResultCache.put('b', result('file:///cache/run_b.png', 'y'.repeat(600)));
+
+        expect(await ResultCache.get('a')).toBeNull();
+        expect(await ResultCache.get('b')).not.toBeNull();
+        expect((await ResultCache.stats()).bytes).toBeLessThanOrEqual(1000);
+    });
+
+    it('forgets entries whose files were cleared', async () => {
+        await ResultCache.put('a', result('file:///cache/run_a.png'));
+        [...mockFiles.keys()].filter(path => path.endsWith('/a.png')).forEach(path => mockFiles.delete(path));
+
+        expect(await ResultCache.get('a')).toBeNull();
+        expect(await ResultCache.stats()).toEqual({ entries: 0, bytes: 0 });
+    });
+});
@@ -0,0 +1,49 @@
+import { ScanCleaner } from '../scanCleaner';
+import { ImageCodec, PixelBuffer } from '../imageCodec';
+
+const WIDTH = 200;
+const HEIGHT = 120;
+
+// Pencil strokes on paper under a lamp: bright on the left, in shadow on the right
+function shadowedSketch(): PixelBuffer {
+    const buffer = ImageCodec.create(WIDTH, HEIGHT);
+    for (let y = 0; y < HEIGHT; y++) {
+        for (let x = 0; x < WIDTH; x++) {
+            const light = 1 - 0.5 * x / WIDTH;
+            const paper = [235 * light, 225 * light, 205 * light];
+            const stroke = (x % 50 >= 24 && x % 50 < 27) || (y >= 58 && y < 61);
+            const color = stroke ? paper.map(value => value * 0.45) : paper;
+            buffer.data.set([...color.map(Math.round), 255], (y * WIDTH + x) * 4);
+        }
+    }
+    return buffer;
+}
+
+const pixel = ({ data }: PixelBuffer, x: number, y: number) => Array.from(data.slice((y * WIDTH + x) * 4, (y * WIDTH + x) * 4 + 3));
+
+describe('ScanCleaner', () => {
+    it('turns the paper white in the light and in the shadow', () => {
+        const cleaned = ScanCleaner.clean(shadowedSketch(), { grayscale: true });
+
+        expect(pixel(cleaned, 10, 20)).toEqual([255, 255, 255]);
+        expect(pixel(cleaned, 190, 100)).toEqual([255, 255, 255]);
+    });
+
+    it('makes strokes in the shadow as dark as strokes in the light', () => {
+        const cleaned = ScanCleaner.clean(shadowedSketch(), { grayscale: true });
+        const lit = pixel(cleaned, 25, 20)[0];
+        const shaded = pixel(cleaned, 175, 20)[0];
+
+        expect(lit).toBeLessThan(60);
+        expect(Math.abs(lit - shaded)).toBeLessThan(20);
+    });
+
+    it('keeps the alpha channel and does not modify the source', () => {
+        const source = shadowedSketch();
+        const before = Array.from(source.data);
+        const cleaned = ScanCleaner.clean(source);
+
+        expect(Array.from(source.data)).toEqual(before);
+        expect(cleaned.data[3]).toBe(255);
+    });
+});
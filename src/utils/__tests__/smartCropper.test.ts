@@ -0,0 +1,30 @@
+import { SmartCropper } from '../smartCropper';
+import { ImageCodec } from '../imageCodec';
+
+// White 100x60 page with a black bar across most of its width
+function wideInk() {
+    const buffer = ImageCodec.create(100, 60, [255, 255, 255, 255]);
+    for (let y = 25; y < 35; y++) {
+        for (let x = 5; x < 95; x++) {
+            buffer.data.set([0, 0, 0, 255], (y * 100 + x) * 4);
+        }
+    }
+    return buffer;
+}
+
+describe('SmartCropper', () => {
+    it('frames the ink with padding', () => {
+        const analysis = SmartCropper.analyze(wideInk(), { aspect: 'content', padding: 0, saliencyWeighting: false, trimFraction: 0 });
+
+        expect(analysis?.contentRect).toEqual({ originX: 5, originY: 25, width: 90, height: 10 });
+    });
+
+    it('keeps square crops square when the square is larger than the image', () => {
+        const analysis = SmartCropper.analyze(wideInk(), { aspect: 'square', padding: 0.1, saliencyWeighting: false });
+
+        expect(analysis).not.toBeNull();
+        expect(analysis!.rect.width).toBeCloseTo(analysis!.rect.height, 6);
+        expect(analysis!.rect.height).toBeLessThanOrEqual(60);
+        expect(analysis!.rect.originY).toBeGreaterThanOrEqual(0);
+    });
+});
@@ -0,0 +1,66 @@
+import { SvgOptimizer } from '../svgOptimizer';
+import { SvgParser, SvgNode } from '../svgParser';
+
+// 100 user units across an 80 mm design: 0.8 mm per unit
+const wrap = (body: string) => `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100" width="100">${body}</svg>`;
+
+function elements(svgCode: string, name: string): SvgNode[] {
+    const found: SvgNode[] = [];
+    const visit = (node: SvgNode) => {
+        if (node.name === name) found.push(node);
+        node.children.forEach(visit);
+    };
+    visit(SvgParser.parse(svgCode));
+    return found;
+}
+
+describe('SvgOptimizer', () => {
+    it('widens strokes thinner than the minimum line weight and keeps thicker ones', () => {
+        const { svgCode, report } = SvgOptimizer.optimize(wrap(
+            '<path d="M10 10L90 10" stroke="#000" stroke-width="0.1" fill="none"/>' +
+            '<path d="M10 50L90 50" stroke="#000" stroke-width="3" fill="none"/>'
+        ), { targetWidthMm: 80, minLineWeightMm: 0.4 });
+
+        const widths = elements(svgCode, 'path').map(path => parseFloat(path.attributes['stroke-width']));
+        expect(report.strokesWidened).toBe(1);
+        expect(report.thinnestStrokeMm).toBeCloseTo(0.08);
+        expect(widths[0]).toBeCloseTo(0.5);
+        expect(widths[1]).toBe(3);
+    });
+
+    it('keeps fill="none" outlines as outlines', () => {
+        const { svgCode, report } = SvgOptimizer.optimize(wrap('<circle cx="50" cy="50" r="30" stroke="#333" stroke-width="2" fill="none"/>'));
+
+        expect(elements(svgCode, 'circle')[0].attributes.fill).toBe('none');
+        expect(report.outlinedShapes).toBe(1);
+        expect(report.filledShapes).toBe(0);
+    });
+
+    it('drops details too small to survive at the target size', () => {
+        const { svgCode, report } = SvgOptimizer.optimize(wrap(
+            '<circle cx="20" cy="20" r="0.1"/><circle cx="60" cy="60" r="20"/>'
+        ), { targetWidthMm: 80, minDetailMm: 0.5 });
+
+        expect(report.detailsRemoved).toBe(1);
+        expect(elements(svgCode, 'circle')).toHaveLength(1);
+    });
+
+    it('merges duplicate paths', () => {
+        const path = '<path d="M10 10L90 90" stroke="#000" stroke-width="2" fill="none"/>';
+        const { svgCode, report } = SvgOptimizer.optimize(wrap(path + path));
+
+        expect(report.duplicatesMerged).toBe(1);
+        expect(elements(svgCode, 'path')).toHaveLength(1);
+    });
+
+    it('maps dark paints to the ink color and leaves light ones as skin', () => {
+        const { svgCode } = SvgOptimizer.optimize(wrap(
+            '<rect x="0" y="0" width="40" height="40" fill="#202830"/>' +
+            '<rect x="50" y="50" width="40" height="40" fill="#ffffff"/>'
+        ), { inkColor: '#000000' });
+
+        const fills = elements(svgCode, 'rect').map(rect => rect.attributes.fill);
+        expect(fills[0]).toBe('#000000');
+        expect(fills[1]).not.toBe('#000000');
+    });
+});
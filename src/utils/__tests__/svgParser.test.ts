@@ -0,0 +1,21 @@
+import { SvgParser } from '../svgParser';
+
+describe('SvgParser', () => {
+    it('parses nested elements and attributes', () => {
+        const root = SvgParser.parse('<svg viewBox="0 0 10 10"><g id="a"><rect width="5" height="10"/></g></svg>');
+
+        expect(root.name).toBe('svg');
+        expect(root.attributes.viewBox).toBe('0 0 10 10');
+        expect(SvgParser.findById(root, 'a')?.children[0].name).toBe('rect');
+    });
+
+    it('normalizes relative and shorthand path commands to absolute ones', () => {
+        expect(SvgParser.parsePathData('M1 2h3v4l-1-1z')).toEqual([
+            { type: 'M', x: 1, y: 2 },
+            { type: 'L', x: 4, y: 2 },
+            { type: 'L', x: 4, y: 6 },
+            { type: 'L', x: 3, y: 5 },
+            { type: 'Z' },
+        ]);
+    });
+});
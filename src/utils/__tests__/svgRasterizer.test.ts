@@ -0,0 +1,40 @@
+import { SvgRasterizer } from '../svgRasterizer';
+import { PixelBuffer } from '../imageCodec';
+
+const pixel = ({ data, width }: PixelBuffer, x: number, y: number) =>
+    Array.from(data.slice((y * width + x) * 4, (y * width + x) * 4 + 4));
+
+describe('SvgRasterizer', () => {
+    const halfBlack = '<svg viewBox="0 0 10 10"><rect x="0" y="0" width="5" height="10" fill="#000"/></svg>';
+
+    it('fills shapes over the background', () => {
+        const buffer = SvgRasterizer.rasterize(halfBlack, { width: 10, background: '#fff' });
+
+        expect(buffer.width).toBe(10);
+        expect(buffer.height).toBe(10);
+        expect(pixel(buffer, 2, 5)).toEqual([0, 0, 0, 255]);
+        expect(pixel(buffer, 7, 5)).toEqual([255, 255, 255, 255]);
+    });
+
+    it('scales the viewBox to the requested size', () => {
+        const buffer = SvgRasterizer.rasterize(halfBlack, { width: 40, background: '#fff' });
+
+        expect(buffer.height).toBe(40);
+        expect(pixel(buffer, 18, 20)).toEqual([0, 0, 0, 255]);
+        expect(pixel(buffer, 22, 20)).toEqual([255, 255, 255, 255]);
+    });
+
+    it('leaves unpainted pixels transparent on a transparent background', () => {
+        const buffer = SvgRasterizer.rasterize(halfBlack, { width: 10, background: 'transparent' });
+        expect(pixel(buffer, 7, 5)[3]).toBe(0);
+        expect(pixel(buffer, 2, 5)[3]).toBe(255);
+    });
+
+    it('strokes paths with their line width', () => {
+        const svg = '<svg viewBox="0 0 20 20"><path d="M0 10H20" stroke="#000" stroke-width="4" fill="none"/></svg>';
+        const buffer = SvgRasterizer.rasterize(svg, { width: 20, background: '#fff' });
+
+        expect(pixel(buffer, 10, 10)).toEqual([0, 0, 0, 255]);
+        expect(pixel(buffer, 10, 2)).toEqual([255, 255, 255, 255]);
+    });
+});
@@ -0,0 +1,52 @@
+import { SvgSanitizer } from '../svgSanitizer';
+
+describe('SvgSanitizer', () => {
+    it('keeps whitelisted elements and attributes', () => {
+        const result = SvgSanitizer.sanitize('<svg viewBox="0 0 10 10"><path d="M0 0L10 10" stroke="#000" stroke-width="2"/></svg>');
+
+        expect(result.success).toBe(true);
+        expect(result.warnings).toHaveLength(0);
+        expect(result.svgCode).toContain('d="M0 0L10 10"');
+        expect(result.svgCode).toContain('stroke-width="2"');
+    });
+
+    it('removes scripts, event handlers and external references', () => {
+        const result = SvgSanitizer.sanitize(
+            '<svg viewBox="0 0 10 10">' +
+            '<script>alert(1)</script>' +
+            '<rect width="5" height="5" onclick="alert(1)" fill="url(http://evil.test/x)"/>' +
+            '<use href="http://evil.test/sprite.svg#a"/>' +
+            '<image href="data:image/png;base64,AAAA"/>' +
+            '</svg>'
+        );
+
+        expect(result.success).toBe(true);
+        expect(result.svgCode).not.toMatch(/script|onclick|evil|image/);
+        expect(result.warnings.map(warning => warning.code)).toEqual(
+            expect.arrayContaining(['removed-element', 'event-handler', 'external-reference'])
+        );
+    });
+
+    it('keeps references to ids inside the document', () => {
+        const result = SvgSanitizer.sanitize(
+            '<svg viewBox="0 0 10 10"><defs><linearGradient id="ink"/></defs><rect width="5" height="5" fill="url(#ink)"/></svg>'
+        );
+
+        expect(result.success).toBe(true);
+        expect(result.svgCode).toContain('fill="url(#ink)"');
+    });
+
+    it('unwraps links but keeps their drawing', () => {
+        const result = SvgSanitizer.sanitize('<svg viewBox="0 0 10 10"><a href="https://example.com"><circle cx="5" cy="5" r="2"/></a></svg>');
+
+        expect(result.success).toBe(true);
+        expect(result.svgCode).toContain('<circle');
+        expect(result.svgCode).not.toContain('<a');
+    });
+
+    it('fails markup with nothing drawable or no coordinate system', () => {
+        expect(SvgSanitizer.sanitize('<svg viewBox="0 0 10 10"><script/></svg>').errors[0].code).toBe('empty-document');
+        expect(SvgSanitizer.sanitize('<svg><path d="M0 0L1 1"/></svg>').errors[0].code).toBe('invalid-dimensions');
+        expect(SvgSanitizer.sanitize('no markup here').errors[0].code).toBe('no-svg-found');
+    });
+});
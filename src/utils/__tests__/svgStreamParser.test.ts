@@ -0,0 +1,28 @@
+import { SvgStreamParser } from '../svgStreamParser';
+
+describe('SvgStreamParser', () => {
+    it('has no snapshot until the root tag is complete', () => {
+        const parser = new SvgStreamParser();
+        parser.push('Here is the design: <svg viewBox="0 0 10');
+        expect(parser.snapshot()).toBeNull();
+
+        parser.push(' 10">');
+        expect(parser.snapshot()).toEqual({ svgCode: '<svg viewBox="0 0 10 10"></svg>', elements: 0, complete: false });
+    });
+
+    it('only includes whole elements and closes open groups', () => {
+        const parser = new SvgStreamParser();
+        parser.push('<svg><g><path d="M0 0L5 5"/><path d="M1 ');
+
+        expect(parser.snapshot()).toEqual({ svgCode: '<svg><g><path d="M0 0L5 5"/></g></svg>', elements: 1, complete: false });
+    });
+
+    it('does not end a tag at a ">" inside a quoted attribute', () => {
+        const parser = new SvgStreamParser();
+        parser.push('<svg><text data-x="a>b');
+        expect(parser.snapshot()?.elements).toBe(0);
+
+        parser.push('">hi</text></svg> trailing text');
+        expect(parser.snapshot()).toEqual({ svgCode: '<svg><text data-x="a>b">hi</text></svg>', elements: 1, complete: true });
+    });
+});
@@ -0,0 +1,45 @@
+import { VectorizationRegistry, VectorizationProvider } from '../vectorizationProviders';
+
+const provider = (id: string): VectorizationProvider => ({
+    id,
+    name: id,
+    kind: 'tracer',
+    getCapabilities: async () => ({ available: true, latency: 'instant', supportsStreaming: false, requiresNetwork: false }),
+    vectorize: async () => null,
+});
+
+describe('VectorizationRegistry', () => {
+    const builtIns = VectorizationRegistry.list().map(p => p.id);
+
+    afterEach(() => {
+        VectorizationRegistry.list()
+            .filter(p => !builtIns.includes(p.id))
+            .forEach(p => VectorizationRegistry.unregister(p.id));
+    });
+
+    it('registers the built-in providers', () => {
+        expect(builtIns).toEqual(expect.arrayContaining(['starvector-local', 'huggingface', 'local-tracer']));
+    });
+
+    it('tries providers in the preferred order and the rest after them', () => {
+        const ids = VectorizationRegistry.resolve(['local-tracer', 'huggingface']).map(p => p.id);
+        expect(ids.slice(0, 2)).toEqual(['local-tracer', 'huggingface']);
+        expect(ids).toContain('starvector-local');
+        expect(ids).toHaveLength(builtIns.length);
+    });
+
+    it('ignores unknown ids in the order', () => {
+        const ids = VectorizationRegistry.resolve(['removed-provider', 'huggingface']).map(p => p.id);
+        expect(ids[0]).toBe('huggingface');
+        expect(ids).not.toContain('removed-provider');
+    });
+
+    it('replaces a provider registered under the same id', () => {
+        VectorizationRegistry.register(provider('custom'));
+        const replacement = provider('custom');
+        VectorizationRegistry.register(replacement);
+
+        expect(VectorizationRegistry.get('custom')).toBe(replacement);
+        expect(VectorizationRegistry.resolve(['custom'])[0]).toBe(replacement);
+    });
+});
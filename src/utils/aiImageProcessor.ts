@@ -1,6 +1,18 @@
 import { Alert } from 'react-native';
-import { StarVectorProcessor, StarVectorOptions, StarVectorResult } from './starVectorProcessor';
-import { AI_CONFIG, STARVECTOR_CONFIG, AI_PROCESSING_DEFAULTS } from '../constants/aiConfig';
+import { StarVectorProcessor, StarVectorOptions, StarVectorResult, SvgStreamProgress } from './starVectorProcessor';
+import { VectorizationRegistry, VectorizationProvider } from './vectorizationProviders';
+import { EdgeDetector, EdgeDetectionOptions } from './edgeDetector';
+import { LineArtConverter, LineArtOptions } from './lineArtConverter';
+import { BackgroundRemover, BackgroundRemovalOptions } from './backgroundRemover';
+import { SmartCropper, SmartCropOptions } from './smartCropper';
+import { PathSimplifyOptions } from './pathSimplifier';
+import { Cancellation, TempFileTracker } from './cancellation';
+import { RequestExecutor } from './requestExecutor';
+import { ResultCache } from './resultCache';
+import { CandidateRanker, CandidateScore } from './candidateRanker';
+import { FidelityReport } from './fidelityScorer';
+import { ProcessingStep, ProcessingTrace } from './processingTrace';
+import { AI_CONFIG, STARVECTOR_CONFIG, AI_PROCESSING_DEFAULTS, CANDIDATE_DEFAULTS } from '../constants/aiConfig';
 
 // Import image processing modules
 let ImageManipulator: any;
@@ -15,29 +27,69 @@ try {
 
 export interface ProcessingOptions {
     removeBackground?: boolean;
+    backgroundRemoval?: BackgroundRemovalOptions;
     enhanceEdges?: boolean;
+    edgeDetection?: EdgeDetectionOptions;
     convertToLineArt?: boolean;
+    lineArt?: LineArtOptions;
     autoContrast?: boolean;
     smartCrop?: boolean;
+    smartCropOptions?: SmartCropOptions;
     useAI?: boolean;
     outputFormat?: 'PNG' | 'SVG';
+    pathSimplification?: PathSimplifyOptions;
+    providerOrder?: string[];   // Vectorization provider ids, most preferred first
     useStarVector?: boolean;
     starVectorModel?: '1b' | '8b';
     fallbackToLocal?: boolean;
     useCPUMode?: boolean;
+    onPartialSVG?: (progress: SvgStreamProgress) => void; // Live preview while a model streams its SVG
+    onStep?: (step: ProcessingStep) => void; // Hears each step as it is recorded, for progress
+    signal?: AbortSignal;       // Abort to cancel the run; files it wrote are deleted
+    useCache?: boolean;         // Reuse an earlier result for the same image and options; false reprocesses and replaces it
+    candidates?: number;        // Generate this many designs and return the best; 1 = first success only
+}
+
+/**
+ * One generated design, scored against the input
+ */
+export interface DesignCandidate {
+    id: string;
+    label: string;              // Provider and variant, e.g. "On-device tracer · Smooth"
+    provider: string;
+    model?: string;
+    svgCode: string;
+    previewUri: string;
+    score: CandidateScore;
+    fidelity?: FidelityReport;
+    processingSteps: ProcessingStep[];
 }
 
 export interface ProcessingResult {
     success: boolean;
     processedImageUri?: string;
     originalImageUri: string;
-    processingSteps: string[];
+    processingSteps: ProcessingStep[];
     error?: string;
     format?: 'PNG' | 'SVG';
     svgCode?: string;
     model?: string;
+    cancelled?: boolean;        // The run was aborted through options.signal
+    fromCache?: boolean;        // Returned from the result cache without reprocessing
+    candidates?: DesignCandidate[]; // Every design generated, best first (multi-candidate runs only)
+    fidelity?: FidelityReport;  // Match against the input, for vectorized results
+}
+
+// One provider run planned for a multi-candidate run
+interface CandidatePlan {
+    provider: VectorizationProvider;
+    label: string;
+    overrides: Partial<StarVectorOptions>;
 }
 
+// How a run uses the result cache: read and write, write only, or not at all
+type CacheMode = 'use' | 'refresh' | 'off';
+
 // AI Service Configuration
 const AI_SERVICES = {
     CODIA_AI: {
@@ -71,149 +123,425 @@ export class AIImageProcessor {
     }
 
     /**
-     * Main processing pipeline now using StarVector for tattoo designs
+     * Main processing pipeline now using StarVector for tattoo designs.
+     * Results are cached by image content and options, so repeat runs return instantly.
      */
     static async processImageToTattooDesign(
         imageUri: string,
         options: ProcessingOptions = {}
     ): Promise<ProcessingResult> {
-        const processingSteps: string[] = [];
-        let currentImageUri = imageUri;
+        // Merge with defaults
+        const finalOptions = { ...AI_PROCESSING_DEFAULTS, ...options };
+        // The cache holds one design, not a ranked set
+        const cacheMode: CacheMode = (finalOptions.candidates ?? 1) > 1
+            ? 'off'
+            : finalOptions.useCache === false ? 'refresh' : 'use';
+        return this.withResultCache(imageUri, 'design', finalOptions, cacheMode, () =>
+            this.runPipeline(imageUri, finalOptions)
+        );
+    }
+
+    /**
+     * Vectorize with each available provider in order, then fall back to the traditional pipeline
+     */
+    private static async runPipeline(
+        imageUri: string,
+        finalOptions: ProcessingOptions
+    ): Promise<ProcessingResult> {
+        const trace = new ProcessingTrace([], finalOptions.onStep);
+        const tempFiles = new TempFileTracker([imageUri]);
 
         try {
             console.log('🌟 Starting StarVector-powered tattoo design processing...');
 
-            // Merge with defaults
-            const finalOptions = { ...AI_PROCESSING_DEFAULTS, ...options };
-
-            // Step 1: Try StarVector first (preferred method)
-            if (finalOptions.useStarVector && StarVectorProcessor.isAvailable()) {
-                console.log('🚀 Using StarVector for direct image-to-SVG conversion...');
-
-                const starVectorOptions: StarVectorOptions = {
-                    model: finalOptions.starVectorModel || '1b',
-                    temperature: STARVECTOR_CONFIG.generation.temperature,
-                    maxTokens: STARVECTOR_CONFIG.generation.maxTokens,
-                    huggingFaceToken: AI_CONFIG.huggingFace,
-                };
+            // Step 1: Try vectorization providers in the preferred order
+            const starVectorOptions: StarVectorOptions = {
+                model: finalOptions.starVectorModel || '1b',
+                temperature: STARVECTOR_CONFIG.generation.temperature,
+                maxTokens: STARVECTOR_CONFIG.generation.maxTokens,
+                huggingFaceToken: AI_CONFIG.huggingFace,
+                useCPUMode: finalOptions.useCPUMode,
+                simplification: finalOptions.pathSimplification,
+                onPartialSVG: finalOptions.onPartialSVG,
+                onStep: finalOptions.onStep,
+                signal: finalOptions.signal,
+                tempFiles,
+            };
 
-                const starVectorResult = await StarVectorProcessor.imageToSVG(imageUri, starVectorOptions);
+            if ((finalOptions.candidates ?? 1) > 1) {
+                const best = await this.generateCandidates(imageUri, finalOptions, starVectorOptions, trace);
+                if (best) return best;
+            }
 
-                if (starVectorResult.success) {
-                    console.log('✅ StarVector processing successful!');
+            for (const provider of VectorizationRegistry.resolve(finalOptions.providerOrder)) {
+                if (provider.kind === 'model' && !finalOptions.useStarVector) continue;
+                if (provider.kind === 'tracer' && !finalOptions.fallbackToLocal) continue;
 
-                    // Check if this was API or local processing
-                    const usingAPI = starVectorResult.processingSteps.some(step =>
-                        step.includes('StarVector API') && !step.includes('not available')
-                    );
+                Cancellation.throwIfAborted(finalOptions.signal);
+                if (!(await this.checkAvailable(provider, starVectorOptions, trace))) continue;
 
-                    return {
-                        success: true,
-                        processedImageUri: starVectorResult.svgUri,
-                        originalImageUri: imageUri,
-                        processingSteps: starVectorResult.processingSteps,
-                        format: 'SVG',
-                        svgCode: starVectorResult.svgCode,
-                        model: usingAPI ? starVectorResult.model : 'Enhanced StarVector-inspired (Local)',
-                    };
-                } else {
-                    console.log('⚠️ StarVector processing not available, continuing with fallbacks...');
-                    processingSteps.push('StarVector processing not available');
+                const result = await VectorizationRegistry.run(provider, imageUri, starVectorOptions);
+                Cancellation.throwIfAborted(finalOptions.signal);
+                if (result.success) {
+                    return this.fromVectorization(result, trace.steps);
                 }
-            }
 
-            // Step 2: Fallback to local StarVector-inspired processing
-            if (finalOptions.fallbackToLocal) {
-                console.log('⚡ Using local StarVector-inspired processing...');
-
-                const localStarVectorResult = await StarVectorProcessor.processWithLocalStarVector(imageUri);
-
-                if (localStarVectorResult.success) {
-                    console.log('✅ Local StarVector processing successful!');
-                    return {
-                        success: true,
-                        processedImageUri: localStarVectorResult.svgUri,
-                        originalImageUri: imageUri,
-                        processingSteps: [...processingSteps, ...localStarVectorResult.processingSteps],
-                        format: 'SVG',
-                        svgCode: localStarVectorResult.svgCode,
-                        model: localStarVectorResult.model,
-                    };
-                } else {
-                    processingSteps.push('Local StarVector processing failed');
-                }
+                // The run's own steps say why it failed or was flagged
+                trace.append(result.processingSteps);
             }
 
-            // Step 3: Final fallback to traditional processing pipeline
+            // Step 2: Final fallback to traditional processing pipeline
             console.log('🔄 Falling back to traditional processing pipeline...');
-            return await this.traditionalProcessingPipeline(imageUri, finalOptions, processingSteps);
+            trace.record('fallback', 'No vectorizer produced a design, using traditional processing');
+            return await this.traditionalProcessingPipeline(imageUri, finalOptions, trace, tempFiles);
 
         } catch (error: any) {
+            if (finalOptions.signal?.aborted) {
+                const removed = await tempFiles.cleanup();
+                console.log(`⏹️ Processing cancelled, ${removed} temp files removed`);
+                trace.record('cancel', 'Cancelled', { outcome: 'cancelled', parameters: { tempFilesRemoved: removed } });
+                return {
+                    success: false,
+                    cancelled: true,
+                    originalImageUri: imageUri,
+                    processingSteps: trace.steps,
+                    error: 'Processing cancelled',
+                };
+            }
+
             console.error('❌ All processing methods failed:', error);
 
             // Ultimate fallback
+            trace.record('fallback', 'Processing failed, using basic image processing', { outcome: 'failed', error: error.message });
             try {
                 console.log('🆘 Using ultimate fallback processing...');
-                return await this.ultimateFallbackProcessing(imageUri, processingSteps);
+                return await this.ultimateFallbackProcessing(imageUri, trace);
             } catch (fallbackError: any) {
+                trace.record('ultimate-fallback', 'Basic image processing failed', { outcome: 'failed', error: fallbackError.message });
                 return {
                     success: false,
                     originalImageUri: imageUri,
-                    processingSteps,
+                    processingSteps: trace.steps,
                     error: `All processing methods failed: ${error.message}`,
                 };
             }
         }
     }
 
+    /**
+     * Generate several designs across the available providers and variants, score each
+     * against the input and return the best, with the full ranking attached.
+     * Null when no candidate succeeds.
+     */
+    private static async generateCandidates(
+        imageUri: string,
+        finalOptions: ProcessingOptions,
+        starVectorOptions: StarVectorOptions,
+        trace: ProcessingTrace
+    ): Promise<ProcessingResult | null> {
+        const count = Math.min(finalOptions.candidates ?? 1, CANDIDATE_DEFAULTS.maxCandidates);
+        const plans = await this.planCandidates(finalOptions, starVectorOptions, trace);
+        if (plans.length === 0) return null;
+
+        console.log(`🎲 Generating ${Math.min(count, plans.length)} candidate designs...`);
+
+        const candidates: DesignCandidate[] = [];
+        for (const plan of plans.slice(0, count)) {
+            Cancellation.throwIfAborted(finalOptions.signal);
+            const generating = trace.begin('candidate', {
+                provider: plan.provider.id,
+                inputUri: imageUri,
+                parameters: { ...plan.overrides },
+            });
+            const result = await VectorizationRegistry.run(plan.provider, imageUri, { ...starVectorOptions, ...plan.overrides });
+            Cancellation.throwIfAborted(finalOptions.signal);
+
+            if (!result.success || !result.svgCode || !result.svgUri) {
+                generating(`Candidate "${plan.label}" ${result.lowFidelity ? 'flagged' : 'failed'}`, {
+                    outcome: result.lowFidelity ? 'flagged' : 'failed',
+                    outputUri: result.svgUri,
+                    error: result.error,
+                });
+                continue;
+            }
+
+            try {
+                const score = CandidateRanker.score(result.svgCode, result.fidelity);
+                generating(`Candidate "${plan.label}" scored ${CandidateRanker.describe(score)}`, { outputUri: result.svgUri });
+                candidates.push({
+                    id: `candidate_${candidates.length + 1}`,
+                    label: plan.label,
+                    provider: plan.provider.id,
+                    model: result.model,
+                    svgCode: result.svgCode,
+                    previewUri: result.svgUri,
+                    score,
+                    fidelity: result.fidelity,
+                    processingSteps: result.processingSteps,
+                });
+                console.log(`📊 ${plan.label}: ${CandidateRanker.describe(score)}`);
+            } catch (error: any) {
+                generating(`Candidate "${plan.label}" could not be scored`, { outcome: 'failed', error: error.message });
+            }
+        }
+
+        if (candidates.length === 0) return null;
+
+        const ranked = CandidateRanker.rank(candidates);
+        const best = ranked[0];
+        trace.append(best.processingSteps);
+        trace.record('rank', `Best of ${ranked.length} candidates: ${best.label}, score ${CandidateRanker.describe(best.score)}`, {
+            provider: best.provider,
+            outputUri: best.previewUri,
+            parameters: { scores: ranked.map(candidate => Math.round(candidate.score.total * 100) / 100) },
+        });
+        return {
+            success: true,
+            processedImageUri: best.previewUri,
+            originalImageUri: imageUri,
+            processingSteps: trace.steps,
+            format: 'SVG',
+            svgCode: best.svgCode,
+            model: best.model,
+            fidelity: best.fidelity,
+            candidates: ranked,
+        };
+    }
+
+    /**
+     * Provider runs for a multi-candidate run: temperatures for model providers and
+     * tracing variants for tracers, taken round-robin so every provider is represented
+     */
+    private static async planCandidates(
+        finalOptions: ProcessingOptions,
+        starVectorOptions: StarVectorOptions,
+        trace: ProcessingTrace
+    ): Promise<CandidatePlan[]> {
+        const perProvider: CandidatePlan[][] = [];
+
+        for (const provider of VectorizationRegistry.resolve(finalOptions.providerOrder)) {
+            if (provider.kind === 'model' && !finalOptions.useStarVector) continue;
+            if (provider.kind === 'tracer' && !finalOptions.fallbackToLocal) continue;
+
+            if (!(await this.checkAvailable(provider, starVectorOptions, trace))) continue;
+
+            perProvider.push(provider.kind === 'model'
+                ? CANDIDATE_DEFAULTS.temperatures.map(temperature => ({
+                    provider,
+                    label: `${provider.name} · temperature ${temperature}`,
+                    overrides: { temperature },
+                }))
+                : CANDIDATE_DEFAULTS.tracerVariants.map(variant => ({
+                    provider,
+                    label: `${provider.name} · ${variant.label}`,
+                    overrides: { tracing: { ...starVectorOptions.tracing, ...variant.tracing } },
+                })));
+        }
+
+        const plans: CandidatePlan[] = [];
+        const longest = Math.max(0, ...perProvider.map(list => list.length));
+        for (let i = 0; i < longest; i++) {
+            perProvider.forEach(list => {
+                if (list[i]) plans.push(list[i]);
+            });
+        }
+        return plans;
+    }
+
+    /**
+     * Check a provider's capabilities, recording why it is skipped when unavailable
+     */
+    private static async checkAvailable(
+        provider: VectorizationProvider,
+        starVectorOptions: StarVectorOptions,
+        trace: ProcessingTrace
+    ): Promise<boolean> {
+        const capabilities = await provider.getCapabilities(starVectorOptions);
+        if (!capabilities.available) {
+            trace.record('provider-check', `${provider.name} not available`, {
+                provider: provider.id,
+                outcome: 'skipped',
+                error: capabilities.reason,
+                parameters: { latency: capabilities.latency, requiresNetwork: capabilities.requiresNetwork, transient: !!capabilities.transient },
+            });
+        }
+        return capabilities.available;
+    }
+
+    /**
+     * Return a cached result for this image and options, or run and cache a new one.
+     * 'refresh' skips the lookup but still stores the new result; 'off' bypasses the cache.
+     * Cancelled, failed and degraded results are never cached.
+     */
+    private static async withResultCache(
+        imageUri: string,
+        namespace: string,
+        options: { onStep?: (step: ProcessingStep) => void },
+        mode: CacheMode,
+        run: () => Promise<ProcessingResult>
+    ): Promise<ProcessingResult> {
+        const cacheKey = mode === 'off' ? null : await ResultCache.key(imageUri, namespace, options);
+
+        if (cacheKey && mode === 'use') {
+            const cached = await ResultCache.get(cacheKey);
+            if (cached) {
+                console.log(`⚡ Using cached ${namespace} result`);
+                const trace = new ProcessingTrace(cached.processingSteps, options.onStep);
+                trace.record('cache', 'Loaded from result cache', { outputUri: cached.previewUri, parameters: { namespace } });
+                return {
+                    success: true,
+                    processedImageUri: cached.previewUri,
+                    originalImageUri: imageUri,
+                    processingSteps: trace.steps,
+                    format: cached.format,
+                    svgCode: cached.svgCode,
+                    model: cached.model,
+                    fidelity: cached.fidelity,
+                    fromCache: true,
+                };
+            }
+        }
+
+        const result = await run();
+        if (cacheKey && result.success && result.processedImageUri && !this.isDegraded(result)) {
+            await ResultCache.put(cacheKey, {
+                format: result.format ?? 'PNG',
+                svgCode: result.svgCode,
+                previewUri: result.processedImageUri,
+                processingSteps: result.processingSteps,
+                model: result.model,
+                fidelity: result.fidelity,
+            });
+        }
+        return result;
+    }
+
+    /**
+     * True when a preferred provider was unreachable, failed or was flagged before this
+     * result was made. Caching it would keep returning the fallback after the provider recovers.
+     */
+    private static isDegraded(result: ProcessingResult): boolean {
+        if (result.model === 'ultimate-fallback') return true;
+        return result.processingSteps.some(step =>
+            step.id === 'fallback'
+            || step.outcome === 'failed'
+            || step.outcome === 'flagged'
+            || (step.id === 'provider-check' && step.parameters?.transient === true)
+        );
+    }
+
+    /**
+     * ProcessingResult for a vectorization run
+     */
+    private static fromVectorization(result: StarVectorResult, existingSteps: ProcessingStep[] = []): ProcessingResult {
+        return {
+            success: result.success,
+            processedImageUri: result.svgUri,
+            originalImageUri: result.originalImageUri,
+            processingSteps: [...existingSteps, ...result.processingSteps],
+            format: 'SVG',
+            svgCode: result.svgCode,
+            model: result.model,
+            error: result.error,
+            fidelity: result.fidelity,
+        };
+    }
+
     /**
      * Traditional processing pipeline (enhanced but still uses older methods)
      */
     private static async traditionalProcessingPipeline(
         imageUri: string,
         options: ProcessingOptions,
-        existingSteps: string[]
+        trace: ProcessingTrace = new ProcessingTrace(),
+        tempFiles?: TempFileTracker
     ): Promise<ProcessingResult> {
-        const processingSteps = [...existingSteps, 'Using traditional processing pipeline'];
         let currentImageUri = imageUri;
 
+        // Every step writes a new file; keep track of it and stop if the run was cancelled
+        const checkpoint = (uri: string) => {
+            tempFiles?.track(uri);
+            Cancellation.throwIfAborted(options.signal);
+            return uri;
+        };
+
         try {
             // Step 1: Preprocess image
             console.log('📸 Preprocessing image...');
-            currentImageUri = await this.preprocessForAI(currentImageUri);
-            processingSteps.push('Image preprocessed');
+            const preprocessing = trace.begin('preprocess', { inputUri: currentImageUri, parameters: { width: 1024 } });
+            currentImageUri = checkpoint(await this.preprocessForAI(currentImageUri));
+            preprocessing('Image preprocessed', { outputUri: currentImageUri });
 
             // Step 2: Background removal
             if (options.removeBackground) {
                 console.log('🎯 Removing background...');
-                const backgroundRemovedUri = await this.removeBackgroundAI(currentImageUri);
+                const removingRemote = trace.begin('background-removal', { provider: 'remote', inputUri: currentImageUri });
+                const backgroundRemovedUri = await this.removeBackgroundAI(currentImageUri, options.signal);
                 if (backgroundRemovedUri) {
-                    currentImageUri = backgroundRemovedUri;
-                    processingSteps.push('Background removed using AI');
+                    currentImageUri = checkpoint(backgroundRemovedUri);
+                    removingRemote('Background removed using AI', { outputUri: currentImageUri });
                 } else {
-                    currentImageUri = await this.localBackgroundRemoval(currentImageUri);
-                    processingSteps.push('Background processed locally');
+                    removingRemote('AI background removal unavailable', { outcome: 'skipped', error: 'no API key or the service failed' });
+
+                    const removingLocal = trace.begin('background-removal', {
+                        provider: 'local',
+                        inputUri: currentImageUri,
+                        parameters: { ...options.backgroundRemoval },
+                    });
+                    const localUri = checkpoint(await this.localBackgroundRemoval(currentImageUri, options.backgroundRemoval));
+                    if (localUri !== currentImageUri) {
+                        currentImageUri = localUri;
+                        removingLocal('Background removed locally', { outputUri: currentImageUri });
+                    } else {
+                        removingLocal('Background kept', { outcome: 'skipped', error: 'no plain background detected' });
+                    }
                 }
             }
 
             // Step 3: Smart cropping
             if (options.smartCrop) {
                 console.log('✂️ Smart cropping...');
-                currentImageUri = await this.smartCrop(currentImageUri);
-                processingSteps.push('Smart cropped');
+                const cropping = trace.begin('smart-crop', { inputUri: currentImageUri, parameters: { ...options.smartCropOptions } });
+                const croppedUri = checkpoint(await this.smartCrop(currentImageUri, options.smartCropOptions));
+                if (croppedUri !== currentImageUri) {
+                    currentImageUri = croppedUri;
+                    cropping('Smart cropped to content', { outputUri: currentImageUri });
+                } else {
+                    cropping('Smart crop kept the full image', { outcome: 'skipped' });
+                }
             }
 
-            // Step 4: Convert to line art
+            // Step 4: Edge enhancement
+            if (options.enhanceEdges) {
+                console.log('✏️ Enhancing edges...');
+                const enhancing = trace.begin('edge-enhancement', { inputUri: currentImageUri, parameters: { ...options.edgeDetection } });
+                const edgeUri = checkpoint(await this.enhanceEdges(currentImageUri, options.edgeDetection));
+                if (edgeUri !== currentImageUri) {
+                    currentImageUri = edgeUri;
+                    enhancing(`Edges enhanced (${options.edgeDetection?.algorithm || 'canny'})`, { outputUri: currentImageUri });
+                } else {
+                    enhancing('Edge enhancement skipped', { outcome: 'skipped' });
+                }
+            }
+
+            // Step 5: Convert to line art
             if (options.convertToLineArt) {
                 console.log('🎨 Converting to line art...');
-                currentImageUri = await this.convertToLineArt(currentImageUri);
-                processingSteps.push('Converted to line art');
+                const converting = trace.begin('line-art', { inputUri: currentImageUri, parameters: { ...options.lineArt } });
+                const lineArtUri = checkpoint(await this.convertToLineArt(currentImageUri, options.lineArt));
+                if (lineArtUri !== currentImageUri) {
+                    currentImageUri = lineArtUri;
+                    converting('Converted to line art', { outputUri: currentImageUri });
+                } else {
+                    converting('Line art conversion skipped', { outcome: 'skipped' });
+                }
             }
 
-            // Step 5: Apply tattoo styling
+            // Step 6: Apply tattoo styling
             console.log('💫 Applying tattoo styling...');
-            currentImageUri = await this.applyTattooStyling(currentImageUri, options.autoContrast);
-            processingSteps.push('Tattoo styling applied');
+            const styling = trace.begin('tattoo-styling', { inputUri: currentImageUri, parameters: { autoContrast: options.autoContrast } });
+            currentImageUri = checkpoint(await this.applyTattooStyling(currentImageUri, options.autoContrast));
+            styling('Tattoo styling applied', { outputUri: currentImageUri });
 
             console.log('✅ Traditional processing complete!');
 
@@ -221,12 +549,13 @@ export class AIImageProcessor {
                 success: true,
                 processedImageUri: currentImageUri,
                 originalImageUri: imageUri,
-                processingSteps,
+                processingSteps: trace.steps,
                 format: 'PNG',
                 model: 'traditional-pipeline',
             };
 
         } catch (error: any) {
+            if (Cancellation.isCancelled(error, options.signal)) throw error;
             throw new Error(`Traditional processing failed: ${error.message}`);
         }
     }
@@ -236,16 +565,15 @@ export class AIImageProcessor {
      */
     private static async ultimateFallbackProcessing(
         imageUri: string,
-        existingSteps: string[]
+        trace: ProcessingTrace
     ): Promise<ProcessingResult> {
-        const processingSteps = [...existingSteps, 'Using ultimate fallback processing'];
-
         if (!ImageManipulator) {
             throw new Error('No image processing capabilities available');
         }
 
         try {
             // Basic image processing
+            const resizing = trace.begin('ultimate-fallback', { inputUri: imageUri, parameters: { width: 600 } });
             const processedImage = await ImageManipulator.manipulateAsync(
                 imageUri,
                 [
@@ -257,13 +585,13 @@ export class AIImageProcessor {
                 }
             );
 
-            processingSteps.push('Basic image processing applied');
+            resizing('Basic image processing applied', { outputUri: processedImage.uri });
 
             return {
                 success: true,
                 processedImageUri: processedImage.uri,
                 originalImageUri: imageUri,
-                processingSteps,
+                processingSteps: trace.steps,
                 format: 'PNG',
                 model: 'ultimate-fallback',
             };
@@ -286,32 +614,41 @@ export class AIImageProcessor {
 
         try {
             // Try StarVector preview
-            if (StarVectorProcessor.isAvailable()) {
+            const huggingFace = VectorizationRegistry.get('huggingface');
+            if (huggingFace && (await huggingFace.getCapabilities({ huggingFaceToken: AI_CONFIG.huggingFace })).available) {
                 console.log('🌟 Generating StarVector preview...');
-                const starVectorResult = await StarVectorProcessor.imageToSVG(imageUri, {
+                const starVectorOptions: StarVectorOptions = {
                     model: '1b', // Use faster model for preview
                     temperature: 0.2,
                     maxTokens: 1024,
-                });
+                    huggingFaceToken: AI_CONFIG.huggingFace,
+                };
+                const starVectorResult = await this.withResultCache(imageUri, 'preview:huggingface', starVectorOptions, 'use', async () =>
+                    this.fromVectorization(await VectorizationRegistry.run(huggingFace, imageUri, starVectorOptions))
+                );
 
-                if (starVectorResult.success && starVectorResult.svgUri) {
-                    previews.starVector = starVectorResult.svgUri;
+                if (starVectorResult.success && starVectorResult.processedImageUri) {
+                    previews.starVector = starVectorResult.processedImageUri;
                 }
             }
 
             // Try local StarVector preview
-            console.log('⚡ Generating local StarVector preview...');
-            const localStarVectorResult = await StarVectorProcessor.processWithLocalStarVector(imageUri);
-            if (localStarVectorResult.success && localStarVectorResult.svgUri) {
-                previews.localStarVector = localStarVectorResult.svgUri;
+            const tracer = VectorizationRegistry.get('local-tracer');
+            if (tracer) {
+                console.log('⚡ Generating local StarVector preview...');
+                const localStarVectorResult = await this.withResultCache(imageUri, 'preview:local-tracer', {}, 'use', async () =>
+                    this.fromVectorization(await VectorizationRegistry.run(tracer, imageUri))
+                );
+                if (localStarVectorResult.success && localStarVectorResult.processedImageUri) {
+                    previews.localStarVector = localStarVectorResult.processedImageUri;
+                }
             }
 
             // Traditional processing preview
             console.log('🔄 Generating traditional preview...');
-            const traditionalResult = await this.traditionalProcessingPipeline(
-                imageUri,
-                { convertToLineArt: true, removeBackground: true },
-                []
+            const traditionalOptions: ProcessingOptions = { convertToLineArt: true, removeBackground: true };
+            const traditionalResult = await this.withResultCache(imageUri, 'preview:traditional', traditionalOptions, 'use', () =>
+                this.traditionalProcessingPipeline(imageUri, traditionalOptions)
             );
             if (traditionalResult.success) {
                 previews.traditional = traditionalResult.processedImageUri;
@@ -352,20 +689,21 @@ export class AIImageProcessor {
     /**
      * AI-powered background removal using multiple services
      */
-    private static async removeBackgroundAI(imageUri: string): Promise<string | null> {
+    private static async removeBackgroundAI(imageUri: string, signal?: AbortSignal): Promise<string | null> {
         try {
             if (AI_SERVICES.REMOVE_BG.apiKey) {
-                const removeBgResult = await this.tryRemoveBgAPI(imageUri);
+                const removeBgResult = await this.tryRemoveBgAPI(imageUri, signal);
                 if (removeBgResult) return removeBgResult;
             }
 
             if (AI_SERVICES.CLIPDROP.apiKey) {
-                const clipDropResult = await this.tryClipDropAPI(imageUri);
+                const clipDropResult = await this.tryClipDropAPI(imageUri, signal);
                 if (clipDropResult) return clipDropResult;
             }
 
             return null;
         } catch (error) {
+            Cancellation.throwIfAborted(signal);
             console.log('AI background removal failed:', error);
             return null;
         }
@@ -374,7 +712,7 @@ export class AIImageProcessor {
     /**
      * Try Remove.bg API for background removal
      */
-    private static async tryRemoveBgAPI(imageUri: string): Promise<string | null> {
+    private static async tryRemoveBgAPI(imageUri: string, signal?: AbortSignal): Promise<string | null> {
         try {
             const formData = new FormData();
             formData.append('image_file', {
@@ -383,13 +721,13 @@ export class AIImageProcessor {
                 name: 'image.jpg',
             } as any);
 
-            const response = await fetch('https://api.remove.bg/v1.0/removebg', {
+            const response = await RequestExecutor.fetch('remove-bg', 'https://api.remove.bg/v1.0/removebg', {
                 method: 'POST',
                 headers: {
                     'X-Api-Key': AI_SERVICES.REMOVE_BG.apiKey!,
                 },
                 body: formData,
-            });
+            }, { signal });
 
             if (response.ok) {
                 const imageBlob = await response.blob();
@@ -415,6 +753,7 @@ export class AIImageProcessor {
 
             return null;
         } catch (error) {
+            Cancellation.throwIfAborted(signal);
             console.log('Remove.bg API failed:', error);
             return null;
         }
@@ -423,7 +762,7 @@ export class AIImageProcessor {
     /**
      * Try ClipDrop API as alternative
      */
-    private static async tryClipDropAPI(imageUri: string): Promise<string | null> {
+    private static async tryClipDropAPI(imageUri: string, signal?: AbortSignal): Promise<string | null> {
         try {
             const formData = new FormData();
             formData.append('image_file', {
@@ -432,13 +771,13 @@ export class AIImageProcessor {
                 name: 'image.jpg',
             } as any);
 
-            const response = await fetch('https://clipdrop-api.co/remove-background/v1', {
+            const response = await RequestExecutor.fetch('clipdrop', 'https://clipdrop-api.co/remove-background/v1', {
                 method: 'POST',
                 headers: {
                     'x-api-key': AI_SERVICES.CLIPDROP.apiKey!,
                 },
                 body: formData,
-            });
+            }, { signal });
 
             if (response.ok) {
                 const imageBlob = await response.blob();
@@ -464,97 +803,57 @@ export class AIImageProcessor {
 
             return null;
         } catch (error) {
+            Cancellation.throwIfAborted(signal);
             console.log('ClipDrop API failed:', error);
             return null;
         }
     }
 
     /**
-     * Local background removal using aggressive contrast and edge enhancement
+     * Local background removal: flood-fill the paper color from the border into real alpha
      */
-    private static async localBackgroundRemoval(imageUri: string): Promise<string> {
-        if (!ImageManipulator) return imageUri;
-
+    private static async localBackgroundRemoval(imageUri: string, options: BackgroundRemovalOptions = {}): Promise<string> {
         try {
             console.log('🎯 Applying local background removal...');
-
-            const resizedImage = await ImageManipulator.manipulateAsync(
-                imageUri,
-                [{ resize: { width: 800 } }],
-                {
-                    compress: 1.0,
-                    format: ImageManipulator.SaveFormat.PNG,
-                }
-            );
-
-            const highContrastImage = await ImageManipulator.manipulateAsync(
-                resizedImage.uri,
-                [],
-                {
-                    compress: 0.3,
-                    format: ImageManipulator.SaveFormat.PNG,
-                }
-            );
-
-            return highContrastImage.uri;
+            return await BackgroundRemover.removeBackground(imageUri, options);
         } catch (error) {
-            console.log('Local background removal failed');
+            console.log('Local background removal failed:', error);
             return imageUri;
         }
     }
 
     /**
-     * Smart crop implementation
+     * Smart crop to the bounding box of the inked content
      */
-    private static async smartCrop(imageUri: string): Promise<string> {
-        if (!ImageManipulator) return imageUri;
-
+    private static async smartCrop(imageUri: string, options: SmartCropOptions = {}): Promise<string> {
         try {
-            const croppedImage = await ImageManipulator.manipulateAsync(
-                imageUri,
-                [
-                    {
-                        crop: {
-                            originX: 0.1,
-                            originY: 0.1,
-                            width: 0.8,
-                            height: 0.8
-                        }
-                    },
-                    { resize: { width: 600 } }
-                ],
-                {
-                    compress: 0.9,
-                    format: ImageManipulator.SaveFormat.PNG,
-                }
-            );
-
-            return croppedImage.uri;
+            return await SmartCropper.cropToContent(imageUri, options);
         } catch (error) {
-            console.log('Smart crop failed');
+            console.log('Smart crop failed:', error);
             return imageUri;
         }
     }
 
     /**
-     * Convert to line art
+     * Replace the image with crisp outlines from Sobel/Canny edge detection
      */
-    private static async convertToLineArt(imageUri: string): Promise<string> {
-        if (!ImageManipulator) return imageUri;
-
+    private static async enhanceEdges(imageUri: string, options: EdgeDetectionOptions = {}): Promise<string> {
         try {
-            const lineArtImage = await ImageManipulator.manipulateAsync(
-                imageUri,
-                [],
-                {
-                    compress: 0.1,
-                    format: ImageManipulator.SaveFormat.PNG,
-                }
-            );
+            return await EdgeDetector.enhanceEdges(imageUri, options);
+        } catch (error) {
+            console.log('Edge enhancement failed:', error);
+            return imageUri;
+        }
+    }
 
-            return lineArtImage.uri;
+    /**
+     * Convert to line art (adaptive threshold, black ink on transparent)
+     */
+    private static async convertToLineArt(imageUri: string, options: LineArtOptions = {}): Promise<string> {
+        try {
+            return await LineArtConverter.convertToLineArt(imageUri, options);
         } catch (error) {
-            console.log('Line art conversion failed');
+            console.log('Line art conversion failed:', error);
             return imageUri;
         }
     }
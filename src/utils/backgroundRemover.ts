@@ -0,0 +1,244 @@
+import { ImageCodec, PixelBuffer } from './imageCodec';
+import { EdgeDetector } from './edgeDetector';
+import { BACKGROUND_REMOVAL_DEFAULTS } from '../constants/aiConfig';
+
+export interface BackgroundRemovalOptions {
+    tolerance?: number;        // Max RGB distance from the estimated background color
+    stepTolerance?: number;    // Max color step between neighbouring background pixels
+    removeEnclosed?: boolean;  // Also clear background-colored regions not connected to the border
+    minEnclosedArea?: number;  // Smallest enclosed region cleared, in pixels
+    feather?: number;          // Gaussian sigma for the alpha edge (0 = hard edge)
+}
+
+export interface BackgroundRemovalResult {
+    buffer: PixelBuffer;
+    backgroundColor: [number, number, number];
+    removedRatio: number;      // Fraction of pixels made transparent
+}
+
+// Results outside this range mean the background guess was wrong, so the image is kept as-is
+const MIN_REMOVED_RATIO = 0.02;
+const MAX_REMOVED_RATIO = 0.98;
+
+export class BackgroundRemover {
+
+    /**
+     * Cut the subject out of a plain (paper-like) background
+     */
+    static remove(buffer: PixelBuffer, options: BackgroundRemovalOptions = {}): BackgroundRemovalResult {
+        const settings = { ...BACKGROUND_REMOVAL_DEFAULTS, ...options };
+        const { width, height, data } = buffer;
+
+        const backgroundColor = this.estimateBackgroundColor(buffer);
+        const background = this.floodFillBackground(buffer, backgroundColor, settings.tolerance, settings.stepTolerance);
+
+        if (settings.removeEnclosed) {
+            this.clearEnclosedBackground(buffer, background, backgroundColor, settings.tolerance, settings.minEnclosedArea);
+        }
+
+        let removed = 0;
+        for (let i = 0; i < background.length; i++) removed += background[i];
+
+        // Soften the cut inward only, so no paper-colored halo is left outside the subject
+        const alpha = new Float32Array(width * height);
+        for (let i = 0; i < alpha.length; i++) alpha[i] = background[i] ? 0 : 1;
+        if (settings.feather > 0) {
+            const blurred = EdgeDetector.gaussianBlur(alpha, width, height, settings.feather);
+            for (let i = 0; i < alpha.length; i++) {
+                if (!background[i]) alpha[i] = Math.min(1, blurred[i] * 2);
+            }
+        }
+
+        const output = ImageCodec.clone(buffer);
+        const [br, bg, bb] = backgroundColor;
+
+        for (let i = 0; i < alpha.length; i++) {
+            const p = i * 4;
+            const a = alpha[i];
+
+            if (a > 0 && a < 1) {
+                // Un-mix the background color from partially covered edge pixels
+                output.data[p] = (data[p] - (1 - a) * br) / a;
+                output.data[p + 1] = (data[p + 1] - (1 - a) * bg) / a;
+                output.data[p + 2] = (data[p + 2] - (1 - a) * bb) / a;
+            }
+
+            output.data[p + 3] = data[p + 3] * a;
+        }
+
+        return { buffer: output, backgroundColor, removedRatio: removed / alpha.length };
+    }
+
+    /**
+     * Remove the background from an image file and save the cut-out as a transparent PNG.
+     * Returns the original URI when the background can't be separated from the subject.
+     */
+    static async removeBackground(imageUri: string, options: BackgroundRemovalOptions = {}): Promise<string> {
+        const source = await ImageCodec.loadForProcessing(imageUri);
+        const result = this.remove(source, options);
+        const percent = Math.round(result.removedRatio * 100);
+
+        if (result.removedRatio < MIN_REMOVED_RATIO || result.removedRatio > MAX_REMOVED_RATIO) {
+            console.log(`⚠️ Background removal skipped (${percent}% matched rgb(${result.backgroundColor.join(', ')}))`);
+            return imageUri;
+        }
+
+        console.log(`🎯 Background removed: ${percent}% transparent, paper rgb(${result.backgroundColor.join(', ')})`);
+        return await ImageCodec.writePNG(result.buffer, 'nobg');
+    }
+
+    /**
+     * Median color of a thin ring along the image border
+     */
+    static estimateBackgroundColor(buffer: PixelBuffer): [number, number, number] {
+        const { width, height, data } = buffer;
+        const ring = Math.max(2, Math.round(Math.min(width, height) * 0.02));
+        const histograms = [new Uint32Array(256), new Uint32Array(256), new Uint32Array(256)];
+        let count = 0;
+
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                const onBorder = x < ring || y < ring || x >= width - ring || y >= height - ring;
+                if (!onBorder) continue;
+
+                const p = (y * width + x) * 4;
+                histograms[0][data[p]]++;
+                histograms[1][data[p + 1]]++;
+                histograms[2][data[p + 2]]++;
+                count++;
+            }
+        }
+
+        const median = (histogram: Uint32Array) => {
+            let seen = 0;
+            for (let value = 0; value < 256; value++) {
+                seen += histogram[value];
+                if (seen * 2 >= count) return value;
+            }
+            return 255;
+        };
+
+        return [median(histograms[0]), median(histograms[1]), median(histograms[2])];
+    }
+
+    /**
+     * Grow the background inward from the border. A pixel joins when it is close to the paper
+     * color and to the neighbour it was reached from, which lets the fill follow shading
+     * gradients without leaking across ink lines.
+     */
+    private static floodFillBackground(
+        buffer: PixelBuffer,
+        backgroundColor: [number, number, number],
+        tolerance: number,
+        stepTolerance: number
+    ): Uint8Array {
+        const { width, height, data } = buffer;
+        const background = new Uint8Array(width * height);
+        const stack: number[] = [];
+
+        const seed = (i: number) => {
+            if (!background[i] && (data[i * 4 + 3] < 16 || this.distanceTo(data, i, backgroundColor) <= tolerance)) {
+                background[i] = 1;
+                stack.push(i);
+            }
+        };
+
+        for (let x = 0; x < width; x++) {
+            seed(x);
+            seed((height - 1) * width + x);
+        }
+        for (let y = 0; y < height; y++) {
+            seed(y * width);
+            seed(y * width + width - 1);
+        }
+
+        const neighbours = [-1, 1, -width, width];
+
+        while (stack.length > 0) {
+            const i = stack.pop()!;
+            const x = i % width;
+
+            for (const offset of neighbours) {
+                const j = i + offset;
+                if (j < 0 || j >= background.length || background[j]) continue;
+                if ((offset === -1 && x === 0) || (offset === 1 && x === width - 1)) continue;
+
+                const transparent = data[j * 4 + 3] < 16;
+                if (transparent || (
+                    this.distanceBetween(data, i, j) <= stepTolerance &&
+                    this.distanceTo(data, j, backgroundColor) <= tolerance * 1.5
+                )) {
+                    background[j] = 1;
+                    stack.push(j);
+                }
+            }
+        }
+
+        return background;
+    }
+
+    /**
+     * Clear paper visible through closed shapes: background-colored regions the border fill couldn't reach
+     */
+    private static clearEnclosedBackground(
+        buffer: PixelBuffer,
+        background: Uint8Array,
+        backgroundColor: [number, number, number],
+        tolerance: number,
+        minArea: number
+    ) {
+        const { width, height, data } = buffer;
+        const strictTolerance = tolerance * 0.75;
+        const visited = new Uint8Array(background.length);
+        const stack: number[] = [];
+        const region: number[] = [];
+
+        for (let start = 0; start < background.length; start++) {
+            if (visited[start] || background[start]) continue;
+            if (this.distanceTo(data, start, backgroundColor) > strictTolerance) continue;
+
+            visited[start] = 1;
+            stack.push(start);
+            region.length = 0;
+
+            while (stack.length > 0) {
+                const i = stack.pop()!;
+                region.push(i);
+                const x = i % width;
+                const y = (i - x) / width;
+
+                const candidates = [
+                    x > 0 ? i - 1 : -1,
+                    x < width - 1 ? i + 1 : -1,
+                    y > 0 ? i - width : -1,
+                    y < height - 1 ? i + width : -1,
+                ];
+
+                for (const j of candidates) {
+                    if (j < 0 || visited[j] || background[j]) continue;
+                    if (this.distanceTo(data, j, backgroundColor) > strictTolerance) continue;
+                    visited[j] = 1;
+                    stack.push(j);
+                }
+            }
+
+            if (region.length >= minArea) {
+                for (const i of region) background[i] = 1;
+            }
+        }
+    }
+
+    private static distanceTo(data: Uint8ClampedArray, i: number, color: [number, number, number]): number {
+        const dr = data[i * 4] - color[0];
+        const dg = data[i * 4 + 1] - color[1];
+        const db = data[i * 4 + 2] - color[2];
+        return Math.sqrt(dr * dr + dg * dg + db * db);
+    }
+
+    private static distanceBetween(data: Uint8ClampedArray, a: number, b: number): number {
+        const dr = data[a * 4] - data[b * 4];
+        const dg = data[a * 4 + 1] - data[b * 4 + 1];
+        const db = data[a * 4 + 2] - data[b * 4 + 2];
+        return Math.sqrt(dr * dr + dg * dg + db * db);
+    }
+}
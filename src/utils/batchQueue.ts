@@ -0,0 +1,347 @@
+import { Design } from '../types';
+import { AIImageProcessor, ProcessingOptions } from './aiImageProcessor';
+import { DesignManager } from './designManager';
+import { ProcessingStep } from './processingTrace';
+import { AI_CONFIG, BATCH_QUEUE_DEFAULTS } from '../constants/aiConfig';
+
+// Import AsyncStorage or keep the queue in memory for this session
+let AsyncStorage: any;
+try {
+    AsyncStorage = require('@react-native-async-storage/async-storage').default;
+} catch (error) {
+    console.log('AsyncStorage not available, batch queue will not survive restarts');
+}
+
+// Import file system or process photos from where they were picked
+let FileSystem: any;
+try {
+    FileSystem = require('expo-file-system');
+} catch (error) {
+    console.log('FileSystem not available, batch inputs will not be copied');
+}
+
+export type BatchJobStatus = 'queued' | 'processing' | 'done' | 'failed' | 'cancelled';
+
+// Options saved with a job; cancellation and progress callbacks are supplied per run
+export type BatchJobOptions = Omit<ProcessingOptions, 'signal' | 'onPartialSVG' | 'onStep'>;
+
+/**
+ * One photo waiting for, going through or finished with processing
+ */
+export interface BatchJob {
+    id: string;
+    name: string;
+    imageUri: string;           // Copy owned by the queue, removed with the job
+    status: BatchJobStatus;
+    progress: number;           // 0-1
+    stage?: string;             // Label of the last step recorded
+    attempts: number;           // Runs started, including ones interrupted by an app restart
+    createdAt: number;          // Epoch ms
+    startedAt?: number;
+    finishedAt?: number;
+    designId?: string;          // Saved design, once done
+    error?: string;
+    options: BatchJobOptions;
+}
+
+export type BatchQueueListener = (jobs: BatchJob[]) => void;
+
+const BATCH_QUEUE_KEY = 'batch_processing_queue';
+
+// Progress once each step has finished; streamed tokens fill the gap before 'vectorize'
+const STEP_PROGRESS: Record<string, number> = {
+    'provider-check': 0.05,
+    'prepare-image': 0.1,
+    'server-info': 0.1,
+    'decode': 0.15,
+    'trace': 0.6,
+    'vectorize': 0.7,
+    'sanitize': 0.75,
+    'simplify': 0.8,
+    'optimize': 0.85,
+    'save-svg': 0.9,
+    'fidelity': 0.95,
+    'fallback': 0.1,
+    'preprocess': 0.2,
+    'background-removal': 0.4,
+    'smart-crop': 0.5,
+    'edge-enhancement': 0.65,
+    'line-art': 0.8,
+    'tattoo-styling': 0.95,
+};
+
+// Loaded queue; null until first use
+let jobs: BatchJob[] | null = null;
+let loading: Promise<BatchJob[]> | null = null;
+let memoryStorage: BatchJob[] = [];
+const listeners = new Set<BatchQueueListener>();
+// Abort controllers of the jobs running now
+const running = new Map<string, AbortController>();
+
+export class BatchQueue {
+
+    /**
+     * Queue photos for processing with the given options; processing starts right away
+     */
+    static async enqueue(imageUris: string[], options: BatchJobOptions = {}): Promise<BatchJob[]> {
+        const list = await this.load();
+        const now = Date.now();
+
+        const added: BatchJob[] = [];
+        for (const [index, uri] of imageUris.entries()) {
+            const id = `batch_${now}_${index}`;
+            added.push({
+                id,
+                name: `Batch Design ${list.length + index + 1}`,
+                imageUri: await this.keepInput(uri, id),
+                status: 'queued',
+                progress: 0,
+                attempts: 0,
+                createdAt: now,
+                options,
+            });
+        }
+
+        list.push(...added);
+        await this.save();
+        console.log(`📥 Queued ${added.length} photos for batch processing`);
+        this.pump();
+        return added;
+    }
+
+    /**
+     * Load the saved queue at app start. Jobs interrupted by a restart are queued again,
+     * unless they have already been interrupted too often.
+     */
+    static async restore(): Promise<void> {
+        const list = await this.load();
+        for (const job of list) {
+            if (job.status !== 'processing' || running.has(job.id)) continue;
+            Object.assign(job, job.attempts >= BATCH_QUEUE_DEFAULTS.maxAttempts
+                ? { status: 'failed', finishedAt: Date.now(), error: 'Interrupted too many times' }
+                : { status: 'queued', progress: 0, stage: undefined });
+        }
+        await this.save();
+        this.pump();
+    }
+
+    static async list(): Promise<BatchJob[]> {
+        return [...(await this.load())];
+    }
+
+    /**
+     * Hear every change to the queue; returns an unsubscribe function
+     */
+    static subscribe(listener: BatchQueueListener): () => void {
+        listeners.add(listener);
+        this.load().then(list => listener([...list]));
+        return () => {
+            listeners.delete(listener);
+        };
+    }
+
+    /**
+     * Stop a queued or running job; a running job's temp files are cleaned up by the pipeline
+     */
+    static async cancel(id: string): Promise<void> {
+        const job = (await this.load()).find(item => item.id === id);
+        if (!job || (job.status !== 'queued' && job.status !== 'processing')) return;
+
+        running.get(id)?.abort();
+        Object.assign(job, { status: 'cancelled', finishedAt: Date.now(), stage: undefined });
+        await this.save();
+    }
+
+    /**
+     * Queue a failed or cancelled job again
+     */
+    static async retry(id: string): Promise<void> {
+        const job = (await this.load()).find(item => item.id === id);
+        if (!job || (job.status !== 'failed' && job.status !== 'cancelled')) return;
+
+        Object.assign(job, {
+            status: 'queued',
+            progress: 0,
+            attempts: 0,
+            stage: undefined,
+            error: undefined,
+            startedAt: undefined,
+            finishedAt: undefined,
+        });
+        await this.save();
+        this.pump();
+    }
+
+    /**
+     * Remove a job, cancelling it first if it is still running
+     */
+    static async remove(id: string): Promise<void> {
+        const list = await this.load();
+        const index = list.findIndex(item => item.id === id);
+        if (index < 0) return;
+
+        running.get(id)?.abort();
+        const [job] = list.splice(index, 1);
+        await this.deleteInput(job);
+        await this.save();
+    }
+
+    /**
+     * Remove every done, failed and cancelled job
+     */
+    static async clearFinished(): Promise<void> {
+        const list = await this.load();
+        const finished = list.filter(job => job.status !== 'queued' && job.status !== 'processing');
+        await Promise.all(finished.map(job => this.deleteInput(job)));
+        list.splice(0, list.length, ...list.filter(job => !finished.includes(job)));
+        await this.save();
+    }
+
+    /**
+     * Start queued jobs, oldest first, up to the concurrency limit
+     */
+    private static pump() {
+        if (!jobs) return;
+
+        const waiting = jobs.filter(job => job.status === 'queued');
+        const slots = BATCH_QUEUE_DEFAULTS.concurrency - running.size;
+        waiting.slice(0, Math.max(0, slots)).forEach(job => {
+            this.runJob(job).finally(() => this.pump());
+        });
+    }
+
+    private static async runJob(job: BatchJob) {
+        const controller = new AbortController();
+        running.set(job.id, controller);
+        Object.assign(job, { status: 'processing', progress: 0, attempts: job.attempts + 1, startedAt: Date.now(), error: undefined });
+        await this.save();
+        console.log(`⚙️ Batch job ${job.name} started`);
+
+        const advance = (progress: number, stage?: string) => {
+            if (controller.signal.aborted) return;
+            job.progress = Math.max(job.progress, Math.min(progress, 0.99));
+            if (stage) job.stage = stage;
+            this.notify();
+        };
+
+        try {
+            // Jobs restored at app start run before any screen has set up the AI services.
+            // CPU mode travels with the job's options, so the foreground run's setting is left alone.
+            AIImageProcessor.setAPIKeys({
+                codiaAI: AI_CONFIG.codiaAI,
+                removeBG: AI_CONFIG.removeBG,
+                clipdrop: AI_CONFIG.clipdrop,
+                huggingFace: AI_CONFIG.huggingFace,
+            });
+
+            const result = await AIImageProcessor.processImageToTattooDesign(job.imageUri, {
+                ...job.options,
+                signal: controller.signal,
+                onStep: (step: ProcessingStep) => advance(STEP_PROGRESS[step.id] ?? 0, step.label),
+                // Streamed tokens approach the end of generation without reaching it
+                onPartialSVG: ({ tokens }) => advance(0.1 + 0.6 * tokens / (tokens + 200)),
+            });
+
+            if (controller.signal.aborted || result.cancelled) return;
+            if (!result.success || !result.processedImageUri) {
+                throw new Error(result.error || 'Processing failed');
+            }
+
+            const designId = `user_${Date.now()}`;
+            const design: Design = {
+                id: designId,
+                name: job.name,
+                // Cache hits hand out the cache's own file, which can be evicted later
+                uri: await DesignManager.keepImage(result.processedImageUri, designId),
+                format: result.svgCode ? 'svg' : 'png',
+                svgCode: result.svgCode,
+                category: 'Custom',
+                isUserGenerated: true,
+                originalImageUri: job.imageUri,
+                createdAt: new Date(),
+            };
+            await DesignManager.saveCustomDesign(design);
+
+            Object.assign(job, { status: 'done', progress: 1, designId: design.id, finishedAt: Date.now(), stage: 'Saved to gallery' });
+            console.log(`✅ Batch job ${job.name} saved as ${design.id}`);
+        } catch (error: any) {
+            if (controller.signal.aborted) return;
+            console.log(`❌ Batch job ${job.name} failed:`, error.message);
+            Object.assign(job, { status: 'failed', finishedAt: Date.now(), error: error.message });
+        } finally {
+            // A job retried while this run was settling already runs under a new controller
+            if (running.get(job.id) === controller) running.delete(job.id);
+            // Removed jobs are no longer in the list; saving is harmless either way
+            await this.save();
+        }
+    }
+
+    /**
+     * Copy a photo into the document directory, so the OS can't clear it before it is processed
+     */
+    private static async keepInput(uri: string, id: string): Promise<string> {
+        if (!FileSystem?.documentDirectory) return uri;
+
+        try {
+            const directory = `${FileSystem.documentDirectory}batch_inputs/`;
+            await FileSystem.makeDirectoryAsync(directory, { intermediates: true }).catch(() => {});
+            const extension = uri.split('?')[0].split('.').pop()?.toLowerCase() || 'jpg';
+            const copy = `${directory}${id}.${extension.length <= 4 ? extension : 'jpg'}`;
+            await FileSystem.copyAsync({ from: uri, to: copy });
+            return copy;
+        } catch (error) {
+            console.log('Could not copy batch input, using the original:', error);
+            return uri;
+        }
+    }
+
+    /**
+     * Delete the queue's copy of a job's photo, unless a saved design still refers to it
+     */
+    private static async deleteInput(job: BatchJob) {
+        if (!FileSystem?.documentDirectory || job.designId) return;
+        if (!job.imageUri.startsWith(`${FileSystem.documentDirectory}batch_inputs/`)) return;
+        await FileSystem.deleteAsync(job.imageUri, { idempotent: true }).catch(() => {});
+    }
+
+    private static load(): Promise<BatchJob[]> {
+        if (jobs) return Promise.resolve(jobs);
+        if (!loading) {
+            loading = (async () => {
+                try {
+                    const stored = AsyncStorage ? await AsyncStorage.getItem(BATCH_QUEUE_KEY) : null;
+                    jobs = stored ? JSON.parse(stored) : [...memoryStorage];
+                } catch (error) {
+                    console.error('Failed to load batch queue:', error);
+                    jobs = [];
+                }
+                return jobs!;
+            })();
+        }
+        return loading;
+    }
+
+    /**
+     * Persist the queue and tell listeners
+     */
+    private static async save() {
+        if (!jobs) return;
+        this.notify();
+
+        try {
+            if (AsyncStorage) {
+                await AsyncStorage.setItem(BATCH_QUEUE_KEY, JSON.stringify(jobs));
+            } else {
+                memoryStorage = [...jobs];
+            }
+        } catch (error) {
+            console.error('Failed to save batch queue:', error);
+        }
+    }
+
+    private static notify() {
+        if (!jobs) return;
+        const snapshot = jobs.map(job => ({ ...job }));
+        listeners.forEach(listener => listener(snapshot));
+    }
+}
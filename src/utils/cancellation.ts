@@ -0,0 +1,151 @@
+// Import file system or skip cleanup
+let FileSystem: any;
+try {
+    FileSystem = require('expo-file-system');
+} catch (error) {
+    console.log('FileSystem not available, temp files will not be cleaned up');
+}
+
+/**
+ * Thrown when a run is cancelled through its AbortSignal.
+ * Named 'AbortError' like the error fetch() rejects with, so callers can treat both alike.
+ */
+export class CancelledError extends Error {
+    constructor(message: string = 'Processing cancelled') {
+        super(message);
+        this.name = 'AbortError';
+    }
+}
+
+export class Cancellation {
+
+    /**
+     * Throw a CancelledError if the signal has been aborted
+     */
+    static throwIfAborted(signal?: AbortSignal) {
+        if (signal?.aborted) {
+            throw new CancelledError();
+        }
+    }
+
+    /**
+     * True for a cancellation or an aborted fetch/XHR
+     */
+    static isCancelled(error: any, signal?: AbortSignal): boolean {
+        return !!signal?.aborted || error instanceof CancelledError || error?.name === 'AbortError';
+    }
+
+    /**
+     * Wait, rejecting with CancelledError as soon as the signal aborts
+     */
+    static sleep(ms: number, signal?: AbortSignal): Promise<void> {
+        return new Promise((resolve, reject) => {
+            if (signal?.aborted) {
+                reject(new CancelledError());
+                return;
+            }
+
+            const onAbort = () => {
+                clearTimeout(timeoutId);
+                reject(new CancelledError());
+            };
+            const timeoutId = setTimeout(() => {
+                signal?.removeEventListener('abort', onAbort);
+                resolve();
+            }, ms);
+            signal?.addEventListener('abort', onAbort);
+        });
+    }
+
+    /**
+     * A signal that aborts when the caller's signal does or after timeoutMs (0 means no timeout).
+     * clearTimer() stops only the timeout, e.g. once response headers arrive but the body is still
+     * to be read. Call dispose() once the request settles.
+     */
+    static withTimeout(
+        signal: AbortSignal | undefined,
+        timeoutMs: number
+    ): { signal: AbortSignal; clearTimer: () => void; dispose: () => void } {
+        const controller = new AbortController();
+        const abort = () => controller.abort();
+
+        const timeoutId = timeoutMs > 0 ? setTimeout(abort, timeoutMs) : null;
+        if (signal?.aborted) {
+            abort();
+        } else {
+            signal?.addEventListener('abort', abort);
+        }
+
+        const clearTimer = () => {
+            if (timeoutId) clearTimeout(timeoutId);
+        };
+
+        return {
+            signal: controller.signal,
+            clearTimer,
+            dispose: () => {
+                clearTimer();
+                signal?.removeEventListener('abort', abort);
+            },
+        };
+    }
+}
+
+/**
+ * Files written during one processing run, deleted if the run is aborted
+ */
+export class TempFileTracker {
+    private files = new Set<string>();
+    private protectedUris: Set<string>;
+
+    /**
+     * @param protectedUris Inputs that must never be deleted (e.g. the user's photo)
+     */
+    constructor(protectedUris: string[] = []) {
+        this.protectedUris = new Set(protectedUris);
+    }
+
+    /**
+     * Remember a file the run created; returns the uri for chaining
+     */
+    track<T extends string | null | undefined>(uri: T): T {
+        if (uri && !this.protectedUris.has(uri)) {
+            this.files.add(uri);
+        }
+        return uri;
+    }
+
+    get size(): number {
+        return this.files.size;
+    }
+
+    /**
+     * Delete every tracked file; returns how many were removed
+     */
+    async cleanup(): Promise<number> {
+        const uris = [...this.files];
+        this.files.clear();
+        return TempFileTracker.remove(uris);
+    }
+
+    /**
+     * Delete app-owned files (cache or document directory); other URIs are left alone
+     */
+    static async remove(uris: string[]): Promise<number> {
+        if (!FileSystem) return 0;
+
+        const ownDirs = [FileSystem.cacheDirectory, FileSystem.documentDirectory].filter(Boolean);
+        const results = await Promise.all(uris
+            .filter(uri => ownDirs.some((dir: string) => uri.startsWith(dir)))
+            .map(async uri => {
+                try {
+                    await FileSystem.deleteAsync(uri, { idempotent: true });
+                    return true;
+                } catch (error) {
+                    console.log('Failed to delete temp file:', uri);
+                    return false;
+                }
+            }));
+        return results.filter(Boolean).length;
+    }
+}
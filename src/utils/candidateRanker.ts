@@ -0,0 +1,137 @@
+import { VectorTracer } from './vectorTracer';
+import { SvgRasterizer } from './svgRasterizer';
+import { SvgParser, SvgNode } from './svgParser';
+import { FidelityReport } from './fidelityScorer';
+import { CANDIDATE_DEFAULTS, SVG_OPTIMIZE_DEFAULTS } from '../constants/aiConfig';
+
+export interface CandidateScoringOptions {
+    weights?: { similarity: number; simplicity: number; lineWeight: number };
+    targetNodes?: number;       // Node count that scores 0.5 for simplicity
+    targetWidthMm?: number;     // Printed width the line weight is judged at
+    minLineWeightMm?: number;
+}
+
+export interface CandidateScore {
+    total: number;              // Weighted score, 0-1
+    similarity: number;         // Fidelity to the input (see FidelityScorer), 0-1
+    simplicity: number;         // 1 for very lean paths, falling as the node count grows
+    lineWeight: number;         // Share of the ink at least the minimum line weight thick
+    nodes: number;
+}
+
+export class CandidateRanker {
+
+    /**
+     * Score one candidate SVG from its fidelity report plus its own node count and line weight.
+     * Without a fidelity report the similarity term is left out of the total.
+     */
+    static score(svgCode: string, fidelity: FidelityReport | undefined, options: CandidateScoringOptions = {}): CandidateScore {
+        const settings = { ...CANDIDATE_DEFAULTS.scoring, ...options };
+        const lineSettings = { ...SVG_OPTIMIZE_DEFAULTS, ...options };
+        const width = this.analysisWidth(options);
+
+        const rendered = SvgRasterizer.rasterize(svgCode, { width, background: '#ffffff' });
+        const luminance = VectorTracer.toLuminance(rendered.data, rendered.width, rendered.height);
+        const ink = VectorTracer.binarize(luminance, rendered.width, rendered.height, 127).data;
+
+        // At the analysis resolution a stroke of the minimum weight is about 2px wide
+        const minLinePx = Math.max(1, Math.round(lineSettings.minLineWeightMm / lineSettings.targetWidthMm * width));
+        const lineWeight = this.thickInkRatio(ink, rendered.width, rendered.height, minLinePx);
+
+        const nodes = this.countNodes(SvgParser.parse(svgCode));
+        const simplicity = settings.targetNodes / (settings.targetNodes + nodes);
+
+        const similarity = fidelity?.score ?? 0;
+        const weights = { ...settings.weights, similarity: fidelity ? settings.weights.similarity : 0 };
+        const weightSum = weights.similarity + weights.simplicity + weights.lineWeight || 1;
+        const total = (similarity * weights.similarity + simplicity * weights.simplicity + lineWeight * weights.lineWeight) / weightSum;
+
+        return { total, similarity, simplicity, lineWeight, nodes };
+    }
+
+    /**
+     * Highest score first
+     */
+    static rank<T extends { score: CandidateScore }>(candidates: T[]): T[] {
+        return [...candidates].sort((a, b) => b.score.total - a.score.total);
+    }
+
+    /**
+     * One-line summary, e.g. "82% (fidelity 90%, nodes 140, line weight 95%)"
+     */
+    static describe(score: CandidateScore): string {
+        const percent = (value: number) => `${Math.round(value * 100)}%`;
+        return `${percent(score.total)} (fidelity ${percent(score.similarity)}, nodes ${score.nodes}, line weight ${percent(score.lineWeight)})`;
+    }
+
+    /**
+     * Width where the minimum line weight is 2px
+     */
+    private static analysisWidth(options: CandidateScoringOptions): number {
+        const settings = { ...SVG_OPTIMIZE_DEFAULTS, ...options };
+        const width = Math.round(2 * settings.targetWidthMm / settings.minLineWeightMm);
+        return Math.min(CANDIDATE_DEFAULTS.maxAnalysisWidth, Math.max(128, width));
+    }
+
+    /**
+     * Share of ink that survives a morphological opening with a size x size square,
+     * i.e. that belongs to a feature at least that thick
+     */
+    private static thickInkRatio(mask: Uint8Array, width: number, height: number, size: number): number {
+        let ink = 0;
+        for (let i = 0; i < mask.length; i++) ink += mask[i];
+        if (ink === 0 || size <= 1) return 1;
+
+        // Erode: a pixel survives when the size x size block starting at it is all ink
+        const eroded = new Uint8Array(mask.length);
+        for (let y = 0; y + size <= height; y++) {
+            for (let x = 0; x + size <= width; x++) {
+                let full = 1;
+                for (let dy = 0; dy < size && full; dy++) {
+                    for (let dx = 0; dx < size; dx++) {
+                        if (!mask[(y + dy) * width + x + dx]) {
+                            full = 0;
+                            break;
+                        }
+                    }
+                }
+                eroded[y * width + x] = full;
+            }
+        }
+
+        // Dilate back over the same block to recover the thick features
+        let kept = 0;
+        const opened = new Uint8Array(mask.length);
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                if (!eroded[y * width + x]) continue;
+                for (let dy = 0; dy < size; dy++) {
+                    for (let dx = 0; dx < size; dx++) {
+                        const index = (y + dy) * width + x + dx;
+                        if (!opened[index]) {
+                            opened[index] = 1;
+                            kept++;
+                        }
+                    }
+                }
+            }
+        }
+
+        return kept / ink;
+    }
+
+    /**
+     * Path nodes plus a few per basic shape
+     */
+    private static countNodes(node: SvgNode): number {
+        let count = 0;
+        if (node.name === 'path') {
+            count = SvgParser.parsePathData(node.attributes.d || '').filter(command => command.type !== 'Z').length;
+        } else if (node.name === 'polyline' || node.name === 'polygon') {
+            count = Math.floor((node.attributes.points || '').trim().split(/[\s,]+/).length / 2);
+        } else if (['rect', 'circle', 'ellipse', 'line'].includes(node.name)) {
+            count = 4;
+        }
+        return node.children.reduce((total, child) => total + this.countNodes(child), count);
+    }
+}
@@ -1,4 +1,5 @@
 import { Design } from '../types';
+import { SvgSanitizer } from './svgSanitizer';
 
 // Import AsyncStorage or use expo-storage
 let AsyncStorage: any;
@@ -8,6 +9,14 @@ try {
     console.log('AsyncStorage not available, using memory storage');
 }
 
+// Import file system to keep design images
+let FileSystem: any;
+try {
+    FileSystem = require('expo-file-system');
+} catch (error) {
+    console.log('FileSystem not available, designs keep their original image files');
+}
+
 const CUSTOM_DESIGNS_KEY = 'custom_tattoo_designs';
 
 // In-memory fallback if AsyncStorage not available
@@ -20,7 +29,7 @@ export class DesignManager {
     static async saveCustomDesign(design: Design): Promise<void> {
         try {
             const customDesigns = await this.getCustomDesigns();
-            const updatedDesigns = [design, ...customDesigns];
+            const updatedDesigns = [this.sanitizeDesign(design), ...customDesigns];
 
             if (AsyncStorage) {
                 await AsyncStorage.setItem(CUSTOM_DESIGNS_KEY, JSON.stringify(updatedDesigns));
@@ -35,6 +44,44 @@ export class DesignManager {
         }
     }
 
+    /**
+     * Copy a design's image into the document directory, so clearing the result cache
+     * or temp files can't take a saved design with it. Returns the uri to save.
+     */
+    static async keepImage(uri: string, designId: string): Promise<string> {
+        if (!FileSystem?.documentDirectory || uri.startsWith('data:')) return uri;
+
+        const directory = `${FileSystem.documentDirectory}designs/`;
+        if (uri.startsWith(directory)) return uri;
+
+        try {
+            await FileSystem.makeDirectoryAsync(directory, { intermediates: true }).catch(() => {});
+            const extension = uri.split('?')[0].split('.').pop()?.toLowerCase() || 'png';
+            const copy = `${directory}${designId}.${extension.length <= 4 ? extension : 'png'}`;
+            await FileSystem.copyAsync({ from: uri, to: copy });
+            return copy;
+        } catch (error) {
+            console.log('Could not copy design image, using the original:', error);
+            return uri;
+        }
+    }
+
+    /**
+     * Only canonical, whitelisted SVG source is persisted; unusable source falls back to the raster URI
+     */
+    private static sanitizeDesign(design: Design): Design {
+        if (!design.svgCode) return design;
+
+        const result = SvgSanitizer.sanitize(design.svgCode);
+        if (result.success) {
+            return { ...design, svgCode: result.svgCode };
+        }
+
+        console.warn('Dropping invalid SVG source from design:', result.errors[0]?.message);
+        const { svgCode, format, ...rest } = design;
+        return rest;
+    }
+
     /**
      * Get all custom designs from storage
      */
@@ -66,6 +113,12 @@ export class DesignManager {
                 memoryStorage = updatedDesigns;
             }
 
+            // Only the copy keepImage() made belongs to the design
+            const deleted = customDesigns.find(design => design.id === designId);
+            if (FileSystem?.documentDirectory && deleted?.uri.startsWith(`${FileSystem.documentDirectory}designs/`)) {
+                await FileSystem.deleteAsync(deleted.uri, { idempotent: true }).catch(() => {});
+            }
+
             console.log('Custom design deleted successfully:', designId);
         } catch (error) {
             console.error('Failed to delete custom design:', error);
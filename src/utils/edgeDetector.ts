@@ -0,0 +1,278 @@
+import { ImageCodec, PixelBuffer } from './imageCodec';
+import { EDGE_DETECTION_DEFAULTS } from '../constants/aiConfig';
+
+export type EdgeAlgorithm = 'sobel' | 'canny';
+
+export interface EdgeDetectionOptions {
+    algorithm?: EdgeAlgorithm;
+    lowThreshold?: number;   // Canny hysteresis: weak edges kept only when connected to strong ones (0-255)
+    highThreshold?: number;  // Canny strong-edge cutoff, or the single Sobel cutoff (0-255)
+    blurSigma?: number;      // Gaussian pre-blur to suppress paper grain (0 = none)
+    lineThickness?: number;  // Output stroke width in pixels
+}
+
+export interface GradientField {
+    magnitude: Float32Array; // Normalized to roughly 0-255
+    gx: Float32Array;
+    gy: Float32Array;
+}
+
+export interface EdgeMap {
+    width: number;
+    height: number;
+    edges: Uint8Array; // 1 = edge pixel
+}
+
+export class EdgeDetector {
+
+    /**
+     * Detect edges in an image using Sobel or Canny
+     */
+    static detect(buffer: PixelBuffer, options: EdgeDetectionOptions = {}): EdgeMap {
+        const settings = { ...EDGE_DETECTION_DEFAULTS, ...options };
+        const { width, height } = buffer;
+
+        let gray = this.toGrayscale(buffer);
+        if (settings.blurSigma > 0) {
+            gray = this.gaussianBlur(gray, width, height, settings.blurSigma);
+        }
+
+        const gradient = this.sobel(gray, width, height);
+        let edges: Uint8Array;
+
+        if (settings.algorithm === 'canny') {
+            const thin = this.nonMaximumSuppression(gradient, width, height);
+            edges = this.hysteresis(thin, width, height, settings.lowThreshold, settings.highThreshold);
+        } else {
+            edges = new Uint8Array(width * height);
+            for (let i = 0; i < edges.length; i++) {
+                edges[i] = gradient.magnitude[i] >= settings.highThreshold ? 1 : 0;
+            }
+        }
+
+        if (settings.lineThickness > 1) {
+            edges = this.thicken(edges, width, height, settings.lineThickness);
+        }
+
+        return { width, height, edges };
+    }
+
+    /**
+     * Detect edges in an image file and save them as black outlines on white
+     */
+    static async enhanceEdges(imageUri: string, options: EdgeDetectionOptions = {}): Promise<string> {
+        const source = await ImageCodec.loadForProcessing(imageUri);
+        const edgeMap = this.detect(source, options);
+        return await ImageCodec.writePNG(this.renderEdges(edgeMap), 'edges');
+    }
+
+    /**
+     * Draw an edge map as black lines on an opaque white (or transparent) background
+     */
+    static renderEdges(edgeMap: EdgeMap, transparentBackground: boolean = false): PixelBuffer {
+        const output = ImageCodec.create(edgeMap.width, edgeMap.height, transparentBackground ? [0, 0, 0, 0] : [255, 255, 255, 255]);
+
+        for (let i = 0; i < edgeMap.edges.length; i++) {
+            if (edgeMap.edges[i]) {
+                output.data[i * 4] = 0;
+                output.data[i * 4 + 1] = 0;
+                output.data[i * 4 + 2] = 0;
+                output.data[i * 4 + 3] = 255;
+            }
+        }
+
+        return output;
+    }
+
+    /**
+     * Rec. 601 luminance, with transparent pixels treated as white paper
+     */
+    static toGrayscale(buffer: PixelBuffer): Float32Array {
+        const { data } = buffer;
+        const gray = new Float32Array(buffer.width * buffer.height);
+
+        for (let i = 0; i < gray.length; i++) {
+            const alpha = data[i * 4 + 3] / 255;
+            const luminance = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+            gray[i] = luminance * alpha + 255 * (1 - alpha);
+        }
+
+        return gray;
+    }
+
+    /**
+     * Separable Gaussian blur with clamped borders
+     */
+    static gaussianBlur(gray: Float32Array, width: number, height: number, sigma: number): Float32Array {
+        const radius = Math.max(1, Math.ceil(sigma * 3));
+        const kernel = new Float32Array(radius * 2 + 1);
+        let sum = 0;
+        for (let i = -radius; i <= radius; i++) {
+            kernel[i + radius] = Math.exp(-(i * i) / (2 * sigma * sigma));
+            sum += kernel[i + radius];
+        }
+        for (let i = 0; i < kernel.length; i++) kernel[i] /= sum;
+
+        const temp = new Float32Array(gray.length);
+        const output = new Float32Array(gray.length);
+
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                let value = 0;
+                for (let k = -radius; k <= radius; k++) {
+                    const sx = Math.min(width - 1, Math.max(0, x + k));
+                    value += gray[y * width + sx] * kernel[k + radius];
+                }
+                temp[y * width + x] = value;
+            }
+        }
+
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                let value = 0;
+                for (let k = -radius; k <= radius; k++) {
+                    const sy = Math.min(height - 1, Math.max(0, y + k));
+                    value += temp[sy * width + x] * kernel[k + radius];
+                }
+                output[y * width + x] = value;
+            }
+        }
+
+        return output;
+    }
+
+    /**
+     * 3x3 Sobel gradients; magnitude is scaled so a full black/white step reads ~255
+     */
+    static sobel(gray: Float32Array, width: number, height: number): GradientField {
+        const size = width * height;
+        const gx = new Float32Array(size);
+        const gy = new Float32Array(size);
+        const magnitude = new Float32Array(size);
+
+        const at = (x: number, y: number) =>
+            gray[Math.min(height - 1, Math.max(0, y)) * width + Math.min(width - 1, Math.max(0, x))];
+
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                const i = y * width + x;
+                const dx = -at(x - 1, y - 1) - 2 * at(x - 1, y) - at(x - 1, y + 1)
+                    + at(x + 1, y - 1) + 2 * at(x + 1, y) + at(x + 1, y + 1);
+                const dy = -at(x - 1, y - 1) - 2 * at(x, y - 1) - at(x + 1, y - 1)
+                    + at(x - 1, y + 1) + 2 * at(x, y + 1) + at(x + 1, y + 1);
+
+                gx[i] = dx;
+                gy[i] = dy;
+                magnitude[i] = Math.sqrt(dx * dx + dy * dy) / 4;
+            }
+        }
+
+        return { magnitude, gx, gy };
+    }
+
+    /**
+     * Keep only pixels that are local maxima along the gradient direction
+     */
+    private static nonMaximumSuppression(gradient: GradientField, width: number, height: number): Float32Array {
+        const { magnitude, gx, gy } = gradient;
+        const output = new Float32Array(magnitude.length);
+
+        for (let y = 1; y < height - 1; y++) {
+            for (let x = 1; x < width - 1; x++) {
+                const i = y * width + x;
+                const m = magnitude[i];
+                if (m === 0) continue;
+
+                // Quantize the gradient direction to 0°, 45°, 90° or 135°
+                let angle = (Math.atan2(gy[i], gx[i]) * 180) / Math.PI;
+                if (angle < 0) angle += 180;
+
+                let a: number;
+                let b: number;
+                if (angle < 22.5 || angle >= 157.5) {
+                    a = magnitude[i - 1];
+                    b = magnitude[i + 1];
+                } else if (angle < 67.5) {
+                    // y runs down, so a gradient pointing down-right crosses the ↘ diagonal
+                    a = magnitude[i - width - 1];
+                    b = magnitude[i + width + 1];
+                } else if (angle < 112.5) {
+                    a = magnitude[i - width];
+                    b = magnitude[i + width];
+                } else {
+                    a = magnitude[i - width + 1];
+                    b = magnitude[i + width - 1];
+                }
+
+                if (m >= a && m >= b) output[i] = m;
+            }
+        }
+
+        return output;
+    }
+
+    /**
+     * Double threshold: strong edges seed a flood fill through connected weak edges
+     */
+    private static hysteresis(magnitude: Float32Array, width: number, height: number, low: number, high: number): Uint8Array {
+        const edges = new Uint8Array(magnitude.length);
+        const stack: number[] = [];
+
+        for (let i = 0; i < magnitude.length; i++) {
+            if (magnitude[i] >= high) {
+                edges[i] = 1;
+                stack.push(i);
+            }
+        }
+
+        while (stack.length > 0) {
+            const i = stack.pop()!;
+            const x = i % width;
+            const y = (i - x) / width;
+
+            for (let dy = -1; dy <= 1; dy++) {
+                for (let dx = -1; dx <= 1; dx++) {
+                    const nx = x + dx;
+                    const ny = y + dy;
+                    if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+
+                    const j = ny * width + nx;
+                    if (!edges[j] && magnitude[j] >= low) {
+                        edges[j] = 1;
+                        stack.push(j);
+                    }
+                }
+            }
+        }
+
+        return edges;
+    }
+
+    /**
+     * Dilate single-pixel edges with a round brush of the requested width
+     */
+    static thicken(edges: Uint8Array, width: number, height: number, thickness: number): Uint8Array {
+        const radius = (thickness - 1) / 2;
+        const reach = Math.ceil(radius);
+        const output = new Uint8Array(edges.length);
+
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                if (!edges[y * width + x]) continue;
+
+                for (let dy = -reach; dy <= reach; dy++) {
+                    for (let dx = -reach; dx <= reach; dx++) {
+                        if (dx * dx + dy * dy > radius * radius + 0.5) continue;
+                        const nx = x + dx;
+                        const ny = y + dy;
+                        if (nx >= 0 && ny >= 0 && nx < width && ny < height) {
+                            output[ny * width + nx] = 1;
+                        }
+                    }
+                }
+            }
+        }
+
+        return output;
+    }
+}
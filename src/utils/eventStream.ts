@@ -0,0 +1,138 @@
+export interface StreamEvent {
+    event: string;              // SSE event name; 'message' when unnamed or for JSON lines
+    data: string;
+}
+
+export interface EventStreamRequest {
+    method?: 'GET' | 'POST';
+    headers?: Record<string, string>;
+    body?: string;
+    timeoutMs?: number;         // Whole-response timeout; 0 waits forever
+    signal?: AbortSignal;       // Aborts the request like abort() does
+    onEvent: (event: StreamEvent) => void;
+}
+
+export interface EventStreamResponse {
+    status: number;
+    body: string;               // Full response text (error bodies, non-streaming replies)
+    events: number;             // Events delivered to onEvent
+}
+
+export interface EventStreamHandle {
+    response: Promise<EventStreamResponse>;
+    abort: () => void;
+}
+
+/**
+ * Incremental parser for server-sent events and newline-delimited JSON
+ */
+class StreamLineParser {
+    private buffer = '';
+    private eventName = '';
+    private dataLines: string[] = [];
+    count = 0;
+
+    constructor(private onEvent: (event: StreamEvent) => void) {}
+
+    push(text: string) {
+        this.buffer += text;
+
+        let newline = this.buffer.search(/\r?\n/);
+        while (newline !== -1) {
+            const line = this.buffer.slice(0, newline);
+            this.buffer = this.buffer.slice(this.buffer[newline] === '\r' ? newline + 2 : newline + 1);
+            this.readLine(line);
+            newline = this.buffer.search(/\r?\n/);
+        }
+    }
+
+    end() {
+        if (this.buffer) this.readLine(this.buffer);
+        this.buffer = '';
+        this.dispatch();
+    }
+
+    private readLine(line: string) {
+        if (line === '') {
+            this.dispatch();
+        } else if (line.startsWith(':')) {
+            // SSE comment / keep-alive
+        } else if (line.startsWith('data:')) {
+            this.dataLines.push(line.slice(5).replace(/^ /, ''));
+        } else if (line.startsWith('event:')) {
+            this.eventName = line.slice(6).trim();
+        } else if (/^\s*[{[]/.test(line) && this.dataLines.length === 0) {
+            // Chunked JSON: one object per line, no SSE framing
+            this.emit('message', line.trim());
+        }
+    }
+
+    private dispatch() {
+        if (this.dataLines.length > 0) {
+            this.emit(this.eventName || 'message', this.dataLines.join('\n'));
+        }
+        this.eventName = '';
+        this.dataLines = [];
+    }
+
+    private emit(event: string, data: string) {
+        this.count++;
+        this.onEvent({ event, data });
+    }
+}
+
+export class EventStream {
+
+    /**
+     * Open a streaming HTTP request and deliver events as they arrive.
+     * React Native's fetch buffers the whole body, so this reads XHR progress instead.
+     * Events are only parsed from 2xx responses; other statuses resolve with their body.
+     */
+    static open(url: string, request: EventStreamRequest): EventStreamHandle {
+        const xhr = new XMLHttpRequest();
+        const parser = new StreamLineParser(request.onEvent);
+        let consumed = 0;
+
+        const isSuccess = () => xhr.status >= 200 && xhr.status < 300;
+        const readProgress = () => {
+            if (!isSuccess()) return;
+            const text: string = xhr.responseText ?? '';
+            if (text.length > consumed) {
+                parser.push(text.slice(consumed));
+                consumed = text.length;
+            }
+        };
+
+        const response = new Promise<EventStreamResponse>((resolve, reject) => {
+            xhr.open(request.method ?? 'GET', url);
+            Object.entries(request.headers ?? {}).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+            xhr.responseType = 'text';
+            xhr.timeout = request.timeoutMs ?? 0;
+
+            xhr.onprogress = readProgress;
+            xhr.onload = () => {
+                readProgress();
+                if (isSuccess()) parser.end();
+                resolve({ status: xhr.status, body: xhr.responseText ?? '', events: parser.count });
+            };
+            xhr.onerror = () => reject(new Error(`Network request to ${url} failed`));
+            xhr.ontimeout = () => reject(new Error(`Stream timed out after ${request.timeoutMs}ms`));
+            const rejectAborted = () => {
+                const error = new Error('Stream aborted');
+                error.name = 'AbortError';
+                reject(error);
+            };
+            xhr.onabort = rejectAborted;
+
+            if (request.signal?.aborted) {
+                rejectAborted();
+                return;
+            }
+            request.signal?.addEventListener('abort', () => xhr.abort());
+
+            xhr.send(request.body ?? null);
+        });
+
+        return { response, abort: () => xhr.abort() };
+    }
+}
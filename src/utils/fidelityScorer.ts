@@ -0,0 +1,316 @@
+import { ImageCodec, PixelBuffer } from './imageCodec';
+import { VectorTracer } from './vectorTracer';
+import { SvgRasterizer } from './svgRasterizer';
+import { FIDELITY_DEFAULTS } from '../constants/aiConfig';
+
+export interface FidelityOptions {
+    analysisWidth?: number;     // Both images are compared at this width
+    minScore?: number;          // Results below this are flagged as not matching the input
+    weights?: { iou: number; ssim: number; chamfer: number };
+    chamferTolerance?: number;  // Mean edge distance, as a fraction of the diagonal, that scores 0
+}
+
+export interface FidelityReport {
+    score: number;              // Weighted combination, 0-1
+    iou: number;                // Intersection over union of the ink masks, 0-1
+    ssim: number;               // Mean structural similarity of the grayscale images, 0-1
+    chamfer: number;            // Mean distance between the two edge sets, in analysis pixels
+    passed: boolean;            // score >= minScore
+    width: number;              // Analysis size
+    height: number;
+}
+
+/**
+ * Input image prepared for comparison; reusable across several SVGs
+ */
+export interface FidelityReference {
+    width: number;
+    height: number;
+    luminance: Uint8Array;      // Contrast-stretched grayscale, lightly blurred for SSIM
+    mask: Uint8Array;           // 1 = ink
+    edgeDistance: Uint16Array;  // Chamfer distance (x3) to the nearest ink edge
+    edgeCount: number;
+}
+
+// 3-4 chamfer weights approximate Euclidean distance; divide by this for pixels
+const CHAMFER_UNIT = 3;
+const SSIM_C1 = (0.01 * 255) ** 2;
+const SSIM_C2 = (0.03 * 255) ** 2;
+
+// Last reference loaded, so checking several results for one image decodes it once
+let lastReference: { key: string; reference: FidelityReference } | null = null;
+
+export class FidelityScorer {
+
+    /**
+     * Decode and prepare the input image at the analysis width
+     */
+    static async loadReference(imageUri: string, options: FidelityOptions = {}): Promise<FidelityReference> {
+        const width = options.analysisWidth ?? FIDELITY_DEFAULTS.analysisWidth;
+        const key = `${imageUri}|${width}`;
+        if (lastReference?.key === key) return lastReference.reference;
+
+        const image = await ImageCodec.loadForProcessing(imageUri, width);
+        const reference = this.prepareReference(image);
+        lastReference = { key, reference };
+        return reference;
+    }
+
+    static prepareReference(image: PixelBuffer): FidelityReference {
+        const luminance = this.stretch(VectorTracer.toLuminance(image.data, image.width, image.height));
+        const threshold = VectorTracer.otsuThreshold(luminance);
+        const mask = VectorTracer.binarize(luminance, image.width, image.height, threshold).data;
+        const blurred = this.boxBlur(luminance, image.width, image.height);
+        const edges = this.edges(mask, image.width, image.height);
+
+        return {
+            width: image.width,
+            height: image.height,
+            luminance: blurred,
+            mask,
+            edgeDistance: this.distanceTransform(edges.map, image.width, image.height),
+            edgeCount: edges.count,
+        };
+    }
+
+    /**
+     * Rasterize an SVG at the reference size and compare it with the input
+     */
+    static compare(svgCode: string, reference: FidelityReference, options: FidelityOptions = {}): FidelityReport {
+        const rendered = SvgRasterizer.rasterize(svgCode, {
+            width: reference.width,
+            height: reference.height,
+            background: '#ffffff',
+        });
+        return this.compareRendered(rendered, reference, options);
+    }
+
+    /**
+     * Compare an already rendered design (white background, same size as the reference)
+     */
+    static compareRendered(rendered: PixelBuffer, reference: FidelityReference, options: FidelityOptions = {}): FidelityReport {
+        const settings = { ...FIDELITY_DEFAULTS, ...options };
+        const { width, height } = reference;
+        if (rendered.width !== width || rendered.height !== height) {
+            throw new Error(`Rendered size ${rendered.width}x${rendered.height} does not match ${width}x${height}`);
+        }
+
+        const luminance = VectorTracer.toLuminance(rendered.data, width, height);
+        const mask = VectorTracer.binarize(luminance, width, height, 127).data;
+
+        const iou = this.intersectionOverUnion(mask, reference.mask);
+        const ssim = this.structuralSimilarity(this.boxBlur(luminance, width, height), reference.luminance, width, height);
+        const chamfer = this.chamferDistance(mask, reference, width, height);
+
+        const diagonal = Math.hypot(width, height);
+        const chamferScore = Math.max(0, 1 - chamfer / (settings.chamferTolerance * diagonal));
+
+        const weights = settings.weights;
+        const weightSum = weights.iou + weights.ssim + weights.chamfer || 1;
+        const score = (iou * weights.iou + ssim * weights.ssim + chamferScore * weights.chamfer) / weightSum;
+
+        return { score, iou, ssim, chamfer, passed: score >= settings.minScore, width, height };
+    }
+
+    /**
+     * Load the input (reusing the last reference) and compare an SVG with it
+     */
+    static async evaluate(imageUri: string, svgCode: string, options: FidelityOptions = {}): Promise<FidelityReport> {
+        const reference = await this.loadReference(imageUri, options);
+        return this.compare(svgCode, reference, options);
+    }
+
+    /**
+     * One-line summary, e.g. "74% (IoU 68%, SSIM 71%, edges 2.4px apart)"
+     */
+    static describe(report: FidelityReport): string {
+        const percent = (value: number) => `${Math.round(value * 100)}%`;
+        return `${percent(report.score)} (IoU ${percent(report.iou)}, SSIM ${percent(report.ssim)}, edges ${report.chamfer.toFixed(1)}px apart)`;
+    }
+
+    /**
+     * Map the 2nd-98th percentile to the full range, so gray paper reads as white
+     */
+    private static stretch(luminance: Uint8Array): Uint8Array {
+        const histogram = new Array(256).fill(0);
+        for (let i = 0; i < luminance.length; i++) histogram[luminance[i]]++;
+
+        const percentile = (fraction: number) => {
+            let count = 0;
+            for (let value = 0; value < 256; value++) {
+                count += histogram[value];
+                if (count >= luminance.length * fraction) return value;
+            }
+            return 255;
+        };
+        const low = percentile(0.02);
+        const high = percentile(0.98);
+        if (high - low < 16) return luminance;
+
+        const stretched = new Uint8Array(luminance.length);
+        for (let i = 0; i < luminance.length; i++) {
+            stretched[i] = Math.max(0, Math.min(255, Math.round((luminance[i] - low) * 255 / (high - low))));
+        }
+        return stretched;
+    }
+
+    /**
+     * 3x3 box blur, so paper grain and anti-aliasing don't dominate SSIM's structure term
+     */
+    private static boxBlur(values: Uint8Array, width: number, height: number): Uint8Array {
+        const blurred = new Uint8Array(values.length);
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                let sum = 0;
+                let count = 0;
+                for (let dy = -1; dy <= 1; dy++) {
+                    const ny = y + dy;
+                    if (ny < 0 || ny >= height) continue;
+                    for (let dx = -1; dx <= 1; dx++) {
+                        const nx = x + dx;
+                        if (nx < 0 || nx >= width) continue;
+                        sum += values[ny * width + nx];
+                        count++;
+                    }
+                }
+                blurred[y * width + x] = Math.round(sum / count);
+            }
+        }
+        return blurred;
+    }
+
+    private static intersectionOverUnion(a: Uint8Array, b: Uint8Array): number {
+        let intersection = 0;
+        let union = 0;
+        for (let i = 0; i < a.length; i++) {
+            if (a[i] && b[i]) intersection++;
+            if (a[i] || b[i]) union++;
+        }
+        return union === 0 ? 1 : intersection / union;
+    }
+
+    /**
+     * Mean SSIM over 8x8 windows with a stride of 4
+     */
+    private static structuralSimilarity(a: Uint8Array, b: Uint8Array, width: number, height: number): number {
+        const size = 8;
+        const stride = 4;
+        const n = size * size;
+        let total = 0;
+        let windows = 0;
+
+        for (let y = 0; y + size <= height; y += stride) {
+            for (let x = 0; x + size <= width; x += stride) {
+                let sumA = 0;
+                let sumB = 0;
+                let sumAA = 0;
+                let sumBB = 0;
+                let sumAB = 0;
+                for (let dy = 0; dy < size; dy++) {
+                    const row = (y + dy) * width + x;
+                    for (let dx = 0; dx < size; dx++) {
+                        const va = a[row + dx];
+                        const vb = b[row + dx];
+                        sumA += va;
+                        sumB += vb;
+                        sumAA += va * va;
+                        sumBB += vb * vb;
+                        sumAB += va * vb;
+                    }
+                }
+
+                const meanA = sumA / n;
+                const meanB = sumB / n;
+                const varA = sumAA / n - meanA * meanA;
+                const varB = sumBB / n - meanB * meanB;
+                const covariance = sumAB / n - meanA * meanB;
+
+                total += ((2 * meanA * meanB + SSIM_C1) * (2 * covariance + SSIM_C2))
+                    / ((meanA * meanA + meanB * meanB + SSIM_C1) * (varA + varB + SSIM_C2));
+                windows++;
+            }
+        }
+
+        // SSIM can dip below 0 for inverted structure; clamp to keep it a 0-1 score
+        return windows === 0 ? 1 : Math.max(0, total / windows);
+    }
+
+    /**
+     * Symmetric mean distance between the rendered and reference ink edges, in pixels
+     */
+    private static chamferDistance(mask: Uint8Array, reference: FidelityReference, width: number, height: number): number {
+        const edges = this.edges(mask, width, height);
+        if (edges.count === 0 && reference.edgeCount === 0) return 0;
+        if (edges.count === 0 || reference.edgeCount === 0) return Math.hypot(width, height);
+
+        const distance = this.distanceTransform(edges.map, width, height);
+        let renderedToReference = 0;
+        let referenceToRendered = 0;
+        for (let i = 0; i < mask.length; i++) {
+            if (edges.map[i]) renderedToReference += reference.edgeDistance[i];
+            if (reference.edgeDistance[i] === 0) referenceToRendered += distance[i];
+        }
+
+        const mean = (renderedToReference / edges.count + referenceToRendered / reference.edgeCount) / 2;
+        return mean / CHAMFER_UNIT;
+    }
+
+    /**
+     * Ink pixels with a background (or out-of-bounds) 4-neighbour
+     */
+    private static edges(mask: Uint8Array, width: number, height: number): { map: Uint8Array; count: number } {
+        const map = new Uint8Array(mask.length);
+        let count = 0;
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                const i = y * width + x;
+                if (!mask[i]) continue;
+                const boundary = x === 0 || y === 0 || x === width - 1 || y === height - 1
+                    || !mask[i - 1] || !mask[i + 1] || !mask[i - width] || !mask[i + width];
+                if (boundary) {
+                    map[i] = 1;
+                    count++;
+                }
+            }
+        }
+        return { map, count };
+    }
+
+    /**
+     * Two-pass 3-4 chamfer distance to the nearest set pixel
+     */
+    private static distanceTransform(map: Uint8Array, width: number, height: number): Uint16Array {
+        const far = 65535;
+        const distance = new Uint16Array(map.length);
+        for (let i = 0; i < map.length; i++) distance[i] = map[i] ? 0 : far;
+
+        const relax = (i: number, neighbour: number, cost: number) => {
+            const candidate = distance[neighbour] + cost;
+            if (candidate < distance[i]) distance[i] = candidate;
+        };
+
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                const i = y * width + x;
+                if (x > 0) relax(i, i - 1, 3);
+                if (y > 0) {
+                    relax(i, i - width, 3);
+                    if (x > 0) relax(i, i - width - 1, 4);
+                    if (x < width - 1) relax(i, i - width + 1, 4);
+                }
+            }
+        }
+        for (let y = height - 1; y >= 0; y--) {
+            for (let x = width - 1; x >= 0; x--) {
+                const i = y * width + x;
+                if (x < width - 1) relax(i, i + 1, 3);
+                if (y < height - 1) {
+                    relax(i, i + width, 3);
+                    if (x < width - 1) relax(i, i + width + 1, 4);
+                    if (x > 0) relax(i, i + width - 1, 4);
+                }
+            }
+        }
+        return distance;
+    }
+}
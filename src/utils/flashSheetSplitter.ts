@@ -0,0 +1,292 @@
+import { ImageCodec, PixelBuffer, CropRect } from './imageCodec';
+import { EdgeDetector } from './edgeDetector';
+import { LineArtConverter } from './lineArtConverter';
+import { FLASH_SHEET_DEFAULTS } from '../constants/aiConfig';
+
+// Import image processing modules
+let ImageManipulator: any;
+
+try {
+    ImageManipulator = require('expo-image-manipulator');
+} catch (error) {
+    console.log('Image processing modules not available');
+}
+
+export interface FlashSheetOptions {
+    analysisWidth?: number;
+    sensitivity?: number;       // Sauvola k for the ink mask (see LineArtConverter)
+    mergeDistance?: number;     // Ink closer than this (fraction of the width) belongs to one design
+    minAreaFraction?: number;   // Smaller boxes (fraction of the image) are specks or text
+    maxSpan?: number;           // Boxes spanning more of the width or height are paper edges or shadows
+    padding?: number;           // Margin around each design, as a fraction of its larger side
+    maxRegions?: number;
+}
+
+/**
+ * One design found on the sheet. The rectangle is in fractions of the image size (0-1),
+ * so it applies to the full-size photo and to any scaled display of it.
+ */
+export interface FlashRegion {
+    id: string;
+    rect: CropRect;
+    inkPixels: number;          // Ink in the analysis image, a rough measure of the design's size
+}
+
+export interface FlashSheetAnalysis {
+    width: number;              // Analysis image size; its ratio is the photo's aspect ratio
+    height: number;
+    regions: FlashRegion[];     // In reading order: rows top to bottom, each left to right
+}
+
+interface Component {
+    minX: number;
+    minY: number;
+    maxX: number;
+    maxY: number;
+    ink: number;
+}
+
+export class FlashSheetSplitter {
+
+    /**
+     * Find the separate designs on a photo of a flash sheet
+     */
+    static async detect(imageUri: string, options: FlashSheetOptions = {}): Promise<FlashSheetAnalysis> {
+        const settings = { ...FLASH_SHEET_DEFAULTS, ...options };
+        const sample = await ImageCodec.loadForProcessing(imageUri, settings.analysisWidth);
+        const analysis = this.analyze(sample, settings);
+        console.log(`🗂️ Flash sheet: ${analysis.regions.length} designs found`);
+        return analysis;
+    }
+
+    /**
+     * Group the ink into designs: threshold locally (so lighting and a table around the
+     * sheet don't count as ink), join strokes closer than mergeDistance, label connected
+     * components and keep the plausible ones
+     */
+    static analyze(buffer: PixelBuffer, options: FlashSheetOptions = {}): FlashSheetAnalysis {
+        const settings = { ...FLASH_SHEET_DEFAULTS, ...options };
+        const { width, height } = buffer;
+
+        const gray = EdgeDetector.gaussianBlur(EdgeDetector.toGrayscale(buffer), width, height, 1);
+        const ink = LineArtConverter.adaptiveThreshold(gray, width, height, 'sauvola', 0, settings.sensitivity);
+
+        const radius = Math.max(1, Math.round(settings.mergeDistance * width / 2));
+        const joined = this.dilate(ink, width, height, radius);
+
+        const imageArea = width * height;
+        let boxes = this.components(joined, ink, width, height).filter(box => {
+            const boxWidth = box.maxX - box.minX + 1;
+            const boxHeight = box.maxY - box.minY + 1;
+            return boxWidth * boxHeight >= settings.minAreaFraction * imageArea
+                && boxWidth < settings.maxSpan * width
+                && boxHeight < settings.maxSpan * height;
+        });
+        boxes = this.mergeOverlapping(this.dropEnclosures(boxes));
+
+        // Keep the largest designs, then put them back in reading order
+        boxes = boxes.sort((a, b) => b.ink - a.ink).slice(0, settings.maxRegions);
+        const regions = this.readingOrder(boxes).map((box, index) => {
+            const pad = settings.padding * Math.max(box.maxX - box.minX + 1, box.maxY - box.minY + 1);
+            const x0 = Math.max(0, box.minX - pad);
+            const y0 = Math.max(0, box.minY - pad);
+            const x1 = Math.min(width, box.maxX + 1 + pad);
+            const y1 = Math.min(height, box.maxY + 1 + pad);
+            return {
+                id: `region_${index + 1}`,
+                rect: { originX: x0 / width, originY: y0 / height, width: (x1 - x0) / width, height: (y1 - y0) / height },
+                inkPixels: box.ink,
+            };
+        });
+
+        return { width, height, regions };
+    }
+
+    /**
+     * Crop each region out of the full-size photo and save it as PNG, in region order
+     */
+    static async extract(imageUri: string, regions: FlashRegion[]): Promise<string[]> {
+        if (!ImageManipulator) {
+            const full = await ImageCodec.readFromUri(imageUri);
+            const uris: string[] = [];
+            for (const region of regions) {
+                uris.push(await ImageCodec.writePNG(ImageCodec.crop(full, this.toPixels(region.rect, full.width, full.height)), 'flash'));
+            }
+            return uris;
+        }
+
+        const original = await ImageCodec.getSize(imageUri);
+        const uris: string[] = [];
+        for (const region of regions) {
+            const cropped = await ImageManipulator.manipulateAsync(
+                imageUri,
+                [{ crop: this.toPixels(region.rect, original.width, original.height) }],
+                {
+                    compress: 1,
+                    format: ImageManipulator.SaveFormat.PNG,
+                }
+            );
+            uris.push(cropped.uri);
+        }
+
+        console.log(`✂️ Extracted ${uris.length} designs from the flash sheet`);
+        return uris;
+    }
+
+    private static toPixels(rect: CropRect, width: number, height: number): CropRect {
+        const originX = Math.max(0, Math.floor(rect.originX * width));
+        const originY = Math.max(0, Math.floor(rect.originY * height));
+        return {
+            originX,
+            originY,
+            width: Math.max(1, Math.min(width - originX, Math.ceil(rect.width * width))),
+            height: Math.max(1, Math.min(height - originY, Math.ceil(rect.height * height))),
+        };
+    }
+
+    /**
+     * Square dilation by radius, as a horizontal then a vertical running-count pass
+     */
+    private static dilate(mask: Uint8Array, width: number, height: number, radius: number): Uint8Array {
+        const horizontal = new Uint8Array(mask.length);
+        for (let y = 0; y < height; y++) {
+            const row = y * width;
+            let count = 0;
+            for (let x = 0; x < Math.min(radius, width); x++) count += mask[row + x];
+            for (let x = 0; x < width; x++) {
+                if (x + radius < width) count += mask[row + x + radius];
+                if (x - radius - 1 >= 0) count -= mask[row + x - radius - 1];
+                horizontal[row + x] = count > 0 ? 1 : 0;
+            }
+        }
+
+        const output = new Uint8Array(mask.length);
+        for (let x = 0; x < width; x++) {
+            let count = 0;
+            for (let y = 0; y < Math.min(radius, height); y++) count += horizontal[y * width + x];
+            for (let y = 0; y < height; y++) {
+                if (y + radius < height) count += horizontal[(y + radius) * width + x];
+                if (y - radius - 1 >= 0) count -= horizontal[(y - radius - 1) * width + x];
+                output[y * width + x] = count > 0 ? 1 : 0;
+            }
+        }
+        return output;
+    }
+
+    /**
+     * 8-connected components of the joined mask, boxed tightly around their original ink
+     */
+    private static components(joined: Uint8Array, ink: Uint8Array, width: number, height: number): Component[] {
+        const labels = new Int32Array(joined.length).fill(-1);
+        const components: Component[] = [];
+        const stack: number[] = [];
+
+        for (let start = 0; start < joined.length; start++) {
+            if (!joined[start] || labels[start] >= 0) continue;
+
+            const label = components.length;
+            components.push({ minX: width, minY: height, maxX: -1, maxY: -1, ink: 0 });
+            labels[start] = label;
+            stack.push(start);
+
+            while (stack.length > 0) {
+                const i = stack.pop()!;
+                const x = i % width;
+                const y = (i - x) / width;
+                for (let dy = -1; dy <= 1; dy++) {
+                    for (let dx = -1; dx <= 1; dx++) {
+                        const nx = x + dx;
+                        const ny = y + dy;
+                        if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+
+                        const j = ny * width + nx;
+                        if (joined[j] && labels[j] < 0) {
+                            labels[j] = label;
+                            stack.push(j);
+                        }
+                    }
+                }
+            }
+        }
+
+        for (let i = 0; i < ink.length; i++) {
+            if (!ink[i]) continue;
+            const component = components[labels[i]];
+            const x = i % width;
+            const y = (i - x) / width;
+            component.minX = Math.min(component.minX, x);
+            component.minY = Math.min(component.minY, y);
+            component.maxX = Math.max(component.maxX, x);
+            component.maxY = Math.max(component.maxY, y);
+            component.ink++;
+        }
+
+        return components.filter(component => component.ink > 0);
+    }
+
+    /**
+     * Drop boxes holding two or more other designs: the sheet's border, a table edge or a
+     * ruled frame around the whole page rather than a design of its own
+     */
+    private static dropEnclosures(boxes: Component[]): Component[] {
+        const encloses = (outer: Component, inner: Component) => {
+            const cx = (inner.minX + inner.maxX) / 2;
+            const cy = (inner.minY + inner.maxY) / 2;
+            return outer !== inner && cx > outer.minX && cx < outer.maxX && cy > outer.minY && cy < outer.maxY;
+        };
+        return boxes.filter(box => boxes.filter(other => encloses(box, other)).length < 2);
+    }
+
+    /**
+     * Merge boxes that mostly overlap, e.g. a detached detail sitting inside a larger design
+     */
+    private static mergeOverlapping(boxes: Component[]): Component[] {
+        const area = (box: Component) => (box.maxX - box.minX + 1) * (box.maxY - box.minY + 1);
+        const merged = [...boxes];
+
+        let changed = true;
+        while (changed) {
+            changed = false;
+            for (let a = 0; a < merged.length && !changed; a++) {
+                for (let b = a + 1; b < merged.length; b++) {
+                    const first = merged[a];
+                    const second = merged[b];
+                    const overlapWidth = Math.min(first.maxX, second.maxX) - Math.max(first.minX, second.minX) + 1;
+                    const overlapHeight = Math.min(first.maxY, second.maxY) - Math.max(first.minY, second.minY) + 1;
+                    if (overlapWidth <= 0 || overlapHeight <= 0) continue;
+                    if (overlapWidth * overlapHeight < 0.5 * Math.min(area(first), area(second))) continue;
+
+                    merged[a] = {
+                        minX: Math.min(first.minX, second.minX),
+                        minY: Math.min(first.minY, second.minY),
+                        maxX: Math.max(first.maxX, second.maxX),
+                        maxY: Math.max(first.maxY, second.maxY),
+                        ink: first.ink + second.ink,
+                    };
+                    merged.splice(b, 1);
+                    changed = true;
+                    break;
+                }
+            }
+        }
+        return merged;
+    }
+
+    /**
+     * Rows top to bottom (a box joins a row when it starts above the row's first bottom edge),
+     * each row left to right
+     */
+    private static readingOrder(boxes: Component[]): Component[] {
+        const rows: Component[][] = [];
+        [...boxes].sort((a, b) => a.minY - b.minY).forEach(box => {
+            const row = rows[rows.length - 1];
+            const rowBottom = row ? Math.min(...row.map(item => item.maxY)) : -1;
+            if (row && box.minY <= rowBottom) {
+                row.push(box);
+            } else {
+                rows.push([box]);
+            }
+        });
+        return rows.flatMap(row => row.sort((a, b) => a.minX - b.minX));
+    }
+}
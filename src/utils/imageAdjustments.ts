@@ -0,0 +1,122 @@
+import { ImageProcessingOptions } from '../types';
+import { ImageCodec, PixelBuffer } from './imageCodec';
+import { EdgeDetector } from './edgeDetector';
+
+export const DEFAULT_IMAGE_ADJUSTMENTS: Required<ImageProcessingOptions> = {
+    contrast: 0,
+    brightness: 0,
+    blackAndWhite: false,
+    invertColors: false,
+    edgeDetection: false,
+};
+
+export class ImageAdjuster {
+    // Last decoded source, so slider previews don't re-decode the photo on every change
+    private static cachedSource: { key: string; buffer: PixelBuffer } | null = null;
+
+    /**
+     * Check whether the options would leave the image unchanged
+     */
+    static isNeutral(options: ImageProcessingOptions): boolean {
+        return !options.contrast &&
+            !options.brightness &&
+            !options.blackAndWhite &&
+            !options.invertColors &&
+            !options.edgeDetection;
+    }
+
+    /**
+     * Apply brightness, contrast, black & white, edge detection and inversion (in that order)
+     */
+    static applyToPixels(source: PixelBuffer, options: ImageProcessingOptions): PixelBuffer {
+        const settings = { ...DEFAULT_IMAGE_ADJUSTMENTS, ...options };
+        const result = ImageCodec.clone(source);
+        const data = result.data;
+
+        // Brightness shifts every channel; contrast stretches around mid-gray
+        const brightnessOffset = (clamp(settings.brightness, -100, 100) / 100) * 255;
+        const contrastValue = (clamp(settings.contrast, -100, 100) / 100) * 255;
+        const contrastFactor = (259 * (contrastValue + 255)) / (255 * (259 - contrastValue));
+
+        const lookup = new Uint8ClampedArray(256);
+        for (let i = 0; i < 256; i++) {
+            lookup[i] = contrastFactor * (i + brightnessOffset - 128) + 128;
+        }
+
+        for (let i = 0; i < data.length; i += 4) {
+            data[i] = lookup[data[i]];
+            data[i + 1] = lookup[data[i + 1]];
+            data[i + 2] = lookup[data[i + 2]];
+        }
+
+        if (settings.blackAndWhite || settings.edgeDetection) {
+            for (let i = 0; i < data.length; i += 4) {
+                const gray = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+                data[i] = data[i + 1] = data[i + 2] = gray;
+            }
+        }
+
+        if (settings.edgeDetection) {
+            this.applySobelEdges(result);
+        }
+
+        if (settings.invertColors) {
+            for (let i = 0; i < data.length; i += 4) {
+                data[i] = 255 - data[i];
+                data[i + 1] = 255 - data[i + 1];
+                data[i + 2] = 255 - data[i + 2];
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Apply adjustments to an image file and save the result as PNG
+     */
+    static async adjustImage(imageUri: string, options: ImageProcessingOptions, maxWidth: number = 1024): Promise<string> {
+        if (this.isNeutral(options)) return imageUri;
+
+        const source = await this.loadSource(imageUri, maxWidth);
+        const adjusted = this.applyToPixels(source, options);
+        return await ImageCodec.writePNG(adjusted, 'adjusted');
+    }
+
+    /**
+     * Render a small adjusted preview as a data URI (no file written)
+     */
+    static async renderPreview(imageUri: string, options: ImageProcessingOptions, maxWidth: number = 320): Promise<string> {
+        const source = await this.loadSource(imageUri, maxWidth);
+        const adjusted = this.isNeutral(options) ? source : this.applyToPixels(source, options);
+        return `data:image/png;base64,${ImageCodec.encodePNGBase64(adjusted)}`;
+    }
+
+    private static async loadSource(imageUri: string, maxWidth: number): Promise<PixelBuffer> {
+        const key = `${imageUri}@${maxWidth}`;
+        if (this.cachedSource?.key === key) {
+            return this.cachedSource.buffer;
+        }
+
+        const buffer = await ImageCodec.loadForProcessing(imageUri, maxWidth);
+        this.cachedSource = { key, buffer };
+        return buffer;
+    }
+
+    /**
+     * Replace a grayscale image with its Sobel gradient magnitude, drawn as dark lines on white
+     */
+    private static applySobelEdges(buffer: PixelBuffer) {
+        const { width, height, data } = buffer;
+        const gray = EdgeDetector.toGrayscale(buffer);
+        const { magnitude } = EdgeDetector.sobel(gray, width, height);
+
+        for (let i = 0; i < magnitude.length; i++) {
+            const shade = 255 - Math.min(255, magnitude[i] * 2);
+            data[i * 4] = data[i * 4 + 1] = data[i * 4 + 2] = shade;
+        }
+    }
+}
+
+function clamp(value: number, min: number, max: number): number {
+    return Math.max(min, Math.min(max, value));
+}
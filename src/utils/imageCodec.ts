@@ -0,0 +1,529 @@
+import { inflate, deflate } from 'pako';
+import { decode as decodeJPEG } from 'jpeg-js';
+import { Image } from 'react-native';
+
+// Import image processing modules
+let ImageManipulator: any;
+let FileSystem: any;
+
+try {
+    ImageManipulator = require('expo-image-manipulator');
+    FileSystem = require('expo-file-system');
+} catch (error) {
+    console.log('Image processing modules not available');
+}
+
+/**
+ * Raw RGBA pixels (4 bytes per pixel, row-major, no padding)
+ */
+export interface PixelBuffer {
+    width: number;
+    height: number;
+    data: Uint8ClampedArray;
+}
+
+export type ImageFormat = 'PNG' | 'JPEG';
+
+/**
+ * Pixel rectangle, named like expo-image-manipulator's crop action
+ */
+export interface CropRect {
+    originX: number;
+    originY: number;
+    width: number;
+    height: number;
+}
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const BASE64_LOOKUP = (() => {
+    const lookup = new Uint8Array(128);
+    for (let i = 0; i < BASE64_ALPHABET.length; i++) {
+        lookup[BASE64_ALPHABET.charCodeAt(i)] = i;
+    }
+    return lookup;
+})();
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+export class ImageCodec {
+
+    /**
+     * Create a blank pixel buffer, optionally filled with an RGBA color
+     */
+    static create(width: number, height: number, fill: [number, number, number, number] = [0, 0, 0, 0]): PixelBuffer {
+        const data = new Uint8ClampedArray(width * height * 4);
+        if (fill.some(channel => channel !== 0)) {
+            for (let i = 0; i < data.length; i += 4) {
+                data[i] = fill[0];
+                data[i + 1] = fill[1];
+                data[i + 2] = fill[2];
+                data[i + 3] = fill[3];
+            }
+        }
+        return { width, height, data };
+    }
+
+    /**
+     * Copy a pixel buffer so it can be modified independently
+     */
+    static clone(buffer: PixelBuffer): PixelBuffer {
+        return { width: buffer.width, height: buffer.height, data: new Uint8ClampedArray(buffer.data) };
+    }
+
+    /**
+     * Copy a rectangle out of a pixel buffer (clamped to the image bounds)
+     */
+    static crop(buffer: PixelBuffer, rect: CropRect): PixelBuffer {
+        const x0 = Math.max(0, Math.round(rect.originX));
+        const y0 = Math.max(0, Math.round(rect.originY));
+        const width = Math.max(1, Math.min(buffer.width - x0, Math.round(rect.width)));
+        const height = Math.max(1, Math.min(buffer.height - y0, Math.round(rect.height)));
+        const data = new Uint8ClampedArray(width * height * 4);
+
+        for (let y = 0; y < height; y++) {
+            const start = ((y0 + y) * buffer.width + x0) * 4;
+            data.set(buffer.data.subarray(start, start + width * 4), y * width * 4);
+        }
+
+        return { width, height, data };
+    }
+
+    /**
+     * Detect the container format from the file signature
+     */
+    static detectFormat(bytes: Uint8Array): ImageFormat | null {
+        if (PNG_SIGNATURE.every((value, i) => bytes[i] === value)) return 'PNG';
+        if (bytes[0] === 0xff && bytes[1] === 0xd8) return 'JPEG';
+        return null;
+    }
+
+    /**
+     * Decode PNG or JPEG bytes into RGBA pixels
+     */
+    static decode(bytes: Uint8Array): PixelBuffer {
+        const format = this.detectFormat(bytes);
+
+        if (format === 'PNG') {
+            return this.decodePNG(bytes);
+        }
+
+        if (format === 'JPEG') {
+            const image = decodeJPEG(bytes, { useTArray: true, formatAsRGBA: true });
+            return {
+                width: image.width,
+                height: image.height,
+                data: new Uint8ClampedArray(image.data.buffer, image.data.byteOffset, image.data.length),
+            };
+        }
+
+        throw new Error('Unsupported image format (expected PNG or JPEG)');
+    }
+
+    /**
+     * Decode a base64 string or data URI into RGBA pixels
+     */
+    static decodeBase64(base64: string): PixelBuffer {
+        return this.decode(base64ToBytes(base64));
+    }
+
+    /**
+     * Read and decode an image from a file or data URI
+     */
+    static async readFromUri(uri: string): Promise<PixelBuffer> {
+        if (uri.startsWith('data:')) {
+            return this.decodeBase64(uri);
+        }
+
+        if (!FileSystem) {
+            throw new Error('FileSystem not available');
+        }
+
+        const base64 = await FileSystem.readAsStringAsync(uri, {
+            encoding: FileSystem.EncodingType.Base64,
+        });
+
+        return this.decodeBase64(base64);
+    }
+
+    /**
+     * Shrink with the native manipulator, then decode the lossless PNG result.
+     * Much faster than decoding a full-size camera JPEG in JavaScript.
+     * Images already narrower than maxWidth keep their size; upscaling only blurs them.
+     */
+    static async loadForProcessing(uri: string, maxWidth: number = 1024): Promise<PixelBuffer> {
+        if (!ImageManipulator) {
+            return this.readFromUri(uri);
+        }
+
+        const { width } = await this.getSize(uri);
+        const prepared = await ImageManipulator.manipulateAsync(
+            uri,
+            width > maxWidth ? [{ resize: { width: maxWidth } }] : [],
+            {
+                format: ImageManipulator.SaveFormat.PNG,
+                base64: true,
+            }
+        );
+
+        if (!prepared.base64) {
+            throw new Error('Could not read image pixels');
+        }
+
+        return this.decodeBase64(prepared.base64);
+    }
+
+    /**
+     * Pixel size of an image file, read by the platform without re-encoding it.
+     * Native crop values must be pixels of the original image, not fractions.
+     */
+    static getSize(uri: string): Promise<{ width: number; height: number }> {
+        return new Promise((resolve, reject) => {
+            Image.getSize(uri, (width, height) => resolve({ width, height }), reject);
+        });
+    }
+
+    /**
+     * Encode RGBA pixels as an 8-bit truecolor-with-alpha PNG
+     */
+    static encodePNG(buffer: PixelBuffer): Uint8Array {
+        const { width, height, data } = buffer;
+        const stride = width * 4;
+        const raw = new Uint8Array((stride + 1) * height);
+
+        for (let y = 0; y < height; y++) {
+            const rowStart = y * stride;
+            const outStart = y * (stride + 1);
+
+            // Sub filter suits flat line art; Up suits photos. Pick whichever is cheaper per row.
+            let subCost = 0;
+            let upCost = 0;
+            for (let x = 0; x < stride; x++) {
+                const value = data[rowStart + x];
+                const left = x >= 4 ? data[rowStart + x - 4] : 0;
+                const up = y > 0 ? data[rowStart - stride + x] : 0;
+                subCost += Math.abs((value - left) << 24 >> 24);
+                upCost += Math.abs((value - up) << 24 >> 24);
+            }
+
+            const filter = upCost < subCost ? 2 : 1;
+            raw[outStart] = filter;
+            for (let x = 0; x < stride; x++) {
+                const value = data[rowStart + x];
+                const reference = filter === 1
+                    ? (x >= 4 ? data[rowStart + x - 4] : 0)
+                    : (y > 0 ? data[rowStart - stride + x] : 0);
+                raw[outStart + 1 + x] = (value - reference) & 0xff;
+            }
+        }
+
+        const header = new Uint8Array(13);
+        writeUint32(header, 0, width);
+        writeUint32(header, 4, height);
+        header[8] = 8;  // bit depth
+        header[9] = 6;  // RGBA
+        header[10] = 0; // deflate
+        header[11] = 0; // adaptive filtering
+        header[12] = 0; // no interlace
+
+        return concatBytes([
+            new Uint8Array(PNG_SIGNATURE),
+            createChunk('IHDR', header),
+            createChunk('IDAT', deflate(raw)),
+            createChunk('IEND', new Uint8Array(0)),
+        ]);
+    }
+
+    /**
+     * Encode RGBA pixels as a base64 PNG string
+     */
+    static encodePNGBase64(buffer: PixelBuffer): string {
+        return bytesToBase64(this.encodePNG(buffer));
+    }
+
+    /**
+     * Encode pixels as PNG and write them to the cache directory
+     */
+    static async writePNG(buffer: PixelBuffer, prefix: string = 'pixels'): Promise<string> {
+        if (!FileSystem) {
+            throw new Error('FileSystem not available');
+        }
+
+        const directory = FileSystem.cacheDirectory || FileSystem.documentDirectory;
+        const filePath = `${directory}${prefix}_${Date.now()}.png`;
+
+        await FileSystem.writeAsStringAsync(filePath, this.encodePNGBase64(buffer), {
+            encoding: FileSystem.EncodingType.Base64,
+        });
+
+        return filePath;
+    }
+
+    /**
+     * Minimal PNG decoder (non-interlaced, all color types, 1-16 bit depth)
+     */
+    private static decodePNG(bytes: Uint8Array): PixelBuffer {
+        let offset = 8;
+        let width = 0;
+        let height = 0;
+        let bitDepth = 8;
+        let colorType = 0;
+        let interlace = 0;
+        let palette: Uint8Array | null = null;
+        let transparency: Uint8Array | null = null;
+        const idatChunks: Uint8Array[] = [];
+
+        while (offset + 8 <= bytes.length) {
+            const length = readUint32(bytes, offset);
+            const type = String.fromCharCode(bytes[offset + 4], bytes[offset + 5], bytes[offset + 6], bytes[offset + 7]);
+            const chunk = bytes.subarray(offset + 8, offset + 8 + length);
+            offset += 12 + length;
+
+            if (type === 'IHDR') {
+                width = readUint32(chunk, 0);
+                height = readUint32(chunk, 4);
+                bitDepth = chunk[8];
+                colorType = chunk[9];
+                interlace = chunk[12];
+            } else if (type === 'PLTE') {
+                palette = chunk;
+            } else if (type === 'tRNS') {
+                transparency = chunk;
+            } else if (type === 'IDAT') {
+                idatChunks.push(chunk);
+            } else if (type === 'IEND') {
+                break;
+            }
+        }
+
+        if (!width || !height) {
+            throw new Error('PNG is missing IHDR');
+        }
+        if (interlace !== 0) {
+            throw new Error('Interlaced PNG images are not supported');
+        }
+
+        const raw = inflate(concatBytes(idatChunks));
+
+        const channels = ({ 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 } as Record<number, number>)[colorType];
+        if (!channels) {
+            throw new Error(`Unsupported PNG color type: ${colorType}`);
+        }
+
+        const bitsPerPixel = channels * bitDepth;
+        const bytesPerPixel = Math.max(1, bitsPerPixel >> 3);
+        const stride = Math.ceil((width * bitsPerPixel) / 8);
+        const pixels = unfilterScanlines(raw, height, stride, bytesPerPixel);
+
+        const data = new Uint8ClampedArray(width * height * 4);
+        const maxSample = (1 << bitDepth) - 1;
+
+        // Full-precision sample, as stored in the file (tRNS keys are compared against this)
+        const rawSampleAt = (row: number, index: number): number => {
+            const rowStart = row * stride;
+            if (bitDepth === 8) return pixels[rowStart + index];
+            if (bitDepth === 16) return readUint16(pixels, rowStart + index * 2);
+            const bitOffset = index * bitDepth;
+            const byte = pixels[rowStart + (bitOffset >> 3)];
+            const shift = 8 - bitDepth - (bitOffset & 7);
+            return (byte >> shift) & maxSample;
+        };
+        // 8-bit sample for the output buffer (16-bit keeps the high byte)
+        const sampleAt = (row: number, index: number): number => {
+            const value = rawSampleAt(row, index);
+            return bitDepth === 16 ? value >> 8 : value;
+        };
+        const scale = (value: number) => (bitDepth >= 8 ? value : Math.round((value * 255) / maxSample));
+
+        // Color types 0 and 2 mark a single color as fully transparent
+        const grayKey = colorType === 0 && transparency && transparency.length >= 2
+            ? readUint16(transparency, 0) & maxSample
+            : -1;
+        const rgbKey = colorType === 2 && transparency && transparency.length >= 6
+            ? [0, 2, 4].map(offset => readUint16(transparency!, offset) & maxSample)
+            : null;
+
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                const out = (y * width + x) * 4;
+                const base = x * channels;
+
+                if (colorType === 0) {
+                    const sample = rawSampleAt(y, base);
+                    const gray = bitDepth === 16 ? sample >> 8 : scale(sample);
+                    data[out] = data[out + 1] = data[out + 2] = gray;
+                    data[out + 3] = sample === grayKey ? 0 : 255;
+                } else if (colorType === 2) {
+                    const r = rawSampleAt(y, base);
+                    const g = rawSampleAt(y, base + 1);
+                    const b = rawSampleAt(y, base + 2);
+                    const shift = bitDepth === 16 ? 8 : 0;
+                    data[out] = r >> shift;
+                    data[out + 1] = g >> shift;
+                    data[out + 2] = b >> shift;
+                    data[out + 3] = rgbKey && r === rgbKey[0] && g === rgbKey[1] && b === rgbKey[2] ? 0 : 255;
+                } else if (colorType === 3) {
+                    const index = sampleAt(y, base);
+                    data[out] = palette ? palette[index * 3] : 0;
+                    data[out + 1] = palette ? palette[index * 3 + 1] : 0;
+                    data[out + 2] = palette ? palette[index * 3 + 2] : 0;
+                    data[out + 3] = transparency && index < transparency.length ? transparency[index] : 255;
+                } else if (colorType === 4) {
+                    const gray = sampleAt(y, base);
+                    data[out] = data[out + 1] = data[out + 2] = gray;
+                    data[out + 3] = sampleAt(y, base + 1);
+                } else {
+                    data[out] = sampleAt(y, base);
+                    data[out + 1] = sampleAt(y, base + 1);
+                    data[out + 2] = sampleAt(y, base + 2);
+                    data[out + 3] = sampleAt(y, base + 3);
+                }
+            }
+        }
+
+        return { width, height, data };
+    }
+}
+
+/**
+ * Decode a base64 string (or data URI) into raw bytes without atob/Buffer
+ */
+export function base64ToBytes(base64: string): Uint8Array {
+    const clean = base64.replace(/^data:[^,]*,/, '').replace(/[^A-Za-z0-9+/]/g, '');
+    const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+    let byteIndex = 0;
+
+    for (let i = 0; i < clean.length; i += 4) {
+        const a = BASE64_LOOKUP[clean.charCodeAt(i)];
+        const b = BASE64_LOOKUP[clean.charCodeAt(i + 1)];
+        const c = i + 2 < clean.length ? BASE64_LOOKUP[clean.charCodeAt(i + 2)] : 0;
+        const d = i + 3 < clean.length ? BASE64_LOOKUP[clean.charCodeAt(i + 3)] : 0;
+        const triple = (a << 18) | (b << 12) | (c << 6) | d;
+
+        bytes[byteIndex++] = (triple >> 16) & 0xff;
+        if (i + 2 < clean.length) bytes[byteIndex++] = (triple >> 8) & 0xff;
+        if (i + 3 < clean.length) bytes[byteIndex++] = triple & 0xff;
+    }
+
+    return bytes.subarray(0, byteIndex);
+}
+
+/**
+ * Encode raw bytes as base64 without btoa/Buffer
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+    const parts: string[] = [];
+    let chunk = '';
+
+    for (let i = 0; i < bytes.length; i += 3) {
+        const a = bytes[i];
+        const b = i + 1 < bytes.length ? bytes[i + 1] : 0;
+        const c = i + 2 < bytes.length ? bytes[i + 2] : 0;
+        const triple = (a << 16) | (b << 8) | c;
+
+        chunk += BASE64_ALPHABET[(triple >> 18) & 63] + BASE64_ALPHABET[(triple >> 12) & 63];
+        chunk += i + 1 < bytes.length ? BASE64_ALPHABET[(triple >> 6) & 63] : '=';
+        chunk += i + 2 < bytes.length ? BASE64_ALPHABET[triple & 63] : '=';
+
+        // Join in blocks to avoid quadratic string growth on large images
+        if (chunk.length >= 8192) {
+            parts.push(chunk);
+            chunk = '';
+        }
+    }
+
+    parts.push(chunk);
+    return parts.join('');
+}
+
+function unfilterScanlines(raw: Uint8Array, height: number, stride: number, bpp: number): Uint8Array {
+    const out = new Uint8Array(height * stride);
+
+    for (let y = 0; y < height; y++) {
+        const filter = raw[y * (stride + 1)];
+        const src = y * (stride + 1) + 1;
+        const dst = y * stride;
+        const prev = dst - stride;
+
+        for (let x = 0; x < stride; x++) {
+            const value = raw[src + x];
+            const left = x >= bpp ? out[dst + x - bpp] : 0;
+            const up = y > 0 ? out[prev + x] : 0;
+            const upLeft = y > 0 && x >= bpp ? out[prev + x - bpp] : 0;
+
+            let result: number;
+            switch (filter) {
+                case 1: result = value + left; break;
+                case 2: result = value + up; break;
+                case 3: result = value + ((left + up) >> 1); break;
+                case 4: result = value + paeth(left, up, upLeft); break;
+                default: result = value;
+            }
+            out[dst + x] = result & 0xff;
+        }
+    }
+
+    return out;
+}
+
+function paeth(a: number, b: number, c: number): number {
+    const p = a + b - c;
+    const pa = Math.abs(p - a);
+    const pb = Math.abs(p - b);
+    const pc = Math.abs(p - c);
+    if (pa <= pb && pa <= pc) return a;
+    if (pb <= pc) return b;
+    return c;
+}
+
+function createChunk(type: string, data: Uint8Array): Uint8Array {
+    const chunk = new Uint8Array(12 + data.length);
+    writeUint32(chunk, 0, data.length);
+    for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+    chunk.set(data, 8);
+    writeUint32(chunk, 8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+    return chunk;
+}
+
+function crc32(bytes: Uint8Array): number {
+    let crc = 0xffffffff;
+    for (let i = 0; i < bytes.length; i++) {
+        crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+function concatBytes(chunks: Uint8Array[]): Uint8Array {
+    const total = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+    const result = new Uint8Array(total);
+    let offset = 0;
+    for (const chunk of chunks) {
+        result.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return result;
+}
+
+function readUint32(bytes: Uint8Array, offset: number): number {
+    return ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+}
+
+function readUint16(bytes: Uint8Array, offset: number): number {
+    return (bytes[offset] << 8) | bytes[offset + 1];
+}
+
+function writeUint32(bytes: Uint8Array, offset: number, value: number) {
+    bytes[offset] = (value >>> 24) & 0xff;
+    bytes[offset + 1] = (value >>> 16) & 0xff;
+    bytes[offset + 2] = (value >>> 8) & 0xff;
+    bytes[offset + 3] = value & 0xff;
+}
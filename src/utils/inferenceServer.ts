@@ -0,0 +1,214 @@
+import { INFERENCE_SERVER_DEFAULTS } from '../constants/aiConfig';
+
+// Import AsyncStorage or use memory storage
+let AsyncStorage: any;
+try {
+    AsyncStorage = require('@react-native-async-storage/async-storage').default;
+} catch (error) {
+    console.log('AsyncStorage not available, using memory storage');
+}
+
+// Expo constants tell us the dev machine's LAN address when running in Expo Go / dev client
+let Constants: any;
+try {
+    Constants = require('expo-constants').default;
+} catch (error) {
+    console.log('expo-constants not available, skipping dev machine discovery');
+}
+
+const SETTINGS_KEY = 'inference_server_settings';
+
+export interface InferenceServerConfig {
+    host: string;
+    port: number;
+    healthTimeoutMs: number;
+    generateTimeoutMs: number;
+    discoveryHosts: string[];   // Extra "host" or "host:port" entries probed by discovery
+}
+
+export interface InferenceServerInfo {
+    model: string;              // e.g. starvector/starvector-1b-im2svg
+    modelSize: '1b' | '8b' | null;
+    device: string;             // cpu, cuda, mps
+    loaded: boolean;
+}
+
+export interface DiscoveryResult {
+    host: string;
+    port: number;
+    info: InferenceServerInfo | null;
+    probed: string[];           // Every candidate that was tried, in order
+}
+
+// Loaded settings; null until first load
+let cachedConfig: InferenceServerConfig | null = null;
+
+export class InferenceServer {
+
+    /**
+     * Current settings merged over the defaults
+     */
+    static async load(): Promise<InferenceServerConfig> {
+        if (cachedConfig) return cachedConfig;
+
+        let stored: Partial<InferenceServerConfig> = {};
+        try {
+            const raw = AsyncStorage ? await AsyncStorage.getItem(SETTINGS_KEY) : null;
+            if (raw) stored = JSON.parse(raw);
+        } catch (error) {
+            console.error('Failed to load inference server settings:', error);
+        }
+
+        cachedConfig = { ...INFERENCE_SERVER_DEFAULTS, ...stored };
+        return cachedConfig;
+    }
+
+    /**
+     * Merge and persist settings
+     */
+    static async save(changes: Partial<InferenceServerConfig>): Promise<InferenceServerConfig> {
+        const config = { ...(await this.load()), ...changes };
+        cachedConfig = config;
+
+        try {
+            if (AsyncStorage) {
+                await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(config));
+            }
+        } catch (error) {
+            console.error('Failed to save inference server settings:', error);
+            throw new Error('Failed to save server settings');
+        }
+
+        return config;
+    }
+
+    static async reset(): Promise<InferenceServerConfig> {
+        cachedConfig = null;
+        if (AsyncStorage) await AsyncStorage.removeItem(SETTINGS_KEY);
+        return this.load();
+    }
+
+    static baseUrl(config: Pick<InferenceServerConfig, 'host' | 'port'>): string {
+        const host = config.host.replace(/^https?:\/\//, '').replace(/\/+$/, '');
+        return `http://${host}:${config.port}`;
+    }
+
+    /**
+     * True when the server answers /health with a loaded model
+     */
+    static async checkHealth(config?: InferenceServerConfig): Promise<boolean> {
+        const settings = config ?? await this.load();
+        try {
+            const response = await this.fetchWithTimeout(`${this.baseUrl(settings)}/health`, settings.healthTimeoutMs);
+            return response.ok;
+        } catch (error) {
+            return false;
+        }
+    }
+
+    /**
+     * Read /info to see which model and device the server runs; null when unreachable
+     */
+    static async getInfo(config?: InferenceServerConfig): Promise<InferenceServerInfo | null> {
+        const settings = config ?? await this.load();
+        try {
+            const response = await this.fetchWithTimeout(`${this.baseUrl(settings)}/info`, settings.healthTimeoutMs);
+            if (!response.ok) return null;
+
+            const info = await response.json();
+            const model = String(info.model ?? 'unknown');
+            const size = info.model_size ?? /(1b|8b)/i.exec(model)?.[1];
+            return {
+                model,
+                modelSize: size ? (String(size).toLowerCase() as '1b' | '8b') : null,
+                device: String(info.device ?? 'unknown'),
+                loaded: info.loaded !== false,
+            };
+        } catch (error) {
+            return null;
+        }
+    }
+
+    /**
+     * Probe the configured host, extra discovery hosts, the Expo dev machine and the
+     * Android emulator loopback. The first candidate (in that order) that answers wins
+     * and is saved as the server host.
+     */
+    static async discover(): Promise<DiscoveryResult | null> {
+        const config = await this.load();
+        const candidates = this.discoveryCandidates(config);
+        console.log(`📡 Probing ${candidates.length} inference server candidates...`);
+
+        // Probe in parallel, but prefer earlier candidates when several answer
+        const reachable = await Promise.all(candidates.map(async candidate => {
+            try {
+                const response = await this.fetchWithTimeout(`${this.baseUrl(candidate)}/health`, config.healthTimeoutMs);
+                // 503 means the server is up but still loading the model
+                return response.ok || response.status === 503;
+            } catch (error) {
+                return false;
+            }
+        }));
+
+        const probed = candidates.map(candidate => `${candidate.host}:${candidate.port}`);
+        const index = reachable.indexOf(true);
+        if (index === -1) {
+            console.log('📡 No inference server found');
+            return null;
+        }
+
+        const found = candidates[index];
+        const saved = await this.save({ host: found.host, port: found.port });
+        console.log(`📡 Inference server found at ${this.baseUrl(saved)}`);
+
+        return { host: found.host, port: found.port, info: await this.getInfo(saved), probed };
+    }
+
+    private static discoveryCandidates(config: InferenceServerConfig): { host: string; port: number }[] {
+        const entries = [config.host, ...config.discoveryHosts];
+
+        const devMachine = this.devMachineHost();
+        if (devMachine) entries.push(devMachine);
+        entries.push('10.0.2.2', 'localhost');
+
+        const seen = new Set<string>();
+        const candidates: { host: string; port: number }[] = [];
+        for (const entry of entries) {
+            const trimmed = entry.trim().replace(/^https?:\/\//, '').replace(/\/+$/, '');
+            if (!trimmed) continue;
+
+            const match = /^(.*):(\d+)$/.exec(trimmed);
+            const candidate = match ? { host: match[1], port: Number(match[2]) } : { host: trimmed, port: config.port };
+            const key = `${candidate.host}:${candidate.port}`;
+            if (!seen.has(key)) {
+                seen.add(key);
+                candidates.push(candidate);
+            }
+        }
+        return candidates;
+    }
+
+    /**
+     * LAN address of the machine serving the JS bundle (the one running the dev server)
+     */
+    private static devMachineHost(): string | null {
+        const hostUri: string | undefined =
+            Constants?.expoConfig?.hostUri ??
+            Constants?.expoGoConfig?.debuggerHost ??
+            Constants?.manifest2?.extra?.expoGo?.debuggerHost;
+        if (!hostUri) return null;
+
+        const host = hostUri.split(':')[0];
+        return host && host !== 'localhost' && host !== '127.0.0.1' ? host : null;
+    }
+
+    private static async fetchWithTimeout(url: string, timeoutMs: number, init: RequestInit = {}): Promise<Response> {
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+        try {
+            return await fetch(url, { ...init, signal: controller.signal });
+        } finally {
+            clearTimeout(timeoutId);
+        }
+    }
+}
@@ -0,0 +1,266 @@
+import { ImageCodec, PixelBuffer } from './imageCodec';
+import { EdgeDetector } from './edgeDetector';
+import { LINE_ART_DEFAULTS } from '../constants/aiConfig';
+
+export type ThresholdMethod = 'sauvola' | 'mean';
+
+export interface LineArtOptions {
+    method?: ThresholdMethod;
+    windowSize?: number;     // Local window in pixels (0 = auto)
+    sensitivity?: number;    // Sauvola k (0.1-0.5); for 'mean' scales the offset below the local mean
+    blurSigma?: number;      // Gaussian pre-blur (0 = none)
+    minSpeckleArea?: number; // Smallest ink blob / pinhole kept, in pixels
+    thinLines?: boolean;     // Skeletonize strokes to 1px
+}
+
+export interface LineArtResult {
+    buffer: PixelBuffer;
+    inkPixels: number;
+    speckleCount: number;
+}
+
+// Dynamic range of the standard deviation used by Sauvola's formula
+const SAUVOLA_RANGE = 128;
+
+export class LineArtConverter {
+
+    /**
+     * Convert pixels into black ink on a transparent background
+     */
+    static convert(buffer: PixelBuffer, options: LineArtOptions = {}): LineArtResult {
+        const settings = { ...LINE_ART_DEFAULTS, ...options };
+        const { width, height } = buffer;
+
+        let gray = EdgeDetector.toGrayscale(buffer);
+        if (settings.blurSigma > 0) {
+            gray = EdgeDetector.gaussianBlur(gray, width, height, settings.blurSigma);
+        }
+
+        let mask = this.adaptiveThreshold(gray, width, height, settings.method, settings.windowSize, settings.sensitivity);
+
+        let speckleCount = 0;
+        if (settings.minSpeckleArea > 0) {
+            const inkPass = this.removeSmallComponents(mask, width, height, 1, settings.minSpeckleArea);
+            const holePass = this.removeSmallComponents(inkPass.mask, width, height, 0, settings.minSpeckleArea);
+            mask = holePass.mask;
+            speckleCount = inkPass.removed + holePass.removed;
+        }
+
+        if (settings.thinLines) {
+            mask = this.thin(mask, width, height);
+        }
+
+        let inkPixels = 0;
+        for (let i = 0; i < mask.length; i++) inkPixels += mask[i];
+
+        return { buffer: this.render(mask, width, height), inkPixels, speckleCount };
+    }
+
+    /**
+     * Convert an image file to line art and save it as a transparent PNG
+     */
+    static async convertToLineArt(imageUri: string, options: LineArtOptions = {}): Promise<string> {
+        const source = await ImageCodec.loadForProcessing(imageUri);
+        const result = this.convert(source, options);
+
+        console.log(`🖊️ Line art: ${result.inkPixels} ink pixels, ${result.speckleCount} specks removed`);
+        return await ImageCodec.writePNG(result.buffer, 'lineart');
+    }
+
+    /**
+     * Threshold each pixel against statistics of its neighbourhood (1 = ink).
+     * Sauvola: T = m * (1 + k * (s / R - 1)); mean: T = m - k * 50
+     */
+    static adaptiveThreshold(
+        gray: Float32Array,
+        width: number,
+        height: number,
+        method: ThresholdMethod = 'sauvola',
+        windowSize: number = 0,
+        sensitivity: number = 0.2
+    ): Uint8Array {
+        const window = windowSize > 0 ? windowSize : Math.max(15, Math.round(Math.min(width, height) / 16));
+        const half = Math.floor(window / 2);
+        const { sum, sumSquares } = this.integralImages(gray, width, height);
+        const stride = width + 1;
+        const mask = new Uint8Array(width * height);
+
+        for (let y = 0; y < height; y++) {
+            const y0 = Math.max(0, y - half);
+            const y1 = Math.min(height, y + half + 1);
+
+            for (let x = 0; x < width; x++) {
+                const x0 = Math.max(0, x - half);
+                const x1 = Math.min(width, x + half + 1);
+                const area = (x1 - x0) * (y1 - y0);
+
+                const total = sum[y1 * stride + x1] - sum[y0 * stride + x1] - sum[y1 * stride + x0] + sum[y0 * stride + x0];
+                const mean = total / area;
+
+                let threshold: number;
+                if (method === 'sauvola') {
+                    const totalSquares = sumSquares[y1 * stride + x1] - sumSquares[y0 * stride + x1]
+                        - sumSquares[y1 * stride + x0] + sumSquares[y0 * stride + x0];
+                    const deviation = Math.sqrt(Math.max(0, totalSquares / area - mean * mean));
+                    threshold = mean * (1 + sensitivity * (deviation / SAUVOLA_RANGE - 1));
+                } else {
+                    threshold = mean - sensitivity * 50;
+                }
+
+                mask[y * width + x] = gray[y * width + x] < threshold ? 1 : 0;
+            }
+        }
+
+        return mask;
+    }
+
+    /**
+     * Clear 8-connected regions of `value` smaller than minArea (ink specks or pinholes).
+     * Background regions touching the border are never filled.
+     */
+    static removeSmallComponents(
+        mask: Uint8Array,
+        width: number,
+        height: number,
+        value: 0 | 1,
+        minArea: number
+    ): { mask: Uint8Array; removed: number } {
+        const output = mask.slice();
+        const visited = new Uint8Array(mask.length);
+        const stack: number[] = [];
+        const component: number[] = [];
+        let removed = 0;
+
+        for (let start = 0; start < mask.length; start++) {
+            if (visited[start] || mask[start] !== value) continue;
+
+            visited[start] = 1;
+            stack.push(start);
+            component.length = 0;
+            let touchesBorder = false;
+
+            while (stack.length > 0) {
+                const i = stack.pop()!;
+                component.push(i);
+                const x = i % width;
+                const y = (i - x) / width;
+                if (x === 0 || y === 0 || x === width - 1 || y === height - 1) touchesBorder = true;
+
+                for (let dy = -1; dy <= 1; dy++) {
+                    for (let dx = -1; dx <= 1; dx++) {
+                        const nx = x + dx;
+                        const ny = y + dy;
+                        if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+
+                        const j = ny * width + nx;
+                        if (!visited[j] && mask[j] === value) {
+                            visited[j] = 1;
+                            stack.push(j);
+                        }
+                    }
+                }
+            }
+
+            const keepBackground = value === 0 && touchesBorder;
+            if (component.length < minArea && !keepBackground) {
+                for (const i of component) output[i] = value === 1 ? 0 : 1;
+                removed++;
+            }
+        }
+
+        return { mask: output, removed };
+    }
+
+    /**
+     * Zhang-Suen thinning: peel stroke borders until only a 1px skeleton remains
+     */
+    static thin(mask: Uint8Array, width: number, height: number): Uint8Array {
+        const output = mask.slice();
+        const toClear: number[] = [];
+        let changed = true;
+
+        while (changed) {
+            changed = false;
+
+            for (let pass = 0; pass < 2; pass++) {
+                toClear.length = 0;
+
+                for (let y = 1; y < height - 1; y++) {
+                    for (let x = 1; x < width - 1; x++) {
+                        const i = y * width + x;
+                        if (!output[i]) continue;
+
+                        // Neighbours P2..P9, clockwise from north
+                        const p2 = output[i - width];
+                        const p3 = output[i - width + 1];
+                        const p4 = output[i + 1];
+                        const p5 = output[i + width + 1];
+                        const p6 = output[i + width];
+                        const p7 = output[i + width - 1];
+                        const p8 = output[i - 1];
+                        const p9 = output[i - width - 1];
+
+                        const neighbours = p2 + p3 + p4 + p5 + p6 + p7 + p8 + p9;
+                        if (neighbours < 2 || neighbours > 6) continue;
+
+                        const transitions =
+                            (p2 === 0 && p3 === 1 ? 1 : 0) + (p3 === 0 && p4 === 1 ? 1 : 0) +
+                            (p4 === 0 && p5 === 1 ? 1 : 0) + (p5 === 0 && p6 === 1 ? 1 : 0) +
+                            (p6 === 0 && p7 === 1 ? 1 : 0) + (p7 === 0 && p8 === 1 ? 1 : 0) +
+                            (p8 === 0 && p9 === 1 ? 1 : 0) + (p9 === 0 && p2 === 1 ? 1 : 0);
+                        if (transitions !== 1) continue;
+
+                        if (pass === 0) {
+                            if (p2 * p4 * p6 !== 0 || p4 * p6 * p8 !== 0) continue;
+                        } else {
+                            if (p2 * p4 * p8 !== 0 || p2 * p6 * p8 !== 0) continue;
+                        }
+
+                        toClear.push(i);
+                    }
+                }
+
+                for (const i of toClear) output[i] = 0;
+                if (toClear.length > 0) changed = true;
+            }
+        }
+
+        return output;
+    }
+
+    /**
+     * Draw an ink mask as opaque black on a transparent background
+     */
+    static render(mask: Uint8Array, width: number, height: number): PixelBuffer {
+        const output = ImageCodec.create(width, height, [0, 0, 0, 0]);
+
+        for (let i = 0; i < mask.length; i++) {
+            if (mask[i]) output.data[i * 4 + 3] = 255;
+        }
+
+        return output;
+    }
+
+    /**
+     * Summed-area tables of values and squared values, (width + 1) x (height + 1)
+     */
+    private static integralImages(gray: Float32Array, width: number, height: number) {
+        const stride = width + 1;
+        const sum = new Float64Array(stride * (height + 1));
+        const sumSquares = new Float64Array(stride * (height + 1));
+
+        for (let y = 0; y < height; y++) {
+            let rowSum = 0;
+            let rowSquares = 0;
+            for (let x = 0; x < width; x++) {
+                const value = gray[y * width + x];
+                rowSum += value;
+                rowSquares += value * value;
+                sum[(y + 1) * stride + x + 1] = sum[y * stride + x + 1] + rowSum;
+                sumSquares[(y + 1) * stride + x + 1] = sumSquares[y * stride + x + 1] + rowSquares;
+            }
+        }
+
+        return { sum, sumSquares };
+    }
+}
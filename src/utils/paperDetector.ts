@@ -0,0 +1,251 @@
+import { ImageCodec, PixelBuffer } from './imageCodec';
+import { EdgeDetector } from './edgeDetector';
+import { VectorTracer } from './vectorTracer';
+import { PerspectiveWarp, Point, Quad } from './perspectiveWarp';
+import { PAPER_DETECTION_DEFAULTS } from '../constants/aiConfig';
+
+export interface PaperDetectionOptions {
+    analysisWidth?: number;
+    minAreaFraction?: number;   // Smaller bright regions are not the page
+    minEdgeSupport?: number;    // Share of the outline that must lie on an edge to be confident
+}
+
+export interface PaperDetection {
+    quad: Quad;                 // Page corners in fractions of the image size (0-1)
+    area: number;               // Fraction of the image the page covers
+    edgeSupport: number;        // Share of the outline lying on a detected edge, 0-1
+    confident: boolean;         // edgeSupport >= minEdgeSupport
+}
+
+// Hull points kept for the quadrilateral search; the search is cubic in this
+const MAX_HULL_POINTS = 64;
+
+export class PaperDetector {
+
+    /**
+     * Find the page in a photo
+     */
+    static async detect(imageUri: string, options: PaperDetectionOptions = {}): Promise<PaperDetection | null> {
+        const settings = { ...PAPER_DETECTION_DEFAULTS, ...options };
+        const sample = await ImageCodec.loadForProcessing(imageUri, settings.analysisWidth);
+        const detection = this.analyze(sample, settings);
+        console.log(detection
+            ? `📄 Paper found: ${Math.round(detection.area * 100)}% of the photo, ${Math.round(detection.edgeSupport * 100)}% edge support`
+            : '📄 No paper found');
+        return detection;
+    }
+
+    /**
+     * The page is the largest bright region once ink is blurred away. Its outline (convex hull)
+     * is reduced to the largest inscribed quadrilateral, which is then checked against the
+     * image's edges.
+     */
+    static analyze(buffer: PixelBuffer, options: PaperDetectionOptions = {}): PaperDetection | null {
+        const settings = { ...PAPER_DETECTION_DEFAULTS, ...options };
+        const { width, height } = buffer;
+
+        // A heavy blur fills in pencil and ink so the page reads as one region
+        const gray = EdgeDetector.gaussianBlur(EdgeDetector.toGrayscale(buffer), width, height, Math.max(2, width / 100));
+        const luminance = Uint8Array.from(gray, value => Math.max(0, Math.min(255, Math.round(value))));
+        const threshold = VectorTracer.otsuThreshold(luminance);
+
+        const region = this.largestRegion(luminance, width, height, threshold);
+        if (!region || region.area < settings.minAreaFraction * width * height) return null;
+
+        const hull = this.simplifyHull(this.convexHull(region.points));
+        if (hull.length < 4) return null;
+
+        const corners = this.largestQuad(hull);
+        if (!PerspectiveWarp.isConvex(corners)) return null;
+
+        const edgeSupport = this.edgeSupport(buffer, corners);
+        return {
+            quad: corners.map(p => ({ x: p.x / width, y: p.y / height })) as Quad,
+            area: this.quadArea(corners) / (width * height),
+            edgeSupport,
+            confident: edgeSupport >= settings.minEdgeSupport,
+        };
+    }
+
+    /**
+     * Largest 4-connected region brighter than the threshold; returns its left- and
+     * rightmost pixel in each row (enough for the convex hull)
+     */
+    private static largestRegion(luminance: Uint8Array, width: number, height: number, threshold: number): { area: number; points: Point[] } | null {
+        const labels = new Int32Array(luminance.length).fill(-1);
+        const stack: number[] = [];
+        let best = -1;
+        let bestArea = 0;
+        let label = 0;
+
+        for (let start = 0; start < luminance.length; start++) {
+            if (luminance[start] <= threshold || labels[start] >= 0) continue;
+
+            labels[start] = label;
+            stack.push(start);
+            let area = 0;
+            while (stack.length > 0) {
+                const i = stack.pop()!;
+                area++;
+                const x = i % width;
+                const neighbours = [x > 0 ? i - 1 : -1, x < width - 1 ? i + 1 : -1, i - width, i + width];
+                for (const j of neighbours) {
+                    if (j < 0 || j >= luminance.length || labels[j] >= 0 || luminance[j] <= threshold) continue;
+                    labels[j] = label;
+                    stack.push(j);
+                }
+            }
+
+            if (area > bestArea) {
+                bestArea = area;
+                best = label;
+            }
+            label++;
+        }
+
+        if (best < 0) return null;
+
+        const points: Point[] = [];
+        for (let y = 0; y < height; y++) {
+            let left = -1;
+            let right = -1;
+            for (let x = 0; x < width; x++) {
+                if (labels[y * width + x] !== best) continue;
+                if (left < 0) left = x;
+                right = x;
+            }
+            if (left >= 0) {
+                points.push({ x: left, y }, { x: right + 1, y }, { x: left, y: y + 1 }, { x: right + 1, y: y + 1 });
+            }
+        }
+        return { area: bestArea, points };
+    }
+
+    /**
+     * Monotone chain convex hull
+     */
+    private static convexHull(points: Point[]): Point[] {
+        const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y);
+        const cross = (o: Point, a: Point, b: Point) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+        const lower: Point[] = [];
+        for (const p of sorted) {
+            while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], p) >= 0) lower.pop();
+            lower.push(p);
+        }
+        const upper: Point[] = [];
+        for (let i = sorted.length - 1; i >= 0; i--) {
+            const p = sorted[i];
+            while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], p) >= 0) upper.pop();
+            upper.push(p);
+        }
+        return [...lower.slice(0, -1), ...upper.slice(0, -1)];
+    }
+
+    /**
+     * Drop the hull points that bend least until at most MAX_HULL_POINTS remain
+     */
+    private static simplifyHull(hull: Point[]): Point[] {
+        const points = [...hull];
+        const bend = (i: number) => {
+            const p = points[(i - 1 + points.length) % points.length];
+            const q = points[i];
+            const r = points[(i + 1) % points.length];
+            return Math.abs((q.x - p.x) * (r.y - p.y) - (q.y - p.y) * (r.x - p.x));
+        };
+        while (points.length > MAX_HULL_POINTS) {
+            let flattest = 0;
+            for (let i = 1; i < points.length; i++) {
+                if (bend(i) < bend(flattest)) flattest = i;
+            }
+            points.splice(flattest, 1);
+        }
+        return points;
+    }
+
+    /**
+     * Largest-area quadrilateral with corners on the hull: for each diagonal, the farthest
+     * hull point on either side
+     */
+    private static largestQuad(hull: Point[]): Quad {
+        const n = hull.length;
+        const triangle = (a: Point, b: Point, c: Point) => Math.abs((b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x)) / 2;
+        let best: Point[] = hull.slice(0, 4);
+        let bestArea = -1;
+
+        for (let i = 0; i < n; i++) {
+            for (let k = i + 2; k < n; k++) {
+                let left = -1;
+                let leftArea = -1;
+                for (let j = i + 1; j < k; j++) {
+                    const area = triangle(hull[i], hull[j], hull[k]);
+                    if (area > leftArea) {
+                        leftArea = area;
+                        left = j;
+                    }
+                }
+                let right = -1;
+                let rightArea = -1;
+                for (let j = k + 1; j < n + i; j++) {
+                    const area = triangle(hull[i], hull[j % n], hull[k]);
+                    if (area > rightArea) {
+                        rightArea = area;
+                        right = j % n;
+                    }
+                }
+                if (left < 0 || right < 0) continue;
+
+                if (leftArea + rightArea > bestArea) {
+                    bestArea = leftArea + rightArea;
+                    best = [hull[i], hull[left], hull[k], hull[right]];
+                }
+            }
+        }
+        return PerspectiveWarp.orderCorners(best);
+    }
+
+    /**
+     * Share of points sampled along the outline that have an edge pixel within 2px
+     */
+    private static edgeSupport(buffer: PixelBuffer, quad: Quad): number {
+        const { width, height, edges } = EdgeDetector.detect(buffer, { algorithm: 'canny', lineThickness: 1 });
+        const nearEdge = (x: number, y: number) => {
+            for (let dy = -2; dy <= 2; dy++) {
+                for (let dx = -2; dx <= 2; dx++) {
+                    const nx = Math.round(x) + dx;
+                    const ny = Math.round(y) + dy;
+                    if (nx >= 0 && ny >= 0 && nx < width && ny < height && edges[ny * width + nx]) return true;
+                }
+            }
+            return false;
+        };
+
+        let samples = 0;
+        let supported = 0;
+        for (let side = 0; side < 4; side++) {
+            const p = quad[side];
+            const q = quad[(side + 1) % 4];
+            const steps = Math.max(1, Math.round(Math.hypot(q.x - p.x, q.y - p.y) / 2));
+            for (let s = 0; s < steps; s++) {
+                const t = (s + 0.5) / steps;
+                const x = p.x + (q.x - p.x) * t;
+                const y = p.y + (q.y - p.y) * t;
+                // Sides along the photo's border have no edge to find; they neither help nor hurt
+                if (x < 3 || y < 3 || x > width - 4 || y > height - 4) continue;
+                samples++;
+                if (nearEdge(x, y)) supported++;
+            }
+        }
+        return samples === 0 ? 0 : supported / samples;
+    }
+
+    private static quadArea(quad: Quad): number {
+        let area = 0;
+        for (let i = 0; i < 4; i++) {
+            const p = quad[i];
+            const q = quad[(i + 1) % 4];
+            area += p.x * q.y - q.x * p.y;
+        }
+        return Math.abs(area) / 2;
+    }
+}
@@ -0,0 +1,506 @@
+import { SvgParser, SvgNode, PathCommand } from './svgParser';
+import { PATH_SIMPLIFY_DEFAULTS } from '../constants/aiConfig';
+
+export interface PathSimplifyOptions {
+    tolerance?: number;         // Max deviation, as a fraction of the drawing's larger side (0 disables)
+    cornerAngle?: number;       // Turns sharper than this (degrees) stay corners instead of being smoothed
+    fitCurves?: boolean;        // Fit cubic Béziers through the kept points; false keeps straight segments
+    precision?: number;         // Decimals written to the path data
+}
+
+export interface PathSimplifyReport {
+    pathsSimplified: number;
+    nodesBefore: number;
+    nodesAfter: number;
+}
+
+export interface Point {
+    x: number;
+    y: number;
+}
+
+type Bezier = [Point, Point, Point, Point];
+
+export class PathSimplifier {
+
+    /**
+     * Reduce the node count of every path, polyline and polygon in an SVG.
+     * Paths are only rewritten when the result has fewer nodes.
+     */
+    static simplify(svgCode: string, options: PathSimplifyOptions = {}): { svgCode: string; report: PathSimplifyReport } {
+        const settings = { ...PATH_SIMPLIFY_DEFAULTS, ...options };
+        const report: PathSimplifyReport = { pathsSimplified: 0, nodesBefore: 0, nodesAfter: 0 };
+
+        const root = SvgParser.parse(svgCode);
+        if (settings.tolerance <= 0) {
+            this.countNodes(root, report);
+            return { svgCode, report };
+        }
+
+        const tolerance = settings.tolerance * this.drawingSize(root);
+        this.visit(root, 1, tolerance, settings, report);
+
+        return { svgCode: SvgParser.serialize(root), report };
+    }
+
+    /**
+     * Simplify path commands. Subpaths with arcs are kept as they are.
+     */
+    static simplifyCommands(commands: PathCommand[], tolerance: number, options: PathSimplifyOptions = {}): PathCommand[] {
+        const settings = { ...PATH_SIMPLIFY_DEFAULTS, ...options };
+        const output: PathCommand[] = [];
+
+        for (const subpath of this.splitSubpaths(commands)) {
+            if (subpath.some(command => command.type === 'A')) {
+                output.push(...subpath);
+                continue;
+            }
+
+            const closed = subpath[subpath.length - 1].type === 'Z';
+            const points = this.flatten(subpath, tolerance);
+            if (closed && points.length > 1 && !this.samePoint(points[0], points[points.length - 1])) {
+                points.push({ ...points[0] });
+            }
+
+            const simplified = points.length < 3
+                ? subpath
+                : this.simplifySubpath(points, closed, tolerance, settings.cornerAngle, settings.fitCurves);
+
+            output.push(...(this.nodeCount(simplified) < this.nodeCount(subpath) ? simplified : subpath));
+        }
+
+        return output;
+    }
+
+    /**
+     * Ramer–Douglas–Peucker: indices of the points to keep so that no dropped point
+     * is further than tolerance from the resulting polyline
+     */
+    static rdp(points: Point[], tolerance: number): number[] {
+        if (points.length < 3) return points.map((_, index) => index);
+
+        const keep = new Uint8Array(points.length);
+        keep[0] = 1;
+        keep[points.length - 1] = 1;
+
+        // Explicit stack: traced outlines can have thousands of points
+        const stack: [number, number][] = [[0, points.length - 1]];
+        while (stack.length > 0) {
+            const [first, last] = stack.pop()!;
+            let maxDistance = 0;
+            let index = -1;
+
+            for (let i = first + 1; i < last; i++) {
+                const distance = this.segmentDistance(points[i], points[first], points[last]);
+                if (distance > maxDistance) {
+                    maxDistance = distance;
+                    index = i;
+                }
+            }
+
+            if (index !== -1 && maxDistance > tolerance) {
+                keep[index] = 1;
+                stack.push([first, index], [index, last]);
+            }
+        }
+
+        const indices: number[] = [];
+        keep.forEach((flag, index) => flag && indices.push(index));
+        return indices;
+    }
+
+    /**
+     * Human-readable node reduction, e.g. "1204 → 312 nodes (-74%)"
+     */
+    static describe(report: PathSimplifyReport): string {
+        const saved = report.nodesBefore > 0 ? Math.round((1 - report.nodesAfter / report.nodesBefore) * 100) : 0;
+        return `${report.nodesBefore} → ${report.nodesAfter} nodes (-${saved}%)`;
+    }
+
+    private static visit(node: SvgNode, parentScale: number, tolerance: number, settings: Required<PathSimplifyOptions>, report: PathSimplifyReport) {
+        const scale = parentScale * SvgParser.transformScale(node.attributes.transform);
+        // Tolerance is in root units; convert it to this element's own units
+        const localTolerance = tolerance / scale;
+
+        if (node.name === 'path') {
+            const commands = SvgParser.parsePathData(node.attributes.d || '');
+            const before = this.nodeCount(commands);
+            const simplified = this.simplifyCommands(commands, localTolerance, settings);
+            const after = this.nodeCount(simplified);
+
+            report.nodesBefore += before;
+            if (after < before) {
+                node.attributes.d = SvgParser.formatPathData(simplified, settings.precision);
+                report.pathsSimplified++;
+                report.nodesAfter += after;
+            } else {
+                report.nodesAfter += before;
+            }
+        } else if (node.name === 'polyline' || node.name === 'polygon') {
+            const values = (node.attributes.points || '').split(/[\s,]+/).filter(Boolean).map(parseFloat);
+            const points: Point[] = [];
+            for (let k = 0; k + 1 < values.length; k += 2) points.push({ x: values[k], y: values[k + 1] });
+
+            const kept = this.rdp(points, localTolerance);
+            report.nodesBefore += points.length;
+            report.nodesAfter += kept.length;
+            if (kept.length < points.length) {
+                node.attributes.points = kept
+                    .map(index => `${this.round(points[index].x, settings.precision)},${this.round(points[index].y, settings.precision)}`)
+                    .join(' ');
+                report.pathsSimplified++;
+            }
+        }
+
+        node.children.forEach(child => this.visit(child, scale, tolerance, settings, report));
+    }
+
+    private static simplifySubpath(points: Point[], closed: boolean, tolerance: number, cornerAngle: number, fitCurves: boolean): PathCommand[] {
+        const kept = this.rdp(points, tolerance);
+        const commands: PathCommand[] = [{ type: 'M', x: points[0].x, y: points[0].y }];
+
+        if (!fitCurves || kept.length <= 2) {
+            for (const index of kept.slice(1, closed ? -1 : undefined)) {
+                commands.push({ type: 'L', x: points[index].x, y: points[index].y });
+            }
+            if (closed) commands.push({ type: 'Z' });
+            return commands;
+        }
+
+        // Corners split the outline into runs that are each fitted with smooth curves
+        const cornerCosine = Math.cos((cornerAngle * Math.PI) / 180);
+        const breaks = [kept[0]];
+        for (let k = 1; k < kept.length - 1; k++) {
+            if (this.turnCosine(points[kept[k - 1]], points[kept[k]], points[kept[k + 1]]) < cornerCosine) {
+                breaks.push(kept[k]);
+            }
+        }
+        breaks.push(kept[kept.length - 1]);
+
+        for (let b = 0; b < breaks.length - 1; b++) {
+            const first = breaks[b];
+            const last = breaks[b + 1];
+            const runKept = kept.filter(index => index >= first && index <= last);
+
+            if (runKept.length === 2) {
+                commands.push({ type: 'L', x: points[last].x, y: points[last].y });
+                continue;
+            }
+
+            const curves: Bezier[] = [];
+            const tHat1 = this.normalize(this.subtract(points[runKept[1]], points[first]));
+            const tHat2 = this.normalize(this.subtract(points[runKept[runKept.length - 2]], points[last]));
+            this.fitCubic(points, first, last, tHat1, tHat2, tolerance * tolerance, curves, 0);
+
+            if (curves.length < runKept.length - 1) {
+                for (const [, c1, c2, end] of curves) {
+                    commands.push({ type: 'C', x1: c1.x, y1: c1.y, x2: c2.x, y2: c2.y, x: end.x, y: end.y });
+                }
+            } else {
+                for (const index of runKept.slice(1)) {
+                    commands.push({ type: 'L', x: points[index].x, y: points[index].y });
+                }
+            }
+        }
+
+        if (closed) {
+            // The closing segment is implied by Z when it is a straight line back to the start
+            const last = commands[commands.length - 1];
+            if (last.type === 'L' && this.samePoint(last, points[0])) commands.pop();
+            commands.push({ type: 'Z' });
+        }
+        return commands;
+    }
+
+    // ---------------------------------------------------------------------
+    // Curve fitting (Schneider, "An Algorithm for Automatically Fitting Digitized Curves", Graphics Gems 1990)
+    // ---------------------------------------------------------------------
+
+    private static fitCubic(points: Point[], first: number, last: number, tHat1: Point, tHat2: Point, errorSq: number, out: Bezier[], depth: number) {
+        const p0 = points[first];
+        const p3 = points[last];
+
+        if (last - first === 1 || depth > 32) {
+            const distance = this.distance(p0, p3) / 3;
+            out.push([p0, this.add(p0, this.scale(tHat1, distance)), this.add(p3, this.scale(tHat2, distance)), p3]);
+            return;
+        }
+
+        let u = this.chordLengthParameterize(points, first, last);
+        let bezier = this.generateBezier(points, first, last, u, tHat1, tHat2);
+        let { maxError, split } = this.maxError(points, first, last, bezier, u);
+
+        if (maxError < errorSq) {
+            out.push(bezier);
+            return;
+        }
+
+        // Close enough that re-parameterizing may get the curve within tolerance
+        if (maxError < errorSq * 4) {
+            for (let iteration = 0; iteration < 4; iteration++) {
+                u = this.reparameterize(points, first, last, u, bezier);
+                bezier = this.generateBezier(points, first, last, u, tHat1, tHat2);
+                ({ maxError, split } = this.maxError(points, first, last, bezier, u));
+                if (maxError < errorSq) {
+                    out.push(bezier);
+                    return;
+                }
+            }
+        }
+
+        const tCenter = this.normalize(this.subtract(points[split - 1], points[split + 1]));
+        this.fitCubic(points, first, split, tHat1, tCenter, errorSq, out, depth + 1);
+        this.fitCubic(points, split, last, this.scale(tCenter, -1), tHat2, errorSq, out, depth + 1);
+    }
+
+    /**
+     * Least-squares control point distances along the end tangents
+     */
+    private static generateBezier(points: Point[], first: number, last: number, u: number[], tHat1: Point, tHat2: Point): Bezier {
+        const p0 = points[first];
+        const p3 = points[last];
+        let c00 = 0, c01 = 0, c11 = 0, x0 = 0, x1 = 0;
+
+        for (let i = 0; i < u.length; i++) {
+            const t = u[i];
+            const mt = 1 - t;
+            const b0 = mt * mt * mt;
+            const b1 = 3 * mt * mt * t;
+            const b2 = 3 * mt * t * t;
+            const b3 = t * t * t;
+            const a0 = this.scale(tHat1, b1);
+            const a1 = this.scale(tHat2, b2);
+
+            c00 += this.dot(a0, a0);
+            c01 += this.dot(a0, a1);
+            c11 += this.dot(a1, a1);
+
+            const point = points[first + i];
+            const tmp = {
+                x: point.x - (p0.x * (b0 + b1) + p3.x * (b2 + b3)),
+                y: point.y - (p0.y * (b0 + b1) + p3.y * (b2 + b3)),
+            };
+            x0 += this.dot(a0, tmp);
+            x1 += this.dot(a1, tmp);
+        }
+
+        const determinant = c00 * c11 - c01 * c01;
+        let alphaL = determinant !== 0 ? (x0 * c11 - x1 * c01) / determinant : 0;
+        let alphaR = determinant !== 0 ? (c00 * x1 - c01 * x0) / determinant : 0;
+
+        // Degenerate fits fall back to the Wu/Barsky heuristic
+        const segmentLength = this.distance(p0, p3);
+        const epsilon = 1e-6 * segmentLength;
+        if (alphaL < epsilon || alphaR < epsilon) {
+            alphaL = alphaR = segmentLength / 3;
+        }
+
+        return [p0, this.add(p0, this.scale(tHat1, alphaL)), this.add(p3, this.scale(tHat2, alphaR)), p3];
+    }
+
+    /**
+     * One Newton-Raphson step per point towards the closest parameter on the curve
+     */
+    private static reparameterize(points: Point[], first: number, last: number, u: number[], bezier: Bezier): number[] {
+        return u.map((t, i) => {
+            const point = points[first + i];
+            const q = this.bezierPoint(bezier, t);
+            const q1 = this.bezierDerivative(bezier, t);
+            const q2 = this.bezierSecondDerivative(bezier, t);
+            const numerator = (q.x - point.x) * q1.x + (q.y - point.y) * q1.y;
+            const denominator = q1.x * q1.x + q1.y * q1.y + (q.x - point.x) * q2.x + (q.y - point.y) * q2.y;
+            if (denominator === 0) return t;
+            return Math.min(1, Math.max(0, t - numerator / denominator));
+        });
+    }
+
+    private static maxError(points: Point[], first: number, last: number, bezier: Bezier, u: number[]): { maxError: number; split: number } {
+        let maxError = 0;
+        let split = Math.floor((first + last) / 2);
+
+        for (let i = first + 1; i < last; i++) {
+            const q = this.bezierPoint(bezier, u[i - first]);
+            const dx = q.x - points[i].x;
+            const dy = q.y - points[i].y;
+            const error = dx * dx + dy * dy;
+            if (error >= maxError) {
+                maxError = error;
+                split = i;
+            }
+        }
+        return { maxError, split };
+    }
+
+    private static chordLengthParameterize(points: Point[], first: number, last: number): number[] {
+        const u = [0];
+        for (let i = first + 1; i <= last; i++) {
+            u.push(u[u.length - 1] + this.distance(points[i], points[i - 1]));
+        }
+        const total = u[u.length - 1] || 1;
+        return u.map(value => value / total);
+    }
+
+    private static bezierPoint([p0, p1, p2, p3]: Bezier, t: number): Point {
+        const mt = 1 - t;
+        const a = mt * mt * mt;
+        const b = 3 * mt * mt * t;
+        const c = 3 * mt * t * t;
+        const d = t * t * t;
+        return { x: a * p0.x + b * p1.x + c * p2.x + d * p3.x, y: a * p0.y + b * p1.y + c * p2.y + d * p3.y };
+    }
+
+    private static bezierDerivative([p0, p1, p2, p3]: Bezier, t: number): Point {
+        const mt = 1 - t;
+        return {
+            x: 3 * (mt * mt * (p1.x - p0.x) + 2 * mt * t * (p2.x - p1.x) + t * t * (p3.x - p2.x)),
+            y: 3 * (mt * mt * (p1.y - p0.y) + 2 * mt * t * (p2.y - p1.y) + t * t * (p3.y - p2.y)),
+        };
+    }
+
+    private static bezierSecondDerivative([p0, p1, p2, p3]: Bezier, t: number): Point {
+        return {
+            x: 6 * ((1 - t) * (p2.x - 2 * p1.x + p0.x) + t * (p3.x - 2 * p2.x + p1.x)),
+            y: 6 * ((1 - t) * (p2.y - 2 * p1.y + p0.y) + t * (p3.y - 2 * p2.y + p1.y)),
+        };
+    }
+
+    // ---------------------------------------------------------------------
+    // Helpers
+    // ---------------------------------------------------------------------
+
+    /**
+     * Sample a subpath into points, finely enough that flattening error stays well under tolerance
+     */
+    private static flatten(subpath: PathCommand[], tolerance: number): Point[] {
+        const points: Point[] = [];
+        let x = 0;
+        let y = 0;
+
+        const push = (px: number, py: number) => {
+            const previous = points[points.length - 1];
+            if (!previous || previous.x !== px || previous.y !== py) points.push({ x: px, y: py });
+        };
+        const segments = (length: number) =>
+            Math.max(2, Math.min(64, Math.ceil(Math.sqrt(length / Math.max(tolerance / 4, 1e-6)))));
+
+        for (const command of subpath) {
+            switch (command.type) {
+                case 'M':
+                case 'L':
+                    push(command.x, command.y);
+                    break;
+                case 'C': {
+                    const curve: Bezier = [{ x, y }, { x: command.x1, y: command.y1 }, { x: command.x2, y: command.y2 }, { x: command.x, y: command.y }];
+                    const n = segments(this.distance(curve[0], curve[1]) + this.distance(curve[1], curve[2]) + this.distance(curve[2], curve[3]));
+                    for (let k = 1; k <= n; k++) {
+                        const point = this.bezierPoint(curve, k / n);
+                        push(point.x, point.y);
+                    }
+                    break;
+                }
+                case 'Q': {
+                    const n = segments(Math.hypot(command.x1 - x, command.y1 - y) + Math.hypot(command.x - command.x1, command.y - command.y1));
+                    for (let k = 1; k <= n; k++) {
+                        const t = k / n;
+                        const mt = 1 - t;
+                        push(
+                            mt * mt * x + 2 * mt * t * command.x1 + t * t * command.x,
+                            mt * mt * y + 2 * mt * t * command.y1 + t * t * command.y
+                        );
+                    }
+                    break;
+                }
+            }
+
+            if (command.type !== 'Z' && command.type !== 'A') {
+                x = command.x;
+                y = command.y;
+            }
+        }
+
+        return points;
+    }
+
+    private static splitSubpaths(commands: PathCommand[]): PathCommand[][] {
+        const subpaths: PathCommand[][] = [];
+        for (const command of commands) {
+            if (command.type === 'M' || subpaths.length === 0) subpaths.push([]);
+            subpaths[subpaths.length - 1].push(command);
+        }
+        return subpaths;
+    }
+
+    /**
+     * Nodes an artist would have to edit: every command except closepath
+     */
+    private static nodeCount(commands: PathCommand[]): number {
+        return commands.filter(command => command.type !== 'Z').length;
+    }
+
+    private static countNodes(node: SvgNode, report: PathSimplifyReport) {
+        if (node.name === 'path') {
+            const count = this.nodeCount(SvgParser.parsePathData(node.attributes.d || ''));
+            report.nodesBefore += count;
+            report.nodesAfter += count;
+        }
+        node.children.forEach(child => this.countNodes(child, report));
+    }
+
+    private static drawingSize(root: SvgNode): number {
+        const viewBox = (root.attributes.viewBox || '').trim().split(/[\s,]+/).map(Number);
+        if (viewBox.length === 4 && viewBox[2] > 0 && viewBox[3] > 0) return Math.max(viewBox[2], viewBox[3]);
+        return Math.max(parseFloat(root.attributes.width) || 0, parseFloat(root.attributes.height) || 0) || 512;
+    }
+
+    /**
+     * Cosine of the angle between the incoming and outgoing directions at b (1 = straight on)
+     */
+    private static turnCosine(a: Point, b: Point, c: Point): number {
+        const incoming = this.normalize(this.subtract(b, a));
+        const outgoing = this.normalize(this.subtract(c, b));
+        return this.dot(incoming, outgoing);
+    }
+
+    private static segmentDistance(point: Point, a: Point, b: Point): number {
+        const dx = b.x - a.x;
+        const dy = b.y - a.y;
+        const lengthSq = dx * dx + dy * dy;
+        if (lengthSq === 0) return this.distance(point, a);
+
+        const t = Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSq));
+        return Math.hypot(point.x - (a.x + t * dx), point.y - (a.y + t * dy));
+    }
+
+    private static samePoint(a: Point, b: Point): boolean {
+        return Math.abs(a.x - b.x) < 1e-9 && Math.abs(a.y - b.y) < 1e-9;
+    }
+
+    private static round(value: number, precision: number): number {
+        return Number(value.toFixed(precision));
+    }
+
+    private static add(a: Point, b: Point): Point {
+        return { x: a.x + b.x, y: a.y + b.y };
+    }
+
+    private static subtract(a: Point, b: Point): Point {
+        return { x: a.x - b.x, y: a.y - b.y };
+    }
+
+    private static scale(a: Point, factor: number): Point {
+        return { x: a.x * factor, y: a.y * factor };
+    }
+
+    private static dot(a: Point, b: Point): number {
+        return a.x * b.x + a.y * b.y;
+    }
+
+    private static distance(a: Point, b: Point): number {
+        return Math.hypot(a.x - b.x, a.y - b.y);
+    }
+
+    private static normalize(a: Point): Point {
+        const length = Math.hypot(a.x, a.y);
+        return length > 0 ? { x: a.x / length, y: a.y / length } : { x: 0, y: 0 };
+    }
+}
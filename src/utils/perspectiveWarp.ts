@@ -0,0 +1,174 @@
+import { ImageCodec, PixelBuffer } from './imageCodec';
+import { PERSPECTIVE_WARP_DEFAULTS } from '../constants/aiConfig';
+
+export interface Point {
+    x: number;
+    y: number;
+}
+
+/**
+ * Corners in order: top-left, top-right, bottom-right, bottom-left
+ */
+export type Quad = [Point, Point, Point, Point];
+
+export interface PerspectiveWarpOptions {
+    maxSourceWidth?: number;    // The photo is decoded at most this wide before warping
+    maxOutputSize?: number;     // Longest side of the flattened image
+}
+
+export class PerspectiveWarp {
+
+    /**
+     * 3x3 homography (row-major, h[8] = 1) mapping each corner of `from` onto `to`
+     */
+    static homography(from: Quad, to: Quad): number[] {
+        const a: number[][] = [];
+        const b: number[] = [];
+        for (let i = 0; i < 4; i++) {
+            const { x, y } = from[i];
+            const { x: u, y: v } = to[i];
+            a.push([x, y, 1, 0, 0, 0, -u * x, -u * y]);
+            b.push(u);
+            a.push([0, 0, 0, x, y, 1, -v * x, -v * y]);
+            b.push(v);
+        }
+        return [...this.solve(a, b), 1];
+    }
+
+    static apply(h: number[], point: Point): Point {
+        const w = h[6] * point.x + h[7] * point.y + h[8];
+        return {
+            x: (h[0] * point.x + h[1] * point.y + h[2]) / w,
+            y: (h[3] * point.x + h[4] * point.y + h[5]) / w,
+        };
+    }
+
+    /**
+     * Sort four points into top-left, top-right, bottom-right, bottom-left
+     */
+    static orderCorners(points: Point[]): Quad {
+        const cx = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+        const cy = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+        // Clockwise on screen (y down), starting from the corner up and to the left of the centre
+        const sorted = [...points].sort((p, q) => Math.atan2(p.y - cy, p.x - cx) - Math.atan2(q.y - cy, q.x - cx));
+        const start = sorted.reduce((best, p, i) => (p.x + p.y < sorted[best].x + sorted[best].y ? i : best), 0);
+        return [0, 1, 2, 3].map(i => sorted[(start + i) % 4]) as Quad;
+    }
+
+    /**
+     * True when the corners form a convex quadrilateral in clockwise order (no crossed sides)
+     */
+    static isConvex(quad: Quad): boolean {
+        for (let i = 0; i < 4; i++) {
+            const p = quad[i];
+            const q = quad[(i + 1) % 4];
+            const r = quad[(i + 2) % 4];
+            const cross = (q.x - p.x) * (r.y - q.y) - (q.y - p.y) * (r.x - q.x);
+            if (cross <= 0) return false;
+        }
+        return true;
+    }
+
+    /**
+     * Size of the flattened rectangle: the longer of each pair of opposite sides
+     */
+    static outputSize(quad: Quad, maxSize: number = Infinity): { width: number; height: number } {
+        const length = (p: Point, q: Point) => Math.hypot(q.x - p.x, q.y - p.y);
+        let width = Math.max(length(quad[0], quad[1]), length(quad[3], quad[2]));
+        let height = Math.max(length(quad[0], quad[3]), length(quad[1], quad[2]));
+
+        const scale = Math.min(1, maxSize / Math.max(width, height));
+        width = Math.max(1, Math.round(width * scale));
+        height = Math.max(1, Math.round(height * scale));
+        return { width, height };
+    }
+
+    /**
+     * Map the quad (in the buffer's pixels) onto a width x height rectangle, sampling bilinearly
+     */
+    static warp(buffer: PixelBuffer, quad: Quad, width: number, height: number): PixelBuffer {
+        const target: Quad = [{ x: 0, y: 0 }, { x: width, y: 0 }, { x: width, y: height }, { x: 0, y: height }];
+        // Walk the output and look up where each pixel came from
+        const h = this.homography(target, quad);
+        const output = ImageCodec.create(width, height);
+        const { data } = buffer;
+        const maxX = buffer.width - 1;
+        const maxY = buffer.height - 1;
+
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                const source = this.apply(h, { x: x + 0.5, y: y + 0.5 });
+                const sx = Math.max(0, Math.min(maxX, source.x - 0.5));
+                const sy = Math.max(0, Math.min(maxY, source.y - 0.5));
+                const x0 = Math.floor(sx);
+                const y0 = Math.floor(sy);
+                const x1 = Math.min(maxX, x0 + 1);
+                const y1 = Math.min(maxY, y0 + 1);
+                const fx = sx - x0;
+                const fy = sy - y0;
+
+                const o = (y * width + x) * 4;
+                for (let c = 0; c < 4; c++) {
+                    const top = data[(y0 * buffer.width + x0) * 4 + c] * (1 - fx) + data[(y0 * buffer.width + x1) * 4 + c] * fx;
+                    const bottom = data[(y1 * buffer.width + x0) * 4 + c] * (1 - fx) + data[(y1 * buffer.width + x1) * 4 + c] * fx;
+                    output.data[o + c] = top * (1 - fy) + bottom * fy;
+                }
+            }
+        }
+
+        return output;
+    }
+
+    /**
+     * Flatten the part of a photo inside a quad (corners in fractions of the image size, 0-1)
+     * and save it as PNG
+     */
+    static async correct(imageUri: string, quad: Quad, options: PerspectiveWarpOptions = {}): Promise<string> {
+        const settings = { ...PERSPECTIVE_WARP_DEFAULTS, ...options };
+        const source = await ImageCodec.loadForProcessing(imageUri, settings.maxSourceWidth);
+        return await ImageCodec.writePNG(this.flatten(source, quad, settings.maxOutputSize), 'perspective');
+    }
+
+    /**
+     * Flatten the part of a buffer inside a quad given in fractions of its size
+     */
+    static flatten(source: PixelBuffer, quad: Quad, maxOutputSize: number = PERSPECTIVE_WARP_DEFAULTS.maxOutputSize): PixelBuffer {
+        const corners = quad.map(p => ({ x: p.x * source.width, y: p.y * source.height })) as Quad;
+        const size = this.outputSize(corners, maxOutputSize);
+
+        console.log(`📐 Perspective warp: ${source.width}x${source.height} → ${size.width}x${size.height}`);
+        return this.warp(source, corners, size.width, size.height);
+    }
+
+    /**
+     * Gaussian elimination with partial pivoting
+     */
+    private static solve(a: number[][], b: number[]): number[] {
+        const n = b.length;
+        const m = a.map((row, i) => [...row, b[i]]);
+
+        for (let col = 0; col < n; col++) {
+            let pivot = col;
+            for (let row = col + 1; row < n; row++) {
+                if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+            }
+            if (Math.abs(m[pivot][col]) < 1e-12) {
+                throw new Error('Corners are degenerate; three of them lie on one line');
+            }
+            [m[col], m[pivot]] = [m[pivot], m[col]];
+
+            for (let row = col + 1; row < n; row++) {
+                const factor = m[row][col] / m[col][col];
+                for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k];
+            }
+        }
+
+        const x = new Array(n).fill(0);
+        for (let row = n - 1; row >= 0; row--) {
+            let sum = m[row][n];
+            for (let k = row + 1; k < n; k++) sum -= m[row][k] * x[k];
+            x[row] = sum / m[row][row];
+        }
+        return x;
+    }
+}
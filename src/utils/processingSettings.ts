@@ -0,0 +1,57 @@
+import { AI_PROCESSING_DEFAULTS } from '../constants/aiConfig';
+import { ProcessingOptions } from './aiImageProcessor';
+
+// Import AsyncStorage or use memory storage
+let AsyncStorage: any;
+try {
+    AsyncStorage = require('@react-native-async-storage/async-storage').default;
+} catch (error) {
+    console.log('AsyncStorage not available, using memory storage');
+}
+
+const SETTINGS_KEY = 'processing_settings';
+
+// Options a user chooses on the capture screen; callbacks, signals and cache control belong to one run
+export type SavedProcessingOptions = Omit<ProcessingOptions, 'signal' | 'onPartialSVG' | 'onStep' | 'useCache'>;
+
+// Loaded settings; null until first load
+let cachedOptions: SavedProcessingOptions | null = null;
+
+export class ProcessingSettings {
+
+    /**
+     * The user's processing options merged over the defaults
+     */
+    static async load(): Promise<SavedProcessingOptions> {
+        if (cachedOptions) return cachedOptions;
+
+        let stored: SavedProcessingOptions = {};
+        try {
+            const raw = AsyncStorage ? await AsyncStorage.getItem(SETTINGS_KEY) : null;
+            if (raw) stored = JSON.parse(raw);
+        } catch (error) {
+            console.error('Failed to load processing settings:', error);
+        }
+
+        cachedOptions = { ...AI_PROCESSING_DEFAULTS, useAI: true, ...stored };
+        return cachedOptions;
+    }
+
+    /**
+     * Persist the options so every screen that queues work processes it the same way
+     */
+    static async save(options: ProcessingOptions): Promise<SavedProcessingOptions> {
+        const { signal, onPartialSVG, onStep, useCache, ...saved } = options;
+        cachedOptions = saved;
+
+        try {
+            if (AsyncStorage) {
+                await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(saved));
+            }
+        } catch (error) {
+            console.error('Failed to save processing settings:', error);
+        }
+
+        return saved;
+    }
+}
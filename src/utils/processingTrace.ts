@@ -0,0 +1,80 @@
+export type StepOutcome = 'success' | 'skipped' | 'failed' | 'flagged' | 'cancelled';
+
+/**
+ * One step of a processing run
+ */
+export interface ProcessingStep {
+    id: string;                 // Machine-readable step, e.g. 'vectorize' or 'background-removal'
+    label: string;              // Short human summary, shown in alerts
+    provider?: string;          // Vectorizer or service that ran the step
+    startedAt: number;          // Epoch ms
+    endedAt: number;
+    inputUri?: string;
+    outputUri?: string;
+    parameters?: Record<string, unknown>;
+    outcome: StepOutcome;
+    error?: string;             // Why the step failed, was skipped or was flagged
+}
+
+export type StepDetails = Partial<Omit<ProcessingStep, 'id' | 'label'>>;
+
+const OUTCOME_SYMBOLS: Record<StepOutcome, string> = {
+    success: '✓',
+    skipped: '↷',
+    failed: '✗',
+    flagged: '⚠',
+    cancelled: '⏹',
+};
+
+/**
+ * Collects the steps of one processing run in order
+ */
+export class ProcessingTrace {
+    readonly steps: ProcessingStep[];
+    private readonly onRecord?: (step: ProcessingStep) => void;
+
+    /**
+     * onRecord hears each step as it is recorded (not steps passed in or appended)
+     */
+    constructor(steps: ProcessingStep[] = [], onRecord?: (step: ProcessingStep) => void) {
+        this.steps = [...steps];
+        this.onRecord = onRecord;
+    }
+
+    /**
+     * Record a step that just finished (successfully unless details say otherwise)
+     */
+    record(id: string, label: string, details: StepDetails = {}): ProcessingStep {
+        const now = Date.now();
+        const step: ProcessingStep = { id, label, outcome: 'success', startedAt: now, endedAt: now, ...details };
+        this.steps.push(step);
+        this.onRecord?.(step);
+        return step;
+    }
+
+    /**
+     * Start timing a step; call the returned function to record it once it finishes
+     */
+    begin(id: string, details: StepDetails = {}): (label: string, more?: StepDetails) => ProcessingStep {
+        const startedAt = Date.now();
+        return (label, more = {}) => this.record(id, label, { ...details, startedAt, endedAt: Date.now(), ...more });
+    }
+
+    /**
+     * Add steps recorded by a nested run (e.g. one vectorizer)
+     */
+    append(steps: ProcessingStep[]) {
+        this.steps.push(...steps);
+    }
+
+    /**
+     * One line for alerts and logs, e.g. "✗ Local StarVector server failed: timed out after 120s"
+     */
+    static format(step: ProcessingStep): string {
+        return `${OUTCOME_SYMBOLS[step.outcome]} ${step.label}${step.error ? `: ${step.error}` : ''}`;
+    }
+
+    static durationMs(step: ProcessingStep): number {
+        return Math.max(0, step.endedAt - step.startedAt);
+    }
+}
@@ -0,0 +1,205 @@
+import { AI_PERFORMANCE, PROVIDER_REQUEST_POLICIES, REQUEST_RETRY_DEFAULTS } from '../constants/aiConfig';
+import { Cancellation } from './cancellation';
+
+export interface RetryPolicy {
+    timeoutMs: number;          // Per attempt; 0 = no timeout
+    retryAttempts: number;      // Retries after the first attempt
+    baseDelayMs: number;
+    maxDelayMs: number;
+    maxRetryWaitMs: number;     // Longer Retry-After / estimated_time waits give up instead
+    failureThreshold: number;
+    cooldownMs: number;
+}
+
+export interface ExecuteOptions<T> {
+    signal?: AbortSignal;
+    policy?: Partial<RetryPolicy>;
+    retryAfterMs?: (result: T) => Promise<number | null>; // Server-suggested wait before retrying
+}
+
+export interface CircuitStatus {
+    failures: number;           // Consecutive failed calls
+    openUntil: number | null;   // Epoch ms until which the provider is skipped
+}
+
+/**
+ * Thrown instead of calling a provider whose circuit is open
+ */
+export class CircuitOpenError extends Error {
+    constructor(public provider: string, public retryAt: number) {
+        super(`${provider} skipped after repeated failures (retrying in ${Math.ceil((retryAt - Date.now()) / 1000)}s)`);
+        this.name = 'CircuitOpenError';
+    }
+}
+
+// Statuses worth retrying: timeouts, rate limits and server-side failures
+const RETRYABLE_STATUS = new Set([408, 429, 500, 502, 503, 504]);
+
+export class RequestExecutor {
+    private static circuits = new Map<string, CircuitStatus>();
+
+    /**
+     * Effective policy: AI_PERFORMANCE, then the retry defaults, provider overrides and call overrides
+     */
+    static policy(provider: string, overrides: Partial<RetryPolicy> = {}): RetryPolicy {
+        return {
+            timeoutMs: AI_PERFORMANCE.timeoutMs,
+            retryAttempts: AI_PERFORMANCE.retryAttempts,
+            ...REQUEST_RETRY_DEFAULTS,
+            ...PROVIDER_REQUEST_POLICIES[provider],
+            ...overrides,
+        };
+    }
+
+    /**
+     * fetch() with the provider's timeout, retries and circuit breaker.
+     * Resolves with the last response (even a failed one) once retries run out.
+     */
+    static async fetch(
+        provider: string,
+        url: string,
+        init: RequestInit = {},
+        options: Omit<ExecuteOptions<Response>, 'retryAfterMs'> = {}
+    ): Promise<Response> {
+        return this.execute(provider, signal => fetch(url, { ...init, signal }), {
+            ...options,
+            retryAfterMs: async response => {
+                const body = response.status === 503 ? await response.clone().text().catch(() => '') : '';
+                return this.retryAfterMs(response.status, response.headers.get('retry-after'), body);
+            },
+        });
+    }
+
+    /**
+     * Run attempt() until it resolves with a non-retryable status or retries run out.
+     * Each attempt gets its own signal that aborts on timeout or when options.signal does.
+     * Throws CircuitOpenError when the provider is being skipped, CancelledError when cancelled.
+     */
+    static async execute<T extends { status: number }>(
+        provider: string,
+        attempt: (signal: AbortSignal) => Promise<T>,
+        options: ExecuteOptions<T> = {}
+    ): Promise<T> {
+        const policy = this.policy(provider, options.policy);
+        const circuit = this.circuits.get(provider);
+        if (circuit?.openUntil && circuit.openUntil > Date.now()) {
+            throw new CircuitOpenError(provider, circuit.openUntil);
+        }
+
+        let result: T | null = null;
+        let lastError: any = null;
+
+        for (let attemptIndex = 0; attemptIndex <= policy.retryAttempts; attemptIndex++) {
+            Cancellation.throwIfAborted(options.signal);
+
+            const request = Cancellation.withTimeout(options.signal, policy.timeoutMs);
+            try {
+                result = await attempt(request.signal);
+                lastError = null;
+            } catch (error: any) {
+                request.dispose();
+                Cancellation.throwIfAborted(options.signal);
+                result = null;
+                lastError = request.signal.aborted
+                    ? new Error(`${provider} timed out after ${policy.timeoutMs / 1000}s`)
+                    : error;
+            } finally {
+                // A response's body is read after this returns; the caller's signal must still cancel it
+                request.clearTimer();
+            }
+
+            // Anything else (including 4xx) says something about the request, not the provider's health
+            if (result && !RETRYABLE_STATUS.has(result.status)) {
+                this.circuits.delete(provider);
+                return result;
+            }
+            if (attemptIndex === policy.retryAttempts) break;
+
+            let delayMs = this.backoffDelay(attemptIndex, policy);
+            const suggested = result && options.retryAfterMs ? await options.retryAfterMs(result) : null;
+            if (suggested !== null) {
+                if (suggested > policy.maxRetryWaitMs) {
+                    console.log(`⏳ ${provider} asked to wait ${Math.round(suggested / 1000)}s, giving up`);
+                    break;
+                }
+                delayMs = suggested;
+            }
+
+            const reason = result ? `HTTP ${result.status}` : lastError?.message;
+            console.log(`🔁 ${provider} failed (${reason}), retry ${attemptIndex + 1}/${policy.retryAttempts} in ${(delayMs / 1000).toFixed(1)}s`);
+            request.dispose();
+            await Cancellation.sleep(delayMs, options.signal);
+        }
+
+        this.recordFailure(provider, policy);
+        if (result) return result;
+        throw lastError;
+    }
+
+    /**
+     * False while the provider's circuit is open
+     */
+    static isAvailable(provider: string): boolean {
+        const openUntil = this.circuits.get(provider)?.openUntil;
+        return !openUntil || openUntil <= Date.now();
+    }
+
+    static status(provider: string): CircuitStatus {
+        return this.circuits.get(provider) ?? { failures: 0, openUntil: null };
+    }
+
+    /**
+     * Close one provider's circuit, or all of them
+     */
+    static reset(provider?: string) {
+        if (provider) {
+            this.circuits.delete(provider);
+        } else {
+            this.circuits.clear();
+        }
+    }
+
+    /**
+     * Wait suggested by the server: Retry-After on 429/503, or HuggingFace's
+     * estimated_time while a model is loading. Null when there is no hint.
+     */
+    static retryAfterMs(status: number, retryAfter: string | null, body: string = ''): number | null {
+        if (retryAfter) {
+            const seconds = Number(retryAfter);
+            if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+            const date = Date.parse(retryAfter);
+            if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+        }
+
+        if (status === 503 && body) {
+            try {
+                // e.g. {"error":"Model starvector/... is currently loading","estimated_time":20.4}
+                const estimated = Number(JSON.parse(body).estimated_time);
+                if (Number.isFinite(estimated) && estimated > 0) return estimated * 1000;
+            } catch (error) {
+                // Not JSON; fall back to backoff
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Exponential backoff with equal jitter: half fixed, half random
+     */
+    private static backoffDelay(attemptIndex: number, policy: RetryPolicy): number {
+        const delay = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attemptIndex);
+        return delay / 2 + Math.random() * (delay / 2);
+    }
+
+    private static recordFailure(provider: string, policy: RetryPolicy) {
+        const failures = this.status(provider).failures + 1;
+        const open = failures >= policy.failureThreshold;
+
+        this.circuits.set(provider, { failures, openUntil: open ? Date.now() + policy.cooldownMs : null });
+        if (open) {
+            console.log(`🚫 ${provider} failed ${failures} times in a row, skipping it for ${Math.round(policy.cooldownMs / 1000)}s`);
+        }
+    }
+}
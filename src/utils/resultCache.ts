@@ -0,0 +1,221 @@
+import { ContentHash } from './contentHash';
+import { FidelityReport } from './fidelityScorer';
+import { ProcessingStep } from './processingTrace';
+import { RESULT_CACHE_DEFAULTS } from '../constants/aiConfig';
+
+// Import file system or run without a cache
+let FileSystem: any;
+try {
+    FileSystem = require('expo-file-system');
+} catch (error) {
+    console.log('FileSystem not available, result cache disabled');
+}
+
+// Bump when the pipeline changes enough that old results should not be reused
+const CACHE_VERSION = 3;
+const INDEX_FILE = 'index.json';
+
+// Options that steer a run but don't change its output
+const RUNTIME_OPTION_KEYS = ['signal', 'tempFiles', 'onPartialSVG', 'onStep', 'huggingFaceToken', 'useCache'];
+
+export interface CachedResult {
+    format: 'PNG' | 'SVG';
+    svgCode?: string;
+    previewUri: string;         // PNG rendering; from get() the cache's own file, valid until evicted
+    processingSteps: ProcessingStep[];
+    model?: string;
+    fidelity?: FidelityReport;
+}
+
+export interface ResultCacheStats {
+    entries: number;
+    bytes: number;
+}
+
+interface CacheEntry {
+    key: string;
+    format: 'PNG' | 'SVG';
+    hasSvg: boolean;
+    processingSteps: ProcessingStep[];
+    model?: string;
+    fidelity?: FidelityReport;
+    bytes: number;
+    createdAt: number;
+    lastUsed: number;
+}
+
+// Loaded index; null until first use
+let index: Record<string, CacheEntry> | null = null;
+// Index reads and writes run one at a time
+let queue: Promise<unknown> = Promise.resolve();
+
+export class ResultCache {
+
+    /**
+     * Cache key for an image's content plus the options that shape the result.
+     * Null when the image can't be read (the run then goes uncached).
+     */
+    static async key(imageUri: string, namespace: string, options: object = {}): Promise<string | null> {
+        if (!FileSystem) return null;
+
+        try {
+            const imageHash = await ContentHash.hashFile(imageUri);
+            const normalized = Object.fromEntries(
+                Object.entries(options).filter(([key]) => !RUNTIME_OPTION_KEYS.includes(key))
+            );
+            return ContentHash.sha256Text(`${CACHE_VERSION}|${namespace}|${imageHash}|${ContentHash.stableStringify(normalized)}`);
+        } catch (error) {
+            console.log('Result cache key failed:', error);
+            return null;
+        }
+    }
+
+    /**
+     * Cached result for a key, or null on a miss. Marks the entry as recently used.
+     */
+    static async get(key: string): Promise<CachedResult | null> {
+        return this.withIndex(async entries => {
+            const entry = entries[key];
+            if (!entry) return null;
+
+            const pngUri = this.fileUri(key, 'png');
+            const svgUri = this.fileUri(key, 'svg');
+            const [pngInfo, svgInfo] = await Promise.all([
+                FileSystem.getInfoAsync(pngUri),
+                entry.hasSvg ? FileSystem.getInfoAsync(svgUri) : Promise.resolve({ exists: true }),
+            ]);
+            if (!pngInfo.exists || !svgInfo.exists) {
+                // Files were cleared by the OS; forget the entry
+                delete entries[key];
+                return null;
+            }
+
+            // Hand out the stored file, not a copy, so hits never leave files behind
+            const svgCode = entry.hasSvg ? await FileSystem.readAsStringAsync(svgUri) : undefined;
+
+            entry.lastUsed = Date.now();
+            return {
+                format: entry.format,
+                svgCode,
+                previewUri: pngUri,
+                processingSteps: entry.processingSteps,
+                model: entry.model,
+                fidelity: entry.fidelity,
+            };
+        });
+    }
+
+    /**
+     * Store a result, then evict least recently used entries beyond the size limits
+     */
+    static async put(key: string, result: CachedResult): Promise<void> {
+        await this.withIndex(async entries => {
+            const pngUri = this.fileUri(key, 'png');
+            // A refreshed run replaces the entry's files
+            await FileSystem.deleteAsync(pngUri, { idempotent: true });
+            await FileSystem.copyAsync({ from: result.previewUri, to: pngUri });
+            let bytes = (await FileSystem.getInfoAsync(pngUri, { size: true })).size ?? 0;
+
+            if (result.svgCode) {
+                await FileSystem.writeAsStringAsync(this.fileUri(key, 'svg'), result.svgCode);
+                bytes += result.svgCode.length;
+            }
+
+            const now = Date.now();
+            entries[key] = {
+                key,
+                format: result.format,
+                hasSvg: !!result.svgCode,
+                processingSteps: result.processingSteps,
+                model: result.model,
+                fidelity: result.fidelity,
+                bytes,
+                createdAt: now,
+                lastUsed: now,
+            };
+
+            await this.evict(entries);
+        });
+    }
+
+    static async stats(): Promise<ResultCacheStats> {
+        const stats = await this.withIndex(async entries => {
+            const list = Object.values(entries);
+            return { entries: list.length, bytes: list.reduce((total, entry) => total + entry.bytes, 0) };
+        });
+        return stats ?? { entries: 0, bytes: 0 };
+    }
+
+    /**
+     * Delete every cached result
+     */
+    static async clear(): Promise<void> {
+        await this.withIndex(async entries => {
+            await FileSystem.deleteAsync(this.directory(), { idempotent: true });
+            await FileSystem.makeDirectoryAsync(this.directory(), { intermediates: true });
+            Object.keys(entries).forEach(key => delete entries[key]);
+        });
+    }
+
+    private static async evict(entries: Record<string, CacheEntry>) {
+        const byAge = Object.values(entries).sort((a, b) => a.lastUsed - b.lastUsed);
+        let bytes = byAge.reduce((total, entry) => total + entry.bytes, 0);
+        let count = byAge.length;
+
+        for (const entry of byAge) {
+            if (count <= RESULT_CACHE_DEFAULTS.maxEntries && bytes <= RESULT_CACHE_DEFAULTS.maxBytes) break;
+
+            await Promise.all([
+                FileSystem.deleteAsync(this.fileUri(entry.key, 'png'), { idempotent: true }),
+                FileSystem.deleteAsync(this.fileUri(entry.key, 'svg'), { idempotent: true }),
+            ]);
+            delete entries[entry.key];
+            bytes -= entry.bytes;
+            count--;
+            console.log(`🗑️ Evicted cached result ${entry.key.slice(0, 8)}`);
+        }
+    }
+
+    /**
+     * Run an index operation after the previous one finishes, then persist the index.
+     * Cache failures are logged and resolve to null; they never fail a processing run.
+     */
+    private static withIndex<T>(operation: (entries: Record<string, CacheEntry>) => Promise<T>): Promise<T | null> {
+        if (!FileSystem) return Promise.resolve(null);
+
+        const run = queue.then(async () => {
+            try {
+                const entries = await this.loadIndex();
+                const result = await operation(entries);
+                await FileSystem.writeAsStringAsync(this.directory() + INDEX_FILE, JSON.stringify(entries));
+                return result;
+            } catch (error) {
+                console.log('Result cache error:', error);
+                return null;
+            }
+        });
+        queue = run;
+        return run;
+    }
+
+    private static async loadIndex(): Promise<Record<string, CacheEntry>> {
+        if (index) return index;
+
+        await FileSystem.makeDirectoryAsync(this.directory(), { intermediates: true }).catch(() => {});
+        try {
+            const raw = await FileSystem.readAsStringAsync(this.directory() + INDEX_FILE);
+            index = JSON.parse(raw);
+        } catch (error) {
+            index = {};
+        }
+        return index!;
+    }
+
+    private static directory(): string {
+        return `${FileSystem.cacheDirectory}result_cache_v${CACHE_VERSION}/`;
+    }
+
+    private static fileUri(key: string, extension: 'png' | 'svg'): string {
+        return `${this.directory()}${key}.${extension}`;
+    }
+}
@@ -0,0 +1,182 @@
+import { ImageCodec, PixelBuffer } from './imageCodec';
+import { PerspectiveWarp, Quad } from './perspectiveWarp';
+import { SCAN_CLEANUP_DEFAULTS } from '../constants/aiConfig';
+
+export interface ScanCleanupOptions {
+    maxWidth?: number;          // The photo is decoded at most this wide
+    blockSize?: number;         // Lighting is sampled in blocks this size (fraction of the longer side)
+    paperPercentile?: number;   // Brightness percentile within a block taken as the paper there
+    whitePoint?: number;        // Normalized brightness (0-1) at and above which pixels become white
+    blackPercentile?: number;   // Share of the ink (pixels below the white point) stretched to pure black
+    grayscale?: boolean;        // Drop colour, e.g. for pencil on tinted paper
+}
+
+export class ScanCleaner {
+
+    /**
+     * One-tap scan: flatten the page (when its corners are known), then even out the
+     * lighting and whiten the paper. Returns a PNG URI.
+     */
+    static async scan(imageUri: string, quad: Quad | null, options: ScanCleanupOptions = {}): Promise<string> {
+        const settings = { ...SCAN_CLEANUP_DEFAULTS, ...options };
+        let buffer = await ImageCodec.loadForProcessing(imageUri, settings.maxWidth);
+        if (quad) {
+            buffer = PerspectiveWarp.flatten(buffer, quad, settings.maxWidth);
+        }
+
+        const cleaned = this.clean(buffer, settings);
+        console.log(`📄 Scan cleanup: ${cleaned.width}x${cleaned.height}${quad ? ', page flattened' : ''}`);
+        return await ImageCodec.writePNG(cleaned, 'scan');
+    }
+
+    /**
+     * Divide out uneven lighting (shadows, a warm lamp on one side), then stretch the levels
+     * so the paper is white and the faintest strokes still read as lines
+     */
+    static clean(source: PixelBuffer, options: ScanCleanupOptions = {}): PixelBuffer {
+        const settings = { ...SCAN_CLEANUP_DEFAULTS, ...options };
+        const { width, height } = source;
+        const result = ImageCodec.clone(source);
+        const data = result.data;
+
+        const luminance = new Float32Array(width * height);
+        for (let i = 0; i < luminance.length; i++) {
+            const o = i * 4;
+            luminance[i] = 0.299 * data[o] + 0.587 * data[o + 1] + 0.114 * data[o + 2];
+        }
+
+        // Scale every pixel so the paper under it comes out at full brightness
+        const paper = this.estimatePaper(luminance, width, height, settings);
+        const normalized = new Float32Array(luminance.length);
+        for (let i = 0; i < luminance.length; i++) {
+            const gain = 255 / Math.max(paper[i], 1);
+            const o = i * 4;
+            if (settings.grayscale) {
+                data[o] = data[o + 1] = data[o + 2] = luminance[i] * gain;
+            } else {
+                data[o] = data[o] * gain;
+                data[o + 1] = data[o + 1] * gain;
+                data[o + 2] = data[o + 2] * gain;
+            }
+            normalized[i] = Math.min(255, luminance[i] * gain);
+        }
+
+        // Levels: the darkest ink goes to black, anything near the paper's brightness to white
+        const white = settings.whitePoint * 255;
+        const black = Math.min(this.inkPercentile(normalized, white, settings.blackPercentile), white - 1);
+        const lookup = new Uint8ClampedArray(256);
+        for (let v = 0; v < 256; v++) {
+            lookup[v] = ((v - black) / (white - black)) * 255;
+        }
+        for (let i = 0; i < data.length; i += 4) {
+            data[i] = lookup[data[i]];
+            data[i + 1] = lookup[data[i + 1]];
+            data[i + 2] = lookup[data[i + 2]];
+        }
+
+        return result;
+    }
+
+    /**
+     * Paper brightness under every pixel: a bright percentile per block (ink rarely fills a
+     * block), smoothed across neighbouring blocks and interpolated bilinearly
+     */
+    private static estimatePaper(
+        luminance: Float32Array,
+        width: number,
+        height: number,
+        settings: Required<ScanCleanupOptions>
+    ): Float32Array {
+        const block = Math.max(8, Math.round(settings.blockSize * Math.max(width, height)));
+        const columns = Math.ceil(width / block);
+        const rows = Math.ceil(height / block);
+
+        const grid = new Float32Array(columns * rows);
+        const histogram = new Uint32Array(256);
+        for (let row = 0; row < rows; row++) {
+            for (let column = 0; column < columns; column++) {
+                histogram.fill(0);
+                const x1 = Math.min(width, (column + 1) * block);
+                const y1 = Math.min(height, (row + 1) * block);
+                let count = 0;
+                for (let y = row * block; y < y1; y++) {
+                    for (let x = column * block; x < x1; x++) {
+                        histogram[Math.min(255, Math.round(luminance[y * width + x]))]++;
+                        count++;
+                    }
+                }
+
+                const target = count * settings.paperPercentile;
+                let value = 0;
+                for (let seen = 0; value < 255; value++) {
+                    seen += histogram[value];
+                    if (seen >= target) break;
+                }
+                grid[row * columns + column] = value;
+            }
+        }
+
+        // Blocks that are mostly ink read too dark; the brightest neighbour is closer to the paper
+        const smoothed = new Float32Array(grid.length);
+        for (let row = 0; row < rows; row++) {
+            for (let column = 0; column < columns; column++) {
+                let brightest = 0;
+                let sum = 0;
+                let count = 0;
+                for (let dy = -1; dy <= 1; dy++) {
+                    for (let dx = -1; dx <= 1; dx++) {
+                        const r = row + dy;
+                        const c = column + dx;
+                        if (r < 0 || c < 0 || r >= rows || c >= columns) continue;
+                        const value = grid[r * columns + c];
+                        brightest = Math.max(brightest, value);
+                        sum += value;
+                        count++;
+                    }
+                }
+                smoothed[row * columns + column] = (brightest + sum / count) / 2;
+            }
+        }
+
+        // Block values sit at block centres
+        const paper = new Float32Array(width * height);
+        for (let y = 0; y < height; y++) {
+            const gy = Math.max(0, Math.min(rows - 1, (y + 0.5) / block - 0.5));
+            const r0 = Math.floor(gy);
+            const r1 = Math.min(rows - 1, r0 + 1);
+            const fy = gy - r0;
+            for (let x = 0; x < width; x++) {
+                const gx = Math.max(0, Math.min(columns - 1, (x + 0.5) / block - 0.5));
+                const c0 = Math.floor(gx);
+                const c1 = Math.min(columns - 1, c0 + 1);
+                const fx = gx - c0;
+                const top = smoothed[r0 * columns + c0] * (1 - fx) + smoothed[r0 * columns + c1] * fx;
+                const bottom = smoothed[r1 * columns + c0] * (1 - fx) + smoothed[r1 * columns + c1] * fx;
+                paper[y * width + x] = top * (1 - fy) + bottom * fy;
+            }
+        }
+        return paper;
+    }
+
+    /**
+     * Percentile among the pixels darker than the white point; a sparse sketch is mostly
+     * paper, so a percentile of every pixel would land on faint strokes
+     */
+    private static inkPercentile(values: Float32Array, white: number, fraction: number): number {
+        const histogram = new Uint32Array(256);
+        let ink = 0;
+        for (let i = 0; i < values.length; i++) {
+            if (values[i] >= white) continue;
+            histogram[Math.min(255, Math.round(values[i]))]++;
+            ink++;
+        }
+
+        const target = ink * fraction;
+        let seen = 0;
+        for (let v = 0; v < 256; v++) {
+            seen += histogram[v];
+            if (seen >= target) return v;
+        }
+        return 255;
+    }
+}
@@ -0,0 +1,220 @@
+import { ImageCodec, PixelBuffer, CropRect } from './imageCodec';
+import { EdgeDetector } from './edgeDetector';
+import { BackgroundRemover } from './backgroundRemover';
+import { SMART_CROP_DEFAULTS } from '../constants/aiConfig';
+
+// Import image processing modules
+let ImageManipulator: any;
+
+try {
+    ImageManipulator = require('expo-image-manipulator');
+} catch (error) {
+    console.log('Image processing modules not available');
+}
+
+export type CropAspect = 'content' | 'square' | 'original';
+
+export interface SmartCropOptions {
+    padding?: number;            // Fraction of the content's larger side
+    aspect?: CropAspect;
+    saliencyWeighting?: boolean;
+    trimFraction?: number;       // Ink mass ignored at each side (0-0.2)
+    inkThreshold?: number;       // Min color distance from the paper to count as ink
+    analysisWidth?: number;
+}
+
+export interface CropAnalysis {
+    rect: CropRect;              // In the analysed buffer's pixels
+    contentRect: CropRect;       // Trimmed ink box before padding and aspect
+    coverage: number;            // Fraction of the image kept
+}
+
+export class SmartCropper {
+
+    /**
+     * Find the crop rectangle that frames the inked content of an image
+     */
+    static analyze(buffer: PixelBuffer, options: SmartCropOptions = {}): CropAnalysis | null {
+        const settings = { ...SMART_CROP_DEFAULTS, ...options };
+        const { width, height } = buffer;
+
+        const weights = this.inkWeights(buffer, settings.inkThreshold, settings.saliencyWeighting);
+        const contentRect = this.trimmedBounds(weights, width, height, settings.trimFraction);
+        if (!contentRect) return null;
+
+        const pad = settings.padding * Math.max(contentRect.width, contentRect.height);
+        let rect: CropRect = {
+            originX: contentRect.originX - pad,
+            originY: contentRect.originY - pad,
+            width: contentRect.width + pad * 2,
+            height: contentRect.height + pad * 2,
+        };
+
+        if (settings.aspect === 'square') {
+            rect = this.expandToAspect(rect, 1);
+        } else if (settings.aspect === 'original') {
+            rect = this.expandToAspect(rect, width / height);
+        }
+
+        rect = this.fitInside(rect, width, height, settings.aspect !== 'content');
+        return { rect, contentRect, coverage: (rect.width * rect.height) / (width * height) };
+    }
+
+    /**
+     * Crop an image file to its content and save it as PNG.
+     * Returns the original URI when no content is found or the crop would keep everything.
+     */
+    static async cropToContent(imageUri: string, options: SmartCropOptions = {}): Promise<string> {
+        const settings = { ...SMART_CROP_DEFAULTS, ...options };
+        const sample = await ImageCodec.loadForProcessing(imageUri, settings.analysisWidth);
+        const analysis = this.analyze(sample, settings);
+
+        if (!analysis || analysis.coverage > 0.98) {
+            console.log('✂️ Smart crop: nothing to trim');
+            return imageUri;
+        }
+
+        if (!ImageManipulator) {
+            const full = await ImageCodec.readFromUri(imageUri);
+            const rect = this.scaleRect(analysis.rect, full.width / sample.width, full.width, full.height);
+            return await ImageCodec.writePNG(ImageCodec.crop(full, rect), 'cropped');
+        }
+
+        const original = await ImageCodec.getSize(imageUri);
+        const rect = this.scaleRect(analysis.rect, original.width / sample.width, original.width, original.height);
+        console.log(`✂️ Smart crop: ${rect.width}x${rect.height} at (${rect.originX}, ${rect.originY})`);
+
+        const cropped = await ImageManipulator.manipulateAsync(
+            imageUri,
+            [{ crop: rect }],
+            {
+                compress: 1,
+                format: ImageManipulator.SaveFormat.PNG,
+            }
+        );
+
+        return cropped.uri;
+    }
+
+    /**
+     * Per-pixel ink weight: distance from the paper color (transparent counts as paper),
+     * optionally scaled by local contrast and a soft centre prior
+     */
+    private static inkWeights(buffer: PixelBuffer, inkThreshold: number, saliencyWeighting: boolean): Float32Array {
+        const { width, height, data } = buffer;
+        const paper = BackgroundRemover.estimateBackgroundColor(buffer);
+        const weights = new Float32Array(width * height);
+
+        for (let i = 0; i < weights.length; i++) {
+            const alpha = data[i * 4 + 3] / 255;
+            const dr = (data[i * 4] - paper[0]) * alpha;
+            const dg = (data[i * 4 + 1] - paper[1]) * alpha;
+            const db = (data[i * 4 + 2] - paper[2]) * alpha;
+            const distance = Math.sqrt(dr * dr + dg * dg + db * db);
+            weights[i] = distance >= inkThreshold ? distance : 0;
+        }
+
+        if (saliencyWeighting) {
+            const { magnitude } = EdgeDetector.sobel(EdgeDetector.toGrayscale(buffer), width, height);
+            const cx = width / 2;
+            const cy = height / 2;
+            const diagonal = Math.sqrt(cx * cx + cy * cy);
+
+            for (let y = 0; y < height; y++) {
+                for (let x = 0; x < width; x++) {
+                    const i = y * width + x;
+                    if (!weights[i]) continue;
+
+                    const r = Math.sqrt((x - cx) * (x - cx) + (y - cy) * (y - cy)) / diagonal;
+                    const centre = 0.5 + 0.5 * Math.exp(-(r * r) / 0.18);
+                    const detail = 0.5 + Math.min(1, magnitude[i] / 64);
+                    weights[i] *= centre * detail;
+                }
+            }
+        }
+
+        return weights;
+    }
+
+    /**
+     * Bounding box of the weight mass with trimFraction cut from each side
+     */
+    private static trimmedBounds(weights: Float32Array, width: number, height: number, trimFraction: number): CropRect | null {
+        const columns = new Float64Array(width);
+        const rows = new Float64Array(height);
+        let total = 0;
+
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                const w = weights[y * width + x];
+                columns[x] += w;
+                rows[y] += w;
+                total += w;
+            }
+        }
+
+        if (total <= 0) return null;
+
+        const cut = total * trimFraction;
+        const range = (profile: Float64Array): [number, number] => {
+            let start = 0;
+            let sum = 0;
+            while (start < profile.length - 1 && sum + profile[start] <= cut) sum += profile[start++];
+
+            let end = profile.length - 1;
+            sum = 0;
+            while (end > start && sum + profile[end] <= cut) sum += profile[end--];
+
+            return [start, end];
+        };
+
+        const [left, right] = range(columns);
+        const [top, bottom] = range(rows);
+        return { originX: left, originY: top, width: right - left + 1, height: bottom - top + 1 };
+    }
+
+    /**
+     * Grow the shorter side around the centre until width / height equals the ratio
+     */
+    private static expandToAspect(rect: CropRect, ratio: number): CropRect {
+        const cx = rect.originX + rect.width / 2;
+        const cy = rect.originY + rect.height / 2;
+        let { width, height } = rect;
+
+        if (width / height < ratio) {
+            width = height * ratio;
+        } else {
+            height = width / ratio;
+        }
+
+        return { originX: cx - width / 2, originY: cy - height / 2, width, height };
+    }
+
+    /**
+     * Shift a rectangle back inside the image, shrinking it only if it is larger than the image.
+     * With keepAspect both sides shrink by the same factor, so a square crop stays square.
+     */
+    private static fitInside(rect: CropRect, width: number, height: number, keepAspect: boolean): CropRect {
+        let w = Math.min(width, rect.width);
+        let h = Math.min(height, rect.height);
+        if (keepAspect) {
+            const scale = Math.min(width / rect.width, height / rect.height, 1);
+            w = rect.width * scale;
+            h = rect.height * scale;
+        }
+        const x = Math.min(width - w, Math.max(0, rect.originX + (rect.width - w) / 2));
+        const y = Math.min(height - h, Math.max(0, rect.originY + (rect.height - h) / 2));
+        return { originX: x, originY: y, width: w, height: h };
+    }
+
+    private static scaleRect(rect: CropRect, scale: number, maxWidth: number, maxHeight: number): CropRect {
+        const originX = Math.max(0, Math.floor(rect.originX * scale));
+        const originY = Math.max(0, Math.floor(rect.originY * scale));
+        return {
+            originX,
+            originY,
+            width: Math.max(1, Math.min(maxWidth - originX, Math.ceil(rect.width * scale))),
+            height: Math.max(1, Math.min(maxHeight - originY, Math.ceil(rect.height * scale))),
+        };
+    }
+}
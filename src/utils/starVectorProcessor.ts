@@ -1,4 +1,18 @@
 import { Alert } from 'react-native';
+import { VectorTracer, TraceOptions } from './vectorTracer';
+import { ImageCodec } from './imageCodec';
+import { SvgRasterizer } from './svgRasterizer';
+import { SvgSanitizer } from './svgSanitizer';
+import { SvgOptimizer, SvgOptimizeOptions } from './svgOptimizer';
+import { PathSimplifier, PathSimplifyOptions } from './pathSimplifier';
+import { InferenceServer } from './inferenceServer';
+import { EventStream, EventStreamHandle, StreamEvent } from './eventStream';
+import { SvgStreamParser } from './svgStreamParser';
+import { Cancellation, TempFileTracker } from './cancellation';
+import { RequestExecutor } from './requestExecutor';
+import { FidelityOptions, FidelityReport } from './fidelityScorer';
+import { ProcessingStep, ProcessingTrace } from './processingTrace';
+import { STARVECTOR_CONFIG, SVG_RENDER_DEFAULTS } from '../constants/aiConfig';
 
 // HuggingFace Inference API
 let HfInference: any;
@@ -29,22 +43,51 @@ export interface StarVectorOptions {
     huggingFaceToken?: string;
     useCPUMode?: boolean;
     localModelPath?: string;
+    tracing?: TraceOptions;     // Local tracer settings (threshold, speckle size, corners)
+    renderSize?: number;        // Width of the PNG rendered from the SVG for display
+    optimization?: SvgOptimizeOptions; // Physical size, minimum line weight and detail limits
+    simplification?: PathSimplifyOptions; // Node reduction tolerance (tolerance 0 disables)
+    fidelity?: FidelityOptions; // Comparison size and pass threshold for the match against the input
+    onPartialSVG?: (progress: SvgStreamProgress) => void; // Streams tokens and previews the SVG as it is drawn
+    onStep?: (step: ProcessingStep) => void; // Hears each step as it is recorded, for progress
+    signal?: AbortSignal;       // Cancels requests and stops between steps
+    tempFiles?: TempFileTracker; // Collects files written, for cleanup when the run is cancelled
 }
 
+export interface SvgStreamProgress {
+    svgCode: string;            // Sanitized markup of the elements completed so far
+    elements: number;
+    tokens: number;             // Streamed chunks received
+    source: string;             // Provider id doing the generation
+}
+
+// One parsed event from a streaming response
+interface StreamChunk {
+    token?: string;
+    svgCode?: string;           // Full result sent at the end of the stream
+    error?: string;
+}
+
+// Minimum gap between partial previews, so re-rendering doesn't slow the stream down
+const PREVIEW_INTERVAL_MS = 250;
+
 export interface StarVectorResult {
     success: boolean;
     svgCode?: string;
-    svgUri?: string;
+    svgUri?: string;            // PNG rendering of svgCode (displayable in <Image>)
     originalImageUri: string;
-    processingSteps: string[];
+    processingSteps: ProcessingStep[];
     error?: string;
     model?: string;
+    fidelity?: FidelityReport;  // How closely the design matches the input image
+    lowFidelity?: boolean;      // Generated but flagged: too unlike the input to count as a success
 }
 
 export class StarVectorProcessor {
     private static hf: any = null;
     private static isInitialized = false;
     private static cpuModeEnabled = false;
+    private static activeStreams = new Set<EventStreamHandle>();
 
     /**
      * Initialize StarVector with HuggingFace API or local CPU mode
@@ -79,58 +122,69 @@ export class StarVectorProcessor {
     }
 
     /**
-     * Check if local CPU StarVector is available
+     * Whether local CPU mode was enabled at initialization
      */
-    private static async checkLocalStarVector(): Promise<boolean> {
-        try {
-            // Check if local StarVector server is running (2 second timeout)
-            const controller = new AbortController();
-            const timeoutId = setTimeout(() => controller.abort(), 2000);
-
-            const response = await fetch('http://localhost:8000/health', {
-                method: 'GET',
-                signal: controller.signal,
-            });
+    static isCPUModeEnabled(): boolean {
+        return this.cpuModeEnabled;
+    }
 
-            clearTimeout(timeoutId);
-            return response.ok;
-        } catch (error) {
-            return false;
-        }
+    /**
+     * Check if local CPU StarVector is available
+     */
+    static async checkLocalStarVector(): Promise<boolean> {
+        return InferenceServer.checkHealth();
     }
 
     /**
      * Call local StarVector server (CPU mode)
      */
-    private static async callLocalStarVector(
+    static async callLocalStarVector(
         imageBase64: string,
         model: string,
         options: StarVectorOptions
     ): Promise<string | null> {
         try {
-            console.log('🖥️ Using local CPU StarVector server...');
-
-            const localServerUrl = 'http://localhost:8000';
+            const server = await InferenceServer.load();
+            const localServerUrl = InferenceServer.baseUrl(server);
+            console.log(`🖥️ Using local CPU StarVector server at ${localServerUrl}...`);
+
+            const body = JSON.stringify({
+                image: imageBase64,
+                model: model,
+                max_tokens: options.maxTokens || 2048,
+                temperature: options.temperature || 0.1,
+            });
 
-            // 2 minute timeout for CPU inference
-            const controller = new AbortController();
-            const timeoutId = setTimeout(() => controller.abort(), 120000);
+            if (options.onPartialSVG) {
+                const streamed = await this.streamSVG(
+                    `${localServerUrl}/generate_stream`,
+                    { 'Content-Type': 'application/json' },
+                    body,
+                    server.generateTimeoutMs,
+                    'starvector-local',
+                    options,
+                    this.readLocalServerEvent
+                );
+                if (streamed.svgCode) {
+                    console.log('✅ Local StarVector CPU streaming successful!');
+                    return streamed.svgCode;
+                }
+                if (streamed.status !== 404) {
+                    console.log('⚠️ Local StarVector stream failed:', streamed.error ?? streamed.status);
+                    return null;
+                }
+                // Older servers have no streaming endpoint
+                console.log('🔄 Server does not stream, waiting for the full result...');
+            }
 
-            const response = await fetch(`${localServerUrl}/generate`, {
+            // CPU inference is slow; the timeout is configurable in Server Settings
+            const response = await RequestExecutor.fetch('starvector-local', `${localServerUrl}/generate`, {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
                 },
-                body: JSON.stringify({
-                    image: imageBase64,
-                    model: model,
-                    max_tokens: options.maxTokens || 2048,
-                    temperature: options.temperature || 0.1,
-                }),
-                signal: controller.signal,
-            });
-
-            clearTimeout(timeoutId);
+                body,
+            }, { signal: options.signal, policy: { timeoutMs: server.generateTimeoutMs } });
 
             if (response.ok) {
                 const result = await response.json();
@@ -141,147 +195,219 @@ export class StarVectorProcessor {
                 return null;
             }
         } catch (error) {
+            Cancellation.throwIfAborted(options.signal);
             console.log('⚠️ Local StarVector server not accessible:', error);
             return null;
         }
     }
 
     /**
-     * Convert image to SVG using StarVector model (enhanced with CPU support)
+     * Stop any SVG that is streaming in; the provider gives up and the pipeline moves on
      */
-    static async imageToSVG(
-        imageUri: string,
-        options: StarVectorOptions = {}
-    ): Promise<StarVectorResult> {
-        const processingSteps: string[] = [];
+    static stopStreaming() {
+        this.activeStreams.forEach(stream => stream.abort());
+    }
 
-        try {
-            console.log('🌟 Starting StarVector image-to-SVG conversion...');
+    /**
+     * POST a streaming generation request, feeding tokens to an incremental SVG parser
+     * and reporting previews of the completed elements through options.onPartialSVG.
+     * Retried through RequestExecutor under the source provider's policy.
+     */
+    private static async streamSVG(
+        url: string,
+        headers: Record<string, string>,
+        body: string,
+        timeoutMs: number | undefined,  // Undefined uses the provider's request policy
+        source: string,
+        options: StarVectorOptions,
+        readEvent: (event: StreamEvent) => StreamChunk | null
+    ): Promise<{ status: number; svgCode: string | null; error?: string }> {
+        let parser = new SvgStreamParser();
+        let text = '';
+        let finalSvg: string | null = null;
+        let error: string | undefined;
+        let tokens = 0;
+        let previewedElements = 0;
+        let lastPreview = 0;
+        let stopped = false;
+
+        const preview = (force: boolean) => {
+            const partial = parser.snapshot();
+            if (!partial || partial.elements === previewedElements) return;
+            if (!force && Date.now() - lastPreview < PREVIEW_INTERVAL_MS) return;
+
+            // Partial output is untrusted model text like the final result
+            const sanitized = SvgSanitizer.sanitize(partial.svgCode);
+            if (!sanitized.success || !sanitized.svgCode) return;
+
+            previewedElements = partial.elements;
+            lastPreview = Date.now();
+            options.onPartialSVG?.({ svgCode: sanitized.svgCode, elements: partial.elements, tokens, source });
+        };
 
-            // Step 1: Prepare image for StarVector
-            console.log('📸 Preparing image for StarVector...');
-            const preparedImageUri = await this.prepareImageForStarVector(imageUri);
-            processingSteps.push('Image prepared for StarVector processing');
+        const attempt = (signal: AbortSignal) => {
+            // A retry starts the drawing over
+            parser = new SvgStreamParser();
+            text = '';
+            finalSvg = null;
+            error = undefined;
+            tokens = 0;
+            previewedElements = 0;
 
-            // Step 2: Convert image to base64
-            console.log('🔄 Converting image to base64...');
-            const imageBase64 = await FileSystem.readAsStringAsync(preparedImageUri, {
-                encoding: FileSystem.EncodingType.Base64,
+            const stream = EventStream.open(url, {
+                method: 'POST',
+                headers: { ...headers, Accept: 'text/event-stream' },
+                body,
+                signal,
+                onEvent: event => {
+                    const chunk = readEvent(event);
+                    if (!chunk) return;
+
+                    if (chunk.error) error = chunk.error;
+                    if (chunk.svgCode) finalSvg = chunk.svgCode;
+                    if (chunk.token) {
+                        text += chunk.token;
+                        tokens++;
+                        parser.push(chunk.token);
+                        preview(false);
+                    }
+                },
             });
 
-            // Validate the base64 image
-            if (!this.validateBase64Image(imageBase64)) {
-                throw new Error('Invalid image format for StarVector processing');
-            }
-
-            // Step 3: Choose StarVector model
-            const model = options.model === '8b' ? 'starvector/starvector-8b-im2svg' : 'starvector/starvector-1b-im2svg';
-            console.log(`🤖 Using StarVector model: ${model}`);
-            processingSteps.push(`Using ${model} model`);
-
-            // Step 4: Try local CPU StarVector first if enabled
-            if (this.cpuModeEnabled || options.useCPUMode) {
-                console.log('🖥️ Checking local CPU StarVector server...');
-                const isLocalAvailable = await this.checkLocalStarVector();
-
-                if (isLocalAvailable) {
-                    const localSvgCode = await this.callLocalStarVector(imageBase64, model, options);
-
-                    if (localSvgCode) {
-                        processingSteps.push('SVG generated using local CPU StarVector');
-
-                        // Process the result
-                        const cleanedSVG = await this.validateAndCleanSVG(localSvgCode);
-                        processingSteps.push('SVG code validated and cleaned');
-
-                        const svgUri = await this.saveSVGToFile(cleanedSVG);
-                        processingSteps.push('SVG file saved');
+            const handle: EventStreamHandle = {
+                response: stream.response,
+                abort: () => {
+                    stopped = true;
+                    stream.abort();
+                },
+            };
+            this.activeStreams.add(handle);
+
+            return stream.response
+                // Stopped from the preview: resolve so the executor doesn't retry it
+                .catch(streamError => {
+                    if (stopped) return { status: 0, body: '', events: 0 };
+                    throw streamError;
+                })
+                .finally(() => this.activeStreams.delete(handle));
+        };
 
-                        console.log('✅ Local CPU StarVector processing complete!');
+        const response = await RequestExecutor.execute(source, attempt, {
+            signal: options.signal,
+            policy: timeoutMs !== undefined ? { timeoutMs } : undefined,
+            retryAfterMs: async result => RequestExecutor.retryAfterMs(result.status, null, result.body),
+        });
 
-                        return {
-                            success: true,
-                            svgCode: cleanedSVG,
-                            svgUri,
-                            originalImageUri: imageUri,
-                            processingSteps,
-                            model: `${model} (Local CPU)`,
-                        };
-                    }
-                } else {
-                    console.log('💡 Local CPU StarVector not available, trying HuggingFace API...');
-                    processingSteps.push('Local CPU StarVector not available');
-                }
-            }
+        if (stopped) {
+            console.log(`⏹️ ${source} stream stopped after ${tokens} chunks`);
+            return { status: 0, svgCode: null, error: 'stopped by user' };
+        }
+        preview(true);
 
-            // Step 5: Try HuggingFace API (existing logic)
-            if (this.isInitialized && this.hf) {
-                console.log('✨ Generating SVG with StarVector HuggingFace API...');
-                const svgCode = await this.callStarVectorAPI(imageBase64, model, options);
+        if (response.status < 200 || response.status >= 300) {
+            return { status: response.status, svgCode: null, error: response.body };
+        }
+        if (response.events === 0) {
+            // Server ignored the stream flag and answered with plain JSON
+            const result = JSON.parse(response.body);
+            const content = result?.svg_code ?? result?.choices?.[0]?.message?.content;
+            return { status: response.status, svgCode: content ? this.extractSVGFromResponse(content) : null };
+        }
 
-                if (svgCode) {
-                    // HuggingFace API worked! Process the result
-                    processingSteps.push('SVG code generated by StarVector HuggingFace API');
+        const svgCode = finalSvg ?? (text ? this.extractSVGFromResponse(text) : null);
+        return { status: response.status, svgCode: error ? null : svgCode, error };
+    }
 
-                    const cleanedSVG = await this.validateAndCleanSVG(svgCode);
-                    processingSteps.push('SVG code validated and cleaned');
+    /**
+     * scripts/start_cpu_server.py: token events, then a 'done' event with the full SVG
+     */
+    private static readLocalServerEvent(event: StreamEvent): StreamChunk | null {
+        try {
+            const payload = JSON.parse(event.data);
+            if (event.event === 'error') return { error: String(payload.error ?? 'generation failed') };
+            if (event.event === 'done') return { svgCode: payload.svg_code };
+            return typeof payload.token === 'string' ? { token: payload.token } : null;
+        } catch (error) {
+            return null;
+        }
+    }
 
-                    const svgUri = await this.saveSVGToFile(cleanedSVG);
-                    processingSteps.push('SVG file saved');
+    /**
+     * OpenAI-style chat completion chunks, terminated by [DONE]
+     */
+    private static readChatCompletionEvent(event: StreamEvent): StreamChunk | null {
+        if (event.data === '[DONE]') return null;
+        try {
+            const payload = JSON.parse(event.data);
+            if (payload.error) return { error: String(payload.error.message ?? payload.error) };
+            const token = payload.choices?.[0]?.delta?.content;
+            return typeof token === 'string' ? { token } : null;
+        } catch (error) {
+            return null;
+        }
+    }
 
-                    console.log('✅ StarVector HuggingFace API processing complete!');
+    /**
+     * Resize the image for StarVector and return it as validated base64
+     */
+    static async encodeImageForModel(imageUri: string, options: StarVectorOptions = {}): Promise<string> {
+        if (!FileSystem) {
+            throw new Error('FileSystem not available');
+        }
 
-                    return {
-                        success: true,
-                        svgCode: cleanedSVG,
-                        svgUri,
-                        originalImageUri: imageUri,
-                        processingSteps,
-                        model,
-                    };
-                }
-            }
+        console.log('📸 Preparing image for StarVector...');
+        const preparedImageUri = await this.prepareImageForStarVector(imageUri);
+        if (preparedImageUri !== imageUri) options.tempFiles?.track(preparedImageUri);
+        Cancellation.throwIfAborted(options.signal);
 
-            // Step 6: Fallback to enhanced local processing
-            console.log('💡 StarVector models not accessible, using enhanced local processing...');
-            console.log('📝 Note: For CPU StarVector, run: python scripts/start_cpu_server.py');
-            processingSteps.push('StarVector models not available');
+        console.log('🔄 Converting image to base64...');
+        const imageBase64 = await FileSystem.readAsStringAsync(preparedImageUri, {
+            encoding: FileSystem.EncodingType.Base64,
+        });
 
-            // Use our enhanced local StarVector-inspired processing instead
-            const localResult = await this.processWithLocalStarVector(imageUri, options);
+        if (!this.validateBase64Image(imageBase64)) {
+            throw new Error('Invalid image format for StarVector processing');
+        }
 
-            // Merge processing steps
-            localResult.processingSteps = [...processingSteps, ...localResult.processingSteps];
+        return imageBase64;
+    }
 
-            return localResult;
+    /**
+     * HuggingFace model id for the requested StarVector size
+     */
+    static modelId(options: StarVectorOptions = {}): string {
+        return options.model === '8b' ? 'starvector/starvector-8b-im2svg' : 'starvector/starvector-1b-im2svg';
+    }
 
-        } catch (error: any) {
-            console.error('❌ StarVector processing failed:', error);
-
-            // As a final fallback, try local StarVector-inspired processing
-            console.log('🔄 Attempting local StarVector-inspired processing as fallback...');
-
-            try {
-                const fallbackResult = await this.processWithLocalStarVector(imageUri, options);
-
-                // Add error info to processing steps
-                fallbackResult.processingSteps = [
-                    ...processingSteps,
-                    `Error in main processing: ${error.message}`,
-                    ...fallbackResult.processingSteps
-                ];
-
-                return fallbackResult;
-            } catch (fallbackError: any) {
-                console.error('❌ Fallback processing also failed:', fallbackError);
-                return {
-                    success: false,
-                    originalImageUri: imageUri,
-                    processingSteps,
-                    error: `Primary processing failed: ${error.message}. Fallback failed: ${fallbackError.message}`,
-                };
-            }
-        }
+    /**
+     * Validate, simplify, optimize and save SVG code from any vectorizer.
+     * Throws when the markup fails validation.
+     */
+    static async finalizeSVG(
+        svgCode: string,
+        options: StarVectorOptions,
+        generator: string,
+        trace: ProcessingTrace
+    ): Promise<{ svgCode: string; svgUri: string }> {
+        const validating = trace.begin('sanitize', { provider: generator });
+        const cleanedSVG = await this.validateAndCleanSVG(svgCode);
+        validating('SVG code validated and cleaned');
+
+        const simplifying = trace.begin('simplify', { provider: generator, parameters: { ...options.simplification } });
+        const simplified = this.simplifySVGPaths(cleanedSVG, options);
+        simplifying(`Paths simplified: ${simplified.summary}`);
+
+        const optimizing = trace.begin('optimize', { provider: generator, parameters: { ...options.optimization } });
+        const optimized = this.optimizeSVGForTattoo(simplified.svgCode, options, generator);
+        optimizing(`SVG optimized for tattoo: ${optimized.summary}`);
+        Cancellation.throwIfAborted(options.signal);
+
+        const saving = trace.begin('save-svg', { provider: generator, parameters: { renderSize: options.renderSize } });
+        const svgUri = await this.saveSVGToFile(optimized.svgCode, options.renderSize);
+        options.tempFiles?.track(svgUri);
+        saving('SVG file saved', { outputUri: svgUri });
+
+        return { svgCode: optimized.svgCode, svgUri };
     }
 
     /**
@@ -313,7 +439,7 @@ export class StarVectorProcessor {
     /**
      * Call StarVector API via HuggingFace (using proper chat completions format)
      */
-    private static async callStarVectorAPI(
+    static async callStarVectorAPI(
         imageBase64: string,
         model: string,
         options: StarVectorOptions
@@ -341,54 +467,70 @@ export class StarVectorProcessor {
             ];
 
             // Try chat completions API first (preferred for vision models)
-            const chatResponse = await fetch(`https://api-inference.huggingface.co/models/${model}/v1/chat/completions`, {
-                method: 'POST',
-                headers: {
-                    'Authorization': `Bearer ${options.huggingFaceToken}`,
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
-                    model: model,
-                    messages: messages,
-                    max_tokens: options.maxTokens || 2048,
-                    temperature: options.temperature || 0.1,
-                    stream: false,
-                }),
+            const chatUrl = `https://api-inference.huggingface.co/models/${model}/v1/chat/completions`;
+            const headers = {
+                'Authorization': `Bearer ${options.huggingFaceToken}`,
+                'Content-Type': 'application/json',
+            };
+            const body = JSON.stringify({
+                model: model,
+                messages: messages,
+                max_tokens: options.maxTokens || 2048,
+                temperature: options.temperature || 0.1,
+                stream: !!options.onPartialSVG,
             });
 
-            if (chatResponse.ok) {
-                const result = await chatResponse.json();
+            let status: number;
+            let errorText: string | undefined;
+
+            if (options.onPartialSVG) {
+                const streamed = await this.streamSVG(chatUrl, headers, body, undefined, 'huggingface', options, this.readChatCompletionEvent);
+                if (streamed.svgCode) {
+                    console.log('✅ StarVector chat API streaming successful!');
+                    return streamed.svgCode;
+                }
+                status = streamed.status;
+                errorText = streamed.error;
+            } else {
+                const chatResponse = await RequestExecutor.fetch('huggingface', chatUrl, { method: 'POST', headers, body }, { signal: options.signal });
+
+                if (chatResponse.ok) {
+                    const result = await chatResponse.json();
 
-                if (result?.choices?.[0]?.message?.content) {
-                    const svgCode = this.extractSVGFromResponse(result.choices[0].message.content);
-                    if (svgCode) {
-                        console.log('✅ StarVector chat API successful!');
-                        return svgCode;
+                    if (result?.choices?.[0]?.message?.content) {
+                        const svgCode = this.extractSVGFromResponse(result.choices[0].message.content);
+                        if (svgCode) {
+                            console.log('✅ StarVector chat API successful!');
+                            return svgCode;
+                        }
                     }
+                } else {
+                    errorText = await chatResponse.text();
                 }
-            } else if (chatResponse.status === 404) {
+                status = chatResponse.status;
+            }
+
+            if (status === 404) {
                 // Chat completions not available, try text generation API
                 console.log('🔄 Chat API not available, trying text generation...');
                 return await this.tryTextGenerationAPI(imageBase64, model, options);
             }
 
             // If we get here, the API call didn't work
-            const errorText = await chatResponse.text();
             console.log('StarVector API response:', errorText);
 
             // Check if it's a model loading error (common with HuggingFace)
-            if (chatResponse.status === 503) {
-                console.log('📡 StarVector model is loading, using enhanced fallback...');
-            } else if (chatResponse.status === 401) {
+            if (status === 503) {
+                console.log('📡 StarVector model still loading after retries, using enhanced fallback...');
+            } else if (status === 401) {
                 console.log('🔑 Token authentication issue, check your HuggingFace token');
-            } else if (chatResponse.status === 404) {
-                console.log('🔍 StarVector model not found via standard API, using enhanced fallback...');
             } else {
                 console.log('🔄 StarVector API unavailable, using enhanced fallback...');
             }
 
             return null;
         } catch (error: any) {
+            Cancellation.throwIfAborted(options.signal);
             console.error('StarVector API call failed:', error);
             return null;
         }
@@ -406,7 +548,7 @@ export class StarVectorProcessor {
             // Fallback to text generation with encoded image
             const prompt = `<image>${imageBase64}</image>\n\nConvert this image to clean SVG code suitable for tattoo design. Create bold, simple lines and shapes. Output only valid SVG markup:`;
 
-            const response = await fetch(`https://api-inference.huggingface.co/models/${model}`, {
+            const response = await RequestExecutor.fetch('huggingface', `https://api-inference.huggingface.co/models/${model}`, {
                 method: 'POST',
                 headers: {
                     'Authorization': `Bearer ${options.huggingFaceToken}`,
@@ -421,7 +563,7 @@ export class StarVectorProcessor {
                         return_full_text: false,
                     },
                 }),
-            });
+            }, { signal: options.signal });
 
             if (response.ok) {
                 const result = await response.json();
@@ -437,237 +579,84 @@ export class StarVectorProcessor {
 
             return null;
         } catch (error: any) {
+            Cancellation.throwIfAborted(options.signal);
             console.error('Text generation API failed:', error);
             return null;
         }
     }
 
     /**
-     * Alternative method using local StarVector-inspired processing
+     * Offline fallback: trace the photo into SVG on-device (Potrace-style)
      */
-    static async processWithLocalStarVector(
+    static async traceImage(
         imageUri: string,
-        options: StarVectorOptions = {}
-    ): Promise<StarVectorResult> {
-        const processingSteps: string[] = [];
-
-        try {
-            console.log('⚡ Using local StarVector-inspired processing...');
-
-            // Step 1: Analyze image for vector elements
-            console.log('🔍 Analyzing image for vector elements...');
-            const vectorElements = await this.analyzeImageForVectors(imageUri);
-            processingSteps.push('Image analyzed for vector elements');
-
-            // Step 2: Generate SVG structure
-            console.log('🏗️ Generating SVG structure...');
-            const svgCode = await this.generateSVGFromAnalysis(vectorElements, imageUri);
-            processingSteps.push('SVG structure generated');
-
-            // Step 3: Optimize SVG for tattoo design
-            console.log('💫 Optimizing for tattoo design...');
-            const optimizedSVG = await this.optimizeSVGForTattoo(svgCode);
-            processingSteps.push('SVG optimized for tattoo design');
-
-            // Step 4: Save SVG file
-            const svgUri = await this.saveSVGToFile(optimizedSVG);
-            processingSteps.push('SVG file saved');
-
-            console.log('✅ Local StarVector-inspired processing complete!');
-
-            return {
-                success: true,
-                svgCode: optimizedSVG,
-                svgUri,
-                originalImageUri: imageUri,
-                processingSteps,
-                model: 'local-starvector-inspired',
-            };
-
-        } catch (error: any) {
-            console.error('❌ Local StarVector processing failed:', error);
-            return {
-                success: false,
-                originalImageUri: imageUri,
-                processingSteps,
-                error: error.message,
-            };
+        options: StarVectorOptions = {},
+        trace: ProcessingTrace = new ProcessingTrace()
+    ): Promise<string> {
+        console.log('⚡ Using local Potrace-style tracing...');
+
+        // Decode the image into pixels
+        console.log('🔍 Decoding image for tracing...');
+        const decoding = trace.begin('decode', { provider: 'local-tracer', inputUri: imageUri });
+        const image = await ImageCodec.loadForProcessing(imageUri, STARVECTOR_CONFIG.preprocessing.targetSize);
+        decoding(`Image decoded for tracing (${image.width}x${image.height})`, { parameters: { width: image.width, height: image.height } });
+        Cancellation.throwIfAborted(options.signal);
+
+        // Trace contours into Bézier paths
+        console.log('🏗️ Tracing contours into vector paths...');
+        const tracing = trace.begin('trace', { provider: 'local-tracer', parameters: { ...options.tracing } });
+        const traceResult = VectorTracer.traceRGBA(image.data, image.width, image.height, options.tracing);
+        if (traceResult.pathCount === 0) {
+            throw new Error('No linework found in image to trace');
         }
-    }
+        tracing(`Traced ${traceResult.pathCount} contours (threshold ${traceResult.threshold})`, {
+            parameters: { ...options.tracing, threshold: traceResult.threshold, pathCount: traceResult.pathCount },
+        });
 
-    /**
-     * Analyze image to extract vector-like elements
-     */
-    private static async analyzeImageForVectors(imageUri: string): Promise<any> {
-        // This would implement actual image analysis
-        // For now, return mock analysis
-        return {
-            shapes: ['circle', 'path', 'rect'],
-            colors: ['#000000', '#333333'],
-            complexity: 'medium',
-            recommendedPrimitives: ['path', 'circle']
-        };
+        return traceResult.svgCode;
     }
 
     /**
-     * Generate enhanced SVG from image analysis (StarVector-inspired)
+     * Reduce path nodes (RDP + curve fitting) so overlays render fast and stay editable
      */
-    private static async generateSVGFromAnalysis(analysis: any, imageUri: string): Promise<string> {
-        // Get image dimensions for SVG viewBox
-        let width = 400, height = 400;
-
-        try {
-            if (ImageManipulator) {
-                const imageInfo = await ImageManipulator.manipulateAsync(
-                    imageUri,
-                    [],
-                    { format: ImageManipulator.SaveFormat.JPEG }
-                );
-                width = Math.min(imageInfo.width, 800);
-                height = Math.min(imageInfo.height, 800);
-            }
-        } catch (error) {
-            console.log('Could not get image dimensions, using defaults');
-        }
-
-        // Generate sophisticated SVG structure inspired by StarVector's approach
-        const centerX = width * 0.5;
-        const centerY = height * 0.5;
-        const radius = Math.min(width, height) * 0.3;
-
-        const svgCode = `
-<svg width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" xmlns="http://www.w3.org/2000/svg">
-  <!-- Enhanced StarVector-inspired tattoo design -->
-  <defs>
-    <style>
-      .main-stroke { 
-        fill: none; 
-        stroke: #000; 
-        stroke-width: 4; 
-        stroke-linecap: round; 
-        stroke-linejoin: round; 
-        opacity: 1.0;
-      }
-      .detail-stroke { 
-        fill: none; 
-        stroke: #000; 
-        stroke-width: 2; 
-        stroke-linecap: round; 
-        stroke-linejoin: round; 
-        opacity: 0.8;
-      }
-      .accent-fill { 
-        fill: #000; 
-        stroke: none; 
-        opacity: 0.9;
-      }
-    </style>
-    <!-- Pattern definitions for texture -->
-    <pattern id="crosshatch" patternUnits="userSpaceOnUse" width="10" height="10">
-      <path d="M0,5 L10,5 M5,0 L5,10" stroke="#000" stroke-width="0.5" opacity="0.3"/>
-    </pattern>
-  </defs>
-  
-  <!-- Main design structure -->
-  <g id="primary-design">
-    <!-- Central focal point -->
-    <circle class="main-stroke" cx="${centerX}" cy="${centerY}" r="${radius * 0.6}"/>
-    
-    <!-- Organic flowing paths -->
-    <path class="main-stroke" d="M${width * 0.2} ${height * 0.3} 
-                                 Q${centerX} ${height * 0.1} ${width * 0.8} ${height * 0.3} 
-                                 Q${width * 0.9} ${centerY} ${width * 0.8} ${height * 0.7}
-                                 Q${centerX} ${height * 0.9} ${width * 0.2} ${height * 0.7}
-                                 Q${width * 0.1} ${centerY} ${width * 0.2} ${height * 0.3} Z"/>
-    
-    <!-- Geometric accent elements -->
-    <polygon class="accent-fill" points="${centerX - 20},${centerY - 15} ${centerX + 20},${centerY - 15} ${centerX},${centerY + 20}"/>
-  </g>
-  
-  <!-- Secondary details -->
-  <g id="detail-layer">
-    <!-- Radiating lines for energy -->
-    ${Array.from({ length: 8 }, (_, i) => {
-            const angle = (i * Math.PI * 2) / 8;
-            const x1 = centerX + Math.cos(angle) * radius * 0.7;
-            const y1 = centerY + Math.sin(angle) * radius * 0.7;
-            const x2 = centerX + Math.cos(angle) * radius * 1.1;
-            const y2 = centerY + Math.sin(angle) * radius * 1.1;
-            return `<line class="detail-stroke" x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}"/>`;
-        }).join('\n    ')}
-    
-    <!-- Decorative border elements -->
-    <rect class="detail-stroke" x="${width * 0.1}" y="${height * 0.1}" 
-          width="${width * 0.8}" height="${height * 0.8}" 
-          rx="20" ry="20" fill="none"/>
-  </g>
-  
-  <!-- Fine details for tattoo authenticity -->
-  <g id="texture-layer" opacity="0.6">
-    <circle cx="${centerX}" cy="${centerY}" r="${radius * 0.3}" fill="url(#crosshatch)"/>
-  </g>
-  
-  <!-- Metadata for tattoo optimization -->
-  <metadata>
-    <tattoo-design generator="StarVector-inspired" 
-                   style="geometric-organic" 
-                   complexity="medium"
-                   recommended-size="4-8 inches"/>
-  </metadata>
-</svg>`.trim();
-
-        return svgCode;
+    private static simplifySVGPaths(svgCode: string, options: StarVectorOptions): { svgCode: string; summary: string } {
+        const { svgCode: simplified, report } = PathSimplifier.simplify(svgCode, options.simplification);
+        const summary = PathSimplifier.describe(report);
+        console.log(`〰️ Path simplification: ${summary}`);
+        return { svgCode: simplified, summary };
     }
 
     /**
-     * Optimize SVG specifically for tattoo designs
+     * Optimize SVG for tattooing at the target size (line weight, tiny details, duplicates, ink)
      */
-    private static async optimizeSVGForTattoo(svgCode: string): Promise<string> {
-        // Add tattoo-specific optimizations
-        let optimized = svgCode;
-
-        // Ensure bold strokes for tattoo visibility
-        optimized = optimized.replace(/stroke-width:\s*[\d.]+/g, 'stroke-width: 3');
-
-        // Ensure black ink for traditional tattoos
-        optimized = optimized.replace(/stroke:\s*[^;]+/g, 'stroke: #000');
-        optimized = optimized.replace(/fill:\s*[^;]+/g, 'fill: #000');
-
-        // Add metadata for tattoo design
-        optimized = optimized.replace('<svg', `<svg data-tattoo-design="true" data-generated-by="starvector"`);
-
-        return optimized;
+    private static optimizeSVGForTattoo(svgCode: string, options: StarVectorOptions, generator: string): { svgCode: string; summary: string } {
+        const { svgCode: optimized, report } = SvgOptimizer.optimize(svgCode, { ...options.optimization, generator });
+        const summary = SvgOptimizer.describe(report, options.optimization);
+        console.log(`💫 Tattoo optimization: ${summary}`);
+        return { svgCode: optimized, summary };
     }
 
     /**
-     * Validate and clean SVG code
+     * Parse, whitelist and re-serialize SVG code; throws with the first structural error
      */
     private static async validateAndCleanSVG(svgCode: string): Promise<string> {
-        // Basic SVG validation and cleaning
-        let cleaned = svgCode.trim();
-
-        // Ensure it starts with SVG tag
-        if (!cleaned.startsWith('<svg')) {
-            // Try to extract SVG from the response
-            const svgMatch = cleaned.match(/<svg[\s\S]*<\/svg>/i);
-            if (svgMatch) {
-                cleaned = svgMatch[0];
-            } else {
-                throw new Error('Invalid SVG code generated');
-            }
+        const result = SvgSanitizer.sanitize(svgCode);
+
+        if (result.warnings.length > 0) {
+            console.log(`🧹 SVG sanitized: ${SvgSanitizer.describe(result.warnings)}`);
         }
 
-        // Basic cleanup
-        cleaned = cleaned.replace(/\n\s*\n/g, '\n'); // Remove empty lines
-        cleaned = cleaned.replace(/>\s+</g, '><');    // Remove whitespace between tags
+        if (!result.success || !result.svgCode) {
+            throw new Error(`Invalid SVG code generated: ${result.errors[0]?.message ?? 'unknown error'}`);
+        }
 
-        return cleaned;
+        return result.svgCode;
     }
 
     /**
-     * Save SVG code to file and convert to displayable format
+     * Save SVG code to file and render a PNG of it for display
      */
-    private static async saveSVGToFile(svgCode: string): Promise<string> {
+    private static async saveSVGToFile(svgCode: string, renderSize?: number): Promise<string> {
         if (!FileSystem) {
             throw new Error('FileSystem not available');
         }
@@ -682,194 +671,20 @@ export class StarVectorProcessor {
 
         console.log(`💾 SVG saved to: ${svgFilePath}`);
 
-        // Convert SVG to PNG for React Native display
-        try {
-            const pngPath = await this.convertSVGToPNG(svgCode);
-            console.log(`🖼️ PNG created for display: ${pngPath}`);
-            return pngPath;
-        } catch (error) {
-            console.log('⚠️ SVG to PNG conversion failed, creating displayable image fallback');
-
-            // Create a proper tattoo design image as fallback
-            const fallbackImage = await this.createTattooImageFallback(svgCode);
-            return fallbackImage;
-        }
-    }
-
-    /**
-     * Convert SVG to PNG using simple image generation
-     */
-    private static async convertSVGToPNG(svgCode: string): Promise<string> {
-        // Since direct SVG to PNG conversion is complex in React Native,
-        // we'll create a geometric tattoo design representation
-        return await this.createTattooImageFallback(svgCode);
-    }
-
-    /**
- * Create a tattoo design image that React Native can display
- */
-    private static async createTattooImageFallback(svgCode: string): Promise<string> {
-        if (!ImageManipulator) {
-            throw new Error('ImageManipulator not available');
-        }
-
-        try {
-            console.log('🎨 Creating displayable tattoo design...');
-
-            // Use a simple approach that we know works - create from existing captured image
-            // or create a simple black design that represents the generated SVG
-            const size = 300;
-
-            // Create a simple solid colored rectangle that React Native can definitely display
-            // We'll use the original captured image and apply a simple filter
-            const simpleTattooDesign = await this.createSimpleTattooDesign();
-
-            console.log(`✅ Tattoo design created successfully: ${simpleTattooDesign}`);
-            return simpleTattooDesign;
-
-        } catch (error) {
-            console.error('❌ Failed to create tattoo image:', error);
-            throw error;
-        }
-    }
-
-    /**
-     * Generate a simple circular tattoo design
-     */
-    private static async generateCircularTattooDesign(): Promise<string> {
-        // Create a proper black circle design using ImageManipulator
-        return await this.createBasicTattooShape('circle');
-    }
-
-    /**
-     * Generate a geometric tattoo design
-     */
-    private static async generateGeometricTattooDesign(): Promise<string> {
-        // Create a geometric diamond/square pattern
-        return await this.createBasicTattooShape('square');
-    }
-
-    /**
-     * Generate a tribal tattoo design
-     */
-    private static async generateTribalTattooDesign(): Promise<string> {
-        // Create a triangular tribal pattern
-        return await this.createBasicTattooShape('triangle');
+        // Rasterize for React Native <Image> display and for saved designs
+        const pngPath = await this.convertSVGToPNG(svgCode, renderSize);
+        console.log(`🖼️ PNG rendered for display: ${pngPath}`);
+        return pngPath;
     }
 
     /**
-     * Generate a default tattoo design
+     * Rasterize SVG code to a transparent PNG of the requested width
      */
-    private static async generateDefaultTattooDesign(): Promise<string> {
-        // Create a star pattern
-        return await this.createBasicTattooShape('star');
-    }
-
-    /**
-     * Create basic tattoo shapes using a solid color approach
-     */
-    private static async createBasicTattooShape(shape: 'circle' | 'square' | 'triangle' | 'star'): Promise<string> {
-        if (!ImageManipulator) {
-            throw new Error('ImageManipulator not available');
-        }
-
-        try {
-            // Create a solid black image as base
-            const size = 200;
-
-            // Start with a white canvas and add black shapes
-            const whiteCanvasBase64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8/5+hHgAHggJ/PchI7wAAAABJRU5ErkJggg==';
-
-            const result = await ImageManipulator.manipulateAsync(
-                `data:image/png;base64,${whiteCanvasBase64}`,
-                [
-                    { resize: { width: size, height: size } },
-                    {
-                        crop: {
-                            originX: 0,
-                            originY: 0,
-                            width: size,
-                            height: size
-                        }
-                    }
-                ],
-                {
-                    compress: 0.8,
-                    format: ImageManipulator.SaveFormat.PNG,
-                }
-            );
-
-            console.log(`🎨 Created ${shape} tattoo design: ${result.uri}`);
-            return result.uri;
-
-        } catch (error) {
-            console.error(`Failed to create ${shape} design:`, error);
-            throw error;
-        }
-    }
-
-    /**
- * Create a very simple tattoo design as final fallback
- */
-    private static async createSimpleTattooDesign(): Promise<string> {
-        if (!ImageManipulator || !FileSystem) {
-            throw new Error('Required modules not available');
-        }
-
+    private static async convertSVGToPNG(svgCode: string, size: number = SVG_RENDER_DEFAULTS.size): Promise<string> {
         try {
-            console.log('🎨 Creating simple tattoo design...');
-
-            // Create a simple black and white geometric design by manipulating a solid color
-            const size = 400;
-
-            // Create a temporary file with a simple pattern
-            const fileName = `tattoo_design_${Date.now()}.png`;
-            const filePath = `${FileSystem.documentDirectory}${fileName}`;
-
-            // Create a simple geometric design using base64 (a proper small PNG)
-            const simpleGeometricPNG = 'iVBORw0KGgoAAAANSUhEUgAAAAgAAAAICAYAAADED76LAAAABHNCSVQICAgIfAhkiAAAAAlwSFlzAAAAdgAAAHYBTnsmZQAAABl0RVh0U29mdHdhcmUAd3d3Lmlua3NjYXBlLm9yZ5vuPBoAAAAySURBVBiVY2RgYPgPBAxAwMjAAATMQMDAwMDIyMDAwMjIwMDIyMDAwMjIwMDIyMDAwAAD5wAhkJa3AQAAAABJRU5ErkJggg==';
-
-            // Save as a PNG file first
-            await FileSystem.writeAsStringAsync(filePath, simpleGeometricPNG, {
-                encoding: FileSystem.EncodingType.Base64,
-            });
-
-            // Now manipulate it to create a larger design
-            const result = await ImageManipulator.manipulateAsync(
-                filePath,
-                [
-                    { resize: { width: size, height: size } }
-                ],
-                {
-                    compress: 0.9,
-                    format: ImageManipulator.SaveFormat.PNG,
-                }
-            );
-
-            console.log(`✅ Tattoo design created: ${result.uri}`);
-            console.log(`📐 Dimensions: ${result.width}x${result.height}`);
-
-            // Clean up temporary file
-            await FileSystem.deleteAsync(filePath, { idempotent: true });
-
-            return result.uri;
-
-        } catch (error) {
-            console.error('❌ Failed to create tattoo design:', error);
-
-            // Ultimate fallback - just return a valid file path
-            try {
-                const fallbackFileName = `fallback_design_${Date.now()}.txt`;
-                const fallbackPath = `${FileSystem.documentDirectory}${fallbackFileName}`;
-                await FileSystem.writeAsStringAsync(fallbackPath, 'Design generated successfully', {
-                    encoding: FileSystem.EncodingType.UTF8,
-                });
-                console.log('📄 Created fallback indicator file');
-                return fallbackPath;
-            } catch (fallbackError) {
-                console.error('❌ All fallbacks failed:', fallbackError);
-                throw new Error('Could not create any design output');
-            }
+            return await SvgRasterizer.renderToPNG(svgCode, { width: size });
+        } catch (error: any) {
+            throw new Error(`Could not render SVG: ${error.message}`);
         }
     }
 
@@ -877,9 +692,7 @@ export class StarVectorProcessor {
      * Extract SVG code from StarVector response
      */
     private static extractSVGFromResponse(response: string): string | null {
-        // Look for SVG tags in the response
-        const svgMatch = response.match(/<svg[\s\S]*?<\/svg>/i);
-        return svgMatch ? svgMatch[0] : null;
+        return SvgSanitizer.extractSVG(response);
     }
 
     /**
@@ -903,37 +716,6 @@ export class StarVectorProcessor {
         }
     }
 
-    /**
-     * Generate fallback SVG when API fails
-     */
-    private static async generateFallbackSVG(imageBase64: string): Promise<string> {
-        console.log('🔄 Generating fallback SVG...');
-
-        // Create a simple SVG template
-        const fallbackSVG = `
-<svg width="400" height="400" viewBox="0 0 400 400" xmlns="http://www.w3.org/2000/svg">
-  <defs>
-    <style>
-      .fallback-design { 
-        fill: none; 
-        stroke: #000; 
-        stroke-width: 4; 
-        stroke-linecap: round; 
-      }
-    </style>
-  </defs>
-  <g id="fallback-tattoo">
-    <path class="fallback-design" d="M100 200 Q200 100 300 200 Q200 300 100 200 Z"/>
-    <circle class="fallback-design" cx="200" cy="200" r="50"/>
-    <text x="200" y="350" text-anchor="middle" font-family="Arial" font-size="14" fill="#666">
-      StarVector Generated Design
-    </text>
-  </g>
-</svg>`.trim();
-
-        return fallbackSVG;
-    }
-
     /**
      * Check if StarVector is available
      */
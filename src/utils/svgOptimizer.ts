@@ -0,0 +1,427 @@
+import { SvgParser, SvgNode, PathCommand } from './svgParser';
+import { SVG_OPTIMIZE_DEFAULTS } from '../constants/aiConfig';
+
+export interface SvgOptimizeOptions {
+    targetWidthMm?: number;         // Physical width the design will be tattooed at
+    minLineWeightMm?: number;       // Thinner strokes are widened to this
+    minDetailMm?: number;           // Shapes and subpaths smaller than this are dropped
+    duplicateToleranceMm?: number;  // Max coordinate difference for two paths to count as duplicates
+    inkColor?: string | null;       // Dark paints are mapped to this; null keeps colors
+    generator?: string;             // Written to data-generated-by
+}
+
+export interface SvgOptimizeReport {
+    mmPerUnit: number;
+    thinnestStrokeMm: number | null;  // Before widening
+    strokesWidened: number;
+    detailsRemoved: number;
+    duplicatesMerged: number;
+    paintsMapped: number;
+    emptyGroupsRemoved: number;
+    filledShapes: number;
+    outlinedShapes: number;
+}
+
+export interface SvgOptimizeResult {
+    svgCode: string;
+    report: SvgOptimizeReport;
+}
+
+interface ShapeInfo {
+    fill: string;
+    stroke: string;
+    strokeWidth: number;            // In the element's own units
+    unitScale: number;              // Element units -> root user units
+    geometry: { types: string; values: number[] } | null;
+}
+
+type Settings = Required<Omit<SvgOptimizeOptions, 'generator'>> & { generator?: string };
+
+const DRAWABLE_ELEMENTS = new Set(['path', 'rect', 'circle', 'ellipse', 'line', 'polyline', 'polygon']);
+const CONTAINER_ELEMENTS = new Set(['svg', 'g']);
+const PAINT_PROPERTIES = ['fill', 'stroke'];
+
+// Paints at least this light (0-1 luma) are negative space (skin), not ink
+const SKIN_LUMA = 0.85;
+
+export class SvgOptimizer {
+
+    /**
+     * Prepare SVG markup for tattooing at a physical size. Works on the parsed tree,
+     * so fill="none" outlines and distinct line weights above the minimum survive.
+     */
+    static optimize(svgCode: string, options: SvgOptimizeOptions = {}): SvgOptimizeResult {
+        const settings: Settings = { ...SVG_OPTIMIZE_DEFAULTS, ...options };
+        const root = SvgParser.parse(svgCode);
+
+        const report: SvgOptimizeReport = {
+            mmPerUnit: settings.targetWidthMm / this.userWidth(root),
+            thinnestStrokeMm: null,
+            strokesWidened: 0,
+            detailsRemoved: 0,
+            duplicatesMerged: 0,
+            paintsMapped: 0,
+            emptyGroupsRemoved: 0,
+            filledShapes: 0,
+            outlinedShapes: 0,
+        };
+
+        const rootStyle = { fill: 'black', stroke: 'none', 'stroke-width': '1' };
+        const shapes = new Map<SvgNode, ShapeInfo>();
+        this.visitChildren(root, rootStyle, 1, settings, report, shapes);
+
+        for (const info of shapes.values()) {
+            if (info.fill !== 'none') report.filledShapes++;
+            else if (info.stroke !== 'none') report.outlinedShapes++;
+        }
+
+        root.attributes['data-tattoo-design'] = 'true';
+        if (settings.generator) root.attributes['data-generated-by'] = settings.generator;
+
+        return { svgCode: SvgParser.serialize(root), report };
+    }
+
+    /**
+     * One-line summary of a report, for processing steps and logs
+     */
+    static describe(report: SvgOptimizeReport, options: SvgOptimizeOptions = {}): string {
+        const { minLineWeightMm } = { ...SVG_OPTIMIZE_DEFAULTS, ...options };
+        const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+        const changes: string[] = [];
+
+        if (report.strokesWidened) changes.push(`widened ${plural(report.strokesWidened, 'stroke')} to ${minLineWeightMm}mm`);
+        if (report.detailsRemoved) changes.push(`removed ${plural(report.detailsRemoved, 'sub-needle detail')}`);
+        if (report.duplicatesMerged) changes.push(`merged ${plural(report.duplicatesMerged, 'duplicate path')}`);
+        if (report.paintsMapped) changes.push(`mapped ${plural(report.paintsMapped, 'color')} to ink`);
+        if (report.emptyGroupsRemoved) changes.push(`dropped ${plural(report.emptyGroupsRemoved, 'empty group')}`);
+
+        const shapes = `${report.filledShapes} filled / ${report.outlinedShapes} outlined`;
+        return changes.length ? `${changes.join(', ')} (${shapes})` : `no changes needed (${shapes})`;
+    }
+
+    /**
+     * Process children in place: drop what is too small, then merge duplicates among the survivors
+     */
+    private static visitChildren(
+        node: SvgNode,
+        style: Record<string, string>,
+        unitScale: number,
+        settings: Settings,
+        report: SvgOptimizeReport,
+        shapes: Map<SvgNode, ShapeInfo>
+    ) {
+        node.children = node.children.filter(child => this.visit(child, style, unitScale, settings, report, shapes));
+        this.mergeDuplicates(node, settings, report, shapes);
+    }
+
+    /**
+     * Returns false when the element should be removed
+     */
+    private static visit(
+        node: SvgNode,
+        parentStyle: Record<string, string>,
+        parentScale: number,
+        settings: Settings,
+        report: SvgOptimizeReport,
+        shapes: Map<SvgNode, ShapeInfo>
+    ): boolean {
+        if (settings.inkColor) this.mapPaints(node, settings.inkColor, report);
+
+        if (!CONTAINER_ELEMENTS.has(node.name) && !DRAWABLE_ELEMENTS.has(node.name)) {
+            return true; // defs, text, style, ... are left as they are
+        }
+
+        const style = { ...parentStyle, ...this.declaredStyle(node) };
+        const unitScale = parentScale * SvgParser.transformScale(node.attributes.transform);
+
+        if (CONTAINER_ELEMENTS.has(node.name)) {
+            this.visitChildren(node, style, unitScale, settings, report, shapes);
+            if (node.name === 'g' && node.children.length === 0) {
+                report.emptyGroupsRemoved++;
+                return false;
+            }
+            return true;
+        }
+
+        const mmPerElementUnit = unitScale * report.mmPerUnit;
+        let strokeWidth = parseFloat(style['stroke-width']);
+        if (!Number.isFinite(strokeWidth) || strokeWidth < 0) strokeWidth = 1;
+
+        // stroke-width="0" is an explicit "no outline", not a line to widen
+        const stroked = style.stroke !== 'none' && style.stroke !== 'transparent' && strokeWidth > 0;
+        if (!stroked) strokeWidth = 0;
+
+        if (stroked) {
+            const strokeMm = strokeWidth * mmPerElementUnit;
+            report.thinnestStrokeMm = Math.min(report.thinnestStrokeMm ?? Infinity, strokeMm);
+            if (strokeMm < settings.minLineWeightMm) {
+                strokeWidth = settings.minLineWeightMm / mmPerElementUnit;
+                this.setProperty(node, 'stroke-width', String(Number(strokeWidth.toFixed(3))));
+                report.strokesWidened++;
+            }
+        }
+
+        // A mark smaller than a needle grouping can't be tattooed; the stroke counts towards its size
+        const minSize = settings.minDetailMm / mmPerElementUnit - strokeWidth;
+        if (!this.removeSmallGeometry(node, minSize, report)) {
+            report.detailsRemoved++;
+            return false;
+        }
+
+        shapes.set(node, {
+            fill: style.fill === 'transparent' ? 'none' : style.fill,
+            stroke: stroked ? style.stroke : 'none',
+            strokeWidth,
+            unitScale,
+            geometry: this.geometry(node),
+        });
+        return true;
+    }
+
+    /**
+     * Drop subpaths (or the whole shape) whose extent is under minSize.
+     * Returns false when nothing is left.
+     */
+    private static removeSmallGeometry(node: SvgNode, minSize: number, report: SvgOptimizeReport): boolean {
+        const a = node.attributes;
+        const n = (value: string | undefined) => parseFloat(value || '0') || 0;
+
+        switch (node.name) {
+            case 'path': {
+                const subpaths = this.splitSubpaths(SvgParser.parsePathData(a.d || ''));
+                const kept = subpaths.filter(subpath => this.extent(this.commandPoints(subpath)) >= minSize);
+                if (kept.length === 0) return false;
+                if (kept.length < subpaths.length) {
+                    report.detailsRemoved += subpaths.length - kept.length;
+                    a.d = SvgParser.formatPathData(kept.flat());
+                }
+                return true;
+            }
+            case 'rect':
+                return Math.max(n(a.width), n(a.height)) >= minSize;
+            case 'circle':
+                return n(a.r) * 2 >= minSize;
+            case 'ellipse':
+                return Math.max(n(a.rx), n(a.ry)) * 2 >= minSize;
+            case 'line':
+                return this.extent([n(a.x1), n(a.y1), n(a.x2), n(a.y2)]) >= minSize;
+            case 'polyline':
+            case 'polygon':
+                return this.extent((a.points || '').split(/[\s,]+/).filter(Boolean).map(parseFloat)) >= minSize;
+        }
+        return true;
+    }
+
+    /**
+     * Remove later siblings that repeat an earlier shape with the same paint (within tolerance).
+     * The kept shape takes the heavier stroke of the pair.
+     */
+    private static mergeDuplicates(node: SvgNode, settings: Settings, report: SvgOptimizeReport, shapes: Map<SvgNode, ShapeInfo>) {
+        const kept: SvgNode[] = [];
+
+        for (const child of node.children) {
+            const info = shapes.get(child);
+            const duplicateOf = info?.geometry && kept.find(other => {
+                const otherInfo = shapes.get(other);
+                if (!otherInfo?.geometry || other.name !== child.name) return false;
+                if (otherInfo.fill !== info.fill || otherInfo.stroke !== info.stroke) return false;
+                if (Math.abs(otherInfo.unitScale - info.unitScale) > 1e-6 * info.unitScale) return false;
+                if (other.attributes.transform !== child.attributes.transform) return false;
+
+                const tolerance = settings.duplicateToleranceMm / (info.unitScale * report.mmPerUnit);
+                return this.sameGeometry(otherInfo.geometry, info.geometry!, tolerance);
+            });
+
+            if (duplicateOf && info) {
+                const keptInfo = shapes.get(duplicateOf)!;
+                if (info.strokeWidth > keptInfo.strokeWidth) {
+                    keptInfo.strokeWidth = info.strokeWidth;
+                    this.setProperty(duplicateOf, 'stroke-width', String(Number(info.strokeWidth.toFixed(3))));
+                }
+                shapes.delete(child);
+                report.duplicatesMerged++;
+                continue;
+            }
+
+            kept.push(child);
+        }
+
+        node.children = kept;
+    }
+
+    private static geometry(node: SvgNode): ShapeInfo['geometry'] {
+        const a = node.attributes;
+        const n = (name: string) => parseFloat(a[name] || '0') || 0;
+
+        switch (node.name) {
+            case 'path': {
+                const commands = SvgParser.parsePathData(a.d || '');
+                const values: number[] = [];
+                for (const command of commands) {
+                    const { type, ...rest } = command;
+                    for (const value of Object.values(rest)) values.push(Number(value));
+                }
+                return { types: commands.map(command => command.type).join(''), values };
+            }
+            case 'rect':
+                return { types: 'rect', values: ['x', 'y', 'width', 'height', 'rx', 'ry'].map(n) };
+            case 'circle':
+                return { types: 'circle', values: ['cx', 'cy', 'r'].map(n) };
+            case 'ellipse':
+                return { types: 'ellipse', values: ['cx', 'cy', 'rx', 'ry'].map(n) };
+            case 'line':
+                return { types: 'line', values: ['x1', 'y1', 'x2', 'y2'].map(n) };
+            case 'polyline':
+            case 'polygon': {
+                const values = (a.points || '').split(/[\s,]+/).filter(Boolean).map(parseFloat);
+                return { types: `${node.name}${values.length}`, values };
+            }
+        }
+        return null;
+    }
+
+    private static sameGeometry(a: NonNullable<ShapeInfo['geometry']>, b: NonNullable<ShapeInfo['geometry']>, tolerance: number): boolean {
+        if (a.types !== b.types || a.values.length !== b.values.length) return false;
+        return a.values.every((value, k) => Math.abs(value - b.values[k]) <= tolerance);
+    }
+
+    private static splitSubpaths(commands: PathCommand[]): PathCommand[][] {
+        const subpaths: PathCommand[][] = [];
+        for (const command of commands) {
+            if (command.type === 'M' || subpaths.length === 0) subpaths.push([]);
+            subpaths[subpaths.length - 1].push(command);
+        }
+        return subpaths;
+    }
+
+    /**
+     * Endpoints and control points of a subpath (a superset of the curve's bounding box)
+     */
+    private static commandPoints(commands: PathCommand[]): number[] {
+        const points: number[] = [];
+        for (const command of commands) {
+            switch (command.type) {
+                case 'C':
+                    points.push(command.x1, command.y1, command.x2, command.y2, command.x, command.y);
+                    break;
+                case 'Q':
+                    points.push(command.x1, command.y1, command.x, command.y);
+                    break;
+                case 'A':
+                    // Arc bulge isn't in the endpoints; its radius bounds it
+                    points.push(command.x, command.y, command.x + command.rx * 2, command.y + command.ry * 2);
+                    break;
+                case 'M':
+                case 'L':
+                    points.push(command.x, command.y);
+                    break;
+            }
+        }
+        return points;
+    }
+
+    /**
+     * Larger side of the bounding box of flat x,y pairs
+     */
+    private static extent(points: number[]): number {
+        if (points.length < 2) return 0;
+        let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+        for (let k = 0; k + 1 < points.length; k += 2) {
+            minX = Math.min(minX, points[k]);
+            maxX = Math.max(maxX, points[k]);
+            minY = Math.min(minY, points[k + 1]);
+            maxY = Math.max(maxY, points[k + 1]);
+        }
+        return Math.max(maxX - minX, maxY - minY);
+    }
+
+    /**
+     * Map dark fills and strokes to the ink color. none, currentColor and light
+     * (skin) paints are left alone so fill intent and negative space survive.
+     */
+    private static mapPaints(node: SvgNode, inkColor: string, report: SvgOptimizeReport) {
+        const declared = this.declaredStyle(node);
+        for (const property of PAINT_PROPERTIES) {
+            const value = declared[property];
+            if (value === undefined || !this.isInk(value) || value.toLowerCase() === inkColor.toLowerCase()) continue;
+            this.setProperty(node, property, inkColor);
+            report.paintsMapped++;
+        }
+    }
+
+    private static isInk(paint: string): boolean {
+        const value = paint.trim().toLowerCase();
+        if (value === 'none' || value === 'transparent' || value === 'currentcolor' || value === 'inherit') return false;
+        if (value.startsWith('url(')) return true; // Gradients flatten to solid ink
+
+        const luma = this.luma(value);
+        return luma === null || luma < SKIN_LUMA;
+    }
+
+    private static luma(color: string): number | null {
+        let rgb: number[] | null = null;
+
+        if (color === 'white') return 1;
+        if (color === 'black') return 0;
+
+        const hex = /^#([0-9a-f]{3}|[0-9a-f]{6})$/.exec(color);
+        if (hex) {
+            const digits = hex[1].length === 3 ? hex[1].split('').map(d => d + d).join('') : hex[1];
+            rgb = [0, 2, 4].map(k => parseInt(digits.slice(k, k + 2), 16));
+        }
+
+        const functional = /^rgba?\(([^)]*)\)$/.exec(color);
+        if (functional) {
+            rgb = functional[1].split(/[\s,/]+/).slice(0, 3).map(part =>
+                part.endsWith('%') ? (parseFloat(part) / 100) * 255 : parseFloat(part)
+            );
+        }
+
+        if (!rgb || rgb.some(value => !Number.isFinite(value))) return null;
+        return (0.2126 * rgb[0] + 0.7152 * rgb[1] + 0.0722 * rgb[2]) / 255;
+    }
+
+    /**
+     * fill / stroke / stroke-width from attributes, overridden by the inline style
+     */
+    private static declaredStyle(node: SvgNode): Record<string, string> {
+        const declared: Record<string, string> = {};
+        for (const property of [...PAINT_PROPERTIES, 'stroke-width']) {
+            if (node.attributes[property] !== undefined) declared[property] = node.attributes[property].trim();
+        }
+        if (node.attributes.style) {
+            const inline = SvgParser.parseStyle(node.attributes.style);
+            for (const property of [...PAINT_PROPERTIES, 'stroke-width']) {
+                if (inline[property] !== undefined) declared[property] = inline[property];
+            }
+        }
+        for (const property of Object.keys(declared)) {
+            if (declared[property] === 'inherit') delete declared[property];
+        }
+        return declared;
+    }
+
+    /**
+     * Write a property where it is declared: the inline style if it sets it, else the attribute
+     */
+    private static setProperty(node: SvgNode, property: string, value: string) {
+        const inline = node.attributes.style ? SvgParser.parseStyle(node.attributes.style) : {};
+        if (inline[property] !== undefined) {
+            inline[property] = value;
+            node.attributes.style = Object.entries(inline).map(([name, v]) => `${name}:${v}`).join(';');
+        } else {
+            node.attributes[property] = value;
+        }
+    }
+
+    /**
+     * Width of the root's user coordinate system
+     */
+    private static userWidth(root: SvgNode): number {
+        const viewBox = (root.attributes.viewBox || '').trim().split(/[\s,]+/).map(Number);
+        if (viewBox.length === 4 && viewBox[2] > 0) return viewBox[2];
+
+        const width = parseFloat(root.attributes.width);
+        return width > 0 ? width : 100;
+    }
+}
@@ -0,0 +1,461 @@
+/**
+ * Element node of a parsed SVG document
+ */
+export interface SvgNode {
+    name: string;
+    attributes: Record<string, string>;
+    children: SvgNode[];
+    text: string; // Character data directly inside the element (used by <style>)
+}
+
+/**
+ * Absolute path command. H/V are normalized to L, S to C and T to Q.
+ */
+export type PathCommand =
+    | { type: 'M' | 'L'; x: number; y: number }
+    | { type: 'C'; x1: number; y1: number; x2: number; y2: number; x: number; y: number }
+    | { type: 'Q'; x1: number; y1: number; x: number; y: number }
+    | { type: 'A'; rx: number; ry: number; rotation: number; largeArc: boolean; sweep: boolean; x: number; y: number }
+    | { type: 'Z' };
+
+const ENTITIES: Record<string, string> = {
+    amp: '&',
+    lt: '<',
+    gt: '>',
+    quot: '"',
+    apos: "'",
+};
+
+const NUMBER_PATTERN = /[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/y;
+
+// Number of parameters taken by each path command
+const PATH_ARITY: Record<string, number> = {
+    M: 2, L: 2, H: 1, V: 1, C: 6, S: 4, Q: 4, T: 2, A: 7, Z: 0,
+};
+
+export type SvgParseErrorCode =
+    | 'invalid-tag'
+    | 'malformed-attributes'
+    | 'duplicate-attribute'
+    | 'mismatched-tag'
+    | 'unclosed-element'
+    | 'unterminated'
+    | 'missing-root';
+
+/**
+ * Malformed markup, with the position where parsing failed
+ */
+export class SvgParseError extends Error {
+    constructor(
+        public code: SvgParseErrorCode,
+        message: string,
+        public offset: number,
+        public line: number,
+        public column: number
+    ) {
+        super(`${message} (line ${line}, column ${column})`);
+        this.name = 'SvgParseError';
+    }
+}
+
+export class SvgParser {
+
+    /**
+     * Parse SVG markup and return the root <svg> element
+     */
+    static parse(svgCode: string): SvgNode {
+        const { document } = this.parseMarkup(svgCode, 0, false);
+
+        const svg = document.children.find(child => child.name === 'svg');
+        if (!svg) {
+            throw this.error('missing-root', 'No <svg> root element found', svgCode, 0);
+        }
+        return svg;
+    }
+
+    /**
+     * Find the first complete, well-formed <svg> element in free text (e.g. a model response)
+     */
+    static extract(text: string): { node: SvgNode; markup: string } | null {
+        let lastError: SvgParseError | null = null;
+        let start = text.indexOf('<svg');
+
+        while (start !== -1) {
+            try {
+                const { document, end } = this.parseMarkup(text, start, true);
+                const node = document.children[0];
+                if (node?.name === 'svg') {
+                    return { node, markup: text.slice(start, end) };
+                }
+            } catch (error) {
+                if (error instanceof SvgParseError) lastError = error;
+                else throw error;
+            }
+            start = text.indexOf('<svg', start + 4);
+        }
+
+        if (lastError) throw lastError;
+        return null;
+    }
+
+    /**
+     * Serialize an element tree back to canonical markup
+     */
+    static serialize(node: SvgNode): string {
+        const attributes = Object.entries(node.attributes)
+            .map(([name, value]) => ` ${name}="${this.escape(value, true)}"`)
+            .join('');
+        const text = node.text.trim() ? this.escape(node.text.trim(), false) : '';
+
+        if (node.children.length === 0 && !text) {
+            return `<${node.name}${attributes}/>`;
+        }
+
+        const children = node.children.map(child => this.serialize(child)).join('');
+        return `<${node.name}${attributes}>${text}${children}</${node.name}>`;
+    }
+
+    /**
+     * Depth-first search for an element by id
+     */
+    static findById(node: SvgNode, id: string): SvgNode | null {
+        if (node.attributes.id === id) return node;
+        for (const child of node.children) {
+            const found = this.findById(child, id);
+            if (found) return found;
+        }
+        return null;
+    }
+
+    /**
+     * Parse path data into absolute commands. Parsing stops at the first error,
+     * keeping everything before it (as browsers do).
+     */
+    static parsePathData(d: string): PathCommand[] {
+        const commands: PathCommand[] = [];
+        let i = 0;
+        let command = '';
+        let x = 0;
+        let y = 0;
+        let startX = 0;
+        let startY = 0;
+        // Last control point, for the S and T reflections
+        let controlX = 0;
+        let controlY = 0;
+        let previous = '';
+
+        const skipSeparators = () => {
+            while (i < d.length && (d[i] === ',' || d[i] === ' ' || d[i] === '\t' || d[i] === '\n' || d[i] === '\r')) i++;
+        };
+        const readNumber = (): number | null => {
+            skipSeparators();
+            NUMBER_PATTERN.lastIndex = i;
+            const match = NUMBER_PATTERN.exec(d);
+            if (!match) return null;
+            i += match[0].length;
+            return parseFloat(match[0]);
+        };
+        const readFlag = (): boolean | null => {
+            skipSeparators();
+            if (d[i] === '0' || d[i] === '1') return d[i++] === '1';
+            return null;
+        };
+
+        while (true) {
+            skipSeparators();
+            if (i >= d.length) break;
+
+            if (/[a-zA-Z]/.test(d[i])) {
+                command = d[i++];
+                if (PATH_ARITY[command.toUpperCase()] === undefined) break;
+            } else if (!command || command === 'Z' || command === 'z') {
+                break;
+            }
+
+            const upper = command.toUpperCase();
+            const relative = command !== upper;
+
+            if (upper === 'Z') {
+                commands.push({ type: 'Z' });
+                x = startX;
+                y = startY;
+                previous = 'Z';
+                continue;
+            }
+
+            const values: number[] = [];
+            for (let k = 0; k < PATH_ARITY[upper]; k++) {
+                const value = upper === 'A' && (k === 3 || k === 4) ? readFlag() : readNumber();
+                if (value === null) return commands;
+                values.push(typeof value === 'boolean' ? (value ? 1 : 0) : value);
+            }
+
+            const ox = relative ? x : 0;
+            const oy = relative ? y : 0;
+
+            switch (upper) {
+                case 'M':
+                    x = values[0] + ox;
+                    y = values[1] + oy;
+                    startX = x;
+                    startY = y;
+                    commands.push({ type: 'M', x, y });
+                    // Extra coordinate pairs after a moveto are implicit linetos
+                    command = relative ? 'l' : 'L';
+                    break;
+                case 'L':
+                    x = values[0] + ox;
+                    y = values[1] + oy;
+                    commands.push({ type: 'L', x, y });
+                    break;
+                case 'H':
+                    x = values[0] + ox;
+                    commands.push({ type: 'L', x, y });
+                    break;
+                case 'V':
+                    y = values[0] + oy;
+                    commands.push({ type: 'L', x, y });
+                    break;
+                case 'C':
+                case 'S': {
+                    let x1: number;
+                    let y1: number;
+                    let rest = values;
+                    if (upper === 'C') {
+                        x1 = values[0] + ox;
+                        y1 = values[1] + oy;
+                        rest = values.slice(2);
+                    } else {
+                        const reflect = previous === 'C';
+                        x1 = reflect ? 2 * x - controlX : x;
+                        y1 = reflect ? 2 * y - controlY : y;
+                    }
+                    const x2 = rest[0] + ox;
+                    const y2 = rest[1] + oy;
+                    x = rest[2] + ox;
+                    y = rest[3] + oy;
+                    commands.push({ type: 'C', x1, y1, x2, y2, x, y });
+                    controlX = x2;
+                    controlY = y2;
+                    break;
+                }
+                case 'Q':
+                case 'T': {
+                    let x1: number;
+                    let y1: number;
+                    if (upper === 'Q') {
+                        x1 = values[0] + ox;
+                        y1 = values[1] + oy;
+                        x = values[2] + ox;
+                        y = values[3] + oy;
+                    } else {
+                        const reflect = previous === 'Q';
+                        x1 = reflect ? 2 * x - controlX : x;
+                        y1 = reflect ? 2 * y - controlY : y;
+                        x = values[0] + ox;
+                        y = values[1] + oy;
+                    }
+                    commands.push({ type: 'Q', x1, y1, x, y });
+                    controlX = x1;
+                    controlY = y1;
+                    break;
+                }
+                case 'A':
+                    x = values[5] + ox;
+                    y = values[6] + oy;
+                    commands.push({
+                        type: 'A',
+                        rx: Math.abs(values[0]),
+                        ry: Math.abs(values[1]),
+                        rotation: values[2],
+                        largeArc: values[3] === 1,
+                        sweep: values[4] === 1,
+                        x,
+                        y,
+                    });
+                    break;
+            }
+
+            previous = upper === 'S' ? 'C' : upper === 'T' ? 'Q' : upper;
+        }
+
+        return commands;
+    }
+
+    /**
+     * Write absolute commands back as path data, rounding to `precision` decimals
+     */
+    static formatPathData(commands: PathCommand[], precision: number = 3): string {
+        const n = (value: number) => {
+            const rounded = Number(value.toFixed(precision));
+            return Object.is(rounded, -0) ? '0' : String(rounded);
+        };
+
+        return commands.map(command => {
+            switch (command.type) {
+                case 'M':
+                case 'L':
+                    return `${command.type}${n(command.x)} ${n(command.y)}`;
+                case 'C':
+                    return `C${n(command.x1)} ${n(command.y1)} ${n(command.x2)} ${n(command.y2)} ${n(command.x)} ${n(command.y)}`;
+                case 'Q':
+                    return `Q${n(command.x1)} ${n(command.y1)} ${n(command.x)} ${n(command.y)}`;
+                case 'A':
+                    return `A${n(command.rx)} ${n(command.ry)} ${n(command.rotation)} ${command.largeArc ? 1 : 0} ${command.sweep ? 1 : 0} ${n(command.x)} ${n(command.y)}`;
+                case 'Z':
+                    return 'Z';
+            }
+        }).join('');
+    }
+
+    /**
+     * Linear scale of a transform list (square root of its determinant)
+     */
+    static transformScale(transform: string | undefined): number {
+        if (!transform) return 1;
+
+        let determinant = 1;
+        const pattern = /(matrix|scale)\s*\(([^)]*)\)/g;
+        let match: RegExpExecArray | null;
+        while ((match = pattern.exec(transform)) !== null) {
+            const n = match[2].split(/[\s,]+/).filter(Boolean).map(parseFloat);
+            if (match[1] === 'matrix' && n.length === 6) {
+                determinant *= n[0] * n[3] - n[1] * n[2];
+            } else if (match[1] === 'scale') {
+                determinant *= (n[0] ?? 1) * (n[1] ?? n[0] ?? 1);
+            }
+        }
+        // rotate, translate and skew preserve area
+        return Math.sqrt(Math.abs(determinant)) || 1;
+    }
+
+    /**
+     * Split an inline style attribute into property/value pairs
+     */
+    static parseStyle(style: string): Record<string, string> {
+        const properties: Record<string, string> = {};
+        for (const declaration of style.split(';')) {
+            const colon = declaration.indexOf(':');
+            if (colon === -1) continue;
+            const name = declaration.slice(0, colon).trim().toLowerCase();
+            const value = declaration.slice(colon + 1).replace(/!important/i, '').trim();
+            if (name && value) properties[name] = value;
+        }
+        return properties;
+    }
+
+    /**
+     * Build the element tree. With `singleRoot`, stop as soon as the first top-level element closes.
+     */
+    private static parseMarkup(source: string, start: number, singleRoot: boolean): { document: SvgNode; end: number } {
+        const document: SvgNode = { name: '#document', attributes: {}, children: [], text: '' };
+        const stack: SvgNode[] = [document];
+        let i = start;
+
+        while (i < source.length) {
+            if (singleRoot && stack.length === 1 && document.children.length > 0) break;
+
+            const tagStart = source.indexOf('<', i);
+            const textEnd = tagStart === -1 ? source.length : tagStart;
+            if (textEnd > i && stack.length > 1) {
+                stack[stack.length - 1].text += this.decodeEntities(source.slice(i, textEnd));
+            }
+            if (tagStart === -1) {
+                i = source.length;
+                break;
+            }
+
+            if (source.startsWith('<!--', tagStart)) {
+                i = this.skipPast(source, '-->', tagStart);
+            } else if (source.startsWith('<![CDATA[', tagStart)) {
+                const end = this.skipPast(source, ']]>', tagStart);
+                stack[stack.length - 1].text += source.slice(tagStart + 9, end - 3);
+                i = end;
+            } else if (source.startsWith('<?', tagStart)) {
+                i = this.skipPast(source, '?>', tagStart);
+            } else if (source.startsWith('<!', tagStart)) {
+                i = this.skipPast(source, '>', tagStart);
+            } else if (source.startsWith('</', tagStart)) {
+                const end = this.skipPast(source, '>', tagStart);
+                const name = source.slice(tagStart + 2, end - 1).trim();
+                const open = stack[stack.length - 1];
+                if (open === document || open.name !== name) {
+                    const expected = open === document ? 'no open element' : `</${open.name}>`;
+                    throw this.error('mismatched-tag', `Unexpected </${name}>, expected ${expected}`, source, tagStart);
+                }
+                stack.pop();
+                i = end;
+            } else {
+                i = this.parseStartTag(source, tagStart, stack);
+            }
+        }
+
+        if (stack.length > 1) {
+            throw this.error('unclosed-element', `Unclosed <${stack[stack.length - 1].name}> element`, source, source.length);
+        }
+
+        return { document, end: i };
+    }
+
+    private static parseStartTag(source: string, tagStart: number, stack: SvgNode[]): number {
+        const nameMatch = /^<([A-Za-z_][\w:.-]*)/.exec(source.slice(tagStart, tagStart + 256));
+        if (!nameMatch) {
+            throw this.error('invalid-tag', 'Invalid tag', source, tagStart);
+        }
+
+        const node: SvgNode = { name: nameMatch[1], attributes: {}, children: [], text: '' };
+        const attributePattern = /\s*([A-Za-z_][\w:.-]*)\s*=\s*("([^"]*)"|'([^']*)')|\s*(\/?>)/y;
+        let i = tagStart + nameMatch[0].length;
+
+        while (true) {
+            attributePattern.lastIndex = i;
+            const match = attributePattern.exec(source);
+            if (!match) {
+                const reason = i >= source.length ? 'unterminated' : 'malformed-attributes';
+                throw this.error(reason, `Malformed attributes in <${node.name}>`, source, i);
+            }
+
+            if (match[5]) {
+                stack[stack.length - 1].children.push(node);
+                if (match[5] === '>') stack.push(node);
+                return attributePattern.lastIndex;
+            }
+
+            if (node.attributes[match[1]] !== undefined) {
+                throw this.error('duplicate-attribute', `Duplicate attribute "${match[1]}" in <${node.name}>`, source, i);
+            }
+            node.attributes[match[1]] = this.decodeEntities(match[3] ?? match[4]);
+            i = attributePattern.lastIndex;
+        }
+    }
+
+    private static skipPast(source: string, terminator: string, from: number): number {
+        const end = source.indexOf(terminator, from);
+        if (end === -1) {
+            throw this.error('unterminated', `Expected "${terminator}"`, source, from);
+        }
+        return end + terminator.length;
+    }
+
+    private static error(code: SvgParseErrorCode, message: string, source: string, offset: number): SvgParseError {
+        const before = source.slice(0, offset);
+        const line = before.split('\n').length;
+        const column = offset - before.lastIndexOf('\n');
+        return new SvgParseError(code, message, offset, line, column);
+    }
+
+    private static escape(value: string, attribute: boolean): string {
+        const escaped = value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+        return attribute ? escaped.replace(/"/g, '&quot;') : escaped;
+    }
+
+    private static decodeEntities(text: string): string {
+        return text.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (entity, body: string) => {
+            if (body[0] === '#') {
+                const code = body[1] === 'x' ? parseInt(body.slice(2), 16) : parseInt(body.slice(1), 10);
+                return Number.isFinite(code) ? String.fromCodePoint(code) : entity;
+            }
+            return ENTITIES[body] ?? entity;
+        });
+    }
+}
@@ -0,0 +1,1027 @@
+import { ImageCodec, PixelBuffer } from './imageCodec';
+import { SvgParser, SvgNode, PathCommand } from './svgParser';
+import { SVG_RENDER_DEFAULTS } from '../constants/aiConfig';
+
+export interface RasterizeOptions {
+    width?: number;       // Output width in pixels (height follows the SVG's aspect ratio when omitted)
+    height?: number;
+    background?: string;  // Any CSS color; 'transparent' keeps real alpha
+    samples?: number;     // Vertical anti-aliasing samples per pixel row
+}
+
+type Matrix = [number, number, number, number, number, number];
+type Color = [number, number, number, number]; // RGBA, 0-1
+type Polygon = number[];                        // Flat x,y pairs
+
+interface Subpath {
+    points: number[];
+    closed: boolean;
+}
+
+interface CssRule {
+    selector: string;
+    specificity: number;
+    properties: Record<string, string>;
+}
+
+interface RenderContext {
+    root: SvgNode;
+    rules: CssRule[];
+    canvas: Float32Array;   // Premultiplied RGBA, 0-1
+    width: number;
+    height: number;
+    samples: number;
+    viewportWidth: number;  // Reference size for percentage lengths
+    viewportHeight: number;
+    useDepth: number;
+}
+
+// Presentation properties that children inherit from their parents
+const INHERITED_PROPERTIES = [
+    'fill', 'fill-opacity', 'fill-rule',
+    'stroke', 'stroke-width', 'stroke-opacity', 'stroke-linecap', 'stroke-linejoin',
+    'stroke-miterlimit', 'stroke-dasharray', 'stroke-dashoffset',
+    'color', 'visibility',
+];
+
+const PRESENTATION_ATTRIBUTES = [...INHERITED_PROPERTIES, 'opacity', 'display'];
+
+// Elements that define resources or text and are never painted directly
+const NON_RENDERED = new Set([
+    'defs', 'clipPath', 'mask', 'symbol', 'linearGradient', 'radialGradient', 'pattern',
+    'style', 'title', 'desc', 'metadata', 'text', 'image', 'marker', 'filter', 'script',
+]);
+
+const NAMED_COLORS: Record<string, string> = {
+    black: '#000000', white: '#ffffff', red: '#ff0000', green: '#008000', blue: '#0000ff',
+    gray: '#808080', grey: '#808080', darkgray: '#a9a9a9', darkgrey: '#a9a9a9', lightgray: '#d3d3d3',
+    lightgrey: '#d3d3d3', silver: '#c0c0c0', yellow: '#ffff00', orange: '#ffa500', purple: '#800080',
+    pink: '#ffc0cb', brown: '#a52a2a', cyan: '#00ffff', aqua: '#00ffff', magenta: '#ff00ff',
+    fuchsia: '#ff00ff', lime: '#00ff00', navy: '#000080', teal: '#008080', maroon: '#800000',
+    olive: '#808000', gold: '#ffd700', crimson: '#dc143c', indigo: '#4b0082', violet: '#ee82ee',
+};
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+// Max distance (device pixels) between a curve and its flattened polyline
+const FLATTEN_TOLERANCE = 0.25;
+
+export class SvgRasterizer {
+
+    /**
+     * Render SVG markup into RGBA pixels
+     */
+    static rasterize(svgCode: string, options: RasterizeOptions = {}): PixelBuffer {
+        const settings = { ...SVG_RENDER_DEFAULTS, ...options };
+        const root = SvgParser.parse(svgCode);
+
+        const viewBox = this.parseNumbers(root.attributes.viewBox || '');
+        const hasViewBox = viewBox.length === 4 && viewBox[2] > 0 && viewBox[3] > 0;
+        const intrinsicWidth = this.parseLength(root.attributes.width, 0, 0) || (hasViewBox ? viewBox[2] : 300);
+        const intrinsicHeight = this.parseLength(root.attributes.height, 0, 0) || (hasViewBox ? viewBox[3] : 150);
+
+        const width = Math.max(1, Math.round(options.width ?? (options.height
+            ? options.height * intrinsicWidth / intrinsicHeight
+            : settings.size)));
+        const height = Math.max(1, Math.round(options.height ?? width * intrinsicHeight / intrinsicWidth));
+
+        const context: RenderContext = {
+            root,
+            rules: this.collectStyleRules(root),
+            canvas: new Float32Array(width * height * 4),
+            width,
+            height,
+            samples: Math.max(1, Math.round(settings.samples)),
+            viewportWidth: hasViewBox ? viewBox[2] : intrinsicWidth,
+            viewportHeight: hasViewBox ? viewBox[3] : intrinsicHeight,
+            useDepth: 0,
+        };
+
+        const background = this.parseColor(settings.background, [0, 0, 0, 1]);
+        if (background && background[3] > 0) {
+            for (let i = 0; i < width * height; i++) {
+                context.canvas[i * 4] = background[0] * background[3];
+                context.canvas[i * 4 + 1] = background[1] * background[3];
+                context.canvas[i * 4 + 2] = background[2] * background[3];
+                context.canvas[i * 4 + 3] = background[3];
+            }
+        }
+
+        const viewport = hasViewBox
+            ? this.viewBoxTransform(viewBox, width, height, root.attributes.preserveAspectRatio)
+            : [width / intrinsicWidth, 0, 0, height / intrinsicHeight, 0, 0] as Matrix;
+
+        const declared = this.declaredStyle(root, context.rules);
+        const opacity = this.clamp01(parseFloat(declared.opacity ?? '1'));
+        this.renderChildren(root, viewport, this.inheritStyle(declared, this.rootStyle()), opacity, context);
+        return this.toPixels(context);
+    }
+
+    /**
+     * Render SVG markup and save it as a PNG file
+     */
+    static async renderToPNG(svgCode: string, options: RasterizeOptions = {}): Promise<string> {
+        const buffer = this.rasterize(svgCode, options);
+        return await ImageCodec.writePNG(buffer, 'svg_render');
+    }
+
+    // ---------------------------------------------------------------------
+    // Tree traversal and styles
+    // ---------------------------------------------------------------------
+
+    private static rootStyle(): Record<string, string> {
+        return {
+            fill: 'black',
+            'fill-opacity': '1',
+            'fill-rule': 'nonzero',
+            stroke: 'none',
+            'stroke-width': '1',
+            'stroke-opacity': '1',
+            'stroke-linecap': 'butt',
+            'stroke-linejoin': 'miter',
+            'stroke-miterlimit': '4',
+            'stroke-dasharray': 'none',
+            'stroke-dashoffset': '0',
+            color: 'black',
+            visibility: 'visible',
+        };
+    }
+
+    private static renderChildren(node: SvgNode, matrix: Matrix, style: Record<string, string>, opacity: number, context: RenderContext) {
+        for (const child of node.children) {
+            this.renderNode(child, matrix, style, opacity, context);
+        }
+    }
+
+    private static renderNode(node: SvgNode, parentMatrix: Matrix, parentStyle: Record<string, string>, parentOpacity: number, context: RenderContext) {
+        if (NON_RENDERED.has(node.name)) return;
+
+        const declared = this.declaredStyle(node, context.rules);
+        if (declared.display === 'none') return;
+
+        const style = this.inheritStyle(declared, parentStyle);
+
+        // Group opacity is approximated by multiplying it into each descendant's paint
+        const opacity = parentOpacity * this.clamp01(parseFloat(declared.opacity ?? '1'));
+        if (opacity <= 0) return;
+
+        let matrix = node.attributes.transform
+            ? this.multiply(parentMatrix, this.parseTransform(node.attributes.transform))
+            : parentMatrix;
+
+        switch (node.name) {
+            case 'svg': {
+                const x = this.parseLength(node.attributes.x, context.viewportWidth, 0);
+                const y = this.parseLength(node.attributes.y, context.viewportHeight, 0);
+                const width = this.parseLength(node.attributes.width, context.viewportWidth, context.viewportWidth);
+                const height = this.parseLength(node.attributes.height, context.viewportHeight, context.viewportHeight);
+                const viewBox = this.parseNumbers(node.attributes.viewBox || '');
+                matrix = this.multiply(matrix, [1, 0, 0, 1, x, y]);
+                if (viewBox.length === 4 && viewBox[2] > 0 && viewBox[3] > 0) {
+                    matrix = this.multiply(matrix, this.viewBoxTransform(viewBox, width, height, node.attributes.preserveAspectRatio));
+                }
+                this.renderChildren(node, matrix, style, opacity, context);
+                return;
+            }
+            case 'g':
+            case 'a':
+            case 'switch':
+                this.renderChildren(node, matrix, style, opacity, context);
+                return;
+            case 'use': {
+                const href = node.attributes.href || node.attributes['xlink:href'] || '';
+                const target = href.startsWith('#') ? SvgParser.findById(context.root, href.slice(1)) : null;
+                if (!target || context.useDepth > 8) return;
+
+                const x = this.parseLength(node.attributes.x, context.viewportWidth, 0);
+                const y = this.parseLength(node.attributes.y, context.viewportHeight, 0);
+                matrix = this.multiply(matrix, [1, 0, 0, 1, x, y]);
+
+                context.useDepth++;
+                if (target.name === 'symbol') {
+                    this.renderChildren(target, matrix, style, opacity, context);
+                } else {
+                    this.renderNode(target, matrix, style, opacity, context);
+                }
+                context.useDepth--;
+                return;
+            }
+        }
+
+        if (style.visibility === 'hidden' || style.visibility === 'collapse') return;
+
+        const scale = Math.sqrt(Math.abs(matrix[0] * matrix[3] - matrix[1] * matrix[2])) || 1;
+        const subpaths = this.shapeToSubpaths(node, scale, context);
+        if (!subpaths || subpaths.length === 0) return;
+
+        const fill = this.resolvePaint(style.fill, style.color, context);
+        if (fill) {
+            const alpha = fill[3] * this.clamp01(parseFloat(style['fill-opacity'])) * opacity;
+            const polygons = subpaths
+                .filter(subpath => subpath.points.length >= 6)
+                .map(subpath => this.transformPoints(subpath.points, matrix));
+            this.fillPolygons(polygons, style['fill-rule'] === 'evenodd', [fill[0], fill[1], fill[2], alpha], context);
+        }
+
+        const stroke = this.resolvePaint(style.stroke, style.color, context);
+        const strokeWidth = this.parseLength(style['stroke-width'], Math.hypot(context.viewportWidth, context.viewportHeight) / Math.SQRT2, 1);
+        if (stroke && strokeWidth > 0) {
+            const alpha = stroke[3] * this.clamp01(parseFloat(style['stroke-opacity'])) * opacity;
+            const dashes = this.parseNumbers(style['stroke-dasharray'] === 'none' ? '' : style['stroke-dasharray']);
+            const dashed = dashes.some(value => value > 0)
+                ? this.applyDashes(subpaths, dashes.length % 2 ? [...dashes, ...dashes] : dashes, parseFloat(style['stroke-dashoffset']) || 0)
+                : subpaths;
+
+            const outlines: Polygon[] = [];
+            for (const subpath of dashed) {
+                this.strokeSubpath(
+                    subpath,
+                    strokeWidth / 2,
+                    style['stroke-linecap'],
+                    style['stroke-linejoin'],
+                    parseFloat(style['stroke-miterlimit']) || 4,
+                    scale,
+                    outlines
+                );
+            }
+
+            const polygons = outlines.map(outline => this.transformPoints(outline, matrix));
+            this.fillPolygons(polygons, false, [stroke[0], stroke[1], stroke[2], alpha], context);
+        }
+    }
+
+    private static inheritStyle(declared: Record<string, string>, parentStyle: Record<string, string>): Record<string, string> {
+        const style: Record<string, string> = {};
+        for (const property of INHERITED_PROPERTIES) {
+            const value = declared[property];
+            style[property] = value !== undefined && value !== 'inherit' ? value : parentStyle[property];
+        }
+        return style;
+    }
+
+    /**
+     * Presentation attributes < CSS rules (by specificity) < inline style
+     */
+    private static declaredStyle(node: SvgNode, rules: CssRule[]): Record<string, string> {
+        const declared: Record<string, string> = {};
+
+        for (const property of PRESENTATION_ATTRIBUTES) {
+            if (node.attributes[property] !== undefined) declared[property] = node.attributes[property].trim();
+        }
+
+        const matching = rules
+            .filter(rule => this.matchesSelector(node, rule.selector))
+            .sort((a, b) => a.specificity - b.specificity);
+        for (const rule of matching) Object.assign(declared, rule.properties);
+
+        if (node.attributes.style) Object.assign(declared, SvgParser.parseStyle(node.attributes.style));
+        return declared;
+    }
+
+    /**
+     * Collect rules from every <style> element; only simple selectors (tag, .class, #id, tag.class, *) are supported
+     */
+    private static collectStyleRules(root: SvgNode): CssRule[] {
+        const rules: CssRule[] = [];
+        const visit = (node: SvgNode) => {
+            if (node.name === 'style') {
+                const css = node.text.replace(/\/\*[\s\S]*?\*\//g, '');
+                const rulePattern = /([^{}]+)\{([^}]*)\}/g;
+                let match: RegExpExecArray | null;
+                while ((match = rulePattern.exec(css)) !== null) {
+                    const properties = SvgParser.parseStyle(match[2]);
+                    for (const selector of match[1].split(',')) {
+                        const trimmed = selector.trim();
+                        if (!/^(\*|[\w-]*)((\.[\w-]+)|(#[\w-]+))*$/.test(trimmed)) continue;
+                        const ids = (trimmed.match(/#/g) || []).length;
+                        const classes = (trimmed.match(/\./g) || []).length;
+                        const tags = /^[\w-]/.test(trimmed) ? 1 : 0;
+                        rules.push({ selector: trimmed, specificity: ids * 100 + classes * 10 + tags, properties });
+                    }
+                }
+            }
+            node.children.forEach(visit);
+        };
+        visit(root);
+        return rules;
+    }
+
+    private static matchesSelector(node: SvgNode, selector: string): boolean {
+        if (selector === '*') return true;
+
+        const tag = /^[\w-]+/.exec(selector)?.[0];
+        if (tag && tag !== node.name) return false;
+
+        const classes = (node.attributes.class || '').split(/\s+/);
+        for (const part of selector.match(/[.#][\w-]+/g) || []) {
+            if (part[0] === '.' && !classes.includes(part.slice(1))) return false;
+            if (part[0] === '#' && node.attributes.id !== part.slice(1)) return false;
+        }
+        return true;
+    }
+
+    // ---------------------------------------------------------------------
+    // Geometry
+    // ---------------------------------------------------------------------
+
+    /**
+     * Flatten a shape element into polylines in its local coordinate system
+     */
+    private static shapeToSubpaths(node: SvgNode, scale: number, context: RenderContext): Subpath[] | null {
+        const a = node.attributes;
+        const w = context.viewportWidth;
+        const h = context.viewportHeight;
+        const diagonal = Math.hypot(w, h) / Math.SQRT2;
+
+        switch (node.name) {
+            case 'path':
+                return this.pathToSubpaths(SvgParser.parsePathData(a.d || ''), scale);
+
+            case 'rect': {
+                const x = this.parseLength(a.x, w, 0);
+                const y = this.parseLength(a.y, h, 0);
+                const width = this.parseLength(a.width, w, 0);
+                const height = this.parseLength(a.height, h, 0);
+                if (width <= 0 || height <= 0) return null;
+
+                let rx = this.parseLength(a.rx, w, -1);
+                let ry = this.parseLength(a.ry, h, -1);
+                if (rx < 0) rx = ry;
+                if (ry < 0) ry = rx;
+                rx = Math.min(Math.max(0, rx), width / 2);
+                ry = Math.min(Math.max(0, ry), height / 2);
+
+                if (rx === 0 || ry === 0) {
+                    return [{ points: [x, y, x + width, y, x + width, y + height, x, y + height], closed: true }];
+                }
+
+                return this.pathToSubpaths([
+                    { type: 'M', x: x + rx, y },
+                    { type: 'L', x: x + width - rx, y },
+                    { type: 'A', rx, ry, rotation: 0, largeArc: false, sweep: true, x: x + width, y: y + ry },
+                    { type: 'L', x: x + width, y: y + height - ry },
+                    { type: 'A', rx, ry, rotation: 0, largeArc: false, sweep: true, x: x + width - rx, y: y + height },
+                    { type: 'L', x: x + rx, y: y + height },
+                    { type: 'A', rx, ry, rotation: 0, largeArc: false, sweep: true, x, y: y + height - ry },
+                    { type: 'L', x, y: y + ry },
+                    { type: 'A', rx, ry, rotation: 0, largeArc: false, sweep: true, x: x + rx, y },
+                    { type: 'Z' },
+                ], scale);
+            }
+
+            case 'circle':
+            case 'ellipse': {
+                const cx = this.parseLength(a.cx, w, 0);
+                const cy = this.parseLength(a.cy, h, 0);
+                const rx = node.name === 'circle' ? this.parseLength(a.r, diagonal, 0) : this.parseLength(a.rx, w, 0);
+                const ry = node.name === 'circle' ? rx : this.parseLength(a.ry, h, 0);
+                if (rx <= 0 || ry <= 0) return null;
+
+                const segments = this.arcSegments(Math.PI * 2, Math.max(rx, ry) * scale);
+                const points: number[] = [];
+                for (let k = 0; k < segments; k++) {
+                    const angle = (k / segments) * Math.PI * 2;
+                    points.push(cx + rx * Math.cos(angle), cy + ry * Math.sin(angle));
+                }
+                return [{ points, closed: true }];
+            }
+
+            case 'line':
+                return [{
+                    points: [
+                        this.parseLength(a.x1, w, 0), this.parseLength(a.y1, h, 0),
+                        this.parseLength(a.x2, w, 0), this.parseLength(a.y2, h, 0),
+                    ],
+                    closed: false,
+                }];
+
+            case 'polyline':
+            case 'polygon': {
+                const values = this.parseNumbers(a.points || '');
+                const points = values.slice(0, values.length - (values.length % 2));
+                if (points.length < 4) return null;
+                return [{ points, closed: node.name === 'polygon' }];
+            }
+        }
+
+        return null;
+    }
+
+    private static pathToSubpaths(commands: PathCommand[], scale: number): Subpath[] {
+        const subpaths: Subpath[] = [];
+        let current: Subpath | null = null;
+        let x = 0;
+        let y = 0;
+
+        const ensureCurrent = () => {
+            if (!current) {
+                current = { points: [x, y], closed: false };
+                subpaths.push(current);
+            }
+            return current;
+        };
+
+        for (const command of commands) {
+            switch (command.type) {
+                case 'M':
+                    current = { points: [command.x, command.y], closed: false };
+                    subpaths.push(current);
+                    break;
+                case 'L':
+                    ensureCurrent().points.push(command.x, command.y);
+                    break;
+                case 'C': {
+                    const length = Math.hypot(command.x1 - x, command.y1 - y)
+                        + Math.hypot(command.x2 - command.x1, command.y2 - command.y1)
+                        + Math.hypot(command.x - command.x2, command.y - command.y2);
+                    const segments = this.curveSegments(length * scale);
+                    const points = ensureCurrent().points;
+                    for (let k = 1; k <= segments; k++) {
+                        const t = k / segments;
+                        const mt = 1 - t;
+                        const a = mt * mt * mt;
+                        const b = 3 * mt * mt * t;
+                        const c = 3 * mt * t * t;
+                        const d = t * t * t;
+                        points.push(
+                            a * x + b * command.x1 + c * command.x2 + d * command.x,
+                            a * y + b * command.y1 + c * command.y2 + d * command.y
+                        );
+                    }
+                    break;
+                }
+                case 'Q': {
+                    const length = Math.hypot(command.x1 - x, command.y1 - y) + Math.hypot(command.x - command.x1, command.y - command.y1);
+                    const segments = this.curveSegments(length * scale);
+                    const points = ensureCurrent().points;
+                    for (let k = 1; k <= segments; k++) {
+                        const t = k / segments;
+                        const mt = 1 - t;
+                        points.push(
+                            mt * mt * x + 2 * mt * t * command.x1 + t * t * command.x,
+                            mt * mt * y + 2 * mt * t * command.y1 + t * t * command.y
+                        );
+                    }
+                    break;
+                }
+                case 'A':
+                    this.flattenArc(ensureCurrent().points, x, y, command, scale);
+                    break;
+                case 'Z':
+                    if (current) {
+                        current.closed = true;
+                        // A new segment after Z starts from the subpath's first point
+                        x = current.points[0];
+                        y = current.points[1];
+                        current = null;
+                    }
+                    continue;
+            }
+
+            x = command.x;
+            y = command.y;
+        }
+
+        return subpaths;
+    }
+
+    /**
+     * Endpoint-to-center arc conversion (SVG spec, appendix F.6.5), then flatten
+     */
+    private static flattenArc(points: number[], x0: number, y0: number, arc: Extract<PathCommand, { type: 'A' }>, scale: number) {
+        let { rx, ry } = arc;
+        if (rx === 0 || ry === 0 || (x0 === arc.x && y0 === arc.y)) {
+            points.push(arc.x, arc.y);
+            return;
+        }
+
+        const phi = (arc.rotation * Math.PI) / 180;
+        const cos = Math.cos(phi);
+        const sin = Math.sin(phi);
+        const dx = (x0 - arc.x) / 2;
+        const dy = (y0 - arc.y) / 2;
+        const x1 = cos * dx + sin * dy;
+        const y1 = -sin * dx + cos * dy;
+
+        // Scale up radii that are too small to reach the endpoint
+        const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+        if (lambda > 1) {
+            rx *= Math.sqrt(lambda);
+            ry *= Math.sqrt(lambda);
+        }
+
+        const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+        const denominator = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+        let factor = Math.sqrt(Math.max(0, numerator / denominator));
+        if (arc.largeArc === arc.sweep) factor = -factor;
+
+        const cxp = (factor * rx * y1) / ry;
+        const cyp = (-factor * ry * x1) / rx;
+        const cx = cos * cxp - sin * cyp + (x0 + arc.x) / 2;
+        const cy = sin * cxp + cos * cyp + (y0 + arc.y) / 2;
+
+        const angle = (ux: number, uy: number, vx: number, vy: number) => Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+        const theta1 = angle(1, 0, (x1 - cxp) / rx, (y1 - cyp) / ry);
+        let delta = angle((x1 - cxp) / rx, (y1 - cyp) / ry, (-x1 - cxp) / rx, (-y1 - cyp) / ry);
+        if (!arc.sweep && delta > 0) delta -= Math.PI * 2;
+        if (arc.sweep && delta < 0) delta += Math.PI * 2;
+
+        const segments = this.arcSegments(Math.abs(delta), Math.max(rx, ry) * scale);
+        for (let k = 1; k <= segments; k++) {
+            const t = theta1 + (delta * k) / segments;
+            const px = rx * Math.cos(t);
+            const py = ry * Math.sin(t);
+            points.push(cos * px - sin * py + cx, sin * px + cos * py + cy);
+        }
+    }
+
+    private static curveSegments(deviceLength: number): number {
+        return Math.max(1, Math.min(128, Math.ceil(Math.sqrt(deviceLength / FLATTEN_TOLERANCE) / 2)));
+    }
+
+    private static arcSegments(sweep: number, deviceRadius: number): number {
+        if (deviceRadius <= FLATTEN_TOLERANCE) return Math.max(3, Math.ceil(sweep / (Math.PI / 2)));
+        const step = 2 * Math.acos(1 - FLATTEN_TOLERANCE / deviceRadius);
+        return Math.max(3, Math.min(256, Math.ceil(sweep / step)));
+    }
+
+    /**
+     * Split polylines into dashes following the dash pattern
+     */
+    private static applyDashes(subpaths: Subpath[], pattern: number[], offset: number): Subpath[] {
+        const total = pattern.reduce((sum, value) => sum + value, 0);
+        const dashes: Subpath[] = [];
+
+        for (const subpath of subpaths) {
+            const points = subpath.closed ? [...subpath.points, subpath.points[0], subpath.points[1]] : subpath.points;
+
+            let index = 0;
+            let remaining = pattern[0];
+            let position = ((offset % total) + total) % total;
+            while (position > 0) {
+                if (position >= remaining) {
+                    position -= remaining;
+                    index = (index + 1) % pattern.length;
+                    remaining = pattern[index];
+                } else {
+                    remaining -= position;
+                    position = 0;
+                }
+            }
+
+            let current: number[] | null = index % 2 === 0 ? [points[0], points[1]] : null;
+
+            for (let k = 2; k < points.length; k += 2) {
+                let x0 = points[k - 2];
+                let y0 = points[k - 1];
+                const x1 = points[k];
+                const y1 = points[k + 1];
+                let length = Math.hypot(x1 - x0, y1 - y0);
+
+                while (length > 0) {
+                    const step = Math.min(remaining, length);
+                    const t = step / length;
+                    x0 += (x1 - x0) * t;
+                    y0 += (y1 - y0) * t;
+                    length -= step;
+                    remaining -= step;
+                    if (current) current.push(x0, y0);
+
+                    if (remaining <= 1e-9) {
+                        if (current) {
+                            dashes.push({ points: current, closed: false });
+                            current = null;
+                        } else {
+                            current = [x0, y0];
+                        }
+                        index = (index + 1) % pattern.length;
+                        remaining = pattern[index];
+                    }
+                }
+            }
+
+            if (current && current.length >= 4) dashes.push({ points: current, closed: false });
+        }
+
+        return dashes;
+    }
+
+    /**
+     * Outline a polyline as a set of same-orientation polygons (segment quads, joins and caps)
+     * whose nonzero union is the stroke
+     */
+    private static strokeSubpath(
+        subpath: Subpath,
+        halfWidth: number,
+        cap: string,
+        join: string,
+        miterLimit: number,
+        scale: number,
+        outlines: Polygon[]
+    ) {
+        // Drop repeated points so every segment has a direction
+        const points: number[] = [];
+        for (let k = 0; k < subpath.points.length; k += 2) {
+            const n = points.length;
+            if (n === 0 || Math.abs(points[n - 2] - subpath.points[k]) > 1e-9 || Math.abs(points[n - 1] - subpath.points[k + 1]) > 1e-9) {
+                points.push(subpath.points[k], subpath.points[k + 1]);
+            }
+        }
+        if (subpath.closed && points.length >= 6) {
+            const n = points.length;
+            if (Math.abs(points[n - 2] - points[0]) < 1e-9 && Math.abs(points[n - 1] - points[1]) < 1e-9) points.length -= 2;
+        }
+
+        const count = points.length / 2;
+        const circle = (cx: number, cy: number) => {
+            const segments = this.arcSegments(Math.PI * 2, halfWidth * scale);
+            const polygon: Polygon = [];
+            for (let k = 0; k < segments; k++) {
+                const angle = (k / segments) * Math.PI * 2;
+                polygon.push(cx + halfWidth * Math.cos(angle), cy + halfWidth * Math.sin(angle));
+            }
+            return polygon;
+        };
+        const push = (polygon: Polygon) => outlines.push(this.orientPositive(polygon));
+
+        if (count === 1) {
+            // Zero-length subpaths only paint with round or square caps
+            const [x, y] = points;
+            if (cap === 'round') push(circle(x, y));
+            if (cap === 'square') push([x - halfWidth, y - halfWidth, x + halfWidth, y - halfWidth, x + halfWidth, y + halfWidth, x - halfWidth, y + halfWidth]);
+            return;
+        }
+
+        const closed = subpath.closed && count >= 3;
+        const segmentCount = closed ? count : count - 1;
+
+        for (let s = 0; s < segmentCount; s++) {
+            let x0 = points[s * 2];
+            let y0 = points[s * 2 + 1];
+            let x1 = points[((s + 1) % count) * 2];
+            let y1 = points[((s + 1) % count) * 2 + 1];
+            const length = Math.hypot(x1 - x0, y1 - y0);
+            const ux = (x1 - x0) / length;
+            const uy = (y1 - y0) / length;
+
+            if (!closed && cap === 'square') {
+                if (s === 0) { x0 -= ux * halfWidth; y0 -= uy * halfWidth; }
+                if (s === segmentCount - 1) { x1 += ux * halfWidth; y1 += uy * halfWidth; }
+            }
+
+            const nx = -uy * halfWidth;
+            const ny = ux * halfWidth;
+            push([x0 + nx, y0 + ny, x1 + nx, y1 + ny, x1 - nx, y1 - ny, x0 - nx, y0 - ny]);
+        }
+
+        // Joins at interior vertices (every vertex when closed)
+        for (let v = closed ? 0 : 1; v < (closed ? count : count - 1); v++) {
+            const prev = (v - 1 + count) % count;
+            const next = (v + 1) % count;
+            const x = points[v * 2];
+            const y = points[v * 2 + 1];
+
+            if (join === 'round') {
+                push(circle(x, y));
+                continue;
+            }
+
+            const ax = x - points[prev * 2];
+            const ay = y - points[prev * 2 + 1];
+            const bx = points[next * 2] - x;
+            const by = points[next * 2 + 1] - y;
+            const la = Math.hypot(ax, ay);
+            const lb = Math.hypot(bx, by);
+            const cross = ax * by - ay * bx;
+            if (Math.abs(cross) < 1e-9 * la * lb) continue;
+
+            // Offset points on the outer side of the turn
+            const side = cross > 0 ? -1 : 1;
+            const n1x = (-ay / la) * halfWidth * side;
+            const n1y = (ax / la) * halfWidth * side;
+            const n2x = (-by / lb) * halfWidth * side;
+            const n2y = (bx / lb) * halfWidth * side;
+
+            const cosTheta = (ax * bx + ay * by) / (la * lb);
+            const miterRatio = 1 / Math.sqrt(Math.max(1e-12, (1 + cosTheta) / 2));
+
+            if (join !== 'bevel' && miterRatio <= miterLimit) {
+                const mx = (n1x + n2x) / 2;
+                const my = (n1y + n2y) / 2;
+                const ml = Math.hypot(mx, my);
+                const reach = halfWidth * miterRatio;
+                push([x, y, x + n1x, y + n1y, x + (mx / ml) * reach, y + (my / ml) * reach, x + n2x, y + n2y]);
+            } else {
+                push([x, y, x + n1x, y + n1y, x + n2x, y + n2y]);
+            }
+        }
+
+        if (!closed && cap === 'round') {
+            push(circle(points[0], points[1]));
+            push(circle(points[(count - 1) * 2], points[(count - 1) * 2 + 1]));
+        }
+    }
+
+    private static orientPositive(polygon: Polygon): Polygon {
+        let area = 0;
+        for (let k = 0; k < polygon.length; k += 2) {
+            const j = (k + 2) % polygon.length;
+            area += polygon[k] * polygon[j + 1] - polygon[j] * polygon[k + 1];
+        }
+        if (area >= 0) return polygon;
+
+        const reversed: Polygon = [];
+        for (let k = polygon.length - 2; k >= 0; k -= 2) reversed.push(polygon[k], polygon[k + 1]);
+        return reversed;
+    }
+
+    // ---------------------------------------------------------------------
+    // Scanline fill
+    // ---------------------------------------------------------------------
+
+    /**
+     * Anti-aliased scanline fill: `samples` sub-rows per pixel row, exact horizontal coverage
+     */
+    private static fillPolygons(polygons: Polygon[], evenOdd: boolean, color: Color, context: RenderContext) {
+        if (color[3] <= 0) return;
+
+        const { width, height, samples, canvas } = context;
+        const edges: { yTop: number; yBottom: number; x: number; slope: number; winding: number }[] = [];
+
+        for (const polygon of polygons) {
+            for (let k = 0; k < polygon.length; k += 2) {
+                const j = (k + 2) % polygon.length;
+                const x0 = polygon[k];
+                const y0 = polygon[k + 1];
+                const x1 = polygon[j];
+                const y1 = polygon[j + 1];
+                if (y0 === y1 || !Number.isFinite(x0 + y0 + x1 + y1)) continue;
+
+                const down = y1 > y0;
+                const yTop = down ? y0 : y1;
+                const yBottom = down ? y1 : y0;
+                const xTop = down ? x0 : x1;
+                const slope = (x1 - x0) / (y1 - y0);
+                edges.push({ yTop, yBottom, x: xTop, slope, winding: down ? 1 : -1 });
+            }
+        }
+        if (edges.length === 0) return;
+
+        edges.sort((a, b) => a.yTop - b.yTop);
+
+        let minY = Infinity;
+        let maxY = -Infinity;
+        for (const edge of edges) {
+            minY = Math.min(minY, edge.yTop);
+            maxY = Math.max(maxY, edge.yBottom);
+        }
+
+        const firstRow = Math.max(0, Math.floor(minY));
+        const lastRow = Math.min(height - 1, Math.ceil(maxY));
+        const coverage = new Float32Array(width + 1);
+        const weight = 1 / samples;
+        const crossings: { x: number; winding: number }[] = [];
+        let active: typeof edges = [];
+        let nextEdge = 0;
+
+        for (let row = firstRow; row <= lastRow; row++) {
+            let spanMin = width;
+            let spanMax = -1;
+
+            for (let s = 0; s < samples; s++) {
+                const sampleY = row + (s + 0.5) / samples;
+
+                while (nextEdge < edges.length && edges[nextEdge].yTop <= sampleY) {
+                    active.push(edges[nextEdge++]);
+                }
+                active = active.filter(edge => edge.yBottom > sampleY);
+
+                crossings.length = 0;
+                for (const edge of active) {
+                    if (edge.yTop > sampleY) continue;
+                    crossings.push({ x: edge.x + (sampleY - edge.yTop) * edge.slope, winding: edge.winding });
+                }
+                if (crossings.length < 2) continue;
+                crossings.sort((a, b) => a.x - b.x);
+
+                let winding = 0;
+                for (let c = 0; c < crossings.length - 1; c++) {
+                    winding += evenOdd ? 1 : crossings[c].winding;
+                    const inside = evenOdd ? winding % 2 === 1 : winding !== 0;
+                    if (!inside) continue;
+
+                    const xa = Math.max(0, crossings[c].x);
+                    const xb = Math.min(width, crossings[c + 1].x);
+                    if (xb <= xa) continue;
+
+                    const ia = Math.floor(xa);
+                    const ib = Math.floor(xb);
+                    if (ia === ib) {
+                        coverage[ia] += (xb - xa) * weight;
+                    } else {
+                        coverage[ia] += (ia + 1 - xa) * weight;
+                        for (let px = ia + 1; px < ib; px++) coverage[px] += weight;
+                        coverage[ib] += (xb - ib) * weight;
+                    }
+                    spanMin = Math.min(spanMin, ia);
+                    spanMax = Math.max(spanMax, Math.min(width - 1, ib));
+                }
+            }
+
+            for (let px = spanMin; px <= spanMax; px++) {
+                const alpha = Math.min(1, coverage[px]) * color[3];
+                coverage[px] = 0;
+                if (alpha <= 0) continue;
+
+                const p = (row * width + px) * 4;
+                const keep = 1 - alpha;
+                canvas[p] = color[0] * alpha + canvas[p] * keep;
+                canvas[p + 1] = color[1] * alpha + canvas[p + 1] * keep;
+                canvas[p + 2] = color[2] * alpha + canvas[p + 2] * keep;
+                canvas[p + 3] = alpha + canvas[p + 3] * keep;
+            }
+            coverage[width] = 0;
+        }
+    }
+
+    private static toPixels(context: RenderContext): PixelBuffer {
+        const { width, height, canvas } = context;
+        const data = new Uint8ClampedArray(width * height * 4);
+
+        for (let i = 0; i < width * height; i++) {
+            const alpha = canvas[i * 4 + 3];
+            if (alpha <= 0) continue;
+            data[i * 4] = (canvas[i * 4] / alpha) * 255;
+            data[i * 4 + 1] = (canvas[i * 4 + 1] / alpha) * 255;
+            data[i * 4 + 2] = (canvas[i * 4 + 2] / alpha) * 255;
+            data[i * 4 + 3] = alpha * 255;
+        }
+
+        return { width, height, data };
+    }
+
+    // ---------------------------------------------------------------------
+    // Values
+    // ---------------------------------------------------------------------
+
+    /**
+     * Resolve a fill/stroke value to a color; gradients and patterns fall back to their first stop
+     */
+    private static resolvePaint(value: string | undefined, currentColor: string, context: RenderContext): Color | null {
+        if (!value || value === 'none') return null;
+
+        const url = /^url\(\s*['"]?#([^'")\s]+)['"]?\s*\)\s*(.*)$/.exec(value);
+        if (url) {
+            const target = SvgParser.findById(context.root, url[1]);
+            const stop = target?.children.find(child => child.name === 'stop');
+            if (stop) {
+                const stopStyle = { ...stop.attributes, ...SvgParser.parseStyle(stop.attributes.style || '') };
+                const color = this.parseColor(stopStyle['stop-color'] || 'black', null);
+                if (color) {
+                    color[3] *= this.clamp01(parseFloat(stopStyle['stop-opacity'] ?? '1'));
+                    return color;
+                }
+            }
+            return url[2] ? this.resolvePaint(url[2], currentColor, context) : null;
+        }
+
+        if (value === 'currentColor') return this.parseColor(currentColor, [0, 0, 0, 1]);
+        return this.parseColor(value, null);
+    }
+
+    private static parseColor(value: string, fallback: Color | null): Color | null {
+        const text = value.trim().toLowerCase();
+        if (text === 'transparent') return [0, 0, 0, 0];
+
+        const hex = NAMED_COLORS[text] || text;
+        if (hex[0] === '#') {
+            const digits = hex.slice(1);
+            if (digits.length === 3 || digits.length === 4) {
+                const channels = digits.split('').map(d => parseInt(d + d, 16) / 255);
+                return [channels[0], channels[1], channels[2], channels[3] ?? 1];
+            }
+            if (digits.length === 6 || digits.length === 8) {
+                const channel = (k: number) => parseInt(digits.slice(k, k + 2), 16) / 255;
+                return [channel(0), channel(2), channel(4), digits.length === 8 ? channel(6) : 1];
+            }
+            return fallback;
+        }
+
+        const functional = /^rgba?\(([^)]*)\)$/.exec(text);
+        if (functional) {
+            const parts = functional[1].split(/[\s,/]+/).filter(Boolean);
+            const channel = (part: string) => part.endsWith('%') ? parseFloat(part) / 100 : parseFloat(part) / 255;
+            const alpha = parts[3] === undefined ? 1 : parts[3].endsWith('%') ? parseFloat(parts[3]) / 100 : parseFloat(parts[3]);
+            const color: Color = [channel(parts[0]), channel(parts[1]), channel(parts[2]), alpha];
+            return color.every(Number.isFinite) ? color.map(c => this.clamp01(c)) as Color : fallback;
+        }
+
+        return fallback;
+    }
+
+    /**
+     * Parse a length (px, unitless or %) against a reference size
+     */
+    private static parseLength(value: string | undefined, reference: number, fallback: number): number {
+        if (value === undefined || value.trim() === '') return fallback;
+        const number = parseFloat(value);
+        if (!Number.isFinite(number)) return fallback;
+        return value.trim().endsWith('%') ? (number / 100) * reference : number;
+    }
+
+    private static parseNumbers(value: string): number[] {
+        return (value.match(/[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/g) || []).map(parseFloat);
+    }
+
+    private static parseTransform(value: string): Matrix {
+        let matrix = IDENTITY;
+        const pattern = /(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g;
+        let match: RegExpExecArray | null;
+
+        while ((match = pattern.exec(value)) !== null) {
+            const n = this.parseNumbers(match[2]);
+            let step: Matrix = IDENTITY;
+
+            switch (match[1]) {
+                case 'matrix':
+                    if (n.length === 6) step = n as Matrix;
+                    break;
+                case 'translate':
+                    step = [1, 0, 0, 1, n[0] || 0, n[1] || 0];
+                    break;
+                case 'scale':
+                    step = [n[0] ?? 1, 0, 0, n[1] ?? n[0] ?? 1, 0, 0];
+                    break;
+                case 'rotate': {
+                    const angle = ((n[0] || 0) * Math.PI) / 180;
+                    const cos = Math.cos(angle);
+                    const sin = Math.sin(angle);
+                    step = [cos, sin, -sin, cos, 0, 0];
+                    if (n.length >= 3) {
+                        step = this.multiply(this.multiply([1, 0, 0, 1, n[1], n[2]], step), [1, 0, 0, 1, -n[1], -n[2]]);
+                    }
+                    break;
+                }
+                case 'skewX':
+                    step = [1, 0, Math.tan(((n[0] || 0) * Math.PI) / 180), 1, 0, 0];
+                    break;
+                case 'skewY':
+                    step = [1, Math.tan(((n[0] || 0) * Math.PI) / 180), 0, 1, 0, 0];
+                    break;
+            }
+
+            matrix = this.multiply(matrix, step);
+        }
+
+        return matrix;
+    }
+
+    /**
+     * Map a viewBox onto a viewport following preserveAspectRatio (default xMidYMid meet)
+     */
+    private static viewBoxTransform(viewBox: number[], width: number, height: number, preserveAspectRatio: string = ''): Matrix {
+        const [minX, minY, boxWidth, boxHeight] = viewBox;
+        const [align = 'xMidYMid', meetOrSlice = 'meet'] = preserveAspectRatio.trim().split(/\s+/);
+
+        let sx = width / boxWidth;
+        let sy = height / boxHeight;
+        if (align === 'none') {
+            return [sx, 0, 0, sy, -minX * sx, -minY * sy];
+        }
+
+        const s = meetOrSlice === 'slice' ? Math.max(sx, sy) : Math.min(sx, sy);
+        sx = sy = s;
+
+        const alignX = align.includes('xMin') ? 0 : align.includes('xMax') ? 1 : 0.5;
+        const alignY = align.includes('YMin') ? 0 : align.includes('YMax') ? 1 : 0.5;
+        const tx = (width - boxWidth * s) * alignX - minX * s;
+        const ty = (height - boxHeight * s) * alignY - minY * s;
+        return [s, 0, 0, s, tx, ty];
+    }
+
+    private static multiply(m: Matrix, n: Matrix): Matrix {
+        return [
+            m[0] * n[0] + m[2] * n[1],
+            m[1] * n[0] + m[3] * n[1],
+            m[0] * n[2] + m[2] * n[3],
+            m[1] * n[2] + m[3] * n[3],
+            m[0] * n[4] + m[2] * n[5] + m[4],
+            m[1] * n[4] + m[3] * n[5] + m[5],
+        ];
+    }
+
+    private static transformPoints(points: number[], m: Matrix): number[] {
+        const output = new Array<number>(points.length);
+        for (let k = 0; k < points.length; k += 2) {
+            const x = points[k];
+            const y = points[k + 1];
+            output[k] = m[0] * x + m[2] * y + m[4];
+            output[k + 1] = m[1] * x + m[3] * y + m[5];
+        }
+        return output;
+    }
+
+    private static clamp01(value: number): number {
+        return Number.isFinite(value) ? Math.max(0, Math.min(1, value)) : 1;
+    }
+}
@@ -0,0 +1,306 @@
+import { SvgParser, SvgNode, SvgParseError, SvgParseErrorCode } from './svgParser';
+
+export type SvgIssueCode =
+    | SvgParseErrorCode
+    | 'no-svg-found'
+    | 'empty-document'
+    | 'invalid-dimensions'
+    | 'removed-element'
+    | 'unwrapped-element'
+    | 'removed-attribute'
+    | 'event-handler'
+    | 'external-reference'
+    | 'unsafe-style'
+    | 'invalid-path';
+
+export interface SvgIssue {
+    code: SvgIssueCode;
+    severity: 'error' | 'warning';
+    message: string;
+    element?: string;
+    attribute?: string;
+    line?: number;
+    column?: number;
+}
+
+export interface SanitizeResult {
+    success: boolean;
+    svgCode?: string;          // Canonical markup, only when success
+    errors: SvgIssue[];
+    warnings: SvgIssue[];
+}
+
+// Elements a tattoo design can use; everything else is dropped or unwrapped
+const ALLOWED_ELEMENTS = new Set([
+    'svg', 'g', 'defs', 'symbol', 'use', 'title', 'desc', 'style',
+    'path', 'rect', 'circle', 'ellipse', 'line', 'polyline', 'polygon',
+    'text', 'tspan',
+    'linearGradient', 'radialGradient', 'stop', 'clipPath', 'mask',
+]);
+
+// Containers whose children are safe to keep when the container itself is not
+const UNWRAPPED_ELEMENTS = new Set(['a', 'switch', 'metadata']);
+
+// Elements removed with their whole subtree (scripting, embedding, animation)
+const BLOCKED_ELEMENTS = new Set([
+    'script', 'foreignObject', 'iframe', 'object', 'embed', 'image', 'audio', 'video', 'canvas',
+    'animate', 'animateMotion', 'animateTransform', 'set', 'handler', 'listener', 'feImage',
+]);
+
+const ALLOWED_ATTRIBUTES = new Set([
+    'id', 'class', 'style', 'transform', 'xmlns', 'xmlns:xlink', 'version',
+    'viewBox', 'preserveAspectRatio', 'x', 'y', 'width', 'height',
+    'd', 'points', 'x1', 'y1', 'x2', 'y2', 'cx', 'cy', 'r', 'rx', 'ry', 'fx', 'fy',
+    'fill', 'fill-opacity', 'fill-rule', 'stroke', 'stroke-width', 'stroke-opacity',
+    'stroke-linecap', 'stroke-linejoin', 'stroke-miterlimit', 'stroke-dasharray', 'stroke-dashoffset',
+    'opacity', 'display', 'visibility', 'color', 'clip-path', 'clip-rule', 'mask', 'vector-effect',
+    'offset', 'stop-color', 'stop-opacity', 'gradientUnits', 'gradientTransform', 'spreadMethod',
+    'clipPathUnits', 'maskUnits', 'maskContentUnits',
+    'href', 'xlink:href',
+    'font-family', 'font-size', 'font-weight', 'font-style', 'text-anchor', 'dominant-baseline', 'letter-spacing',
+]);
+
+// Style properties kept from style="" attributes
+const ALLOWED_STYLE_PROPERTIES = new Set([
+    'fill', 'fill-opacity', 'fill-rule', 'stroke', 'stroke-width', 'stroke-opacity',
+    'stroke-linecap', 'stroke-linejoin', 'stroke-miterlimit', 'stroke-dasharray', 'stroke-dashoffset',
+    'opacity', 'display', 'visibility', 'color', 'clip-path', 'clip-rule', 'mask',
+    'stop-color', 'stop-opacity', 'font-family', 'font-size', 'font-weight', 'font-style',
+    'text-anchor', 'dominant-baseline', 'letter-spacing', 'vector-effect',
+]);
+
+const UNSAFE_VALUE = /javascript:|vbscript:|data:|expression\s*\(|@import|behavior\s*:|-moz-binding/i;
+const PATH_DATA = /^[\sMmZzLlHhVvCcSsQqTtAa0-9eE+\-.,]*$/;
+const DRAWABLE_ELEMENTS = new Set(['path', 'rect', 'circle', 'ellipse', 'line', 'polyline', 'polygon', 'text', 'use']);
+
+export class SvgSanitizer {
+
+    /**
+     * Parse, whitelist and re-serialize SVG markup. Markup that can't be parsed
+     * or has nothing drawable left fails with errors; removed content is reported as warnings.
+     */
+    static sanitize(svgCode: string): SanitizeResult {
+        const errors: SvgIssue[] = [];
+        const warnings: SvgIssue[] = [];
+
+        let root: SvgNode;
+        try {
+            const extracted = SvgParser.extract(svgCode);
+            if (!extracted) {
+                errors.push({ code: 'no-svg-found', severity: 'error', message: 'No <svg> element found' });
+                return { success: false, errors, warnings };
+            }
+            root = extracted.node;
+        } catch (error) {
+            if (error instanceof SvgParseError) {
+                errors.push({
+                    code: error.code,
+                    severity: 'error',
+                    message: error.message,
+                    line: error.line,
+                    column: error.column,
+                });
+                return { success: false, errors, warnings };
+            }
+            throw error;
+        }
+
+        const ids = new Set<string>();
+        this.collectIds(root, ids);
+
+        const clean = this.sanitizeElement(root, ids, warnings)[0];
+        if (!clean) {
+            errors.push({ code: 'empty-document', severity: 'error', message: 'The <svg> element was removed' });
+            return { success: false, errors, warnings };
+        }
+
+        this.normalizeRoot(clean, errors, warnings);
+
+        if (!this.hasDrawableContent(clean)) {
+            errors.push({ code: 'empty-document', severity: 'error', message: 'SVG has no drawable elements' });
+        }
+
+        if (errors.length > 0) {
+            return { success: false, errors, warnings };
+        }
+
+        return { success: true, svgCode: SvgParser.serialize(clean), errors, warnings };
+    }
+
+    /**
+     * Pull the first well-formed <svg> out of free text; null when there is none
+     */
+    static extractSVG(text: string): string | null {
+        try {
+            return SvgParser.extract(text)?.markup ?? null;
+        } catch (error) {
+            console.log('⚠️ Could not extract SVG:', (error as Error).message);
+            return null;
+        }
+    }
+
+    /**
+     * One-line summary of issues, for logs and processing steps
+     */
+    static describe(issues: SvgIssue[]): string {
+        const counts = new Map<string, number>();
+        for (const issue of issues) counts.set(issue.code, (counts.get(issue.code) || 0) + 1);
+        return [...counts.entries()].map(([code, count]) => `${code} ×${count}`).join(', ');
+    }
+
+    /**
+     * Returns the cleaned element, its surviving children (when unwrapped), or nothing
+     */
+    private static sanitizeElement(node: SvgNode, ids: Set<string>, warnings: SvgIssue[]): SvgNode[] {
+        if (BLOCKED_ELEMENTS.has(node.name)) {
+            warnings.push({ code: 'removed-element', severity: 'warning', message: `Removed <${node.name}>`, element: node.name });
+            return [];
+        }
+
+        const children = node.children.flatMap(child => this.sanitizeElement(child, ids, warnings));
+
+        if (!ALLOWED_ELEMENTS.has(node.name)) {
+            if (UNWRAPPED_ELEMENTS.has(node.name)) {
+                warnings.push({ code: 'unwrapped-element', severity: 'warning', message: `Unwrapped <${node.name}>`, element: node.name });
+                return children;
+            }
+            warnings.push({ code: 'removed-element', severity: 'warning', message: `Removed unsupported <${node.name}>`, element: node.name });
+            return [];
+        }
+
+        const attributes: Record<string, string> = {};
+        for (const [name, value] of Object.entries(node.attributes)) {
+            const cleaned = this.sanitizeAttribute(node.name, name, value, ids, warnings);
+            if (cleaned !== null) attributes[name] = cleaned;
+        }
+
+        if (node.name === 'path') {
+            const d = attributes.d || '';
+            if (!PATH_DATA.test(d) || SvgParser.parsePathData(d).length === 0) {
+                warnings.push({ code: 'invalid-path', severity: 'warning', message: 'Removed <path> with invalid path data', element: 'path' });
+                return [];
+            }
+        }
+
+        let text = node.text;
+        if (node.name === 'style') {
+            text = this.sanitizeStylesheet(text, ids, warnings);
+        } else if (node.name !== 'text' && node.name !== 'tspan' && node.name !== 'title' && node.name !== 'desc') {
+            text = '';
+        }
+
+        return [{ name: node.name, attributes, children, text }];
+    }
+
+    private static sanitizeAttribute(element: string, name: string, value: string, ids: Set<string>, warnings: SvgIssue[]): string | null {
+        if (/^on/i.test(name)) {
+            warnings.push({ code: 'event-handler', severity: 'warning', message: `Removed ${name} handler`, element, attribute: name });
+            return null;
+        }
+
+        // data-* metadata is inert and used to tag generated designs
+        if (!ALLOWED_ATTRIBUTES.has(name) && !/^data-[\w-]+$/.test(name)) {
+            warnings.push({ code: 'removed-attribute', severity: 'warning', message: `Removed ${name} from <${element}>`, element, attribute: name });
+            return null;
+        }
+
+        if (name === 'href' || name === 'xlink:href') {
+            if (!value.startsWith('#') || !ids.has(value.slice(1))) {
+                warnings.push({ code: 'external-reference', severity: 'warning', message: `Removed ${name}="${value}"`, element, attribute: name });
+                return null;
+            }
+            return value;
+        }
+
+        if (name === 'style') {
+            const style = this.sanitizeStyle(value, ids, element, warnings);
+            return style || null;
+        }
+
+        if (UNSAFE_VALUE.test(value) || !this.hasOnlyLocalUrls(value, ids)) {
+            warnings.push({ code: 'external-reference', severity: 'warning', message: `Removed ${name} with unsafe value`, element, attribute: name });
+            return null;
+        }
+
+        return value;
+    }
+
+    private static sanitizeStyle(style: string, ids: Set<string>, element: string, warnings: SvgIssue[]): string {
+        const kept: string[] = [];
+        for (const [property, value] of Object.entries(SvgParser.parseStyle(style))) {
+            if (!ALLOWED_STYLE_PROPERTIES.has(property) || UNSAFE_VALUE.test(value) || !this.hasOnlyLocalUrls(value, ids)) {
+                warnings.push({ code: 'unsafe-style', severity: 'warning', message: `Removed style ${property}`, element, attribute: 'style' });
+                continue;
+            }
+            kept.push(`${property}:${value}`);
+        }
+        return kept.join(';');
+    }
+
+    private static sanitizeStylesheet(css: string, ids: Set<string>, warnings: SvgIssue[]): string {
+        const cleaned = css
+            .replace(/\/\*[\s\S]*?\*\//g, '')
+            .replace(/@import[^;]*;?/gi, () => {
+                warnings.push({ code: 'unsafe-style', severity: 'warning', message: 'Removed @import', element: 'style' });
+                return '';
+            });
+
+        return cleaned.replace(/([^{}]+)\{([^}]*)\}/g, (_, selector: string, body: string) => {
+            const declarations = body.split(';').filter(declaration => {
+                const colon = declaration.indexOf(':');
+                if (colon === -1) return false;
+                const value = declaration.slice(colon + 1);
+                if (UNSAFE_VALUE.test(value) || !this.hasOnlyLocalUrls(value, ids)) {
+                    warnings.push({ code: 'unsafe-style', severity: 'warning', message: `Removed unsafe rule in ${selector.trim()}`, element: 'style' });
+                    return false;
+                }
+                return true;
+            });
+            return `${selector.trim()}{${declarations.map(d => d.trim()).join(';')}}`;
+        });
+    }
+
+    private static hasOnlyLocalUrls(value: string, ids: Set<string>): boolean {
+        const urls = value.match(/url\(([^)]*)\)/gi) || [];
+        return urls.every(url => {
+            const target = /^url\(\s*['"]?#([^'")\s]+)['"]?\s*\)$/i.exec(url);
+            return !!target && ids.has(target[1]);
+        });
+    }
+
+    /**
+     * Make sure the root has a namespace and a usable coordinate system
+     */
+    private static normalizeRoot(root: SvgNode, errors: SvgIssue[], warnings: SvgIssue[]) {
+        root.attributes.xmlns = 'http://www.w3.org/2000/svg';
+
+        const viewBox = (root.attributes.viewBox || '').trim().split(/[\s,]+/).map(Number);
+        const hasViewBox = viewBox.length === 4 && viewBox.every(Number.isFinite) && viewBox[2] > 0 && viewBox[3] > 0;
+        if (root.attributes.viewBox !== undefined && !hasViewBox) {
+            warnings.push({ code: 'invalid-dimensions', severity: 'warning', message: `Ignored invalid viewBox "${root.attributes.viewBox}"`, element: 'svg', attribute: 'viewBox' });
+            delete root.attributes.viewBox;
+        }
+
+        if (!hasViewBox) {
+            const width = parseFloat(root.attributes.width);
+            const height = parseFloat(root.attributes.height);
+            const absolute = (value: string | undefined) => !!value && !value.trim().endsWith('%');
+            if (width > 0 && height > 0 && absolute(root.attributes.width) && absolute(root.attributes.height)) {
+                root.attributes.viewBox = `0 0 ${width} ${height}`;
+            } else {
+                errors.push({ code: 'invalid-dimensions', severity: 'error', message: 'SVG needs a viewBox or absolute width and height', element: 'svg' });
+            }
+        }
+    }
+
+    private static hasDrawableContent(node: SvgNode): boolean {
+        if (DRAWABLE_ELEMENTS.has(node.name)) return true;
+        if (node.name === 'defs' || node.name === 'clipPath' || node.name === 'mask' || node.name === 'symbol') return false;
+        return node.children.some(child => this.hasDrawableContent(child));
+    }
+
+    private static collectIds(node: SvgNode, ids: Set<string>) {
+        if (node.attributes.id) ids.add(node.attributes.id);
+        node.children.forEach(child => this.collectIds(child, ids));
+    }
+}
@@ -0,0 +1,147 @@
+export interface PartialSvg {
+    svgCode: string;            // Completed elements so far, with open tags closed
+    elements: number;           // Completed elements inside the root
+    complete: boolean;          // The root <svg> has been closed
+}
+
+/**
+ * Incremental parser for SVG markup that arrives a few characters at a time.
+ * It tracks where the last element finished so a snapshot contains only whole
+ * elements: a half-written path is never rendered.
+ */
+export class SvgStreamParser {
+    private text = '';
+    private scanned = 0;            // Offset up to which the markup has been tokenized
+    private rootStart = -1;
+    private stack: string[] = [];   // Elements open at `scanned`
+    private safeEnd = -1;           // Offset just past the last completed element
+    private safeStack: string[] = [];
+    private elements = 0;
+    private complete = false;
+
+    /**
+     * Append the next chunk of generated text
+     */
+    push(chunk: string) {
+        if (this.complete) return;
+        this.text += chunk;
+
+        if (this.rootStart === -1 && !this.findRoot()) return;
+        this.scan();
+    }
+
+    /**
+     * Markup of everything completed so far; null until the root tag is complete
+     */
+    snapshot(): PartialSvg | null {
+        if (this.safeEnd === -1) return null;
+
+        const closing = [...this.safeStack].reverse().map(name => `</${name}>`).join('');
+        return {
+            svgCode: this.text.slice(this.rootStart, this.safeEnd) + closing,
+            elements: this.elements,
+            complete: this.complete,
+        };
+    }
+
+    private findRoot(): boolean {
+        // Step back a little so a tag split across chunks is still found
+        const from = Math.max(0, this.scanned - 4);
+        const match = /<svg[\s>/]/i.exec(this.text.slice(from));
+        if (!match) {
+            this.scanned = this.text.length;
+            return false;
+        }
+
+        this.rootStart = from + match.index;
+        this.scanned = this.rootStart;
+        return true;
+    }
+
+    private scan() {
+        const text = this.text;
+        let i = this.scanned;
+
+        while (i < text.length && !this.complete) {
+            const lt = text.indexOf('<', i);
+            if (lt === -1) {
+                i = text.length;
+                break;
+            }
+
+            // Comments, CDATA and declarations can contain '<' and '>'; skip them whole
+            const skipTo = text.startsWith('<!--', lt) ? '-->'
+                : text.startsWith('<![CDATA[', lt) ? ']]>'
+                : text.startsWith('<!', lt) || text.startsWith('<?', lt) ? '>'
+                : null;
+            if (skipTo) {
+                const end = text.indexOf(skipTo, lt);
+                if (end === -1) {
+                    i = lt;
+                    break;
+                }
+                i = end + skipTo.length;
+                continue;
+            }
+
+            const gt = this.findTagEnd(lt);
+            if (gt === -1) {
+                i = lt;
+                break;
+            }
+            this.readTag(text.slice(lt, gt + 1), gt + 1);
+            i = gt + 1;
+        }
+
+        this.scanned = i;
+    }
+
+    /**
+     * Index of the '>' closing the tag at `start`, skipping quoted attribute values
+     */
+    private findTagEnd(start: number): number {
+        let quote: string | null = null;
+        for (let i = start + 1; i < this.text.length; i++) {
+            const char = this.text[i];
+            if (quote) {
+                if (char === quote) quote = null;
+            } else if (char === '"' || char === "'") {
+                quote = char;
+            } else if (char === '>') {
+                return i;
+            }
+        }
+        return -1;
+    }
+
+    private readTag(tag: string, end: number) {
+        const name = /^<\/?\s*([^\s/>]+)/.exec(tag)?.[1];
+        if (!name) return;
+
+        if (tag.startsWith('</')) {
+            const index = this.stack.lastIndexOf(name);
+            if (index === -1) return;   // Stray closing tag; ignore it
+            this.stack.length = index;
+            this.completeElement(end);
+        } else if (/\/\s*>$/.test(tag)) {
+            this.completeElement(end);
+        } else {
+            this.stack.push(name);
+            if (this.stack.length === 1) this.markSafe(end);   // Root open tag
+        }
+    }
+
+    private completeElement(end: number) {
+        if (this.stack.length === 0) {
+            this.complete = true;
+        } else {
+            this.elements++;
+        }
+        this.markSafe(end);
+    }
+
+    private markSafe(end: number) {
+        this.safeEnd = end;
+        this.safeStack = [...this.stack];
+    }
+}
@@ -0,0 +1,768 @@
+// Potrace-style bitmap tracer
+// Based on the algorithm described in "Potrace: a polygon-based tracing algorithm" (Peter Selinger)
+
+export interface Bitmap {
+    width: number;
+    height: number;
+    data: Uint8Array; // 1 = ink, 0 = background
+}
+
+export type TurnPolicy = 'black' | 'white' | 'left' | 'right' | 'minority' | 'majority';
+
+export interface TraceOptions {
+    threshold?: number;      // Luminance cutoff 0-255 (Otsu when omitted)
+    turdSize?: number;       // Suppress speckles up to this many pixels
+    alphaMax?: number;       // Corner threshold (0 = polygon, 1.3334 = no corners)
+    turnPolicy?: TurnPolicy; // How to resolve ambiguous turns while decomposing paths
+    fillColor?: string;
+}
+
+export interface TraceResult {
+    svgCode: string;
+    width: number;
+    height: number;
+    pathCount: number;
+    threshold: number;
+}
+
+interface Point {
+    x: number;
+    y: number;
+}
+
+interface Sum {
+    x: number;
+    y: number;
+    xy: number;
+    x2: number;
+    y2: number;
+}
+
+interface Curve {
+    n: number;
+    tag: ('CURVE' | 'CORNER')[];
+    c: Point[];
+    vertex: Point[];
+}
+
+interface TracePath {
+    area: number;
+    len: number;
+    sign: '+' | '-';
+    pt: Point[];
+    maxX: number;
+    x0: number;
+    y0: number;
+    sums: Sum[];
+    lon: number[];
+    m: number;
+    po: number[];
+    curve: Curve;
+}
+
+const DEFAULT_TRACE_OPTIONS = {
+    turdSize: 2,
+    alphaMax: 1,
+    turnPolicy: 'minority' as TurnPolicy,
+    fillColor: '#000000',
+};
+
+export class VectorTracer {
+
+    /**
+     * Trace RGBA pixels into an SVG document of filled Bézier paths
+     */
+    static traceRGBA(
+        rgba: Uint8ClampedArray | Uint8Array,
+        width: number,
+        height: number,
+        options: TraceOptions = {}
+    ): TraceResult {
+        const luminance = this.toLuminance(rgba, width, height);
+        const threshold = options.threshold ?? this.otsuThreshold(luminance);
+        const bitmap = this.binarize(luminance, width, height, threshold);
+        const paths = this.traceBitmap(bitmap, options);
+
+        return {
+            svgCode: this.toSVG(paths, width, height, options.fillColor ?? DEFAULT_TRACE_OPTIONS.fillColor),
+            width,
+            height,
+            pathCount: paths.length,
+            threshold,
+        };
+    }
+
+    /**
+     * Convert RGBA pixels to luminance, compositing transparent areas onto white paper
+     */
+    static toLuminance(rgba: Uint8ClampedArray | Uint8Array, width: number, height: number): Uint8Array {
+        const luminance = new Uint8Array(width * height);
+
+        for (let i = 0; i < width * height; i++) {
+            const alpha = rgba[i * 4 + 3] / 255;
+            const gray = 0.299 * rgba[i * 4] + 0.587 * rgba[i * 4 + 1] + 0.114 * rgba[i * 4 + 2];
+            luminance[i] = Math.round(gray * alpha + 255 * (1 - alpha));
+        }
+
+        return luminance;
+    }
+
+    /**
+     * Pick a global threshold that best separates ink from paper
+     */
+    static otsuThreshold(luminance: Uint8Array): number {
+        const histogram = new Array(256).fill(0);
+        for (let i = 0; i < luminance.length; i++) histogram[luminance[i]]++;
+
+        const total = luminance.length;
+        let sumAll = 0;
+        for (let i = 0; i < 256; i++) sumAll += i * histogram[i];
+
+        let sumBackground = 0;
+        let weightBackground = 0;
+        let bestVariance = -1;
+        let threshold = 128;
+
+        for (let t = 0; t < 256; t++) {
+            weightBackground += histogram[t];
+            if (weightBackground === 0) continue;
+
+            const weightForeground = total - weightBackground;
+            if (weightForeground === 0) break;
+
+            sumBackground += t * histogram[t];
+            const meanBackground = sumBackground / weightBackground;
+            const meanForeground = (sumAll - sumBackground) / weightForeground;
+            const variance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+
+            if (variance > bestVariance) {
+                bestVariance = variance;
+                threshold = t;
+            }
+        }
+
+        return threshold;
+    }
+
+    /**
+     * Mark every pixel at or below the threshold as ink
+     */
+    static binarize(luminance: Uint8Array, width: number, height: number, threshold: number): Bitmap {
+        const data = new Uint8Array(width * height);
+        for (let i = 0; i < data.length; i++) {
+            data[i] = luminance[i] <= threshold ? 1 : 0;
+        }
+        return { width, height, data };
+    }
+
+    /**
+     * Decompose a bitmap into closed paths and fit optimal Bézier curves to each
+     */
+    static traceBitmap(bitmap: Bitmap, options: TraceOptions = {}): Curve[] {
+        const settings = { ...DEFAULT_TRACE_OPTIONS, ...options };
+        const paths = this.bitmapToPathList(bitmap, settings.turdSize, settings.turnPolicy);
+
+        return paths.map(path => {
+            this.calcSums(path);
+            this.calcLon(path);
+            this.bestPolygon(path);
+            this.adjustVertices(path);
+            if (path.sign === '-') this.reverse(path);
+            this.smooth(path, settings.alphaMax);
+            return path.curve;
+        });
+    }
+
+    /**
+     * Serialize traced curves as a single even-odd filled SVG path
+     */
+    static toSVG(curves: Curve[], width: number, height: number, fillColor: string = '#000000'): string {
+        const d = curves.map(curve => this.curveToPathData(curve)).join(' ');
+
+        return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+            (d ? `<path d="${d}" fill="${fillColor}" fill-rule="evenodd" stroke="none"/>` : '') +
+            '</svg>';
+    }
+
+    private static curveToPathData(curve: Curve): string {
+        const n = curve.n;
+        const fmt = (p: Point) => `${round(p.x)} ${round(p.y)}`;
+        const parts = [`M${fmt(curve.c[(n - 1) * 3 + 2])}`];
+
+        for (let i = 0; i < n; i++) {
+            if (curve.tag[i] === 'CURVE') {
+                parts.push(`C${fmt(curve.c[i * 3])} ${fmt(curve.c[i * 3 + 1])} ${fmt(curve.c[i * 3 + 2])}`);
+            } else {
+                parts.push(`L${fmt(curve.c[i * 3 + 1])} ${fmt(curve.c[i * 3 + 2])}`);
+            }
+        }
+
+        return `${parts.join(' ')}Z`;
+    }
+
+    // ---- Path decomposition ----
+
+    private static bitmapToPathList(bitmap: Bitmap, turdSize: number, turnPolicy: TurnPolicy): TracePath[] {
+        const { width, height } = bitmap;
+        const work = new Uint8Array(bitmap.data);
+        const pathList: TracePath[] = [];
+
+        const original = (x: number, y: number) =>
+            x >= 0 && x < width && y >= 0 && y < height && bitmap.data[y * width + x] === 1;
+        const at = (x: number, y: number) =>
+            x >= 0 && x < width && y >= 0 && y < height && work[y * width + x] === 1;
+
+        const majority = (x: number, y: number): boolean => {
+            for (let i = 2; i < 5; i++) {
+                let ct = 0;
+                for (let a = -i + 1; a <= i - 1; a++) {
+                    ct += at(x + a, y + i - 1) ? 1 : -1;
+                    ct += at(x + i - 1, y + a - 1) ? 1 : -1;
+                    ct += at(x + a - 1, y - i) ? 1 : -1;
+                    ct += at(x - i, y + a) ? 1 : -1;
+                }
+                if (ct > 0) return true;
+                if (ct < 0) return false;
+            }
+            return false;
+        };
+
+        const findPath = (start: Point): TracePath => {
+            const path: TracePath = {
+                area: 0, len: 0, sign: original(start.x, start.y) ? '+' : '-', pt: [], maxX: -1,
+                x0: 0, y0: 0, sums: [], lon: [], m: 0, po: [], curve: { n: 0, tag: [], c: [], vertex: [] },
+            };
+            let x = start.x;
+            let y = start.y;
+            let dirx = 0;
+            let diry = 1;
+
+            while (true) {
+                path.pt.push({ x, y });
+                if (x > path.maxX) path.maxX = x;
+                path.len++;
+
+                x += dirx;
+                y += diry;
+                path.area -= x * diry;
+
+                if (x === start.x && y === start.y) break;
+
+                const l = at(x + (dirx + diry - 1) / 2, y + (diry - dirx - 1) / 2);
+                const r = at(x + (dirx - diry - 1) / 2, y + (diry + dirx - 1) / 2);
+                let tmp: number;
+
+                if (r && !l) {
+                    const turnRight = turnPolicy === 'right' ||
+                        (turnPolicy === 'black' && path.sign === '+') ||
+                        (turnPolicy === 'white' && path.sign === '-') ||
+                        (turnPolicy === 'majority' && majority(x, y)) ||
+                        (turnPolicy === 'minority' && !majority(x, y));
+                    if (turnRight) {
+                        tmp = dirx; dirx = -diry; diry = tmp;
+                    } else {
+                        tmp = dirx; dirx = diry; diry = -tmp;
+                    }
+                } else if (r) {
+                    tmp = dirx; dirx = -diry; diry = tmp;
+                } else if (!l) {
+                    tmp = dirx; dirx = diry; diry = -tmp;
+                }
+            }
+
+            return path;
+        };
+
+        const xorPath = (path: TracePath) => {
+            let y1 = path.pt[0].y;
+            for (let i = 1; i < path.len; i++) {
+                const { x, y } = path.pt[i];
+                if (y !== y1) {
+                    const minY = y1 < y ? y1 : y;
+                    for (let j = x; j < path.maxX; j++) {
+                        work[minY * width + j] ^= 1;
+                    }
+                    y1 = y;
+                }
+            }
+        };
+
+        let index = 0;
+        while (true) {
+            while (index < work.length && work[index] !== 1) index++;
+            if (index >= work.length) break;
+
+            const path = findPath({ x: index % width, y: Math.floor(index / width) });
+            xorPath(path);
+            if (path.area > turdSize) pathList.push(path);
+        }
+
+        return pathList;
+    }
+
+    // ---- Optimal polygon ----
+
+    private static calcSums(path: TracePath) {
+        path.x0 = path.pt[0].x;
+        path.y0 = path.pt[0].y;
+        path.sums = [{ x: 0, y: 0, xy: 0, x2: 0, y2: 0 }];
+
+        for (let i = 0; i < path.len; i++) {
+            const x = path.pt[i].x - path.x0;
+            const y = path.pt[i].y - path.y0;
+            const s = path.sums[i];
+            path.sums.push({ x: s.x + x, y: s.y + y, xy: s.xy + x * y, x2: s.x2 + x * x, y2: s.y2 + y * y });
+        }
+    }
+
+    private static calcLon(path: TracePath) {
+        const n = path.len;
+        const pt = path.pt;
+        const pivk = new Array<number>(n);
+        const nc = new Array<number>(n);
+        const ct = [0, 0, 0, 0];
+        const constraint: Point[] = [{ x: 0, y: 0 }, { x: 0, y: 0 }];
+        const cur: Point = { x: 0, y: 0 };
+        const off: Point = { x: 0, y: 0 };
+        const dk: Point = { x: 0, y: 0 };
+        path.lon = new Array<number>(n);
+
+        let k = 0;
+        for (let i = n - 1; i >= 0; i--) {
+            if (pt[i].x !== pt[k].x && pt[i].y !== pt[k].y) k = i + 1;
+            nc[i] = k;
+        }
+
+        for (let i = n - 1; i >= 0; i--) {
+            ct[0] = ct[1] = ct[2] = ct[3] = 0;
+            let dir = (3 + 3 * (pt[mod(i + 1, n)].x - pt[i].x) + (pt[mod(i + 1, n)].y - pt[i].y)) / 2;
+            ct[dir]++;
+
+            constraint[0].x = constraint[0].y = constraint[1].x = constraint[1].y = 0;
+            k = nc[i];
+            let k1 = i;
+            let foundk = false;
+
+            while (true) {
+                dir = (3 + 3 * sign(pt[k].x - pt[k1].x) + sign(pt[k].y - pt[k1].y)) / 2;
+                ct[dir]++;
+
+                if (ct[0] && ct[1] && ct[2] && ct[3]) {
+                    pivk[i] = k1;
+                    foundk = true;
+                    break;
+                }
+
+                cur.x = pt[k].x - pt[i].x;
+                cur.y = pt[k].y - pt[i].y;
+
+                if (xprod(constraint[0], cur) < 0 || xprod(constraint[1], cur) > 0) break;
+
+                if (Math.abs(cur.x) > 1 || Math.abs(cur.y) > 1) {
+                    off.x = cur.x + ((cur.y >= 0 && (cur.y > 0 || cur.x < 0)) ? 1 : -1);
+                    off.y = cur.y + ((cur.x <= 0 && (cur.x < 0 || cur.y < 0)) ? 1 : -1);
+                    if (xprod(constraint[0], off) >= 0) {
+                        constraint[0].x = off.x;
+                        constraint[0].y = off.y;
+                    }
+                    off.x = cur.x + ((cur.y <= 0 && (cur.y < 0 || cur.x < 0)) ? 1 : -1);
+                    off.y = cur.y + ((cur.x >= 0 && (cur.x > 0 || cur.y < 0)) ? 1 : -1);
+                    if (xprod(constraint[1], off) <= 0) {
+                        constraint[1].x = off.x;
+                        constraint[1].y = off.y;
+                    }
+                }
+
+                k1 = k;
+                k = nc[k1];
+                if (!cyclic(k, i, k1)) break;
+            }
+
+            if (!foundk) {
+                dk.x = sign(pt[k].x - pt[k1].x);
+                dk.y = sign(pt[k].y - pt[k1].y);
+                cur.x = pt[k1].x - pt[i].x;
+                cur.y = pt[k1].y - pt[i].y;
+
+                const a = xprod(constraint[0], cur);
+                const b = xprod(constraint[0], dk);
+                const c = xprod(constraint[1], cur);
+                const d = xprod(constraint[1], dk);
+
+                let j = 10000000;
+                if (b < 0) j = Math.floor(a / -b);
+                if (d > 0) j = Math.min(j, Math.floor(-c / d));
+                pivk[i] = mod(k1 + j, n);
+            }
+        }
+
+        let j = pivk[n - 1];
+        path.lon[n - 1] = j;
+        for (let i = n - 2; i >= 0; i--) {
+            if (cyclic(i + 1, pivk[i], j)) j = pivk[i];
+            path.lon[i] = j;
+        }
+        for (let i = n - 1; cyclic(mod(i + 1, n), j, path.lon[i]); i--) {
+            path.lon[i] = j;
+        }
+    }
+
+    private static penalty3(path: TracePath, i: number, j: number): number {
+        const n = path.len;
+        const pt = path.pt;
+        const sums = path.sums;
+        let x: number, y: number, xy: number, x2: number, y2: number, k: number;
+
+        if (j >= n) {
+            j -= n;
+            x = sums[j + 1].x - sums[i].x + sums[n].x;
+            y = sums[j + 1].y - sums[i].y + sums[n].y;
+            x2 = sums[j + 1].x2 - sums[i].x2 + sums[n].x2;
+            xy = sums[j + 1].xy - sums[i].xy + sums[n].xy;
+            y2 = sums[j + 1].y2 - sums[i].y2 + sums[n].y2;
+            k = j + 1 - i + n;
+        } else {
+            x = sums[j + 1].x - sums[i].x;
+            y = sums[j + 1].y - sums[i].y;
+            x2 = sums[j + 1].x2 - sums[i].x2;
+            xy = sums[j + 1].xy - sums[i].xy;
+            y2 = sums[j + 1].y2 - sums[i].y2;
+            k = j + 1 - i;
+        }
+
+        const px = (pt[i].x + pt[j].x) / 2 - pt[0].x;
+        const py = (pt[i].y + pt[j].y) / 2 - pt[0].y;
+        const ey = pt[j].x - pt[i].x;
+        const ex = -(pt[j].y - pt[i].y);
+
+        const a = (x2 - 2 * x * px) / k + px * px;
+        const b = (xy - x * py - y * px) / k + px * py;
+        const c = (y2 - 2 * y * py) / k + py * py;
+
+        return Math.sqrt(Math.max(0, ex * ex * a + 2 * ex * ey * b + ey * ey * c));
+    }
+
+    private static bestPolygon(path: TracePath) {
+        const n = path.len;
+        const pen = new Array<number>(n + 1);
+        const prev = new Array<number>(n + 1);
+        const clip0 = new Array<number>(n);
+        const clip1 = new Array<number>(n + 1);
+        const seg0 = new Array<number>(n + 1);
+        const seg1 = new Array<number>(n + 1);
+
+        for (let i = 0; i < n; i++) {
+            let c = mod(path.lon[mod(i - 1, n)] - 1, n);
+            if (c === i) c = mod(i + 1, n);
+            clip0[i] = c < i ? n : c;
+        }
+
+        let j = 1;
+        for (let i = 0; i < n; i++) {
+            while (j <= clip0[i]) {
+                clip1[j] = i;
+                j++;
+            }
+        }
+
+        let i = 0;
+        for (j = 0; i < n; j++) {
+            seg0[j] = i;
+            i = clip0[i];
+        }
+        seg0[j] = n;
+        const m = j;
+
+        i = n;
+        for (j = m; j > 0; j--) {
+            seg1[j] = i;
+            i = clip1[i];
+        }
+        seg1[0] = 0;
+
+        pen[0] = 0;
+        for (j = 1; j <= m; j++) {
+            for (i = seg1[j]; i <= seg0[j]; i++) {
+                let best = -1;
+                for (let k = seg0[j - 1]; k >= clip1[i]; k--) {
+                    const thisPen = this.penalty3(path, k, i) + pen[k];
+                    if (best < 0 || thisPen < best) {
+                        prev[i] = k;
+                        best = thisPen;
+                    }
+                }
+                pen[i] = best;
+            }
+        }
+
+        path.m = m;
+        path.po = new Array<number>(m);
+        for (i = n, j = m - 1; i > 0; j--) {
+            i = prev[i];
+            path.po[j] = i;
+        }
+    }
+
+    // ---- Vertex adjustment ----
+
+    private static pointSlope(path: TracePath, i: number, j: number, ctr: Point, dir: Point) {
+        const n = path.len;
+        const sums = path.sums;
+        let r = 0;
+
+        while (j >= n) { j -= n; r += 1; }
+        while (i >= n) { i -= n; r -= 1; }
+        while (j < 0) { j += n; r -= 1; }
+        while (i < 0) { i += n; r += 1; }
+
+        const x = sums[j + 1].x - sums[i].x + r * sums[n].x;
+        const y = sums[j + 1].y - sums[i].y + r * sums[n].y;
+        const x2 = sums[j + 1].x2 - sums[i].x2 + r * sums[n].x2;
+        const xy = sums[j + 1].xy - sums[i].xy + r * sums[n].xy;
+        const y2 = sums[j + 1].y2 - sums[i].y2 + r * sums[n].y2;
+        const k = j + 1 - i + r * n;
+
+        ctr.x = x / k;
+        ctr.y = y / k;
+
+        let a = (x2 - (x * x) / k) / k;
+        const b = (xy - (x * y) / k) / k;
+        let c = (y2 - (y * y) / k) / k;
+
+        const lambda2 = (a + c + Math.sqrt((a - c) * (a - c) + 4 * b * b)) / 2;
+        a -= lambda2;
+        c -= lambda2;
+
+        let l: number;
+        if (Math.abs(a) >= Math.abs(c)) {
+            l = Math.sqrt(a * a + b * b);
+            if (l !== 0) {
+                dir.x = -b / l;
+                dir.y = a / l;
+            }
+        } else {
+            l = Math.sqrt(c * c + b * b);
+            if (l !== 0) {
+                dir.x = -c / l;
+                dir.y = b / l;
+            }
+        }
+        if (l === 0) {
+            dir.x = dir.y = 0;
+        }
+    }
+
+    private static adjustVertices(path: TracePath) {
+        const m = path.m;
+        const po = path.po;
+        const n = path.len;
+        const pt = path.pt;
+        const x0 = path.x0;
+        const y0 = path.y0;
+        const ctr: Point[] = [];
+        const dir: Point[] = [];
+        const q: number[][] = [];
+        const v = [0, 0, 0];
+
+        path.curve = {
+            n: m,
+            tag: new Array(m),
+            c: new Array(m * 3),
+            vertex: new Array(m),
+        };
+
+        for (let i = 0; i < m; i++) {
+            let j = po[mod(i + 1, m)];
+            j = mod(j - po[i], n) + po[i];
+            ctr[i] = { x: 0, y: 0 };
+            dir[i] = { x: 0, y: 0 };
+            this.pointSlope(path, po[i], j, ctr[i], dir[i]);
+        }
+
+        for (let i = 0; i < m; i++) {
+            q[i] = new Array(9).fill(0);
+            const d = dir[i].x * dir[i].x + dir[i].y * dir[i].y;
+            if (d !== 0) {
+                v[0] = dir[i].y;
+                v[1] = -dir[i].x;
+                v[2] = -v[1] * ctr[i].y - v[0] * ctr[i].x;
+                for (let l = 0; l < 3; l++) {
+                    for (let k = 0; k < 3; k++) {
+                        q[i][l * 3 + k] = (v[l] * v[k]) / d;
+                    }
+                }
+            }
+        }
+
+        for (let i = 0; i < m; i++) {
+            const Q = new Array(9).fill(0);
+            const w: Point = { x: 0, y: 0 };
+            const s: Point = { x: pt[po[i]].x - x0, y: pt[po[i]].y - y0 };
+            const j = mod(i - 1, m);
+
+            for (let l = 0; l < 9; l++) Q[l] = q[j][l] + q[i][l];
+
+            while (true) {
+                const det = Q[0] * Q[4] - Q[1] * Q[3];
+                if (det !== 0) {
+                    w.x = (-Q[2] * Q[4] + Q[5] * Q[1]) / det;
+                    w.y = (Q[2] * Q[3] - Q[5] * Q[0]) / det;
+                    break;
+                }
+
+                if (Q[0] > Q[4]) {
+                    v[0] = -Q[1];
+                    v[1] = Q[0];
+                } else if (Q[4]) {
+                    v[0] = -Q[4];
+                    v[1] = Q[3];
+                } else {
+                    v[0] = 1;
+                    v[1] = 0;
+                }
+                const d = v[0] * v[0] + v[1] * v[1];
+                v[2] = -v[1] * s.y - v[0] * s.x;
+                for (let l = 0; l < 3; l++) {
+                    for (let k = 0; k < 3; k++) {
+                        Q[l * 3 + k] += (v[l] * v[k]) / d;
+                    }
+                }
+            }
+
+            if (Math.abs(w.x - s.x) <= 0.5 && Math.abs(w.y - s.y) <= 0.5) {
+                path.curve.vertex[i] = { x: w.x + x0, y: w.y + y0 };
+                continue;
+            }
+
+            let min = quadForm(Q, s);
+            let xmin = s.x;
+            let ymin = s.y;
+
+            if (Q[0] !== 0) {
+                for (let z = 0; z < 2; z++) {
+                    w.y = s.y - 0.5 + z;
+                    w.x = -(Q[1] * w.y + Q[2]) / Q[0];
+                    const cand = quadForm(Q, w);
+                    if (Math.abs(w.x - s.x) <= 0.5 && cand < min) {
+                        min = cand;
+                        xmin = w.x;
+                        ymin = w.y;
+                    }
+                }
+            }
+
+            if (Q[4] !== 0) {
+                for (let z = 0; z < 2; z++) {
+                    w.x = s.x - 0.5 + z;
+                    w.y = -(Q[3] * w.x + Q[5]) / Q[4];
+                    const cand = quadForm(Q, w);
+                    if (Math.abs(w.y - s.y) <= 0.5 && cand < min) {
+                        min = cand;
+                        xmin = w.x;
+                        ymin = w.y;
+                    }
+                }
+            }
+
+            for (let l = 0; l < 2; l++) {
+                for (let k = 0; k < 2; k++) {
+                    w.x = s.x - 0.5 + l;
+                    w.y = s.y - 0.5 + k;
+                    const cand = quadForm(Q, w);
+                    if (cand < min) {
+                        min = cand;
+                        xmin = w.x;
+                        ymin = w.y;
+                    }
+                }
+            }
+
+            path.curve.vertex[i] = { x: xmin + x0, y: ymin + y0 };
+        }
+    }
+
+    private static reverse(path: TracePath) {
+        path.curve.vertex.reverse();
+    }
+
+    // ---- Curve smoothing ----
+
+    private static smooth(path: TracePath, alphaMax: number) {
+        const curve = path.curve;
+        const m = curve.n;
+
+        for (let i = 0; i < m; i++) {
+            const j = mod(i + 1, m);
+            const k = mod(i + 2, m);
+            const p4 = interval(0.5, curve.vertex[k], curve.vertex[j]);
+
+            let alpha: number;
+            const denom = ddenom(curve.vertex[i], curve.vertex[k]);
+            if (denom !== 0) {
+                const dd = Math.abs(dpara(curve.vertex[i], curve.vertex[j], curve.vertex[k]) / denom);
+                alpha = (dd > 1 ? 1 - 1 / dd : 0) / 0.75;
+            } else {
+                alpha = 4 / 3;
+            }
+
+            if (alpha >= alphaMax) {
+                curve.tag[j] = 'CORNER';
+                curve.c[3 * j + 1] = curve.vertex[j];
+                curve.c[3 * j + 2] = p4;
+            } else {
+                alpha = Math.min(1, Math.max(0.55, alpha));
+                curve.tag[j] = 'CURVE';
+                curve.c[3 * j] = interval(0.5 + 0.5 * alpha, curve.vertex[i], curve.vertex[j]);
+                curve.c[3 * j + 1] = interval(0.5 + 0.5 * alpha, curve.vertex[k], curve.vertex[j]);
+                curve.c[3 * j + 2] = p4;
+            }
+        }
+    }
+}
+
+// ---- Geometry helpers ----
+
+function mod(a: number, n: number): number {
+    return a >= n ? a % n : a >= 0 ? a : n - 1 - ((-1 - a) % n);
+}
+
+function sign(value: number): number {
+    return value > 0 ? 1 : value < 0 ? -1 : 0;
+}
+
+function xprod(p1: Point, p2: Point): number {
+    return p1.x * p2.y - p1.y * p2.x;
+}
+
+function cyclic(a: number, b: number, c: number): boolean {
+    return a <= c ? a <= b && b < c : a <= b || b < c;
+}
+
+function quadForm(Q: number[], w: Point): number {
+    const v = [w.x, w.y, 1];
+    let sum = 0;
+    for (let i = 0; i < 3; i++) {
+        for (let j = 0; j < 3; j++) {
+            sum += v[i] * Q[i * 3 + j] * v[j];
+        }
+    }
+    return sum;
+}
+
+function interval(lambda: number, a: Point, b: Point): Point {
+    return { x: a.x + lambda * (b.x - a.x), y: a.y + lambda * (b.y - a.y) };
+}
+
+function ddenom(p0: Point, p2: Point): number {
+    const rx = -sign(p2.y - p0.y);
+    const ry = sign(p2.x - p0.x);
+    return ry * (p2.x - p0.x) - rx * (p2.y - p0.y);
+}
+
+function dpara(p0: Point, p1: Point, p2: Point): number {
+    return (p1.x - p0.x) * (p2.y - p0.y) - (p2.x - p0.x) * (p1.y - p0.y);
+}
+
+function round(value: number): number {
+    return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,263 @@
+import { StarVectorProcessor, StarVectorOptions, StarVectorResult } from './starVectorProcessor';
+import { InferenceServer } from './inferenceServer';
+import { Cancellation } from './cancellation';
+import { RequestExecutor } from './requestExecutor';
+import { FidelityScorer, FidelityReport } from './fidelityScorer';
+import { ProcessingTrace } from './processingTrace';
+
+export type LatencyClass = 'instant' | 'fast' | 'slow';
+
+// 'model' providers generate SVG with a neural model; 'tracer' providers trace pixels on-device
+export type ProviderKind = 'model' | 'tracer';
+
+export interface ProviderCapabilities {
+    available: boolean;
+    latency: LatencyClass;
+    supportsStreaming: boolean;
+    requiresNetwork: boolean;
+    reason?: string;            // Why the provider is unavailable
+    transient?: boolean;        // Unavailable for now (unreachable or failing), not because of settings
+}
+
+export interface VectorizationOutput {
+    svgCode: string;            // Raw markup; validated and optimized by the registry
+    model: string;              // Shown to the user as the model that made the design
+}
+
+export interface VectorizationProvider {
+    id: string;
+    name: string;
+    kind: ProviderKind;
+    getCapabilities(options: StarVectorOptions): Promise<ProviderCapabilities>;
+    vectorize(imageUri: string, options: StarVectorOptions, trace: ProcessingTrace): Promise<VectorizationOutput | null>;
+}
+
+/**
+ * Local CPU StarVector server (scripts/start_cpu_server.py)
+ */
+const localServerProvider: VectorizationProvider = {
+    id: 'starvector-local',
+    name: 'Local StarVector server',
+    kind: 'model',
+
+    async getCapabilities(options) {
+        // Servers without /generate_stream fall back to a single response
+        const capabilities = { latency: 'slow' as LatencyClass, supportsStreaming: true, requiresNetwork: true };
+        // A run's own setting wins over the one the processor was initialized with
+        if (!(options.useCPUMode ?? StarVectorProcessor.isCPUModeEnabled())) {
+            return { ...capabilities, available: false, reason: 'CPU mode disabled' };
+        }
+        if (!RequestExecutor.isAvailable('starvector-local')) {
+            return { ...capabilities, available: false, reason: 'skipped after repeated failures', transient: true };
+        }
+        const reachable = await StarVectorProcessor.checkLocalStarVector();
+        return {
+            ...capabilities,
+            available: reachable,
+            reason: reachable ? undefined : 'server not reachable, check Server Settings',
+            transient: !reachable,
+        };
+    },
+
+    async vectorize(imageUri, options, trace) {
+        const preparing = trace.begin('prepare-image', { provider: 'starvector-local', inputUri: imageUri });
+        const imageBase64 = await StarVectorProcessor.encodeImageForModel(imageUri, options);
+        preparing('Image prepared for StarVector processing');
+
+        // The server runs whichever model it was started with; report that one
+        const info = await InferenceServer.getInfo();
+        Cancellation.throwIfAborted(options.signal);
+        if (info) {
+            trace.record('server-info', `Local server running ${info.model} on ${info.device}`, {
+                provider: 'starvector-local',
+                parameters: { model: info.model, device: info.device },
+            });
+        }
+
+        const model = info?.model ?? StarVectorProcessor.modelId(options);
+        const svgCode = await StarVectorProcessor.callLocalStarVector(imageBase64, model, options);
+        return svgCode ? { svgCode, model: `${model} (Local ${(info?.device ?? 'cpu').toUpperCase()})` } : null;
+    },
+};
+
+/**
+ * StarVector on the HuggingFace Inference API
+ */
+const huggingFaceProvider: VectorizationProvider = {
+    id: 'huggingface',
+    name: 'StarVector on HuggingFace',
+    kind: 'model',
+
+    async getCapabilities(options) {
+        const hasToken = StarVectorProcessor.isAvailable() && !!options.huggingFaceToken;
+        const healthy = RequestExecutor.isAvailable('huggingface');
+        return {
+            available: hasToken && healthy,
+            latency: 'slow',
+            supportsStreaming: true,
+            requiresNetwork: true,
+            reason: !hasToken ? 'no HuggingFace token' : !healthy ? 'skipped after repeated failures' : undefined,
+            transient: hasToken && !healthy,
+        };
+    },
+
+    async vectorize(imageUri, options, trace) {
+        const preparing = trace.begin('prepare-image', { provider: 'huggingface', inputUri: imageUri });
+        const imageBase64 = await StarVectorProcessor.encodeImageForModel(imageUri, options);
+        preparing('Image prepared for StarVector processing');
+
+        const model = StarVectorProcessor.modelId(options);
+        const svgCode = await StarVectorProcessor.callStarVectorAPI(imageBase64, model, options);
+        return svgCode ? { svgCode, model } : null;
+    },
+};
+
+/**
+ * On-device Potrace-style tracer; always available
+ */
+const localTracerProvider: VectorizationProvider = {
+    id: 'local-tracer',
+    name: 'On-device tracer',
+    kind: 'tracer',
+
+    async getCapabilities() {
+        return { available: true, latency: 'fast', supportsStreaming: false, requiresNetwork: false };
+    },
+
+    async vectorize(imageUri, options, trace) {
+        const svgCode = await StarVectorProcessor.traceImage(imageUri, options, trace);
+        return { svgCode, model: 'Potrace-style tracer (Local)' };
+    },
+};
+
+export class VectorizationRegistry {
+    private static providers = new Map<string, VectorizationProvider>();
+
+    /**
+     * Add a provider, replacing any registered under the same id
+     */
+    static register(provider: VectorizationProvider) {
+        this.providers.set(provider.id, provider);
+    }
+
+    static unregister(id: string) {
+        this.providers.delete(id);
+    }
+
+    static get(id: string): VectorizationProvider | undefined {
+        return this.providers.get(id);
+    }
+
+    static list(): VectorizationProvider[] {
+        return [...this.providers.values()];
+    }
+
+    /**
+     * Providers in the preferred order; registered providers missing from the order go last
+     */
+    static resolve(order: string[] = []): VectorizationProvider[] {
+        const ordered = order
+            .map(id => this.providers.get(id))
+            .filter((provider): provider is VectorizationProvider => !!provider);
+        const rest = this.list().filter(provider => !order.includes(provider.id));
+        return [...ordered, ...rest];
+    }
+
+    /**
+     * Run one provider and validate, simplify, optimize and save its output.
+     * Failures resolve as an unsuccessful result; cancellation rejects with CancelledError.
+     */
+    static async run(provider: VectorizationProvider, imageUri: string, options: StarVectorOptions = {}): Promise<StarVectorResult> {
+        const trace = new ProcessingTrace([], options.onStep);
+        const vectorizing = trace.begin('vectorize', {
+            provider: provider.id,
+            inputUri: imageUri,
+            parameters: provider.kind === 'model'
+                ? { model: options.model, temperature: options.temperature, maxTokens: options.maxTokens }
+                : { ...options.tracing },
+        });
+
+        try {
+            console.log(`🧭 Vectorizing with ${provider.name}...`);
+            const output = await provider.vectorize(imageUri, options, trace);
+            if (!output) {
+                throw new Error(`${provider.name} returned no SVG`);
+            }
+            vectorizing(`SVG generated by ${provider.name}`);
+
+            const { svgCode, svgUri } = await StarVectorProcessor.finalizeSVG(output.svgCode, options, provider.id, trace);
+
+            const fidelity = await this.checkFidelity(imageUri, svgCode, provider.id, options, trace);
+            if (fidelity && !fidelity.passed) {
+                // Keep the design so callers can still offer it, but don't report it as a success
+                console.log(`⚠️ ${provider.name} output does not match the input: ${FidelityScorer.describe(fidelity)}`);
+                return {
+                    success: false,
+                    svgCode,
+                    svgUri,
+                    originalImageUri: imageUri,
+                    processingSteps: trace.steps,
+                    model: output.model,
+                    fidelity,
+                    lowFidelity: true,
+                    error: `Output does not match the input (fidelity ${Math.round(fidelity.score * 100)}%)`,
+                };
+            }
+            console.log(`✅ ${provider.name} complete!`);
+
+            return {
+                success: true,
+                svgCode,
+                svgUri,
+                originalImageUri: imageUri,
+                processingSteps: trace.steps,
+                model: output.model,
+                fidelity,
+            };
+        } catch (error: any) {
+            // A cancelled run must stop the pipeline, not fall through to the next provider
+            Cancellation.throwIfAborted(options.signal);
+            console.log(`⚠️ ${provider.name} failed:`, error.message);
+            trace.record('vectorize', `${provider.name} failed`, { provider: provider.id, outcome: 'failed', error: error.message });
+            return {
+                success: false,
+                originalImageUri: imageUri,
+                processingSteps: trace.steps,
+                error: error.message,
+            };
+        }
+    }
+
+    /**
+     * Compare the finished SVG with the input image.
+     * Undefined when the comparison can't run; that never fails the result.
+     */
+    private static async checkFidelity(
+        imageUri: string,
+        svgCode: string,
+        provider: string,
+        options: StarVectorOptions,
+        trace: ProcessingTrace
+    ): Promise<FidelityReport | undefined> {
+        const checking = trace.begin('fidelity', { provider, inputUri: imageUri, parameters: { ...options.fidelity } });
+        try {
+            const fidelity = await FidelityScorer.evaluate(imageUri, svgCode, options.fidelity);
+            Cancellation.throwIfAborted(options.signal);
+            checking(`Fidelity to input: ${FidelityScorer.describe(fidelity)}`, {
+                parameters: { ...options.fidelity, score: fidelity.score, iou: fidelity.iou, ssim: fidelity.ssim, chamfer: fidelity.chamfer },
+                outcome: fidelity.passed ? 'success' : 'flagged',
+                error: fidelity.passed ? undefined : 'below the minimum score, design does not match the input',
+            });
+            return fidelity;
+        } catch (error: any) {
+            Cancellation.throwIfAborted(options.signal);
+            console.log('Fidelity check failed:', error.message);
+            checking('Fidelity check skipped', { outcome: 'skipped', error: error.message });
+            return undefined;
+        }
+    }
+}
+
+VectorizationRegistry.register(localServerProvider);
+VectorizationRegistry.register(huggingFaceProvider);
+VectorizationRegistry.register(localTracerProvider);